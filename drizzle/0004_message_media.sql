@@ -0,0 +1,3 @@
+ALTER TABLE "message_logs" ADD COLUMN IF NOT EXISTS "media_path" text;--> statement-breakpoint
+ALTER TABLE "message_logs" ADD COLUMN IF NOT EXISTS "media_mime_type" varchar(100);--> statement-breakpoint
+ALTER TABLE "message_logs" ADD COLUMN IF NOT EXISTS "metadata" jsonb;
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "flow_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"flow" varchar(50) NOT NULL,
+	"session_key" varchar(100) NOT NULL,
+	"state" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "flow_session_key_idx" ON "flow_sessions" ("flow","session_key");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "flow_session_expires_idx" ON "flow_sessions" ("expires_at");
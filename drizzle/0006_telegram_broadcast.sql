@@ -0,0 +1,10 @@
+ALTER TABLE "marketing_campaigns" ADD COLUMN IF NOT EXISTS "platforms" jsonb DEFAULT '["whatsapp"]'::jsonb;--> statement-breakpoint
+ALTER TABLE "marketing_campaigns" ADD COLUMN IF NOT EXISTS "telegram_targets" jsonb;--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "telegram_chats" (
+	"chat_id" varchar(50) PRIMARY KEY NOT NULL,
+	"title" text,
+	"type" varchar(20) NOT NULL,
+	"is_admin" boolean DEFAULT false,
+	"is_member" boolean DEFAULT true,
+	"updated_at" timestamp DEFAULT now()
+);
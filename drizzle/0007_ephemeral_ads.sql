@@ -0,0 +1,19 @@
+ALTER TABLE "marketing_campaigns" ADD COLUMN IF NOT EXISTS "ad_ttl_minutes" integer DEFAULT 30;--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ephemeral_ads" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"campaign_id" integer REFERENCES "marketing_campaigns"("id") ON DELETE SET NULL,
+	"platform" varchar(20) DEFAULT 'whatsapp',
+	"chat_id" varchar(100) NOT NULL,
+	"message_id" varchar(100) NOT NULL,
+	"message_key" jsonb,
+	"sent_at" timestamp DEFAULT now(),
+	"expires_at" timestamp,
+	"status" varchar(20) DEFAULT 'live',
+	"delete_attempts" integer DEFAULT 0,
+	"next_attempt_at" timestamp,
+	"last_error" text,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ephemeral_status_expires_idx" ON "ephemeral_ads" ("status","expires_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ephemeral_campaign_idx" ON "ephemeral_ads" ("campaign_id");
@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "outbound_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"platform" varchar(20) DEFAULT 'whatsapp',
+	"jid" varchar(100) NOT NULL,
+	"kind" varchar(20) DEFAULT 'text' NOT NULL,
+	"content" text,
+	"media_path" text,
+	"media_mime_type" varchar(100),
+	"file_name" text,
+	"source" varchar(30) NOT NULL,
+	"message_log_id" integer REFERENCES "message_logs"("id") ON DELETE SET NULL,
+	"metadata" jsonb,
+	"status" varchar(20) DEFAULT 'pending',
+	"attempts" integer DEFAULT 0,
+	"next_attempt_at" timestamp DEFAULT now(),
+	"last_error" text,
+	"external_id" varchar(100),
+	"sent_at" timestamp,
+	"delivered_at" timestamp,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "outbox_status_next_idx" ON "outbound_messages" ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "outbox_external_idx" ON "outbound_messages" ("external_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "outbox_message_log_idx" ON "outbound_messages" ("message_log_id");
@@ -0,0 +1,4 @@
+ALTER TABLE "contacts" ADD COLUMN IF NOT EXISTS "ai_paused" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN IF NOT EXISTS "ai_paused_at" timestamp;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN IF NOT EXISTS "ai_paused_by" varchar(20);--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN IF NOT EXISTS "ai_paused_until" timestamp;
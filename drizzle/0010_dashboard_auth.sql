@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "dashboard_users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" varchar(50) NOT NULL UNIQUE,
+	"password_hash" text NOT NULL,
+	"role" varchar(20) DEFAULT 'viewer' NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"last_login_at" timestamp
+);--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "auth_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_hash" varchar(64) NOT NULL UNIQUE,
+	"user_id" integer NOT NULL REFERENCES "dashboard_users"("id") ON DELETE CASCADE,
+	"expires_at" timestamp NOT NULL,
+	"ip" varchar(64),
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now(),
+	"last_seen_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "auth_session_user_idx" ON "auth_sessions" ("user_id");--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer REFERENCES "dashboard_users"("id") ON DELETE SET NULL,
+	"username" varchar(50),
+	"action" varchar(100) NOT NULL,
+	"target" text,
+	"details" jsonb,
+	"ip" varchar(64),
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_created_at_idx" ON "audit_log" ("created_at");
@@ -0,0 +1,7 @@
+ALTER TABLE "scheduled_posts" ADD COLUMN IF NOT EXISTS "slot" varchar(40);--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN IF NOT EXISTS "approved_by" varchar(50);--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN IF NOT EXISTS "approved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN IF NOT EXISTS "sent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN IF NOT EXISTS "last_error" text;--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "sched_campaign_slot_idx" ON "scheduled_posts" ("campaign_id","slot");
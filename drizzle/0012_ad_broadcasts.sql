@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "ad_broadcasts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"campaign_id" integer REFERENCES "marketing_campaigns"("id") ON DELETE SET NULL,
+	"scheduled_post_id" integer REFERENCES "scheduled_posts"("id") ON DELETE SET NULL,
+	"source" varchar(20) NOT NULL,
+	"platform" varchar(20) DEFAULT 'whatsapp' NOT NULL,
+	"group_jid" varchar(100) NOT NULL,
+	"message_id" varchar(100) NOT NULL,
+	"framework" varchar(60),
+	"visual_style" varchar(60),
+	"slot" varchar(40),
+	"audience_size" integer,
+	"sent_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp,
+	"deleted_reason" varchar(20)
+);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "broadcast_message_idx" ON "ad_broadcasts" ("platform","group_jid","message_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "broadcast_campaign_idx" ON "ad_broadcasts" ("campaign_id","sent_at");--> statement-breakpoint
+ALTER TABLE "ad_engagements" ADD COLUMN IF NOT EXISTS "broadcast_id" integer REFERENCES "ad_broadcasts"("id") ON DELETE SET NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "eng_broadcast_idx" ON "ad_engagements" ("broadcast_id");
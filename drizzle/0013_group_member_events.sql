@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "group_member_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_jid" varchar(100) NOT NULL,
+	"phone" varchar(50) NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"actor" varchar(50),
+	"source" varchar(20) DEFAULT 'event' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "member_event_group_time_idx" ON "group_member_events" ("group_jid","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "member_event_action_idx" ON "group_member_events" ("action","created_at");
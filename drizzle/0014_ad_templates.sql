@@ -0,0 +1,5 @@
+ALTER TABLE "content_templates" ADD COLUMN IF NOT EXISTS "kind" varchar(20) DEFAULT 'framework' NOT NULL;--> statement-breakpoint
+ALTER TABLE "content_templates" ADD COLUMN IF NOT EXISTS "is_active" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "content_templates" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "template_kind_name_idx" ON "content_templates" ("kind","name");--> statement-breakpoint
+ALTER TABLE "marketing_campaigns" ADD COLUMN IF NOT EXISTS "template_ids" jsonb;
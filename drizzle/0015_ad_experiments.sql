@@ -0,0 +1,4 @@
+ALTER TABLE "marketing_campaigns" ADD COLUMN IF NOT EXISTS "experiment_mode" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "ad_broadcasts" ADD COLUMN IF NOT EXISTS "variant" varchar(10);--> statement-breakpoint
+ALTER TABLE "ad_broadcasts" ADD COLUMN IF NOT EXISTS "experiment_key" varchar(60);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "broadcast_experiment_idx" ON "ad_broadcasts" ("campaign_id","experiment_key");
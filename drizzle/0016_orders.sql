@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer REFERENCES "contacts"("id") ON DELETE SET NULL,
+	"jid" varchar(100) NOT NULL,
+	"platform" varchar(20) DEFAULT 'whatsapp' NOT NULL,
+	"customer_name" text,
+	"status" varchar(20) DEFAULT 'draft' NOT NULL,
+	"total" integer DEFAULT 0 NOT NULL,
+	"notes" text,
+	"confirmed_at" timestamp,
+	"status_changed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "order_status_idx" ON "orders" ("status","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "order_contact_idx" ON "orders" ("contact_id","status");--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "order_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+	"product_id" integer REFERENCES "products"("id") ON DELETE SET NULL,
+	"product_name" varchar(200) NOT NULL,
+	"unit_price" integer DEFAULT 0 NOT NULL,
+	"quantity" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "order_item_order_idx" ON "order_items" ("order_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "order_item_product_idx" ON "order_items" ("order_id","product_id");
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "payments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer REFERENCES "orders"("id") ON DELETE SET NULL,
+	"contact_id" integer REFERENCES "contacts"("id") ON DELETE SET NULL,
+	"provider" varchar(20) NOT NULL,
+	"phone" varchar(20) NOT NULL,
+	"amount" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"checkout_request_id" varchar(100),
+	"merchant_request_id" varchar(100),
+	"receipt_number" varchar(50),
+	"amount_paid" integer,
+	"result_code" integer,
+	"result_desc" text,
+	"callback" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "payment_checkout_idx" ON "payments" ("provider","checkout_request_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payment_order_idx" ON "payments" ("order_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payment_status_idx" ON "payments" ("status","created_at");
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "bookings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer REFERENCES "contacts"("id") ON DELETE SET NULL,
+	"jid" varchar(100) NOT NULL,
+	"platform" varchar(20) DEFAULT 'whatsapp' NOT NULL,
+	"event_id" varchar(200) NOT NULL,
+	"customer_name" text,
+	"purpose" text,
+	"location" text,
+	"meet_link" text,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp,
+	"timezone" varchar(50),
+	"status" varchar(20) DEFAULT 'scheduled' NOT NULL,
+	"reminders_sent" jsonb,
+	"cancelled_by" varchar(20),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "bookings_event_id_unique" UNIQUE("event_id")
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_status_start_idx" ON "bookings" ("status","start_time");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_jid_idx" ON "bookings" ("jid","start_time");
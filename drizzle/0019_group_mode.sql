@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "group_settings" (
+	"group_jid" varchar(100) PRIMARY KEY NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"persona" text,
+	"allowed_tools" jsonb,
+	"updated_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "group_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_jid" varchar(100) NOT NULL,
+	"sender_jid" varchar(100),
+	"sender_name" text,
+	"role" varchar(10) NOT NULL,
+	"content" text NOT NULL,
+	"message_id" varchar(100),
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "group_message_group_idx" ON "group_messages" ("group_jid","created_at");
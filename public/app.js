@@ -14,16 +14,248 @@ let qrTimerRemaining = 60; // 60 seconds
 let currentQRData = null;
 let qrIsDisplayed = false; // Flag to prevent overwriting active QR code
 
+// Signed-in dashboard user ({ id, username, role })
+let currentUser = null;
+
+// Pages each non-owner role can open (owners see everything)
+const PAGE_ACCESS = {
+    staff: ['chats', 'contacts', 'orders', 'guide'],
+    viewer: ['dashboard', 'analytics', 'guide']
+};
+
+// Any API call that comes back 401 means the session expired: ask to sign in again
+const nativeFetch = window.fetch.bind(window);
+window.fetch = async (...args) => {
+    const response = await nativeFetch(...args);
+    if (response.status === 401 && !String(args[0]).includes('/api/auth/')) {
+        showLoginScreen();
+    }
+    return response;
+};
+
 // Initialize App
-document.addEventListener('DOMContentLoaded', () => {
+document.addEventListener('DOMContentLoaded', async () => {
+    initializeTheme();
+    initializeLogin();
+
+    if (!(await loadCurrentUser())) {
+        showLoginScreen();
+        return;
+    }
+
     initializeNavigation();
+    applyRoleAccess();
     initializeRefresh();
     initializeSettings();
     startStatusPolling();
     checkNotificationPermission();
-    initializeTheme(); // Add this
 });
 
+// Auth
+async function loadCurrentUser() {
+    try {
+        const response = await nativeFetch(`${API_BASE}/api/auth/me`);
+        if (!response.ok) return false;
+        const data = await response.json();
+        currentUser = data.user;
+
+        document.getElementById('current-user').style.display = 'flex';
+        document.getElementById('current-user-name').textContent = `👤 ${currentUser.username} (${currentUser.role})`;
+        return true;
+    } catch (error) {
+        console.error('Failed to load current user:', error);
+        return false;
+    }
+}
+
+function canAccessPage(page) {
+    if (!currentUser || currentUser.role === 'owner') return true;
+    return (PAGE_ACCESS[currentUser.role] || []).includes(page);
+}
+
+function applyRoleAccess() {
+    document.querySelectorAll('.nav-item[data-page], .mobile-nav-item[data-page]').forEach(item => {
+        item.style.display = canAccessPage(item.dataset.page) ? '' : 'none';
+    });
+
+    if (!canAccessPage(currentPage)) {
+        switchPage(PAGE_ACCESS[currentUser.role][0]);
+    }
+}
+
+function showLoginScreen() {
+    document.getElementById('login-screen').style.display = 'flex';
+    document.getElementById('login-username').focus();
+}
+
+function initializeLogin() {
+    const form = document.getElementById('login-form');
+    if (!form) return;
+
+    form.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const errorEl = document.getElementById('login-error');
+        const submitBtn = document.getElementById('login-submit');
+        errorEl.textContent = '';
+        submitBtn.disabled = true;
+
+        try {
+            const response = await nativeFetch(`${API_BASE}/api/auth/login`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    username: document.getElementById('login-username').value.trim(),
+                    password: document.getElementById('login-password').value
+                })
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Sign in failed');
+
+            // Start fresh so every page loads with the new session and role
+            window.location.reload();
+        } catch (error) {
+            errorEl.textContent = error.message;
+            submitBtn.disabled = false;
+        }
+    });
+}
+
+window.logout = async function () {
+    try {
+        await nativeFetch(`${API_BASE}/api/auth/logout`, { method: 'POST' });
+    } finally {
+        window.location.reload();
+    }
+};
+
+window.changeMyPassword = async function () {
+    const currentPassword = prompt('Current password:');
+    if (!currentPassword) return;
+    const newPassword = prompt('New password (at least 10 characters):');
+    if (!newPassword) return;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/auth/password`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ currentPassword, newPassword })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+
+        alert('Password changed. Please sign in again.');
+        window.location.reload();
+    } catch (error) {
+        showToast('Failed to change password: ' + error.message, 'error');
+    }
+};
+
+// Dashboard users (owner only, Settings page)
+async function loadDashboardUsers() {
+    const list = document.getElementById('dashboard-users-list');
+    if (!list) return;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/auth/users`);
+        const users = await response.json();
+        if (!response.ok) throw new Error(users.error || 'Request failed');
+
+        list.innerHTML = users.map(user => `
+            <div class="dashboard-user-row">
+                <span class="dashboard-user-name">${escapeHtml(user.username)}${user.id === currentUser.id ? ' (you)' : ''}${user.isActive === false ? ' · disabled' : ''}</span>
+                <select onchange="updateDashboardUser(${user.id}, { role: this.value })" ${user.id === currentUser.id ? 'disabled' : ''}>
+                    ${['owner', 'staff', 'viewer'].map(role => `<option value="${role}" ${user.role === role ? 'selected' : ''}>${role}</option>`).join('')}
+                </select>
+                ${user.id === currentUser.id ? '' : `
+                    <button type="button" class="btn-sm-secondary" onclick="updateDashboardUser(${user.id}, { isActive: ${user.isActive === false} })">${user.isActive === false ? 'Enable' : 'Disable'}</button>
+                    <button type="button" class="btn-sm-secondary" onclick="deleteDashboardUser(${user.id}, '${escapeHtml(user.username)}')">Delete</button>
+                `}
+            </div>
+        `).join('');
+    } catch (error) {
+        console.error('Failed to load dashboard users:', error);
+        list.innerHTML = `<p style="color: var(--danger);">Failed to load users</p>`;
+    }
+}
+
+window.createDashboardUser = async function (event) {
+    event.preventDefault();
+    try {
+        const response = await fetch(`${API_BASE}/api/auth/users`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                username: document.getElementById('new-user-username').value.trim(),
+                password: document.getElementById('new-user-password').value,
+                role: document.getElementById('new-user-role').value
+            })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+
+        event.target.reset();
+        showToast(`User ${data.user.username} added`, 'success');
+        loadDashboardUsers();
+        loadAuditLog();
+    } catch (error) {
+        showToast('Failed to add user: ' + error.message, 'error');
+    }
+};
+
+window.updateDashboardUser = async function (id, changes) {
+    try {
+        const response = await fetch(`${API_BASE}/api/auth/users/${id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes)
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+        showToast('User updated', 'success');
+    } catch (error) {
+        showToast('Failed to update user: ' + error.message, 'error');
+    }
+    loadDashboardUsers();
+    loadAuditLog();
+};
+
+window.deleteDashboardUser = async function (id, username) {
+    if (!confirm(`Delete user "${username}"? They will be signed out immediately.`)) return;
+    try {
+        const response = await fetch(`${API_BASE}/api/auth/users/${id}`, { method: 'DELETE' });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+        showToast('User deleted', 'success');
+    } catch (error) {
+        showToast('Failed to delete user: ' + error.message, 'error');
+    }
+    loadDashboardUsers();
+    loadAuditLog();
+};
+
+async function loadAuditLog() {
+    const list = document.getElementById('audit-log-list');
+    if (!list) return;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/audit-log?limit=20`);
+        const entries = await response.json();
+        if (!response.ok) throw new Error(entries.error || 'Request failed');
+
+        list.innerHTML = entries.length === 0
+            ? '<p style="color: var(--text-secondary);">No changes recorded yet</p>'
+            : entries.map(entry => `
+                <div class="audit-log-row">
+                    <span><strong>${escapeHtml(entry.username || 'deleted user')}</strong> ${escapeHtml(entry.action)}${entry.target ? ` <code>${escapeHtml(entry.target)}</code>` : ''}</span>
+                    <span>${new Date(entry.createdAt).toLocaleString()}</span>
+                </div>
+            `).join('');
+    } catch (error) {
+        console.error('Failed to load audit log:', error);
+        list.innerHTML = `<p style="color: var(--danger);">Failed to load audit log</p>`;
+    }
+}
+
 // Theme Logic
 // Theme Logic
 function initializeTheme() {
@@ -186,6 +418,8 @@ function triggerNavPeekAnimation(navElement) {
 }
 
 function switchPage(page) {
+    if (!canAccessPage(page)) return;
+
     // Update nav (Desktop)
     document.querySelectorAll('.nav-item').forEach(item => {
         item.classList.remove('active');
@@ -259,6 +493,12 @@ function loadPageData(page) {
         case 'shops':
             loadShops();
             break;
+        case 'orders':
+            loadOrders();
+            break;
+        case 'bookings':
+            loadBookings();
+            break;
         case 'analytics':
             loadAnalytics();
             break;
@@ -286,7 +526,7 @@ async function checkStatus() {
             handleJustConnected();
         }
 
-        updateConnectionStatus(newStatus, data.whatsapp.qr);
+        updateConnectionStatus(newStatus, data.whatsapp.qr, data.whatsapp.error);
 
         // If status changed, reload current page
         if (newStatus !== connectionStatus) {
@@ -442,13 +682,14 @@ function showQRCode(qrData) {
     showQRSection();
 }
 
-function updateConnectionStatus(status, qr = null) {
+function updateConnectionStatus(status, qr = null, error = null) {
     const statusEl = document.getElementById('connection-status');
     const indicator = statusEl.querySelector('.status-indicator');
     const label = statusEl.querySelector('.status-label');
     const detail = statusEl.querySelector('.status-detail');
 
     indicator.className = 'status-indicator';
+    detail.title = '';
 
     switch (status) {
         case 'CONNECTED':
@@ -470,6 +711,15 @@ function updateConnectionStatus(status, qr = null) {
             showQRSection();
             showOnboardingOverlay();
             break;
+        case 'AUTH_KEY_ERROR':
+            // The saved session can't be decrypted with the server's key; the reason shows on hover
+            indicator.classList.add('disconnected');
+            label.textContent = 'Session locked';
+            detail.textContent = 'Wrong AUTH_ENCRYPTION_KEY';
+            detail.title = error || '';
+            hideQRSection();
+            qrIsDisplayed = false;
+            break;
         default:
             indicator.classList.add('disconnected');
             label.textContent = 'Disconnected';
@@ -650,7 +900,7 @@ function renderChatList(chats) {
             <div class="chat-avatar">${(chat.name || 'Unknown').charAt(0).toUpperCase()}</div>
             <div class="chat-info">
                 <div class="chat-header">
-                    <span class="chat-name">${chat.name || 'Unknown'}</span>
+                    <span class="chat-name">${chat.name || 'Unknown'}${chat.aiPaused ? '<span class="chat-takeover-badge" title="AI paused - you are handling this chat">🙋 You</span>' : ''}</span>
                     <span class="chat-time">${chat.lastMessageTime ? formatTime(new Date(chat.lastMessageTime).getTime()) : ''}</span>
                 </div>
                 <div class="chat-preview">${chat.lastMessage || 'No messages'}</div>
@@ -659,6 +909,174 @@ function renderChatList(chats) {
     `}).join('');
 }
 
+function renderMessageMedia(msg) {
+    if (msg.type === 'location' && msg.metadata && msg.metadata.latitude !== undefined) {
+        const { latitude, longitude } = msg.metadata;
+        return `<a class="message-media-link" href="https://www.google.com/maps?q=${latitude},${longitude}" target="_blank" rel="noopener">📍 Open in Maps</a>`;
+    }
+    if (!msg.mediaPath) return '';
+    const url = `${API_BASE}/api/media/${encodeURIComponent(msg.mediaPath)}`;
+    if ((msg.mediaMimeType || '').startsWith('image/')) {
+        return `<a href="${url}" target="_blank" rel="noopener"><img class="message-media-image" src="${url}" alt="${msg.role === 'agent' ? 'Image sent' : 'Image from contact'}" style="max-width: 220px; border-radius: 8px; display: block; margin-bottom: 6px;"></a>`;
+    }
+    return `<a class="message-media-link" href="${url}" target="_blank" rel="noopener">📎 Open attachment</a>`;
+}
+
+// Delivery ticks for agent messages (outbox status)
+function renderDeliveryStatus(msg) {
+    if (msg.role !== 'agent' || !msg.deliveryStatus) return '';
+    const ticks = {
+        pending: { icon: '🕓', label: 'Queued' },
+        sending: { icon: '🕓', label: 'Sending' },
+        sent: { icon: '✓', label: 'Sent' },
+        delivered: { icon: '✓✓', label: 'Delivered' },
+        read: { icon: '✓✓', label: 'Read' },
+        failed: { icon: '⚠️', label: 'Failed to send' }
+    };
+    const tick = ticks[msg.deliveryStatus];
+    if (!tick) return '';
+    const color = msg.deliveryStatus === 'read' ? 'color: #53bdeb;' : '';
+    return ` <span class="message-status" title="${tick.label}" style="${color}">${tick.icon}</span>`;
+}
+
+// Human takeover: pause the AI for this contact and handle the chat yourself
+function renderTakeoverToggle(phone, contact) {
+    const paused = !!contact.aiPaused;
+    const until = paused && contact.aiPausedUntil ? ` until ${new Date(contact.aiPausedUntil).toLocaleTimeString()}` : '';
+    const title = paused
+        ? `AI paused${until}${contact.aiPausedBy === 'auto' ? ' (you replied by hand)' : ''}. Click to hand back to the AI.`
+        : 'Pause the AI and handle this chat yourself';
+    return `
+        <button type="button" class="btn-sm-secondary chat-takeover-toggle ${paused ? 'is-paused' : ''}" title="${title}" onclick="toggleTakeover('${phone}', ${!paused})">
+            ${paused ? '🤖 Hand back to AI' : '🙋 Take over'}
+        </button>
+    `;
+}
+
+window.toggleTakeover = async function (phone, paused) {
+    try {
+        const response = await fetch(`${API_BASE}/api/chats/${phone}/takeover`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ paused })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+
+        showToast(paused ? 'AI paused - you are handling this chat' : 'Chat handed back to the AI', 'success');
+
+        const chat = chats.find(c => c.phone === phone);
+        if (chat) {
+            chat.aiPaused = data.paused;
+            chat.aiPausedBy = data.pausedBy;
+            chat.aiPausedUntil = data.pausedUntil;
+        }
+        await selectChat(phone);
+    } catch (error) {
+        console.error('Failed to toggle takeover:', error);
+        showToast('Failed to update takeover: ' + error.message, 'error');
+    }
+};
+
+// Composer: send a message by hand (text, image or document) through the outbox
+const MAX_COMPOSER_FILE_BYTES = 7 * 1024 * 1024; // base64 must fit the API's 10mb JSON limit
+
+function renderChatComposer(phone) {
+    return `
+        <form class="chat-composer" onsubmit="sendChatMessage(event, '${phone}')">
+            <label class="chat-composer-attach" title="Attach an image or document">
+                📎
+                <input type="file" id="chat-composer-file" hidden onchange="updateComposerAttachment()">
+            </label>
+            <div class="chat-composer-main">
+                <div class="chat-composer-file" id="chat-composer-file-name" style="display: none;"></div>
+                <textarea id="chat-composer-text" rows="1" placeholder="Type a message…" onkeydown="handleComposerKey(event)"></textarea>
+            </div>
+            <button type="submit" class="btn-sm-primary" id="chat-composer-send">Send</button>
+        </form>
+    `;
+}
+
+window.handleComposerKey = function (event) {
+    // Enter sends, Shift+Enter adds a new line
+    if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        event.target.form.requestSubmit();
+    }
+};
+
+window.updateComposerAttachment = function () {
+    const input = document.getElementById('chat-composer-file');
+    const label = document.getElementById('chat-composer-file-name');
+    const file = input.files[0];
+    if (!file) {
+        label.style.display = 'none';
+        return;
+    }
+    if (file.size > MAX_COMPOSER_FILE_BYTES) {
+        showToast('File is too large (max 7 MB)', 'error');
+        input.value = '';
+        label.style.display = 'none';
+        return;
+    }
+    label.innerHTML = `${file.type.startsWith('image/') ? '🖼️' : '📄'} ${escapeHtml(file.name)} <button type="button" onclick="clearComposerAttachment()" aria-label="Remove attachment">✕</button>`;
+    label.style.display = 'block';
+};
+
+window.clearComposerAttachment = function () {
+    document.getElementById('chat-composer-file').value = '';
+    document.getElementById('chat-composer-file-name').style.display = 'none';
+};
+
+function readFileAsBase64(file) {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result).split(',')[1]);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+window.sendChatMessage = async function (event, phone) {
+    event.preventDefault();
+    const textInput = document.getElementById('chat-composer-text');
+    const fileInput = document.getElementById('chat-composer-file');
+    const sendBtn = document.getElementById('chat-composer-send');
+    const text = textInput.value.trim();
+    const file = fileInput.files[0];
+
+    if (!text && !file) return;
+
+    sendBtn.disabled = true;
+    sendBtn.textContent = 'Sending…';
+
+    try {
+        const payload = { text };
+        if (file) {
+            payload.attachment = {
+                data: await readFileAsBase64(file),
+                mimeType: file.type || 'application/octet-stream',
+                fileName: file.name
+            };
+        }
+
+        const response = await fetch(`${API_BASE}/api/chats/${phone}/messages`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload)
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+
+        await Promise.all([selectChat(phone), loadChats()]);
+    } catch (error) {
+        console.error('Failed to send message:', error);
+        showToast('Failed to send message: ' + error.message, 'error');
+        sendBtn.disabled = false;
+        sendBtn.textContent = 'Send';
+    }
+};
+
 async function selectChat(phone) {
     window._activeChatJid = phone;
     const chatDetail = document.getElementById('chat-detail');
@@ -691,15 +1109,18 @@ async function selectChat(phone) {
                         <h3 class="chat-detail-name">${contact.name || 'Unknown'}</h3>
                         <p class="chat-detail-phone">${phone}</p>
                     </div>
+                    ${renderTakeoverToggle(phone, contact)}
                 </header>
                 <div class="chat-messages-list">
                     ${messages.map(msg => `
                         <div class="message ${msg.role === 'agent' ? 'message-sent' : 'message-received'}">
+                            ${renderMessageMedia(msg)}
                             <div class="message-content">${escapeHtml(msg.content)}</div>
-                            <span class="message-time">${formatTime(new Date(msg.createdAt).getTime())}</span>
+                            <span class="message-time">${formatTime(new Date(msg.createdAt).getTime())}${renderDeliveryStatus(msg)}</span>
                         </div>
                     `).join('')}
                 </div>
+                ${renderChatComposer(phone)}
             </div>
         `;
 
@@ -864,6 +1285,10 @@ async function loadCommunities() {
         const groups = data.groups;
         console.log(`✅ Loaded ${groups.length} groups`);
 
+        // Which groups have group mode (AI replies) switched on
+        const settingsRes = await fetch(`${API_BASE}/api/groups/settings`).then(r => r.json()).catch(() => null);
+        const repliesOn = new Set((settingsRes?.settings || []).filter(s => s.enabled).map(s => s.groupJid));
+
         if (totalCountEl) totalCountEl.textContent = groups.length;
         if (totalReachEl) totalReachEl.textContent = groups.reduce((sum, g) => sum + (g.participants || 0), 0);
 
@@ -873,8 +1298,9 @@ async function loadCommunities() {
                     <div class="marketing-list-item-icon">👥</div>
                     <div class="marketing-list-item-info">
                         <h4>${group.name}</h4>
-                        <p>${group.participants || 0} members</p>
+                        <p>${group.participants || 0} members · AI replies ${repliesOn.has(group.id) ? 'on' : 'off'}</p>
                     </div>
+                    <button class="marketing-btn-secondary" onclick="openGroupModeModal('${group.id}', '${escapeHtml(group.name).replace(/'/g, '&#39;')}')">AI replies</button>
                 </div>
             </div>
         `).join('');
@@ -888,6 +1314,64 @@ async function loadCommunities() {
     }
 }
 
+window.openGroupModeModal = async function (jid, name) {
+    try {
+        const response = await fetch(`${API_BASE}/api/groups/${encodeURIComponent(jid)}/settings`);
+        const result = await response.json();
+        if (!response.ok || !result.success) throw new Error(result.error);
+
+        const { settings, availableTools } = result;
+        const allowed = settings.allowedTools || availableTools;
+        document.getElementById('group-mode-title').textContent = `AI replies in ${name}`;
+        document.getElementById('group-mode-jid').value = jid;
+        document.getElementById('group-mode-enabled').checked = settings.enabled;
+        document.getElementById('group-mode-persona').value = settings.persona || '';
+        document.getElementById('group-mode-tools').innerHTML = availableTools.map(tool => `
+            <label><input type="checkbox" value="${tool}" ${allowed.includes(tool) ? 'checked' : ''}> ${tool}</label>
+        `).join('');
+        document.getElementById('groupModeModal').style.display = 'flex';
+    } catch (e) {
+        console.error('Failed to load group settings:', e);
+        showToast('Failed to load group settings', 'error');
+    }
+};
+
+window.closeGroupModeModal = function () {
+    document.getElementById('groupModeModal').style.display = 'none';
+};
+
+window.saveGroupMode = async function (e) {
+    e.preventDefault();
+    const jid = document.getElementById('group-mode-jid').value;
+    const boxes = [...document.querySelectorAll('#group-mode-tools input[type="checkbox"]')];
+    const checked = boxes.filter(b => b.checked).map(b => b.value);
+
+    try {
+        const response = await fetch(`${API_BASE}/api/groups/${encodeURIComponent(jid)}/settings`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                enabled: document.getElementById('group-mode-enabled').checked,
+                persona: document.getElementById('group-mode-persona').value,
+                // Everything ticked means "all group tools", so newly added tools are included too
+                allowedTools: checked.length === boxes.length ? null : checked
+            })
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+            showToast(result.error || 'Failed to save group settings', 'error');
+            return;
+        }
+        showToast('Group settings saved', 'success');
+        closeGroupModeModal();
+        window._lastCommunitiesFetch = 0;
+        loadCommunities();
+    } catch (e) {
+        console.error('Failed to save group settings:', e);
+        showToast('Failed to save group settings', 'error');
+    }
+};
+
 function filterCommunities() {
     const query = document.getElementById('communities-search').value.toLowerCase();
     const items = document.querySelectorAll('#communities-list .marketing-list-item');
@@ -898,9 +1382,69 @@ function filterCommunities() {
     });
 }
 
+// AI providers (owner only, Settings page)
+const LLM_TASKS = ['replies', 'reports', 'profiling', 'ad_copy'];
+
+function renderLlmProviders(data) {
+    LLM_TASKS.forEach(task => {
+        const input = document.getElementById(`llm-provider-${task}`);
+        if (input) input.value = (data.tasks[task] || []).join(',');
+    });
+
+    const status = document.getElementById('llm-provider-status');
+    if (status) {
+        status.innerHTML = data.providers.map(p => {
+            const state = !p.usable ? 'not configured' : p.available ? 'ready' : 'unavailable';
+            return `<span class="llm-provider-chip ${p.available ? 'ready' : ''}"><strong>${escapeHtml(p.name)}</strong>${p.model ? ` · ${escapeHtml(p.model)}` : ''} · ${state}</span>`;
+        }).join('');
+    }
+}
+
+async function loadLlmProviders() {
+    if (!document.getElementById('llm-provider-status')) return;
+    try {
+        const response = await fetch(`${API_BASE}/api/llm/providers`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+        renderLlmProviders(data);
+    } catch (error) {
+        console.error('Failed to load AI providers:', error);
+        document.getElementById('llm-provider-status').textContent = 'Failed to load providers';
+    }
+}
+
+window.saveLlmProviders = async function (btn) {
+    const tasks = {};
+    LLM_TASKS.forEach(task => {
+        tasks[task] = document.getElementById(`llm-provider-${task}`)?.value.trim() || 'gemini';
+    });
+
+    btn.disabled = true;
+    try {
+        const response = await fetch(`${API_BASE}/api/llm/providers`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ tasks })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+        renderLlmProviders(data);
+        showToast('AI providers saved', 'success');
+    } catch (error) {
+        console.error('Failed to save AI providers:', error);
+        showToast(`Failed to save AI providers: ${error.message}`, 'error');
+    } finally {
+        btn.disabled = false;
+    }
+};
+
 // Settings
 
 async function loadSettings() {
+    loadDashboardUsers();
+    loadAuditLog();
+    loadLlmProviders();
+
     const statusEl = document.getElementById('settings-status');
     const phoneEl = document.getElementById('settings-phone');
 
@@ -925,6 +1469,8 @@ async function loadSettings() {
             if (minDur) minDur.value = s['min_meeting_duration'] || '10';
             const buf = document.getElementById('buffer-time');
             if (buf) buf.value = s['buffer_time'] || '15';
+            const reminders = document.getElementById('booking-reminder-hours');
+            if (reminders) reminders.value = s['booking_reminder_hours'] || '24,1';
             const bd = document.getElementById('booking-days');
             const bdVal = s['booking_days'] || '1,2,3,4,5';
             if (bd) bd.value = bdVal;
@@ -947,6 +1493,12 @@ async function loadSettings() {
                 chatAgentToggle.checked = chatAgentEnabled;
                 updateChatAgentStatus(chatAgentEnabled);
             }
+
+            // Load Voice Reply Status
+            const voiceRepliesToggle = document.getElementById('voice-replies-toggle');
+            if (voiceRepliesToggle) {
+                voiceRepliesToggle.checked = s['voice_replies_enabled'] === 'true'; // Default to false if not set
+            }
         }
     } catch (error) {
         console.error('Failed to load system settings:', error);
@@ -1065,6 +1617,7 @@ function initializeSettings() {
                 { key: 'working_hours_end', value: document.getElementById('working-hours-end')?.value || '18:00' },
                 { key: 'min_meeting_duration', value: document.getElementById('min-meeting-duration')?.value || '10' },
                 { key: 'buffer_time', value: document.getElementById('buffer-time')?.value || '15' },
+                { key: 'booking_reminder_hours', value: document.getElementById('booking-reminder-hours')?.value.trim() || '24,1' },
                 { key: 'booking_days', value: getBookingDaysFromPills() }
             ];
             for (const { key, value } of items) {
@@ -1321,6 +1874,44 @@ function initializeSettings() {
         });
     }
 
+    // Voice Replies Toggle
+    const voiceRepliesToggle = document.getElementById('voice-replies-toggle');
+    if (voiceRepliesToggle) {
+        voiceRepliesToggle.addEventListener('change', async (event) => {
+            event.stopPropagation();
+
+            const isEnabled = voiceRepliesToggle.checked;
+            voiceRepliesToggle.disabled = true;
+
+            try {
+                const response = await fetch(`${API_BASE}/api/settings/system`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        key: 'voice_replies_enabled',
+                        value: isEnabled ? 'true' : 'false'
+                    })
+                });
+
+                const data = await response.json();
+                if (data.success || response.ok) {
+                    showToast(
+                        isEnabled ? '🎤 Voice replies enabled' : '💬 Voice notes will be answered with text',
+                        'success'
+                    );
+                } else {
+                    throw new Error(data.error || 'Failed to update setting');
+                }
+            } catch (error) {
+                console.error('Failed to update voice replies:', error);
+                voiceRepliesToggle.checked = !isEnabled;
+                showToast('Failed to update voice reply settings', 'error');
+            } finally {
+                voiceRepliesToggle.disabled = false;
+            }
+        });
+    }
+
     // Chat Agent Save Button
     const saveChatAgentBtn = document.getElementById('save-chat-agent-btn');
     if (saveChatAgentBtn) {
@@ -2015,6 +2606,8 @@ function loadMarketing() {
     loadMiniStats();
     // loadMiniProfile(); // Removed
     refreshCampaigns();
+    loadScheduledPosts();
+    loadAdTemplates();
 }
 
 // Load Stats
@@ -2145,21 +2738,476 @@ async function refreshCampaigns() {
     }
 }
 
-// Refresh Groups
-window.refreshMiniGroups = async function () {
-    const list = document.getElementById('mini-groups-list');
+// ==================== CONTENT CALENDAR ====================
+
+// datetime-local value (browser time) for a timestamp
+function toLocalInputValue(date) {
+    const d = new Date(date);
+    d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+    return d.toISOString().slice(0, 16);
+}
+
+async function loadScheduledPosts() {
+    const list = document.getElementById('calendar-posts-list');
+    if (!list) return;
+
+    const status = document.getElementById('calendar-status-filter')?.value || '';
     list.innerHTML = '<p class="empty-text">Loading...</p>';
 
     try {
-        const response = await fetch(`${API_BASE}/api/marketing/groups`);
+        const query = status ? `?status=${status}` : '';
+        const response = await fetch(`${API_BASE}/api/marketing/scheduled-posts${query}`);
         const result = await response.json();
+        if (!result.success) throw new Error(result.error);
 
-        if (result.success && result.groups) {
-            list.innerHTML = result.groups.map(g => `
-                <div class="mini-card">
-                    <h4>${g.name || 'Unknown Group'}</h4>
-                    <p>${g.participants || 0} members</p>
-                    <small style="opacity: 0.6;">${g.id}</small>
+        // "All open" hides history; pick Sent/Cancelled to see it
+        const posts = status ? result.posts : result.posts.filter(p => ['pending', 'approved', 'failed'].includes(p.status));
+        if (posts.length === 0) {
+            list.innerHTML = '<p class="empty-text">No posts here. Drafts for active campaigns appear automatically.</p>';
+            return;
+        }
+
+        list.innerHTML = posts.map(renderScheduledPost).join('');
+    } catch (e) {
+        console.error('Failed to load scheduled posts:', e);
+        list.innerHTML = '<p class="empty-text">Error loading the content calendar.</p>';
+    }
+}
+
+function renderScheduledPost(post) {
+    const open = ['pending', 'approved', 'failed'].includes(post.status);
+    const when = new Date(post.scheduledTime).toLocaleString();
+    const image = post.mediaUrl
+        ? `<img class="calendar-post-image" src="${API_BASE}/api/media/${encodeURIComponent(post.mediaUrl)}" alt="Ad image">`
+        : '';
+
+    return `
+        <div class="calendar-post" id="calendar-post-${post.id}">
+            <div class="calendar-post-header">
+                <div class="marketing-campaign-meta">
+                    <span class="marketing-campaign-status calendar-status-${post.status}">${post.status}</span>
+                    <span>${escapeHtml(post.campaignName || 'No campaign')}</span>
+                    <span>🕒 ${when}</span>
+                    <span>📡 ${post.platform || 'all'}</span>
+                    ${post.metadata?.variant ? `<span>🧪 Variant ${escapeHtml(post.metadata.variant.label)} · ${escapeHtml(post.metadata.framework || '')}</span>` : ''}
+                </div>
+            </div>
+            ${post.lastError ? `<div class="calendar-post-error">⚠️ ${escapeHtml(post.lastError)}</div>` : ''}
+            <div class="calendar-post-body">
+                ${image}
+                ${open
+                    ? `<textarea id="calendar-content-${post.id}" rows="6">${escapeHtml(post.content)}</textarea>`
+                    : `<div class="calendar-post-text">${escapeHtml(post.content)}</div>`}
+            </div>
+            ${open ? `
+                <div class="calendar-post-actions">
+                    <input type="datetime-local" id="calendar-time-${post.id}" value="${toLocalInputValue(post.scheduledTime)}">
+                    <select id="calendar-platform-${post.id}">
+                        ${['all', 'whatsapp', 'telegram'].map(p => `<option value="${p}" ${p === (post.platform || 'all') ? 'selected' : ''}>${p}</option>`).join('')}
+                    </select>
+                    <button class="marketing-btn-secondary" onclick="saveScheduledPost(${post.id})">Save</button>
+                    ${post.status !== 'approved' ? `<button class="marketing-btn-primary" onclick="approveScheduledPost(${post.id})">Approve</button>` : ''}
+                    <button class="marketing-btn-secondary" onclick="cancelScheduledPost(${post.id})">Cancel post</button>
+                </div>` : `
+                <div class="calendar-post-actions">
+                    <button class="marketing-btn-secondary" onclick="deleteScheduledPost(${post.id})">Delete</button>
+                </div>`}
+        </div>
+    `;
+}
+
+async function scheduledPostRequest(path, options, successMessage) {
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/scheduled-posts${path}`, {
+            headers: { 'Content-Type': 'application/json' },
+            ...options
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+            showToast(result.error || 'Request failed', 'error');
+            return false;
+        }
+        showToast(successMessage, 'success');
+        loadScheduledPosts();
+        return true;
+    } catch (e) {
+        console.error('Content calendar request failed:', e);
+        showToast('Request failed', 'error');
+        return false;
+    }
+}
+
+window.saveScheduledPost = async function (id) {
+    const content = document.getElementById(`calendar-content-${id}`).value;
+    const timeInput = document.getElementById(`calendar-time-${id}`);
+    const platform = document.getElementById(`calendar-platform-${id}`).value;
+
+    const body = { content, platform };
+    // Only send the time when it was changed, so past-due posts can still be edited
+    if (timeInput.value && timeInput.value !== timeInput.defaultValue) body.scheduledTime = new Date(timeInput.value).toISOString();
+
+    await scheduledPostRequest(`/${id}`, { method: 'PUT', body: JSON.stringify(body) }, 'Post saved');
+};
+
+window.approveScheduledPost = async function (id) {
+    await scheduledPostRequest(`/${id}/approve`, { method: 'POST' }, 'Post approved');
+};
+
+window.cancelScheduledPost = async function (id) {
+    if (!confirm('Cancel this post? It will not be sent.')) return;
+    await scheduledPostRequest(`/${id}/cancel`, { method: 'POST' }, 'Post cancelled');
+};
+
+window.deleteScheduledPost = async function (id) {
+    if (!confirm('Delete this post from the calendar?')) return;
+    await scheduledPostRequest(`/${id}`, { method: 'DELETE' }, 'Post deleted');
+};
+
+window.generateScheduledPosts = async function () {
+    showToast('Drafting upcoming posts... this can take a minute', 'info');
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/scheduled-posts/generate`, { method: 'POST' });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.error);
+        showToast(result.created ? `Drafted ${result.created} post(s)` : 'Every upcoming slot already has a post', 'success');
+        loadScheduledPosts();
+    } catch (e) {
+        console.error('Failed to draft posts:', e);
+        showToast('Failed to draft posts', 'error');
+    }
+};
+
+window.loadScheduledPosts = loadScheduledPosts;
+
+// ==================== ORDERS ====================
+
+// Statuses an order can be moved to next (mirrors the server's rules)
+const ORDER_NEXT_STATUSES = {
+    pending: ['paid', 'dispatched', 'cancelled'],
+    paid: ['dispatched', 'cancelled'],
+    dispatched: ['delivered', 'cancelled']
+};
+
+async function loadOrders() {
+    const list = document.getElementById('orders-list');
+    if (!list) return;
+
+    const status = document.getElementById('order-status-filter')?.value || '';
+    list.innerHTML = '<p class="empty-text">Loading...</p>';
+
+    try {
+        const response = await fetch(`${API_BASE}/api/orders${status ? `?status=${status}` : ''}`);
+        const result = await response.json();
+        if (!result.success) throw new Error(result.error);
+
+        list.innerHTML = result.orders.length
+            ? result.orders.map(renderOrder).join('')
+            : '<p class="empty-text">No orders here yet. Customers order by chatting with the agent.</p>';
+    } catch (e) {
+        console.error('Failed to load orders:', e);
+        list.innerHTML = '<p class="empty-text">Error loading orders.</p>';
+    }
+}
+
+function renderOrder(order) {
+    const next = ORDER_NEXT_STATUSES[order.status] || [];
+    const placed = new Date(order.confirmedAt || order.createdAt).toLocaleString();
+    const items = order.items.map(i => `
+        <li>${i.quantity} × ${escapeHtml(i.productName)} <span class="text-muted">@ ${i.unitPrice}</span></li>
+    `).join('');
+
+    return `
+        <div class="calendar-post" id="order-${order.id}">
+            <div class="calendar-post-header">
+                <div class="marketing-campaign-meta">
+                    <span class="marketing-campaign-status order-status-${order.status}">${order.status}</span>
+                    <span>#${order.id}</span>
+                    <span>👤 ${escapeHtml(order.customerName || order.jid.split('@')[0])}</span>
+                    <span>🕒 ${placed}</span>
+                    <span>📡 ${order.platform}</span>
+                </div>
+            </div>
+            <div class="calendar-post-body">
+                <ul class="order-items">${items}</ul>
+            </div>
+            <div><strong>Total: ${order.total}</strong></div>
+            ${order.notes ? `<div class="calendar-post-text">📝 ${escapeHtml(order.notes)}</div>` : ''}
+            ${next.length ? `
+                <div class="calendar-post-actions">
+                    ${next.map(s => `<button class="${s === 'cancelled' ? 'marketing-btn-secondary' : 'marketing-btn-primary'}" onclick="updateOrderStatus(${order.id}, '${s}')">${s === 'cancelled' ? 'Cancel order' : `Mark ${s}`}</button>`).join('')}
+                </div>` : ''}
+        </div>
+    `;
+}
+
+window.updateOrderStatus = async function (id, status) {
+    if (status === 'cancelled' && !confirm('Cancel this order? The customer will be told.')) return;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/orders/${id}/status`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status })
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+            showToast(result.error || 'Failed to update order', 'error');
+            return;
+        }
+        showToast(`Order #${id} marked ${status}`, 'success');
+        loadOrders();
+    } catch (e) {
+        console.error('Failed to update order:', e);
+        showToast('Failed to update order', 'error');
+    }
+};
+
+window.loadOrders = loadOrders;
+
+// ==================== BOOKINGS ====================
+
+async function loadBookings() {
+    const list = document.getElementById('bookings-list');
+    if (!list) return;
+
+    const filter = document.getElementById('booking-filter')?.value ?? 'upcoming';
+    const query = filter === 'upcoming' ? '?status=scheduled&upcoming=true' : (filter ? `?status=${filter}` : '');
+    list.innerHTML = '<p class="empty-text">Loading...</p>';
+
+    try {
+        const response = await fetch(`${API_BASE}/api/bookings${query}`);
+        const result = await response.json();
+        if (!result.success) throw new Error(result.error);
+
+        const summary = document.getElementById('bookings-summary');
+        if (summary) {
+            const { attended, noShows, noShowRate } = result.summary;
+            summary.textContent = `${attended} attended, ${noShows} no-show${noShowRate !== null ? ` (${noShowRate}% no-show rate)` : ''}.`;
+        }
+
+        list.innerHTML = result.bookings.length
+            ? result.bookings.map(renderBooking).join('')
+            : '<p class="empty-text">No bookings here yet. Contacts book meetings by chatting with the agent.</p>';
+    } catch (e) {
+        console.error('Failed to load bookings:', e);
+        list.innerHTML = '<p class="empty-text">Error loading bookings.</p>';
+    }
+}
+
+function renderBooking(booking) {
+    const started = new Date(booking.startTime) <= new Date();
+    const when = new Date(booking.startTime).toLocaleString();
+    const actions = booking.status !== 'scheduled' ? '' : started
+        ? `<button class="marketing-btn-primary" onclick="markBookingOutcome(${booking.id}, 'attended')">Attended</button>
+           <button class="marketing-btn-secondary" onclick="markBookingOutcome(${booking.id}, 'no_show')">No-show</button>`
+        : `<button class="marketing-btn-secondary" onclick="cancelBooking(${booking.id})">Cancel meeting</button>`;
+
+    return `
+        <div class="calendar-post" id="booking-${booking.id}">
+            <div class="calendar-post-header">
+                <div class="marketing-campaign-meta">
+                    <span class="marketing-campaign-status booking-status-${booking.status}">${booking.status.replace('_', '-')}</span>
+                    <span>#${booking.id}</span>
+                    <span>👤 ${escapeHtml(booking.customerName || booking.jid.split('@')[0])}</span>
+                    <span>🕒 ${when}</span>
+                    <span>📡 ${booking.platform}</span>
+                </div>
+            </div>
+            ${booking.purpose ? `<div class="calendar-post-text">📝 ${escapeHtml(booking.purpose)}</div>` : ''}
+            ${booking.location ? `<div class="calendar-post-text">📍 ${escapeHtml(booking.location)}</div>` : ''}
+            ${booking.meetLink ? `<div class="calendar-post-text">🔗 <a href="${escapeHtml(booking.meetLink)}" target="_blank" rel="noopener">${escapeHtml(booking.meetLink)}</a></div>` : ''}
+            ${booking.cancelledBy ? `<div class="text-muted">Cancelled by ${booking.cancelledBy}</div>` : ''}
+            ${actions ? `<div class="calendar-post-actions">${actions}</div>` : ''}
+        </div>
+    `;
+}
+
+window.markBookingOutcome = async function (id, status) {
+    try {
+        const response = await fetch(`${API_BASE}/api/bookings/${id}/outcome`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status })
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+            showToast(result.error || 'Failed to update booking', 'error');
+            return;
+        }
+        showToast(`Booking #${id} marked ${status.replace('_', '-')}`, 'success');
+        loadBookings();
+    } catch (e) {
+        console.error('Failed to update booking:', e);
+        showToast('Failed to update booking', 'error');
+    }
+};
+
+window.cancelBooking = async function (id) {
+    if (!confirm('Cancel this meeting? It will be removed from the calendar and the contact will be told.')) return;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/bookings/${id}/cancel`, { method: 'POST' });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+            showToast(result.error || 'Failed to cancel booking', 'error');
+            return;
+        }
+        showToast(`Booking #${id} cancelled`, 'success');
+        loadBookings();
+    } catch (e) {
+        console.error('Failed to cancel booking:', e);
+        showToast('Failed to cancel booking', 'error');
+    }
+};
+
+window.loadBookings = loadBookings;
+
+// ==================== AD TEMPLATES ====================
+
+async function loadAdTemplates() {
+    const list = document.getElementById('ad-templates-list');
+    if (!list) return;
+
+    const kind = document.getElementById('template-kind-filter')?.value || 'framework';
+    list.innerHTML = '<p class="empty-text">Loading...</p>';
+
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/templates?kind=${kind}`);
+        const result = await response.json();
+        if (!result.success) throw new Error(result.error);
+
+        list.innerHTML = result.templates.length
+            ? result.templates.map(renderAdTemplate).join('')
+            : '<p class="empty-text">No templates yet.</p>';
+    } catch (e) {
+        console.error('Failed to load templates:', e);
+        list.innerHTML = '<p class="empty-text">Error loading templates.</p>';
+    }
+}
+
+// A template card; id 'new' is the unsaved form added by newAdTemplate()
+function renderAdTemplate(template) {
+    const id = template.id;
+    return `
+        <div class="calendar-post" id="template-${id}">
+            <div class="calendar-post-header">
+                <div class="marketing-campaign-meta">
+                    ${id === 'new' ? '<span class="marketing-campaign-status calendar-status-pending">new</span>' : `
+                    <span class="marketing-campaign-status ${template.isActive ? 'calendar-status-approved' : 'calendar-status-cancelled'}">${template.isActive ? 'active' : 'off'}</span>`}
+                </div>
+            </div>
+            <input type="text" class="marketing-form-input" id="template-name-${id}" maxlength="100" placeholder="Name, e.g. Harambee appeal" value="${escapeHtml(template.name || '')}">
+            <textarea class="marketing-form-input" id="template-structure-${id}" rows="3" placeholder="How the ad should be written (or, for visual styles, how the image should look)">${escapeHtml(template.structure || '')}</textarea>
+            <textarea class="marketing-form-input" id="template-examples-${id}" rows="3" placeholder="Optional example ads written this way">${escapeHtml(template.examples || '')}</textarea>
+            <div class="calendar-post-actions">
+                <label><input type="checkbox" id="template-active-${id}" ${template.isActive !== false ? 'checked' : ''}> Active</label>
+                <button class="marketing-btn-primary" onclick="saveAdTemplate('${id}')">Save</button>
+                ${id === 'new'
+                    ? `<button class="marketing-btn-secondary" onclick="loadAdTemplates()">Discard</button>`
+                    : `<button class="marketing-btn-secondary" onclick="deleteAdTemplate(${id})">Delete</button>`}
+            </div>
+        </div>
+    `;
+}
+
+window.newAdTemplate = function () {
+    const list = document.getElementById('ad-templates-list');
+    if (!list || document.getElementById('template-new')) return;
+    list.insertAdjacentHTML('afterbegin', renderAdTemplate({ id: 'new', isActive: true }));
+    document.getElementById('template-name-new').focus();
+};
+
+window.saveAdTemplate = async function (id) {
+    const isNew = id === 'new';
+    const body = {
+        name: document.getElementById(`template-name-${id}`).value,
+        structure: document.getElementById(`template-structure-${id}`).value,
+        examples: document.getElementById(`template-examples-${id}`).value || null,
+        isActive: document.getElementById(`template-active-${id}`).checked
+    };
+    if (isNew) body.kind = document.getElementById('template-kind-filter').value;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/templates${isNew ? '' : `/${id}`}`, {
+            method: isNew ? 'POST' : 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+            showToast(result.error || 'Failed to save template', 'error');
+            return;
+        }
+        showToast('Template saved', 'success');
+        loadAdTemplates();
+    } catch (e) {
+        console.error('Failed to save template:', e);
+        showToast('Failed to save template', 'error');
+    }
+};
+
+window.deleteAdTemplate = async function (id) {
+    if (!confirm('Delete this template? Campaigns that only allowed it go back to using every active template.')) return;
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/templates/${id}`, { method: 'DELETE' });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+            showToast(result.error || 'Failed to delete template', 'error');
+            return;
+        }
+        showToast('Template deleted', 'success');
+        loadAdTemplates();
+    } catch (e) {
+        console.error('Failed to delete template:', e);
+        showToast('Failed to delete template', 'error');
+    }
+};
+
+// Template checkboxes in the campaign wizard
+async function loadCampaignTemplateOptions(selectedIds = []) {
+    const list = document.getElementById('mini-template-list');
+    if (!list) return;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/templates`);
+        const result = await response.json();
+        if (!result.success) throw new Error(result.error);
+
+        const labels = { framework: 'Pitch frameworks', visual_style: 'Visual styles' };
+        list.innerHTML = Object.keys(labels).map(kind => {
+            const templates = result.templates.filter(t => t.kind === kind && t.isActive);
+            return `
+                <div class="template-options-group">
+                    <strong>${labels[kind]}</strong>
+                    ${templates.map(t => `
+                        <label><input type="checkbox" class="template-checkbox" value="${t.id}" ${selectedIds.includes(t.id) ? 'checked' : ''}> ${escapeHtml(t.name)}</label>
+                    `).join('') || '<small class="text-muted">None active</small>'}
+                </div>
+            `;
+        }).join('');
+    } catch (e) {
+        console.error('Failed to load template options:', e);
+        list.innerHTML = '<p class="empty-text">Error loading templates.</p>';
+    }
+}
+
+window.loadAdTemplates = loadAdTemplates;
+
+// Refresh Groups
+window.refreshMiniGroups = async function () {
+    const list = document.getElementById('mini-groups-list');
+    list.innerHTML = '<p class="empty-text">Loading...</p>';
+
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/groups`);
+        const result = await response.json();
+
+        if (result.success && result.groups) {
+            list.innerHTML = result.groups.map(g => `
+                <div class="mini-card">
+                    <h4>${g.name || 'Unknown Group'}</h4>
+                    <p>${g.participants || 0} members</p>
+                    <small style="opacity: 0.6;">${g.id}</small>
                 </div>
             `).join('');
         } else {
@@ -2256,6 +3304,12 @@ window.submitMiniCampaign = async function () {
         else if (selectionValue.startsWith('product:')) selectedProductId = parseInt(selectionValue.slice(8), 10);
     }
 
+    const platforms = getSelectedPlatforms();
+    if (platforms.length === 0) {
+        showToast("Select at least one platform (WhatsApp or Telegram)", "error");
+        return;
+    }
+
     btn.disabled = true;
     btn.innerHTML = 'Creating...';
 
@@ -2284,7 +3338,10 @@ window.submitMiniCampaign = async function () {
         companyLink: document.getElementById('mini-company-link').value || null,
         contentSource: contentSource,
         selectedProductId: selectedProductId,
-        selectedShopId: selectedShopId
+        selectedShopId: selectedShopId,
+        adTtlMinutes: parseInt(document.getElementById('mini-ad-ttl')?.value || '30', 10),
+        templateIds: Array.from(document.querySelectorAll('#mini-template-list .template-checkbox:checked')).map(cb => parseInt(cb.value, 10)),
+        experimentMode: !!document.getElementById('mini-experiment-mode')?.checked
     };
 
     // Add targetAudience text if element exists (I might add it back)
@@ -2295,6 +3352,8 @@ window.submitMiniCampaign = async function () {
     // Get selected groups
     const checkboxes = document.querySelectorAll('#modal-audience-list .group-checkbox:checked');
     const selectedGroupIds = Array.from(checkboxes).map(cb => cb.value);
+    const telegramCheckboxes = document.querySelectorAll('#modal-telegram-list .group-checkbox:checked');
+    const selectedTelegramIds = Array.from(telegramCheckboxes).map(cb => cb.value);
 
     // Determine Mode (Create or Edit)
     const campaignId = document.getElementById('mini-camp-id').value;
@@ -2305,6 +3364,8 @@ window.submitMiniCampaign = async function () {
         if (isEdit) {
             // Update Campaign Properties
             payload.targetGroups = selectedGroupIds; // Merge targetGroups into payload for edit
+            payload.telegramTargets = selectedTelegramIds;
+            payload.platforms = platforms;
             res = await fetch(`${API_BASE}/api/marketing/campaign/${campaignId}`, {
                 method: 'PUT',
                 headers: { 'Content-Type': 'application/json' },
@@ -2330,11 +3391,15 @@ window.submitMiniCampaign = async function () {
             // The `updateCampaign` endpoint supports `targetGroups` directly! 
             // So we can merge it into payload for Edit!
 
-            if (!isEdit && selectedGroupIds.length > 0) { // Only for new campaigns, if groups selected
+            if (!isEdit) { // Only for new campaigns: platforms and per-platform targets
                 await fetch(`${API_BASE}/api/marketing/campaign/targets`, {
                     method: 'PUT',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ targetGroups: selectedGroupIds })
+                    body: JSON.stringify({
+                        targetGroups: selectedGroupIds,
+                        telegramTargets: selectedTelegramIds,
+                        platforms
+                    })
                 });
             }
 
@@ -2401,6 +3466,12 @@ window.editMiniCampaign = async function (id) {
     document.getElementById('mini-time-a').value = campaign.afternoonTime || "13:00";
     document.getElementById('mini-time-e').value = campaign.eveningTime || "19:00";
 
+    const ttlSelect = document.getElementById('mini-ad-ttl');
+    if (ttlSelect) ttlSelect.value = String(campaign.adTtlMinutes ?? 30);
+    loadCampaignTemplateOptions(Array.isArray(campaign.templateIds) ? campaign.templateIds : []);
+    const experimentToggle = document.getElementById('mini-experiment-mode');
+    if (experimentToggle) experimentToggle.checked = !!campaign.experimentMode;
+
     // Set toggle states based on whether times are null
     const morningToggle = document.getElementById('toggle-morning');
     const afternoonToggle = document.getElementById('toggle-afternoon');
@@ -2422,6 +3493,8 @@ window.editMiniCampaign = async function (id) {
 
     // Set Editing Targets (Handle potential issues if targetGroups is null)
     window.currentEditingTargets = Array.isArray(campaign.targetGroups) ? campaign.targetGroups : [];
+    window.currentEditingTelegramTargets = Array.isArray(campaign.telegramTargets) ? campaign.telegramTargets : [];
+    setSelectedPlatforms(Array.isArray(campaign.platforms) && campaign.platforms.length > 0 ? campaign.platforms : ['whatsapp']);
 
     // Open Modal
     document.getElementById('simple-campaign-modal').classList.add('active');
@@ -2444,6 +3517,8 @@ window.editMiniCampaign = async function (id) {
     // Force reload groups next time Step 3 is viewed to show checkboxes correctly
     const list = document.getElementById('modal-audience-list');
     if (list) list.dataset.loaded = 'false';
+    const telegramList = document.getElementById('modal-telegram-list');
+    if (telegramList) telegramList.dataset.loaded = 'false';
 };
 
 // Delete Campaign
@@ -2601,7 +3676,7 @@ window.updateWizardStep = function (step) {
 
     // Special logic for Step 3 (Audience)
     if (wizardCurrentStep === 3) {
-        loadModalGroups();
+        togglePlatformTargets();
     }
 };
 
@@ -2727,6 +3802,72 @@ window.toggleAllGroups = function (btn) {
     updateReviewSummary();
 };
 
+// Load Telegram groups/channels (bot is admin) for Modal
+async function loadModalTelegramChats() {
+    const list = document.getElementById('modal-telegram-list');
+    if (!list || list.dataset.loaded === 'true') return;
+
+    list.innerHTML = '<p class="empty-text">Loading chats...</p>';
+
+    try {
+        const response = await fetch(`${API_BASE}/api/marketing/telegram-chats`);
+        const result = await response.json();
+
+        if (result.success && result.chats) {
+            if (result.chats.length === 0) {
+                list.innerHTML = '<p class="empty-text">No Telegram chats yet. Add the bot as an admin to a group or channel.</p>';
+                return;
+            }
+
+            const currentTargets = window.currentEditingTelegramTargets || [];
+
+            list.innerHTML = result.chats.map(c => {
+                const isSelected = currentTargets.some(id => String(id) === String(c.id));
+                return `
+                <div class="marketing-list-item ${isSelected ? 'selected' : ''}" onclick="toggleGroupSelection(this)">
+                    <div>
+                        <h4>${c.name || 'Untitled Chat'}</h4>
+                        <p>${c.type === 'channel' ? '📢 Channel' : '👥 Group'}</p>
+                    </div>
+                    <div class="selection-indicator">
+                        <input type="checkbox" class="group-checkbox" value="${c.id}" style="pointer-events: none;" ${isSelected ? 'checked' : ''}>
+                    </div>
+                </div>
+            `}).join('');
+
+            list.dataset.loaded = 'true';
+            updateReviewSummary();
+        }
+    } catch (e) {
+        list.innerHTML = '<p class="empty-text">Error loading Telegram chats.</p>';
+    }
+}
+
+function getSelectedPlatforms() {
+    return ['whatsapp', 'telegram'].filter(p => document.getElementById(`platform-${p}`)?.checked);
+}
+
+function setSelectedPlatforms(platforms) {
+    ['whatsapp', 'telegram'].forEach(p => {
+        const checkbox = document.getElementById(`platform-${p}`);
+        if (checkbox) checkbox.checked = platforms.includes(p);
+    });
+}
+
+// Show target pickers only for the platforms the campaign posts on
+window.togglePlatformTargets = function () {
+    const platforms = getSelectedPlatforms();
+    const whatsappGroup = document.getElementById('whatsapp-targets-group');
+    const telegramGroup = document.getElementById('telegram-targets-group');
+
+    if (whatsappGroup) whatsappGroup.style.display = platforms.includes('whatsapp') ? 'block' : 'none';
+    if (telegramGroup) telegramGroup.style.display = platforms.includes('telegram') ? 'block' : 'none';
+
+    if (platforms.includes('whatsapp')) loadModalGroups();
+    if (platforms.includes('telegram')) loadModalTelegramChats();
+    updateReviewSummary();
+};
+
 window.toggleGroupSelection = function (el) {
     el.classList.toggle('selected');
     const checkbox = el.querySelector('.group-checkbox');
@@ -2756,9 +3897,18 @@ function updateReviewSummary() {
 
     const scheduleText = scheduleParts.length > 0 ? scheduleParts.join(' • ') : 'No time slots enabled';
 
-    // Count selected groups
-    const checkboxes = document.querySelectorAll('#modal-audience-list .group-checkbox:checked');
-    const audienceText = checkboxes.length > 0 ? `${checkboxes.length} specific groups selected` : "All Groups (Broadcast)";
+    // Count selected groups per platform
+    const platforms = getSelectedPlatforms();
+    const audienceParts = [];
+    if (platforms.includes('whatsapp')) {
+        const checkboxes = document.querySelectorAll('#modal-audience-list .group-checkbox:checked');
+        audienceParts.push(checkboxes.length > 0 ? `${checkboxes.length} specific groups selected` : "All Groups (Broadcast)");
+    }
+    if (platforms.includes('telegram')) {
+        const telegramCheckboxes = document.querySelectorAll('#modal-telegram-list .group-checkbox:checked');
+        audienceParts.push(telegramCheckboxes.length > 0 ? `${telegramCheckboxes.length} Telegram chats selected` : "All Telegram Chats");
+    }
+    const audienceText = audienceParts.length > 0 ? audienceParts.join(' • ') : 'No platform selected';
 
     const nameEl = document.getElementById('review-name');
     if (nameEl) nameEl.textContent = name;
@@ -2785,11 +3935,21 @@ window.openSimpleCampaignModal = function () {
     const btnSubmit = document.getElementById('btn-submit');
     if (btnSubmit) btnSubmit.innerHTML = 'Create Campaign <svg width="16" height="16" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>';
 
+    const ttlSelect = document.getElementById('mini-ad-ttl');
+    if (ttlSelect) ttlSelect.value = '30';
+    loadCampaignTemplateOptions();
+    const experimentToggle = document.getElementById('mini-experiment-mode');
+    if (experimentToggle) experimentToggle.checked = false;
+
     // Clear editing targets
     window.currentEditingTargets = [];
+    window.currentEditingTelegramTargets = [];
+    setSelectedPlatforms(['whatsapp']);
 
     const list = document.getElementById('modal-audience-list');
     if (list) list.dataset.loaded = 'false';
+    const telegramList = document.getElementById('modal-telegram-list');
+    if (telegramList) telegramList.dataset.loaded = 'false';
 
     // Clear checkboxes
     document.querySelectorAll('#modal-audience-list input').forEach(cb => cb.checked = false);
@@ -3459,6 +4619,10 @@ async function loadAnalytics(timeframe = 'weekly') {
         renderInboundOutboundChart(inboundOutbound || { inbound: 0, outbound: 0 });
         renderEngagementChart(overview || { delivered: 0, read: 0, replies: 0 });
         renderCampaignChart(topCampaigns || []);
+        adPerformance = data.broadcastPerformance || null;
+        renderAdPerformanceTable();
+        loadAdChurn();
+        loadExperimentResults();
 
         // Tables
         renderTopContactsTable(topContactsByVolume || []);
@@ -3831,6 +4995,7 @@ function renderInboundOutboundChart(io) {
 
 let gaEngagementChart = null;
 let gaRoleChart = null;
+let gaGrowthChart = null;
 
 window.openGroupAnalytics = async function (jid) {
     try {
@@ -3865,7 +5030,10 @@ window.openGroupAnalytics = async function (jid) {
         // 2. Render Charts
         renderGaCharts(stats, members);
 
-        // 3. Render Member Table
+        // 3. Membership History
+        renderGaGrowth(data.growth, data.recentEvents || []);
+
+        // 4. Render Member Table
         const tbody = document.getElementById('ga-members-body');
         tbody.innerHTML = members.map(m => `
             <tr>
@@ -3875,7 +5043,7 @@ window.openGroupAnalytics = async function (jid) {
                         ${m.role}
                     </span>
                 </td>
-                <td><span class="text-muted">Active</span></td>
+                <td><span class="text-muted">${m.joinedAt ? 'Joined ' + new Date(m.joinedAt).toLocaleDateString() : 'Active'}</span></td>
             </tr>
         `).join('');
 
@@ -3946,11 +5114,141 @@ function renderGaCharts(stats, members) {
     }
 }
 
+function renderGaGrowth(growth, events) {
+    const series = growth?.series || [];
+    setEl('ga-growth-summary', growth ? `+${growth.joins} / -${growth.leaves}` : '');
+
+    const ctx = document.getElementById('gaGrowthChart')?.getContext('2d');
+    if (ctx) {
+        if (gaGrowthChart) gaGrowthChart.destroy();
+        gaGrowthChart = new Chart(ctx, {
+            type: 'line',
+            data: {
+                labels: series.map(d => d.date.slice(5)),
+                datasets: [{
+                    label: 'Members',
+                    data: series.map(d => d.members),
+                    borderColor: '#10b981',
+                    backgroundColor: 'rgba(16, 185, 129, 0.1)',
+                    fill: true,
+                    tension: 0.3
+                }]
+            },
+            options: {
+                responsive: true,
+                plugins: { legend: { display: false } },
+                scales: {
+                    y: { grid: { color: 'rgba(255,255,255,0.05)' } },
+                    x: { grid: { display: false } }
+                }
+            }
+        });
+    }
+
+    const labels = { join: '➕ Joined', leave: '➖ Left', promote: '⬆️ Made admin', demote: '⬇️ Removed as admin' };
+    const tbody = document.getElementById('ga-events-body');
+    if (!tbody) return;
+    tbody.innerHTML = events.length ? events.map(e => `
+        <tr>
+            <td>${formatPhone(e.phone)}</td>
+            <td>${labels[e.action] || e.action}${e.actor ? ` <small class="text-muted">by ${formatPhone(e.actor)}</small>` : ''}</td>
+            <td><small class="text-muted">${new Date(e.createdAt).toLocaleString()}</small></td>
+        </tr>
+    `).join('') : '<tr><td colspan="3" class="text-muted">No membership changes recorded yet</td></tr>';
+}
+
 function formatPhone(phone) {
     if (!phone) return 'Unknown';
     return phone.split('@')[0];
 }
 
+// Reach / reply rates of posted ads, from the last analytics load
+let adPerformance = null;
+
+function renderAdPerformanceTable() {
+    const tbody = document.getElementById('ad-performance-body');
+    if (!tbody) return;
+
+    const dimension = document.getElementById('ad-performance-dimension')?.value || 'byCampaign';
+    const labels = { byCampaign: 'Campaign', byGroup: 'Group', byFramework: 'Framework' };
+    setEl('ad-performance-label', labels[dimension]);
+
+    const rows = adPerformance?.[dimension] || [];
+    const rate = (value) => value === null || value === undefined ? '' : ` <small class="text-muted">(${value}%)</small>`;
+
+    tbody.innerHTML = rows.map(r => {
+        const name = dimension === 'byFramework' ? r.framework
+            : dimension === 'byGroup' ? (r.name || r.jid)
+            : (r.name || (r.id ? 'Deleted campaign' : 'Custom posts'));
+        return `
+        <tr>
+            <td>${escapeHtml(name || 'Unknown')}${dimension === 'byGroup' ? ` <small class="text-muted">${r.platform}</small>` : ''}</td>
+            <td>${r.broadcasts}</td>
+            <td>${r.audience || '—'}</td>
+            <td>${r.reads}${rate(r.reachRate)}</td>
+            <td>${r.replies}${rate(r.replyRate)}</td>
+            <td>${r.deleted}</td>
+        </tr>`;
+    }).join('');
+
+    toggleTableAndEmpty('ad-performance-wrapper', 'ad-performance-empty', rows.length > 0);
+}
+
+window.renderAdPerformanceTable = renderAdPerformanceTable;
+
+async function loadExperimentResults() {
+    const tbody = document.getElementById('experiments-body');
+    if (!tbody) return;
+
+    try {
+        const res = await fetch(`${API_BASE}/api/analytics/experiments`);
+        if (!res.ok) throw new Error(`Failed to fetch: ${res.status}`);
+        const { byFramework } = await res.json();
+        const rate = (value) => value === null || value === undefined ? '—' : value + '%';
+
+        tbody.innerHTML = byFramework.map(f => `
+            <tr>
+                <td>${escapeHtml(f.campaignName || 'Deleted campaign')}</td>
+                <td>${escapeHtml(f.framework || 'Unknown')}</td>
+                <td>${f.wins}/${f.tests} <small class="text-muted">(${f.winRate}%)</small></td>
+                <td>${f.posts}</td>
+                <td>${rate(f.reachRate)}</td>
+                <td>${f.replies} <small class="text-muted">(${rate(f.replyRate)})</small></td>
+            </tr>
+        `).join('');
+
+        toggleTableAndEmpty('experiments-wrapper', 'experiments-empty', byFramework.length > 0);
+    } catch (error) {
+        console.error('Failed to load experiment results:', error);
+    }
+}
+
+async function loadAdChurn() {
+    const tbody = document.getElementById('ad-churn-body');
+    if (!tbody) return;
+
+    try {
+        const res = await fetch(`${API_BASE}/api/analytics/ad-churn?hours=24&days=30`);
+        if (!res.ok) throw new Error(`Failed to fetch: ${res.status}`);
+        const { byCampaign } = await res.json();
+
+        tbody.innerHTML = byCampaign.map(r => `
+            <tr>
+                <td>${escapeHtml(r.name || (r.id ? 'Deleted campaign' : 'Custom posts'))}</td>
+                <td>${r.broadcasts}</td>
+                <td>${r.joins}</td>
+                <td>${r.leaves}</td>
+                <td>${r.net > 0 ? '+' : ''}${r.net}</td>
+                <td>${r.churnRate === null ? '—' : r.churnRate + '%'}</td>
+            </tr>
+        `).join('');
+
+        toggleTableAndEmpty('ad-churn-wrapper', 'ad-churn-empty', byCampaign.length > 0);
+    } catch (error) {
+        console.error('Failed to load ad churn:', error);
+    }
+}
+
 function renderTopGroupsTable(groups) {
     const tbody = document.getElementById('top-groups-body');
     if (!tbody) return;
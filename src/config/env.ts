@@ -31,9 +31,43 @@ export const config = {
     geminiKey: process.env.GEMINI_API_KEY,      // Fallback/Legacy
     geminiKeys: getGeminiKeys(),                // The full pool
     geminiModel: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+    // Other LLM backends. Which provider handles each task is chosen in Settings > AI Providers.
+    llm: {
+        openaiBaseUrl: process.env.LLM_OPENAI_BASE_URL, // Any OpenAI-compatible API, e.g. http://localhost:11434/v1 (Ollama)
+        openaiApiKey: process.env.LLM_OPENAI_API_KEY,   // Local servers usually don't need one
+        openaiModel: process.env.LLM_OPENAI_MODEL,
+        openaiTimeoutMs: parseInt(process.env.LLM_OPENAI_TIMEOUT_MS || '120000', 10),
+        scriptFile: process.env.LLM_SCRIPT_FILE,        // JSON replies for the scripted (offline test) provider
+    },
     databaseUrl: process.env.DATABASE_URL,
+    databaseDriver: process.env.DATABASE_DRIVER, // 'neon' | 'pg' | 'pglite'; picked from DATABASE_URL when unset
     telegramBotToken: process.env.TELEGRAM_BOT_TOKEN,
     telegramChatId: process.env.TELEGRAM_CHAT_ID,
     nodeEnv: process.env.NODE_ENV || 'development',
-    forceQrCode: process.env.FORCE_QR_CODE === 'true' // Force QR code even with existing credentials
+    forceQrCode: process.env.FORCE_QR_CODE === 'true', // Force QR code even with existing credentials
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg', // Converts spoken replies to OGG/Opus voice notes
+    // WhatsApp session encryption at rest: 32-byte keys (hex or base64). Old keys stay readable for rotation.
+    authEncryption: {
+        key: process.env.AUTH_ENCRYPTION_KEY,
+        oldKeys: (process.env.AUTH_ENCRYPTION_OLD_KEYS || '').split(',').map(k => k.trim()).filter(Boolean),
+    },
+    // Dashboard login: seeds the first owner account when no dashboard users exist yet
+    dashboardAdminUsername: process.env.DASHBOARD_ADMIN_USERNAME,
+    dashboardAdminPassword: process.env.DASHBOARD_ADMIN_PASSWORD,
+    // Extra origins allowed to call the API (the dashboard itself is same-origin)
+    corsOrigins: (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+    // Payments: 'mpesa' (Daraja STK push) or 'fake' (local simulator). Defaults to mpesa when
+    // credentials are set, otherwise fake outside production.
+    paymentProvider: process.env.PAYMENT_PROVIDER,
+    fakePaymentOutcome: process.env.FAKE_PAYMENT_OUTCOME || 'success', // 'success' | 'failed' | 'cancelled'
+    mpesa: {
+        environment: process.env.MPESA_ENV === 'production' ? 'production' : 'sandbox',
+        consumerKey: process.env.MPESA_CONSUMER_KEY,
+        consumerSecret: process.env.MPESA_CONSUMER_SECRET,
+        shortcode: process.env.MPESA_SHORTCODE,
+        tillNumber: process.env.MPESA_TILL_NUMBER, // Buy Goods: prompts pay this till instead of the paybill
+        passkey: process.env.MPESA_PASSKEY,
+        callbackUrl: process.env.MPESA_CALLBACK_URL, // Public URL of /api/payments/mpesa/callback
+        callbackToken: process.env.MPESA_CALLBACK_TOKEN, // Appended as ?token= and checked on every callback
+    }
 };
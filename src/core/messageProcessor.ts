@@ -0,0 +1,714 @@
+/**
+ * Message Processor
+ * Platform-agnostic message-processing core shared by the WhatsApp and Telegram clients.
+ *
+ * Clients only handle transport (receiving, contact creation, sending). Everything else
+ * runs here for every platform: buffering, the queue/WorkerPool, rate limiting, the chat
+ * agent switch, owner recognition, identity verification, marketing/custom-campaign
+ * intercepts, the AI tool loop and ConversationManager "Smart Snitch" reports.
+ */
+
+import { db, withRetry } from '../database';
+import { contacts, messageLogs, aiProfile, userProfile } from '../database/schema';
+import { eq, desc } from 'drizzle-orm';
+import { geminiService, GeminiResponse, ToolCall, ToolResult } from '../services/ai/gemini';
+import { executeLocalTool } from '../services/ai/tools';
+import { getToolCaller, GROUP_TOOLS } from '../services/ai/toolPolicy';
+import { IdentityValidator } from '../utils/identityValidator';
+import { ConversationManager } from '../services/conversationManager';
+import { MessageBuffer } from '../services/messageBuffer';
+import { rateLimitManager } from '../services/rateLimitManager';
+import { ownerService } from '../services/ownerService';
+import { messageQueueService } from '../services/queue/messageQueue';
+import { WorkerPool } from '../services/queue/workerPool';
+import { ConcurrencyController } from '../services/queue/concurrencyController';
+import { voiceNoteService } from '../services/voiceNoteService';
+import { mediaIngestionService } from '../services/mediaIngestionService';
+import { InboundMessage } from '../services/inboundMessage';
+import { outboxService } from '../services/outboxService';
+import { takeoverService } from '../services/takeoverService';
+
+export type Platform = 'whatsapp' | 'telegram';
+
+/**
+ * A message the platform accepted; `id` is matched against delivery acks
+ */
+export interface SentMessage {
+  id: string;
+  key?: any; // Baileys message key (needed to delete on WhatsApp)
+}
+
+/**
+ * Extra options for a reply
+ */
+export interface ReplyOptions {
+  quoted?: any; // Platform message being answered (WhatsApp: a WAMessage with key and message)
+}
+
+/**
+ * A group message that addressed the agent (an @mention or a reply to one of its messages)
+ */
+export interface GroupTrigger {
+  groupJid: string;
+  groupName?: string | null;
+  senderJid: string;
+  senderName?: string | null;
+  text: string;
+  msg: { key: any; message?: any }; // Quoted by the reply; tools read the chat from msg.key.remoteJid
+}
+
+/**
+ * Transport hooks a client registers with the processor.
+ * Send hooks throw on failure so the outbox can retry them.
+ */
+export interface PlatformAdapter {
+  readonly platform: Platform;
+  /** Whether a conversation id (JID / chat id) belongs to this platform */
+  ownsJid(jid: string): boolean;
+  /** Whether the transport can send right now (outbox holds messages until it can) */
+  isReady?(): boolean;
+  /** Send an AI reply (with the platform's typing simulation) */
+  sendReply(jid: string, text: string, options?: ReplyOptions): Promise<SentMessage | undefined>;
+  sendReplyImage(jid: string, image: Buffer, caption?: string): Promise<SentMessage | undefined>;
+  sendReplyVoice?(jid: string, audio: Buffer, mimetype: string): Promise<SentMessage | undefined>;
+  sendReplyDocument?(jid: string, document: Buffer, fileName: string, mimetype: string, caption?: string): Promise<SentMessage | undefined>;
+  /** Client handed to tools and campaign services (group broadcasting runs on WhatsApp) */
+  toolClient?: any;
+}
+
+export class MessageProcessor {
+  private adapters: Map<Platform, PlatformAdapter> = new Map();
+  private messageBuffer: MessageBuffer;
+  private conversationManager: ConversationManager;
+  private workerPool: WorkerPool | undefined;
+  private concurrencyController: ConcurrencyController | undefined;
+  private startPromise: Promise<void> | null = null;
+  // Group replies run one at a time per group, in arrival order
+  private groupChains: Map<string, Promise<void>> = new Map();
+
+  constructor() {
+    this.messageBuffer = new MessageBuffer((jid, messages) => this.processBatch(jid, messages));
+    this.conversationManager = new ConversationManager();
+  }
+
+  /**
+   * Register (or replace, e.g. after a WhatsApp reconnect) a platform's transport
+   */
+  registerPlatform(adapter: PlatformAdapter): void {
+    this.adapters.set(adapter.platform, adapter);
+    console.log(`🔌 Message processor: ${adapter.platform} registered`);
+  }
+
+  /**
+   * Start the shared queue workers. Safe to call from every client; only starts once.
+   */
+  async start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = (async () => {
+        await messageQueueService.restoreQueue();
+
+        this.workerPool = new WorkerPool(
+          messageQueueService,
+          this.processBatch.bind(this)
+        );
+
+        this.concurrencyController = new ConcurrencyController(
+          messageQueueService,
+          this.workerPool
+        );
+
+        this.workerPool.start().catch(err => {
+          console.error('❌ Worker pool error:', err);
+        });
+        this.concurrencyController.start();
+
+        await outboxService.start();
+
+        console.log('🎯 Advanced queue system initialized');
+      })();
+    }
+    return this.startPromise;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.concurrencyController) {
+      this.concurrencyController.stop();
+    }
+    if (this.workerPool) {
+      await this.workerPool.shutdown();
+    }
+    outboxService.stop();
+    this.startPromise = null;
+    this.workerPool = undefined;
+    this.concurrencyController = undefined;
+  }
+
+  /**
+   * Entry point for an incoming DM once the client has resolved the contact.
+   * Handles owner session intercepts, then buffers the message for batching.
+   */
+  async receive(jid: string, message: InboundMessage): Promise<void> {
+    const adapter = this.getAdapter(jid);
+    if (!adapter) {
+      console.warn(`⚠️ No platform registered for ${jid}. Dropping message.`);
+      return;
+    }
+
+    // --- Custom Campaign Session Intercept ---
+    // If the owner has an active custom post session, handle their message
+    // HERE before it ever gets buffered or sent to the AI queue.
+    // This prevents Gemini from seeing mid-session replies and re-triggering the tool.
+    if (ownerService.isOwner(jid) && message.text) {
+      try {
+        const { customCampaignService } = await import('../services/marketing/customCampaignService');
+        if (await customCampaignService.hasActiveSession(jid)) {
+          console.log(`📢 [CustomCampaign] Intercepting mid-session message from owner, bypassing AI queue`);
+          const campaignResponse = await customCampaignService.handleMessage(jid, message.text, this.getToolClient(adapter));
+          if (campaignResponse !== null) {
+            await adapter.sendReply(jid, campaignResponse);
+            return; // Do NOT add to buffer — message is fully handled
+          }
+        }
+      } catch (e: any) {
+        console.error('[CustomCampaign] Early intercept failed:', e.message);
+      }
+    }
+    // --- End Custom Campaign Intercept ---
+
+    await this.messageBuffer.add(jid, message);
+  }
+
+  /**
+   * Processes one buffered batch of messages from a contact (called by the WorkerPool)
+   */
+  async processBatch(remoteJid: string, messages: InboundMessage[]): Promise<void> {
+    const adapter = this.getAdapter(remoteJid);
+    if (!adapter) {
+      console.warn(`⚠️ No platform registered for ${remoteJid}. Skipping batch.`);
+      return;
+    }
+
+    const platform = adapter.platform;
+    const toolClient = this.getToolClient(adapter);
+    const texts = messages.map(m => m.text);
+    const fullText = texts.join('\n');
+    const isOwner = ownerService.isOwner(remoteJid);
+    const attachments = mediaIngestionService.collectAttachments(messages);
+    const messageType = voiceNoteService.isVoiceBatch(messages) ? 'voice' : mediaIngestionService.getBatchType(attachments);
+    const mediaColumns = mediaIngestionService.toLogColumns(attachments);
+
+    console.log(`🤖 AI Processing Batch for ${remoteJid} [${platform}] (Owner: ${isOwner}): "${fullText}"`);
+
+    // ⏰ CHECK CHAT AGENT STATUS FIRST, BEFORE ANYTHING ELSE
+    const { systemSettingsService } = await import('../services/systemSettings');
+    const chatAgentEnabled = await systemSettingsService.isChatAgentEnabled();
+    // 🙋 Per-contact human takeover: the owner is handling this chat by hand
+    const takenOver = !isOwner && chatAgentEnabled && await takeoverService.isPaused(remoteJid);
+
+    if ((!chatAgentEnabled || takenOver) && !isOwner) {
+      console.log(takenOver
+        ? `🙋 Human takeover active for ${remoteJid}. Logging only.`
+        : `🔇 Chat Agent is DISABLED. Non-owner message ignored. Logging only.`);
+
+      // Log the message for context, but don't process or queue it
+      const contact = await withRetry(async () => {
+        return await db.select().from(contacts).where(eq(contacts.phone, remoteJid)).then(res => res[0]);
+      });
+
+      if (contact) {
+        await withRetry(async () => {
+          await db.insert(messageLogs).values({
+            contactPhone: remoteJid,
+            role: 'user',
+            content: fullText,
+            type: messageType,
+            platform,
+            ...mediaColumns
+          });
+        });
+      }
+
+      return; // ✅ Exit COMPLETELY - don't queue, don't process
+    }
+
+    // ⏰ NOW check rate limits (after chat agent check)
+    if (rateLimitManager.isLimited() && !isOwner) {
+      console.log(`⏸️ Rate limited. Queueing message from ${remoteJid} (silent mode)`);
+      rateLimitManager.enqueue(remoteJid, messages);
+      return;
+    }
+
+    const contact = await withRetry(async () => {
+      return await db.select().from(contacts).where(eq(contacts.phone, remoteJid)).then(res => res[0]);
+    });
+    if (!contact) return;
+
+    // Check for active custom post campaign session (owner-only)
+    if (isOwner) {
+      try {
+        const { customCampaignService } = await import('../services/marketing/customCampaignService');
+        if (await customCampaignService.hasActiveSession(remoteJid)) {
+          const campaignResponse = await customCampaignService.handleMessage(remoteJid, fullText, toolClient);
+          if (campaignResponse !== null) {
+            console.log(`📢 [CustomCampaign] Session intercepted message for ${remoteJid}`);
+            await this.sendResponseAndLog(adapter, remoteJid, campaignResponse, contact, [], fullText);
+            return;
+          }
+        }
+      } catch (e) {
+        console.error('[CustomCampaign] Session check failed:', e);
+      }
+    }
+
+    try {
+      const { marketingService } = await import('../services/marketing/marketingService');
+      const onboardingResponse = await marketingService.handleOnboardingResponse(remoteJid, fullText);
+
+      if (onboardingResponse) {
+        console.log(`🎯 Marketing Onboarding Intercepted for ${remoteJid}`);
+        await this.sendResponseAndLog(adapter, remoteJid, onboardingResponse, contact, [], fullText);
+        return;
+      }
+    } catch (e) {
+      console.error('Marketing onboarding check failed:', e);
+    }
+
+    let systemPrompt: string | undefined = undefined;
+
+    if (!contact.isVerified && !isOwner) {
+      const currentName = contact.name || contact.originalPushname || 'Unknown';
+      systemPrompt = IdentityValidator.getIdentityPrompt(currentName);
+      console.log(`🔒 Identity Verification Mode Active for ${remoteJid}`);
+    }
+
+    const historyLogs = await withRetry(async () => {
+      return await db.select()
+        .from(messageLogs)
+        .where(eq(messageLogs.contactPhone, remoteJid))
+        .orderBy(desc(messageLogs.createdAt))
+        .limit(10);
+    });
+
+    const recentLogs = historyLogs.reverse();
+    // Plain transcript for profiling; the reply itself uses structured turns below
+    const history = recentLogs.map(m => `${m.role === 'agent' ? 'Me' : 'Them'}: ${m.content}`);
+
+    await withRetry(async () => {
+      await db.insert(messageLogs).values({
+        contactPhone: remoteJid,
+        role: 'user',
+        content: fullText,
+        type: messageType,
+        platform,
+        ...mediaColumns
+      });
+    });
+
+    const userRoleContext = isOwner ?
+      `⚠️ IMPORTANT: You are chatting with the OWNER (Boss). You have full access to all tools including summaries, system status, and analytics. Obey all commands.` :
+      `Contact Name: ${contact.name || "Unknown"}\nSummary: ${contact.summary}\nTrust Level: ${contact.trustLevel}`;
+
+    const currentAiProfile = await withRetry(async () => {
+      return await db.select().from(aiProfile).limit(1).then(res => res[0]);
+    });
+
+    const currentUserProfile = await withRetry(async () => {
+      return await db.select().from(userProfile).limit(1).then(res => res[0]);
+    });
+
+    const inlineMedia = mediaIngestionService.loadInlineMedia(attachments);
+
+    // Structured user/model turns; tool calls and their results are appended as the loop runs
+    const conversation = geminiService.buildConversation(
+      [
+        ...recentLogs.map(m => ({ role: m.role === 'agent' ? 'agent' as const : 'user' as const, content: m.content })),
+        { role: 'user', content: fullText }
+      ],
+      inlineMedia
+    );
+
+    const generate = (allowTools: boolean = true) => geminiService.generateReply(
+      conversation,
+      userRoleContext,
+      isOwner,
+      this.sanitizeProfile(currentAiProfile),
+      this.sanitizeProfile(currentUserProfile),
+      systemPrompt,
+      { allowTools, caller: getToolCaller(contact) }
+    );
+
+    let geminiResponse: GeminiResponse;
+    try {
+      geminiResponse = await generate();
+      console.log(`🧠 Gemini Response Type: ${geminiResponse.type}`);
+      if (geminiResponse.type === 'text') console.log(`📝 Text Content: "${geminiResponse.content?.substring(0, 50)}..."`);
+      if (geminiResponse.type === 'tool_call') console.log(`🛠️ Initial Tool Calls: ${geminiResponse.functionCalls?.map(c => c.name).join(', ')}`);
+    } catch (error: any) {
+      if ((error.status === 429 || error.code === 429 || error.message === 'ALL_KEYS_EXHAUSTED')) {
+        const { messageQueueService: retryQueue } = await import('../services/messageQueueService');
+        await retryQueue.enqueue(remoteJid, messages, isOwner ? 'owner' : 'normal');
+        console.log(`⏸️ Rate limit hit. Queued ${messages.length} messages for ${remoteJid}. BackgroundWorker will retry.`);
+        return;
+      }
+      console.error('Gemini Error:', error.message || error);
+      if (isOwner) await adapter.sendReply(remoteJid, "⚠️ AI Error: " + (error.message || "Unknown error"));
+      return;
+    }
+
+    const replyAsVoice = messageType === 'voice' && !!adapter.sendReplyVoice && await voiceNoteService.shouldReplyWithVoice();
+
+    const MAX_TOOL_DEPTH = 5;
+    let toolDepth = 0;
+
+    let lastToolWasSilent = false;
+
+    while (geminiResponse.type === 'tool_call' && geminiResponse.functionCalls?.length && toolDepth < MAX_TOOL_DEPTH) {
+      const calls = geminiResponse.functionCalls;
+      console.log(`🛠️ Tool Execution: ${calls.map(c => c.name).join(', ')}`);
+
+      // Run every call from this model turn; results go back in call order
+      const toolContext = { contact, userProfile: currentUserProfile, client: toolClient };
+      const results = await Promise.all(calls.map(call => this.runTool(call, toolContext, adapter, remoteJid)));
+
+      // Check if a tool asked us to stay silent (e.g. start_custom_post sends its own message)
+      lastToolWasSilent = results.some(r => r.silent);
+
+      conversation.push(
+        geminiResponse.modelTurn!,
+        geminiService.buildFunctionResponseTurn(results.map(({ name, response }) => ({ name, response })))
+      );
+
+      try {
+        geminiResponse = await generate();
+      } catch (error: any) {
+        if ((error.status === 429 || error.code === 429 || error.message === 'ALL_KEYS_EXHAUSTED') && !isOwner) {
+          console.log(`⏸️ Rate limit hit during tool execution. Re-queueing batch.`);
+          const retryAfter = error.errorDetails?.find((d: any) => d['@type']?.includes('RetryInfo'))?.retryDelay;
+          const seconds = retryAfter ? parseInt(retryAfter) : 60;
+          rateLimitManager.setRateLimited(seconds);
+          rateLimitManager.enqueue(remoteJid, messages);
+          setTimeout(() => rateLimitManager.processQueue(this.processBatch.bind(this)), seconds * 1000);
+          return;
+        }
+        console.error('Gemini Tool Response Error:', error);
+        if (isOwner) await adapter.sendReply(remoteJid, "⚠️ AI Error during tool: " + (error.message || "Unknown"));
+        break;
+      }
+      toolDepth++;
+    }
+
+    if (geminiResponse.type === 'text' && geminiResponse.content) {
+      // If the last tool sent its own message and flagged _silent, don't also send Gemini's reply.
+      // This prevents double messages (e.g. start_custom_post sends session prompt directly).
+      if (lastToolWasSilent) {
+        console.log(`🤐 Suppressing Gemini text reply (last tool was silent/self-sending).`);
+        return;
+      }
+      await this.sendResponseAndLog(adapter, remoteJid, geminiResponse.content, contact, history, fullText, replyAsVoice);
+    } else if (geminiResponse.type === 'tool_call') {
+      console.warn(`⚠️ Max tool depth (${MAX_TOOL_DEPTH}) exceeded. Forcing final response from AI...`);
+
+      try {
+        // The pending calls are dropped; tools are disabled so the model must answer from what it gathered
+        conversation.push({
+          role: 'user',
+          parts: [{ text: `[System: Maximum tool calls reached. Please provide the best possible answer based on the information you have gathered so far. Do not apologize for the limit, just answer the user's question with the data you have.]` }]
+        });
+        const forcedResponse = await generate(false);
+
+        if (forcedResponse.type === 'text' && forcedResponse.content) {
+          console.log(`✅ Generated forced response after tool limit.`);
+          await this.sendResponseAndLog(adapter, remoteJid, forcedResponse.content, contact, history, fullText, replyAsVoice);
+        } else {
+          const errorMsg = "I found some information but I'm having trouble synthesizing it. Please try asking a more specific question.";
+          await this.sendResponseAndLog(adapter, remoteJid, errorMsg, contact, history, fullText);
+        }
+      } catch (e) {
+        console.error('Error fetching forced response:', e);
+        const errorMsg = "I'm having trouble getting all the information. I might be getting stuck in a research loop.";
+        await this.sendResponseAndLog(adapter, remoteJid, errorMsg, contact, history, fullText);
+      }
+    }
+  }
+
+  /**
+   * Answers a group message that addressed the agent. Runs outside the DM queue: groups
+   * have their own history, settings (persona, allowed tools) and no identity checks.
+   */
+  async receiveGroupTrigger(trigger: GroupTrigger): Promise<void> {
+    const previous = this.groupChains.get(trigger.groupJid) || Promise.resolve();
+    const next = previous
+      .then(() => this.processGroupTrigger(trigger))
+      .catch(error => console.error(`❌ Group reply failed for ${trigger.groupJid}:`, error));
+    this.groupChains.set(trigger.groupJid, next);
+    await next;
+    if (this.groupChains.get(trigger.groupJid) === next) this.groupChains.delete(trigger.groupJid);
+  }
+
+  private async processGroupTrigger(trigger: GroupTrigger): Promise<void> {
+    const { groupJid } = trigger;
+    const adapter = this.getAdapter(groupJid);
+    if (!adapter) return;
+
+    const { systemSettingsService } = await import('../services/systemSettings');
+    if (!await systemSettingsService.isChatAgentEnabled()) {
+      console.log(`🔇 Chat Agent is DISABLED. Not answering in ${groupJid}.`);
+      return;
+    }
+    if (rateLimitManager.isLimited()) {
+      console.log(`⏸️ Rate limited. Not answering in ${groupJid}.`);
+      return;
+    }
+
+    const { groupChatService } = await import('../services/groupChatService');
+    const settings = await groupChatService.getSettings(groupJid);
+    if (!settings.enabled) return;
+
+    console.log(`👥 Group mention in ${trigger.groupName || groupJid} from ${trigger.senderName || trigger.senderJid}: "${trigger.text}"`);
+
+    // The trigger was logged by the client, so it is the last line of the history
+    const history = await groupChatService.getHistory(groupJid);
+    const conversation = geminiService.buildConversation(history.map(m => ({
+      role: m.role === 'agent' ? 'agent' as const : 'user' as const,
+      content: m.role === 'agent' ? m.content : `${m.senderName || m.senderJid?.split('@')[0] || 'Member'}: ${m.content}`,
+    })));
+
+    const groupContext = [
+      `You are in the group chat "${trigger.groupName || 'Unknown group'}". Several people talk here; each of their lines starts with the sender's name.`,
+      `${trigger.senderName || 'A member'} just addressed you. Answer their latest message briefly, in a way that suits a group. Don't greet everyone or repeat earlier answers.`,
+      `Don't share private details about the owner's other chats, customers or orders here; ask people to message you directly for anything personal.`,
+      settings.persona ? `Instructions for this group from the owner:\n${settings.persona}` : '',
+    ].filter(Boolean).join('\n');
+
+    const currentAiProfile = await withRetry(async () => {
+      return await db.select().from(aiProfile).limit(1).then(res => res[0]);
+    });
+    const currentUserProfile = await withRetry(async () => {
+      return await db.select().from(userProfile).limit(1).then(res => res[0]);
+    });
+
+    const groupContact = { phone: groupJid, isVerified: false, platform: adapter.platform };
+    const allowedTools = Array.isArray(settings.allowedTools) ? settings.allowedTools as string[] : GROUP_TOOLS;
+    const generate = (allowTools: boolean = true) => geminiService.generateReply(
+      conversation,
+      groupContext,
+      false,
+      this.sanitizeProfile(currentAiProfile),
+      this.sanitizeProfile(currentUserProfile),
+      undefined,
+      { allowTools, caller: getToolCaller(groupContact, allowedTools) }
+    );
+
+    let response = await generate();
+    const MAX_GROUP_TOOL_DEPTH = 3;
+    let toolDepth = 0;
+    let silent = false;
+
+    while (response.type === 'tool_call' && response.functionCalls?.length) {
+      if (toolDepth >= MAX_GROUP_TOOL_DEPTH) {
+        response = await generate(false);
+        break;
+      }
+      const toolContext = {
+        contact: groupContact,
+        userProfile: currentUserProfile,
+        client: this.getToolClient(adapter),
+        msg: trigger.msg,
+        group: { allowedTools },
+      };
+      const results = await Promise.all(response.functionCalls.map(call => this.runTool(call, toolContext, adapter, groupJid)));
+      silent = results.some(r => r.silent);
+
+      conversation.push(
+        response.modelTurn!,
+        geminiService.buildFunctionResponseTurn(results.map(({ name, response }) => ({ name, response })))
+      );
+      response = await generate();
+      toolDepth++;
+    }
+
+    if (response.type !== 'text' || !response.content || silent) return;
+    const reply = response.content.replace('#END_SESSION#', '').trim();
+    if (!reply) return;
+
+    await groupChatService.logMessage({ groupJid, role: 'agent', content: reply });
+    await outboxService.enqueue({
+      jid: groupJid,
+      platform: adapter.platform,
+      text: reply,
+      source: 'ai_reply',
+      metadata: { quoted: trigger.msg },
+    });
+    await groupChatService.prune(groupJid);
+  }
+
+  /**
+   * Executes one tool call and shapes its result for the function response turn
+   */
+  private async runTool(call: ToolCall, toolContext: any, adapter: PlatformAdapter, remoteJid: string): Promise<ToolResult & { silent: boolean }> {
+    let toolResult: any;
+    try {
+      toolResult = await executeLocalTool(call.name, call.args, toolContext);
+    } catch (toolError: any) {
+      console.error(`Tool error:`, toolError.message);
+      toolResult = { error: "Tool failed: " + toolError.message };
+    }
+
+    const silent = !!toolResult?._silent;
+    const resultData = toolResult?._data;
+
+    if (resultData?.type === 'image_file' && resultData.path) {
+      console.log(`🖼️ Image Generation Detected! Queueing file from ${resultData.path} for ${remoteJid}...`);
+      try {
+        const fs = require('fs');
+        const imageBuffer = fs.readFileSync(resultData.path);
+
+        await outboxService.enqueue({
+          jid: remoteJid,
+          platform: adapter.platform,
+          kind: 'image',
+          media: imageBuffer,
+          mimeType: 'image/jpeg',
+          text: resultData.caption || "Here is your image",
+          source: 'ai_reply'
+        });
+
+        try {
+          fs.unlinkSync(resultData.path);
+        } catch (cleanupError) {
+          console.warn('Failed to cleanup temp image file:', cleanupError);
+        }
+
+        toolResult = { result: "Image generated and queued for delivery to the user." };
+      } catch (imgError: any) {
+        console.error('Failed to queue generated image:', imgError);
+        toolResult = { error: "Image generated but failed to send: " + imgError.message };
+      }
+    }
+
+    // Images already in memory (product photos) go out as-is; only the text reaches Gemini
+    if (resultData?.type === 'image_buffer' && resultData.data) {
+      try {
+        await outboxService.enqueue({
+          jid: remoteJid,
+          platform: adapter.platform,
+          kind: 'image',
+          media: resultData.data,
+          mimeType: resultData.mimeType || 'image/jpeg',
+          text: resultData.caption || '',
+          source: 'ai_reply'
+        });
+        toolResult = { result: toolResult.result };
+      } catch (imgError: any) {
+        console.error('Failed to queue tool image:', imgError);
+        toolResult = { error: "Failed to send the image: " + imgError.message };
+      }
+    }
+
+    return { name: call.name, response: toolResult, silent };
+  }
+
+  /**
+   * Profile row with its null columns dropped (the prompt builder expects optional fields)
+   */
+  private sanitizeProfile(profile: any) {
+    if (!profile) return undefined;
+    const sanitized: any = {};
+    for (const [key, value] of Object.entries(profile)) {
+      if (value !== null) sanitized[key] = value;
+    }
+    return sanitized;
+  }
+
+  private async sendResponseAndLog(adapter: PlatformAdapter, remoteJid: string, responseText: string, contact: any, history: string[], userText: string, replyAsVoice: boolean = false) {
+    console.log(`📤 Sending Response to ${remoteJid} [${adapter.platform}]: "${responseText.substring(0, 50)}..."`);
+    let finalResponse = responseText;
+    let shouldEndSession = false;
+
+    if (responseText.includes('#END_SESSION#')) {
+      shouldEndSession = true;
+      finalResponse = responseText.replace('#END_SESSION#', '').trim();
+    }
+
+    const speech = replyAsVoice && adapter.sendReplyVoice ? await voiceNoteService.synthesize(finalResponse) : null;
+    if (replyAsVoice && !speech) {
+      console.warn(`🎤 Voice synthesis failed for ${remoteJid}. Falling back to text reply.`);
+    }
+
+    // Log first, then hand the reply to the outbox so it survives send failures and restarts
+    const [logEntry] = await withRetry(async () => {
+      return await db.insert(messageLogs).values({
+        contactPhone: remoteJid,
+        role: 'agent',
+        content: finalResponse,
+        type: speech ? 'voice' : 'text',
+        platform: adapter.platform
+      }).returning({ id: messageLogs.id });
+    });
+
+    await outboxService.enqueue({
+      jid: remoteJid,
+      platform: adapter.platform,
+      kind: speech ? 'voice' : 'text',
+      text: finalResponse,
+      media: speech?.audio,
+      mimeType: speech?.mimetype,
+      source: 'ai_reply',
+      messageLogId: logEntry.id
+    });
+
+    if (shouldEndSession) {
+      console.log('🏁 Closing Intent Detected. Ending session.');
+      this.conversationManager.endConversation(remoteJid);
+    } else {
+      this.conversationManager.touchConversation(remoteJid);
+    }
+
+    if (!ownerService.isOwner(remoteJid) && !rateLimitManager.isLimited()) {
+      this.runProfiling(history.concat(`Them: ${userText}`, `Me: ${finalResponse}`), contact);
+    }
+  }
+
+  private async runProfiling(history: string[], contact: any) {
+    if (rateLimitManager.isLimited()) return;
+
+    await new Promise(resolve => setTimeout(resolve, 5000));
+
+    const profileUpdate = await geminiService.updateProfile(history, contact.summary || "");
+
+    if (profileUpdate) {
+      console.log(`📝 Updating profile for ${contact.phone}...`);
+
+      await withRetry(async () => {
+        await db.update(contacts)
+          .set({
+            name: profileUpdate.name || contact.name,
+            summary: profileUpdate.summary,
+            trustLevel: profileUpdate.trust_level
+          })
+          .where(eq(contacts.phone, contact.phone));
+      });
+    }
+  }
+
+  /**
+   * The registered transport for a platform (used by the outbox worker)
+   */
+  getPlatformAdapter(platform: Platform): PlatformAdapter | undefined {
+    return this.adapters.get(platform);
+  }
+
+  private getAdapter(jid: string): PlatformAdapter | undefined {
+    for (const adapter of this.adapters.values()) {
+      if (adapter.ownsJid(jid)) return adapter;
+    }
+    return undefined;
+  }
+
+  private getToolClient(adapter: PlatformAdapter): any {
+    // Group broadcasting, deletions etc. are WhatsApp features, so prefer its client
+    return this.adapters.get('whatsapp')?.toolClient ?? adapter.toolClient;
+  }
+}
+
+export const messageProcessor = new MessageProcessor();
@@ -1,21 +1,29 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { config } from '../config/env';
 import { TelegramMessageSender } from '../services/telegramMessageSender';
-import { ConversationManager } from '../services/conversationManager';
-import { geminiService } from '../services/ai/gemini';
-import { executeLocalTool } from '../services/ai/tools';
-import { db } from '../database';
-import { contacts, messageLogs, aiProfile, userProfile } from '../database/schema';
-import { eq, desc } from 'drizzle-orm';
+import { ownerService } from '../services/ownerService';
+import { IdentityValidator } from '../utils/identityValidator';
+import { db, withRetry } from '../database';
+import { contacts, telegramChats } from '../database/schema';
+import { and, eq } from 'drizzle-orm';
+import { messageProcessor } from './messageProcessor';
+
+// Telegram rejects photo captions longer than this
+const MAX_CAPTION_LENGTH = 1024;
+
+export interface TelegramBroadcastChat {
+    id: string;
+    title: string;
+    type: string;
+}
 
 export class TelegramClient {
     private bot: TelegramBot | undefined;
     private messageSender: TelegramMessageSender | undefined;
-    private conversationManager: ConversationManager;
+    private botId: number | undefined;
+    private knownChats: Set<string> = new Set();
 
-    constructor() {
-        this.conversationManager = new ConversationManager();
-    }
+    constructor() { }
 
     async initialize() {
         if (!config.telegramBotToken) {
@@ -32,6 +40,16 @@ export class TelegramClient {
             // Print Bot Info
             const me = await this.bot.getMe();
             console.log(`✅ Telegram Bot Connected: @${me.username} (ID: ${me.id})`);
+            this.botId = me.id;
+
+            this.registerWithProcessor();
+            await messageProcessor.start();
+
+            // Expose groups/channels to marketing broadcasts
+            const { marketingService } = await import('../services/marketing/marketingService');
+            marketingService.setTelegramClient(this);
+            const { ephemeralAdsService } = await import('../services/marketing/ephemeralAdsService');
+            ephemeralAdsService.setTelegramClient(this);
 
             this.setupListeners();
         } catch (error) {
@@ -44,8 +62,23 @@ export class TelegramClient {
 
         // Handle incoming text messages
         this.bot.on('message', async (msg) => {
-            // Ignore group messages for now, only DMs
-            if (msg.chat.type !== 'private') return;
+            // Group messages only register the chat as a broadcast target; the agent answers DMs
+            if (msg.chat.type !== 'private') {
+                await this.rememberChat(msg.chat);
+
+                // Replies to one of our ads count as engagement (the bot only sees replies to its own posts)
+                if (msg.reply_to_message && msg.from && !msg.from.is_bot) {
+                    const { analyticsService } = await import('../services/analyticsService');
+                    await analyticsService.trackEngagement(
+                        'reply',
+                        msg.reply_to_message.message_id.toString(),
+                        msg.from.id.toString(),
+                        msg.chat.id.toString(),
+                        { replyText: msg.text }
+                    );
+                }
+                return;
+            }
 
             // Ignore messages from self (shouldn't happen in polling but good practice)
             if (msg.from?.is_bot) return;
@@ -53,6 +86,16 @@ export class TelegramClient {
             await this.handleIncomingMessage(msg);
         });
 
+        // Channel posts reach the bot only once it is a channel admin
+        this.bot.on('channel_post', async (msg) => {
+            await this.rememberChat(msg.chat);
+        });
+
+        // Bot added, promoted, demoted or removed in a group/channel
+        this.bot.on('my_chat_member', async (update) => {
+            await this.handleMembershipChange(update);
+        });
+
         // Error handling
         this.bot.on('polling_error', (error) => {
             console.error('Telegram Polling Error:', error);
@@ -64,185 +107,197 @@ export class TelegramClient {
 
         const chatId = msg.chat.id.toString(); // Use string for consistency
         const contactName = [msg.from?.first_name, msg.from?.last_name].filter(Boolean).join(' ') || 'Unknown Telegram User';
-        const contactUsername = msg.from?.username;
         const text = msg.text || (msg.caption ? `[Media with caption] ${msg.caption}` : '[Media Message]');
 
         console.log(`📩 Telegram Message from ${contactName} (${chatId}): ${text}`);
 
+        if (ownerService.isOwner(chatId)) {
+            console.log(`👑 Owner Message Detected from Telegram chat ${chatId}`);
+        }
+
         try {
             // 1. Get or Create Contact
-            let contact = await db.select().from(contacts).where(eq(contacts.phone, chatId)).then(rows => rows[0]);
+            let contact = await withRetry(async () => {
+                return await db.select().from(contacts).where(eq(contacts.phone, chatId)).then(rows => rows[0]);
+            });
 
             if (!contact) {
                 console.log(`👤 Creating new Telegram contact: ${contactName}`);
-                const result = await db.insert(contacts).values({
-                    phone: chatId, // Reusing phone column for Chat ID
-                    name: contactName,
-                    type: 'individual',
-                    platform: 'telegram',
-                    trustLevel: 1,
-                    lastSeenAt: new Date(),
-                    createdAt: new Date()
-                } as any).returning();
-                contact = result[0];
+                await withRetry(async () => {
+                    await db.insert(contacts).values({
+                        phone: chatId, // Reusing phone column for Chat ID
+                        originalPushname: contactName,
+                        name: IdentityValidator.extractDisplayName(contactName) || 'Unknown',
+                        summary: 'New contact. Interaction started.',
+                        trustLevel: 0,
+                        platform: 'telegram',
+                        isVerified: false,
+                        lastSeenAt: new Date()
+                    });
+                });
             } else {
                 // Update last seen
-                await db.update(contacts).set({ lastSeenAt: new Date() }).where(eq(contacts.phone, chatId));
+                await withRetry(async () => {
+                    await db.update(contacts).set({ lastSeenAt: new Date() }).where(eq(contacts.phone, chatId));
+                });
             }
 
-            // 2. Log Incoming Message
-            await db.insert(messageLogs).values({
-                contactPhone: chatId,
-                role: 'user',
-                content: text,
-                type: 'text',
-                platform: 'telegram',
-                createdAt: new Date()
-            } as any);
-
-            // 3. Process with AI
-            await this.processMessage(chatId, text, contact);
+            // 2. Hand off to the shared pipeline (buffering, queue, AI, logging, reports)
+            await messageProcessor.receive(chatId, { text });
 
         } catch (error) {
             console.error('Error handling Telegram message:', error);
         }
     }
 
-    private async processMessage(chatId: string, text: string, contact: any) {
-        if (!this.messageSender) return;
+    /**
+     * Records a group/channel the bot has seen. Admin status is looked up the first time
+     * a chat shows up; afterwards my_chat_member updates keep it current.
+     */
+    private async rememberChat(chat: TelegramBot.Chat) {
+        if (chat.type === 'private') return;
 
-        // Simulate typing
-        await this.bot?.sendChatAction(Number(chatId), 'typing');
+        const chatId = chat.id.toString();
+        if (this.knownChats.has(chatId)) return;
+        this.knownChats.add(chatId);
 
         try {
-            // 4. Load History
-            const historyLogs = await db.select()
-                .from(messageLogs)
-                .where(eq(messageLogs.contactPhone, chatId))
-                .orderBy(desc(messageLogs.createdAt))
-                .limit(10);
-
-            const history = historyLogs.reverse().map(m => `${m.role === 'agent' ? 'Me' : 'Them'}: ${m.content}`);
-
-            // 5. Generate Response
-            const isOwner = chatId === config.telegramChatId; // Check if user matches configured owner ID
-            const userRoleContext = isOwner ?
-                `⚠️ IMPORTANT: You are chatting with the OWNER (Boss). You have full access to all tools including summaries, system status, and analytics. Obey all commands.` :
-                `Contact Name: ${contact.name || "Unknown"}\nSummary: ${contact.summary}\nTrust Level: ${contact.trustLevel}`;
-
-            // Identity Validation Logic
-            let systemPrompt: string | undefined = undefined;
-            if (!contact.isVerified && !isOwner) {
-                const currentName = contact.name || 'Unknown';
-                // Using IdentityValidator helper to generate a prompt that forces the AI to ask for the name
-                const { IdentityValidator } = await import('../utils/identityValidator');
-                systemPrompt = IdentityValidator.getIdentityPrompt(currentName);
-                console.log(`🔒 Identity Verification Mode Active for ${chatId}`);
+            let isAdmin = chat.type === 'channel'; // Bots only receive channel posts as admins
+            if (!isAdmin && this.bot && this.botId) {
+                const member = await this.bot.getChatMember(chatId, this.botId);
+                isAdmin = member.status === 'administrator' || member.status === 'creator';
             }
 
-            // Helper to remove nulls
-            const sanitizeProfile = (profile: any) => {
-                if (!profile) return undefined;
-                const sanitized: any = {};
-                for (const [key, value] of Object.entries(profile)) {
-                    if (value !== null) sanitized[key] = value;
-                }
-                return sanitized;
-            };
-
-            const currentAiProfile = await db.select().from(aiProfile).then(res => res[0]);
-            const currentUserProfile = await db.select().from(userProfile).then(res => res[0]);
-
-            let geminiResponse = await geminiService.generateReply(
-                history.concat(`Them: ${text}`),
-                userRoleContext,
-                isOwner,
-                sanitizeProfile(currentAiProfile),
-                sanitizeProfile(currentUserProfile),
-                systemPrompt
-            );
-
-            // 6. Handle Tool Calls
-            const MAX_TOOL_DEPTH = 5;
-            let toolDepth = 0;
-
-            while (geminiResponse.type === 'tool_call' && geminiResponse.functionCall && toolDepth < MAX_TOOL_DEPTH) {
-                const { name, args } = geminiResponse.functionCall;
-                console.log(`🛠️ Tool Execution: ${name}`);
-
-                // Execute Tool
-                let toolResult;
-                try {
-                    // Pass context to tools
-                    toolResult = await executeLocalTool(name, args, { contact, userProfile: currentUserProfile });
-                } catch (toolError: any) {
-                    console.error(`Tool error:`, toolError.message);
-                    toolResult = { error: "Tool failed: " + toolError.message };
-                }
+            await this.upsertChat(chat, isAdmin, true);
+        } catch (error) {
+            this.knownChats.delete(chatId);
+            console.error(`Failed to record Telegram chat ${chatId}:`, error);
+        }
+    }
 
-                // Feed result back
-                const toolOutputText = `[System: Tool '${name}' returned: ${JSON.stringify(toolResult)}]`;
+    private async handleMembershipChange(update: TelegramBot.ChatMemberUpdated) {
+        if (update.chat.type === 'private') return;
 
-                geminiResponse = await geminiService.generateReply(
-                    history.concat(`Them: ${text}`, toolOutputText),
-                    userRoleContext,
-                    isOwner,
-                    sanitizeProfile(currentAiProfile),
-                    sanitizeProfile(currentUserProfile),
-                    systemPrompt
-                );
+        const status = update.new_chat_member.status;
+        const isMember = status !== 'left' && status !== 'kicked';
+        const isAdmin = status === 'administrator' || status === 'creator';
 
-                toolDepth++;
-            }
-
-            // 7. Send Final Response
-            if (geminiResponse.type === 'text' && geminiResponse.content) {
-                await this.sendResponseAndLog(chatId, geminiResponse.content, contact);
-            }
+        console.log(`📣 Telegram ${update.chat.type} '${update.chat.title}' (${update.chat.id}): bot is now ${status}`);
 
+        try {
+            await this.upsertChat(update.chat, isAdmin, isMember);
+            this.knownChats.add(update.chat.id.toString());
         } catch (error) {
-            console.error('Error serving AI response:', error);
-            await this.messageSender.sendText(chatId, "I'm having a bit of trouble thinking right now. Please try again later.");
+            console.error(`Failed to update Telegram chat ${update.chat.id}:`, error);
         }
     }
 
-    private async sendResponseAndLog(chatId: string, responseText: string, contact: any) {
-        if (!this.messageSender) return;
+    private async upsertChat(chat: TelegramBot.Chat, isAdmin: boolean, isMember: boolean) {
+        const values = {
+            title: chat.title || null,
+            type: chat.type,
+            isAdmin,
+            isMember,
+            updatedAt: new Date()
+        };
+
+        await withRetry(async () => {
+            await db.insert(telegramChats)
+                .values({ chatId: chat.id.toString(), ...values })
+                .onConflictDoUpdate({ target: telegramChats.chatId, set: values });
+        });
+    }
+
+    /**
+     * Groups and channels where the bot is an admin (campaign broadcast targets)
+     */
+    async getBroadcastChats(): Promise<TelegramBroadcastChat[]> {
+        const rows = await withRetry(async () => {
+            return await db.select()
+                .from(telegramChats)
+                .where(and(eq(telegramChats.isAdmin, true), eq(telegramChats.isMember, true)));
+        });
+
+        return rows.map(row => ({
+            id: row.chatId,
+            title: row.title || 'Untitled Chat',
+            type: row.type
+        }));
+    }
+
+    /**
+     * Sends a text message, returning the delivered Telegram message
+     */
+    async sendText(chatId: string, text: string): Promise<TelegramBot.Message | undefined> {
+        return await this.messageSender?.sendText(chatId, text);
+    }
 
-        let finalResponse = responseText;
-        let shouldEndSession = false;
+    /**
+     * Sends an image. Captions over Telegram's limit are posted as a follow-up message.
+     */
+    async sendImage(chatId: string, image: Buffer | string, caption?: string): Promise<TelegramBot.Message | undefined> {
+        if (caption && caption.length > MAX_CAPTION_LENGTH) {
+            const sent = await this.messageSender?.sendImage(chatId, image);
+            if (sent) await this.messageSender?.sendText(chatId, caption);
+            return sent;
+        }
+        return await this.messageSender?.sendImage(chatId, image, caption);
+    }
 
-        // Check for Closing Tag
-        if (responseText.includes('#END_SESSION#')) {
-            shouldEndSession = true;
-            finalResponse = responseText.replace('#END_SESSION#', '').trim();
+    /**
+     * Deletes a message the bot posted. Returns false when Telegram refuses
+     * (e.g. missing delete rights, or the message is older than 48 hours in a group).
+     */
+    async deleteMessage(chatId: string, messageId: string): Promise<boolean> {
+        if (!this.bot) return false;
+        try {
+            await this.bot.deleteMessage(chatId, Number(messageId));
+            console.log(`🗑️ Deleted Telegram message ${messageId} in ${chatId}`);
+            return true;
+        } catch (error) {
+            console.error(`❌ Failed to delete Telegram message ${messageId} in ${chatId}:`, error);
+            return false;
         }
+    }
 
-        // Send response
-        await this.messageSender.sendText(chatId, finalResponse);
+    /**
+     * Hands the bot's transport to the shared message processor
+     */
+    private registerWithProcessor() {
+        const toSent = (message: TelegramBot.Message | undefined) => {
+            if (!message) throw new Error('Telegram send failed');
+            return { id: message.message_id.toString() };
+        };
 
-        // Log Outgoing Message
-        await db.insert(messageLogs).values({
-            contactPhone: chatId,
-            role: 'agent',
-            content: finalResponse,
-            type: 'text',
+        messageProcessor.registerPlatform({
             platform: 'telegram',
-            createdAt: new Date()
-        } as any);
-
-        // Manage Session using ConversationManager
-        if (shouldEndSession) {
-            this.conversationManager.endConversation(chatId);
-        } else {
-            this.conversationManager.touchConversation(chatId);
-        }
+            // Telegram chat IDs are numeric (negative for groups); WhatsApp JIDs always contain '@'
+            ownsJid: (jid) => /^-?\d+$/.test(jid),
+            isReady: () => !!this.messageSender,
+            // The sender swallows errors and returns undefined; surface them so the outbox retries
+            sendReply: async (chatId, text) => {
+                return toSent(await this.sendText(chatId, text));
+            },
+            sendReplyImage: async (chatId, image, caption) => {
+                return toSent(await this.sendImage(chatId, image, caption));
+            },
+            sendReplyVoice: async (chatId, audio, mimetype) => {
+                // Telegram voice messages must be OGG/Opus too
+                return toSent(mimetype.startsWith('audio/ogg')
+                    ? await this.messageSender?.sendVoice(chatId, audio)
+                    : await this.messageSender?.sendAudio(chatId, audio, mimetype));
+            },
+            sendReplyDocument: async (chatId, document, fileName, mimetype, caption) => {
+                return toSent(await this.messageSender?.sendDocument(chatId, document, fileName, mimetype, caption));
+            },
+        });
     }
 
     async shutdown() {
         if (this.bot) {
             console.log('🛑 Stopping Telegram Bot...');
             await this.bot.stopPolling();
+            await messageProcessor.shutdown();
         }
     }
 }
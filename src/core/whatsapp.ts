@@ -1,36 +1,31 @@
-import makeWASocket, { DisconnectReason, useMultiFileAuthState, WASocket, fetchLatestBaileysVersion, Browsers } from '@whiskeysockets/baileys';
+import makeWASocket, { DisconnectReason, useMultiFileAuthState, WASocket, fetchLatestBaileysVersion, Browsers, WAMessageStubType } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import { config } from '../config/env';
 import { db, withRetry } from '../database';
-import { contacts, messageLogs, aiProfile, userProfile, authCredentials } from '../database/schema';
-import { eq, desc } from 'drizzle-orm';
-import { geminiService } from '../services/ai/gemini';
+import { contacts, authCredentials, messageLogs } from '../database/schema';
+import { eq } from 'drizzle-orm';
 import { calculateHumanDelay, sleep } from '../utils/delay';
 import { usePostgresAuthState } from '../database/auth/postgresAuth';
+import { CredentialKeyError } from '../database/auth/credentialCipher';
 import { MessageSender } from '../utils/messageSender';
 import pino from 'pino';
 import { IdentityValidator } from '../utils/identityValidator';
-import { ConversationManager } from '../services/conversationManager';
-import { MessageBuffer } from '../services/messageBuffer';
-import { executeLocalTool } from '../services/ai/tools';
 import { rateLimitManager } from '../services/rateLimitManager';
 import { ownerService } from '../services/ownerService';
-import { notificationService } from '../services/notificationService';
 import { sessionManager } from '../services/sessionManager';
 import { messageQueueService } from '../services/queue/messageQueue';
-import { WorkerPool } from '../services/queue/workerPool';
 import { schedulerService } from '../services/scheduler';
-import { ConcurrencyController } from '../services/queue/concurrencyController';
 import { groupMetadataLimiter } from '../utils/rateLimiter';
 import { groupMetadataCacheService } from '../services/groupMetadataCache';
+import { voiceNoteService } from '../services/voiceNoteService';
+import { mediaIngestionService, MediaAttachment } from '../services/mediaIngestionService';
+import { InboundMessage } from '../services/inboundMessage';
+import { messageProcessor } from './messageProcessor';
+import { groupChatService } from '../services/groupChatService';
 
 export class WhatsAppClient {
   private sock: WASocket | undefined;
   private messageSender: MessageSender | undefined;
-  private conversationManager: ConversationManager | undefined;
-  private messageBuffer: MessageBuffer | undefined;
-  private workerPool: WorkerPool | undefined;
-  private concurrencyController: ConcurrencyController | undefined;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private qrCode: string | null = null;
@@ -41,10 +36,14 @@ export class WhatsAppClient {
   private qrRequestedAt: number | null = null;
   private qrExpirationTimer: NodeJS.Timeout | null = null;
   private qrRequestWindowMs: number = 60000; // 60 seconds
+  private authError: string | null = null; // Stored session unreadable with the configured key
 
   constructor() { }
 
   public getStatus() {
+    if (this.authError && !this.sock?.user) {
+      return { status: 'AUTH_KEY_ERROR', qr: null, error: this.authError };
+    }
     return {
       status: this.sock?.user ? 'CONNECTED' : (this.qrCode ? 'WAITING_FOR_QR' : 'DISCONNECTED'),
       qr: this.qrCode
@@ -142,12 +141,7 @@ export class WhatsAppClient {
       this.qrRequestedAt = null;
       this.qrCode = null;
       
-      if (this.concurrencyController) {
-        this.concurrencyController.stop();
-      }
-      if (this.workerPool) {
-        await this.workerPool.shutdown();
-      }
+      await messageProcessor.shutdown();
       messageQueueService.stopMetricsCollection();
       await messageQueueService.cleanup();
       console.log('✅ WhatsApp client shutdown complete');
@@ -267,7 +261,21 @@ export class WhatsAppClient {
       }
     }
 
-    const { state, saveCreds } = await usePostgresAuthState('whatsapp_session');
+    let authState: Awaited<ReturnType<typeof usePostgresAuthState>>;
+    try {
+      authState = await usePostgresAuthState('whatsapp_session');
+    } catch (error) {
+      if (!(error instanceof CredentialKeyError)) throw error;
+      // Connecting with unreadable keys only loops through 405s: stop, and keep the data
+      console.error('❌ WhatsApp session credentials cannot be decrypted:', error.message);
+      console.log('💡 Set AUTH_ENCRYPTION_KEY to the key the session was saved with (list rotated keys in AUTH_ENCRYPTION_OLD_KEYS),');
+      console.log('   or clear the session and scan a new QR code. The stored credentials were left untouched.');
+      this.authError = error.message;
+      await sessionManager.releaseLock();
+      return;
+    }
+    this.authError = null;
+    const { state, saveCreds } = authState;
 
     console.log('🔍 Auth State Check:');
     console.log('   - Has existing credentials:', !!state.creds.me);
@@ -415,25 +423,8 @@ export class WhatsAppClient {
         this.authResetAttempts = 0; // Reset on successful connection
 
         this.messageSender = new MessageSender(this.sock!);
-        this.conversationManager = new ConversationManager();
-        this.messageBuffer = new MessageBuffer((jid, messages) => this.processMessageBatch(jid, messages));
-
-        await messageQueueService.restoreQueue();
-
-        this.workerPool = new WorkerPool(
-          messageQueueService,
-          this.processMessageBatch.bind(this)
-        );
-
-        this.concurrencyController = new ConcurrencyController(
-          messageQueueService,
-          this.workerPool
-        );
-
-        this.workerPool.start().catch(err => {
-          console.error('❌ Worker pool error:', err);
-        });
-        this.concurrencyController.start();
+        this.registerWithProcessor();
+        await messageProcessor.start();
 
         // Initialize Ephemeral Ads Service
         const { ephemeralAdsService } = await import('../services/marketing/ephemeralAdsService');
@@ -453,12 +444,6 @@ export class WhatsAppClient {
           console.error('❌ Initial group sync failed:', e);
         }
 
-        console.log('🎯 Advanced queue system initialized');
-
-        if (this.sock) {
-          notificationService.init(this.sock);
-        }
-
         schedulerService.init(this);
 
         await this.messageSender.setOnline();
@@ -497,6 +482,12 @@ export class WhatsAppClient {
       }
     });
 
+    // Track joins, leaves and admin changes as membership history
+    this.sock.ev.on('group-participants.update', async (update) => {
+      const { groupService } = await import('../services/groupService');
+      await groupService.handleParticipantsUpdate(update.id, update.participants, update.action, update.author);
+    });
+
     // Track Message Receipts (Reads)
     this.sock.ev.on('message-receipt.update', async (events) => {
       const { analyticsService } = await import('../services/analyticsService');
@@ -507,15 +498,11 @@ export class WhatsAppClient {
           const userPhone = event.key.participant || event.key.remoteJid!; // In groups, participant is set
           const remoteJid = event.key.remoteJid!;
 
-          // We only care if WE sent the message (fromMe) usually for ad tracking
-          // But Baileys receipt update might come for messages we sent
-          // event.key.fromMe should be true if we sent it
-
+          // Only our own messages matter; trackEngagement ignores any that weren't ads
           if (event.key.fromMe) {
             await analyticsService.trackEngagement(
               'read',
               messageId,
-              null, // Campaign ID hard to link directly here unless we allow looking up message logs. For now null.
               userPhone.split('@')[0], // Clean phone
               remoteJid,
               { timestamp: event.receipt.readTimestamp }
@@ -525,6 +512,33 @@ export class WhatsAppClient {
       }
     });
 
+    // Delivery acks for messages we sent (outbox status: sent → delivered → read)
+    this.sock.ev.on('messages.update', async (updates) => {
+      const { outboxService } = await import('../services/outboxService');
+      for (const { key, update } of updates) {
+        if (!key.fromMe || !key.id) continue;
+
+        // One of our messages was deleted for everyone (e.g. a group admin removed an ad)
+        if (update.messageStubType === WAMessageStubType.REVOKE && key.remoteJid) {
+          const { adBroadcastService } = await import('../services/marketing/adBroadcastService');
+          await adBroadcastService.markDeleted(key.remoteJid, key.id, 'revoked');
+          continue;
+        }
+
+        if (update.status == null) continue;
+
+        // proto.WebMessageInfo.Status: 2 SERVER_ACK, 3 DELIVERY_ACK, 4 READ, 5 PLAYED
+        const status = update.status >= 4 ? 'read' : update.status === 3 ? 'delivered' : update.status === 2 ? 'sent' : null;
+        if (!status) continue;
+
+        try {
+          await outboxService.updateAck(key.id, status);
+        } catch (e) {
+          console.error(`Failed to record ${status} ack for ${key.id}:`, e);
+        }
+      }
+    });
+
     const decryptionFailures = new Map<string, number>();
     const MAX_DECRYPT_FAILURES = 3;
 
@@ -563,7 +577,12 @@ export class WhatsAppClient {
         }
 
         if (fromMe) {
-          console.log('⏩ Skipping: Sent by Me (Bot)');
+          // The bot's own sends arrive as 'append'; a fromMe 'notify' was typed on the owner's phone
+          try {
+            await this.handleOwnerPhoneReply(msg, text);
+          } catch (err: any) {
+            console.error('❌ Error handling owner reply:', err.message);
+          }
           continue;
         }
 
@@ -604,14 +623,14 @@ export class WhatsAppClient {
             await analyticsService.trackEngagement(
               'reply',
               quotedMsg.stanzaId, // Original Ad Message ID
-              null,
               jid.includes('@g.us') ? (msg.key.participant?.split('@')[0] || '') : jid.split('@')[0],
               jid,
               { replyText: text }
             );
 
-            // 🎯 Generate AI response for group replies (with API key rotation)
-            if (jid.includes('@g.us') && text) {
+            // 🎯 Generate AI response for group replies (with API key rotation).
+            // Groups with group mode on get a full reply from handleGroupMessage instead.
+            if (jid.includes('@g.us') && text && !(await groupChatService.getSettings(jid)).enabled) {
               await this.handleGroupAdReplyResponse(jid, msg, text);
             }
           }
@@ -624,6 +643,44 @@ export class WhatsAppClient {
     });
   }
 
+  /**
+   * Owner replied to a contact from their own phone: pause the AI for that chat (human
+   * takeover) and keep the reply in the history so the AI has context when handed back
+   */
+  private async handleOwnerPhoneReply(msg: any, text?: string | null) {
+    const jid = ownerService.normalizeJid(msg.key.remoteJid!);
+    if (!jid.endsWith('@s.whatsapp.net') && !jid.endsWith('@lid')) return;
+
+    // Notes to self and chats with the owner's own number aren't customer conversations
+    const ownJid = this.sock?.user?.id ? ownerService.normalizeJid(this.sock.user.id.split(':')[0] + '@s.whatsapp.net') : null;
+    if (jid === ownJid || ownerService.isOwner(jid)) return;
+
+    const contact = await withRetry(async () => {
+      return await db.select().from(contacts).where(eq(contacts.phone, jid)).then(res => res[0]);
+    });
+    if (!contact) {
+      console.log(`⏩ Skipping: Owner message to unknown contact ${jid}`);
+      return;
+    }
+
+    console.log(`🙋 Owner replied to ${jid} from their phone`);
+    const { takeoverService } = await import('../services/takeoverService');
+    await takeoverService.handleOwnerReply(jid);
+
+    const content = text || msg.message?.imageMessage?.caption || msg.message?.documentMessage?.caption;
+    if (content) {
+      await withRetry(async () => {
+        await db.insert(messageLogs).values({
+          contactPhone: jid,
+          role: 'agent',
+          content,
+          platform: 'whatsapp',
+          metadata: { manual: true, sentFrom: 'phone' },
+        });
+      });
+    }
+  }
+
   /**
    * Handle replies to ads in groups - generates AI response using key rotation
    * ✨ Uses geminiService which automatically rotates API keys
@@ -653,8 +710,8 @@ Customer question: "${replyText}"
 
 Your response:`;
 
-      // 🔑 This uses keyManager internally with automatic rotation
-      const response = await geminiService.generateText(fullPrompt);
+      // Answering a customer, so it goes to the reply providers rather than ad copy
+      const response = await geminiService.generateText(fullPrompt, 'replies');
 
       if (!response || response.trim().length === 0) {
         console.warn('⚠️ AI generated empty response, skipping group reply');
@@ -691,15 +748,17 @@ Your response:`;
     let remoteJid = msg.key.remoteJid!;
     remoteJid = ownerService.normalizeJid(remoteJid);
 
-    const text = msg.message?.conversation || msg.message?.extendedTextMessage?.text;
+    let text = msg.message?.conversation || msg.message?.extendedTextMessage?.text;
     const pushName = msg.pushName;
     const isImage = !!msg.message?.imageMessage;
+    const audioMessage = msg.message?.audioMessage;
+    const hasMedia = mediaIngestionService.hasMedia(msg);
 
     // Handle image messages from the owner if they're in a custom campaign session
     if (isImage && ownerService.isOwner(remoteJid)) {
       try {
         const { customCampaignService } = await import('../services/marketing/customCampaignService');
-        if (customCampaignService.hasActiveSession(remoteJid)) {
+        if (await customCampaignService.hasActiveSession(remoteJid)) {
           const { downloadMediaMessage } = await import('@whiskeysockets/baileys');
           const buffer = await downloadMediaMessage(msg, 'buffer', {});
           if (buffer) {
@@ -710,21 +769,22 @@ Your response:`;
               } else if (this.sock) {
                 await this.sock.sendMessage(remoteJid, { text: response });
               }
-              return;
             }
           }
+          return; // Image belongs to the campaign session, don't process it further
         }
       } catch (e: any) {
         console.error('[CustomCampaign] Failed to handle owner image:', e.message);
+        return;
       }
-      return; // Don't process image messages further in normal flow
+      // No active session: fall through to normal media ingestion
     }
 
-    if (!text) return;
+    if (!text && !audioMessage && !hasMedia) return;
     if (remoteJid === 'status@broadcast') return;
 
     if (remoteJid.endsWith('@g.us')) {
-      console.log(`⏩ Skipping: Group message from ${remoteJid}`);
+      await this.handleGroupMessage(msg, remoteJid, text || msg.message?.imageMessage?.caption);
       return;
     }
 
@@ -738,6 +798,28 @@ Your response:`;
       return;
     }
 
+    // Voice notes are transcribed here (after group/broadcast filtering) so only DMs cost a Gemini call
+    let voiceNote = false;
+    if (!text && audioMessage) {
+      const transcribed = await this.transcribeVoiceNote(msg);
+      if (!transcribed) return;
+      text = transcribed.text;
+      voiceNote = true;
+    }
+
+    // Images, documents, stickers and location pins travel through the buffer as attachments
+    let attachment: MediaAttachment | undefined;
+    if (!text && hasMedia) {
+      try {
+        const ingested = await mediaIngestionService.ingest(msg);
+        text = ingested?.text;
+        attachment = ingested?.attachment;
+      } catch (e: any) {
+        console.error('📎 Failed to ingest inbound media:', e.message);
+      }
+      if (!text) return;
+    }
+
     console.log(`📥 Incoming DM: ${remoteJid} ("${text}")`);
 
     if (ownerService.isOwner(remoteJid)) {
@@ -770,338 +852,95 @@ Your response:`;
       }
     }
 
-    if (this.messageBuffer) {
-      // --- Custom Campaign Session Intercept ---
-      // If the owner has an active custom post session, handle their message
-      // HERE before it ever gets buffered or sent to the AI queue.
-      // This prevents Gemini from seeing mid-session replies and re-triggering the tool.
-      if (ownerService.isOwner(remoteJid) && text) {
-        try {
-          const { customCampaignService } = await import('../services/marketing/customCampaignService');
-          if (customCampaignService.hasActiveSession(remoteJid)) {
-            console.log(`📢 [CustomCampaign] Intercepting mid-session message from owner, bypassing AI queue`);
-            const campaignResponse = await customCampaignService.handleMessage(remoteJid, text, this);
-            if (campaignResponse !== null) {
-              if (this.messageSender) {
-                await this.messageSender.sendText(remoteJid, campaignResponse);
-              } else if (this.sock) {
-                await this.sock.sendMessage(remoteJid, { text: campaignResponse });
-              }
-              return; // Do NOT add to buffer — message is fully handled
-            }
-          }
-        } catch (e: any) {
-          console.error('[CustomCampaign] Early intercept failed:', e.message);
-        }
-      }
-      // --- End Custom Campaign Intercept ---
-
-      this.messageBuffer.add(remoteJid, text);
-    }
+    await messageProcessor.receive(remoteJid, { text, attachment, voiceNote });
   }
 
-  private async processMessageBatch(remoteJid: string, messages: string[]) {
-    const fullText = messages.join('\n');
-    const isOwner = ownerService.isOwner(remoteJid);
-
-    console.log(`🤖 AI Processing Batch for ${remoteJid} (Owner: ${isOwner}): "${fullText}"`);
-
-    // ⏰ CHECK CHAT AGENT STATUS FIRST, BEFORE ANYTHING ELSE
-    const { systemSettingsService } = await import('../services/systemSettings');
-    const chatAgentEnabled = await systemSettingsService.isChatAgentEnabled();
-    
-    if (!chatAgentEnabled && !isOwner) {
-      console.log(`🔇 Chat Agent is DISABLED. Non-owner message ignored. Logging only.`);
-      
-      // Log the message for context, but don't process or queue it
-      const contact = await withRetry(async () => {
-        return await db.select().from(contacts).where(eq(contacts.phone, remoteJid)).then(res => res[0]);
-      });
-      
-      if (contact) {
-        await withRetry(async () => {
-          await db.insert(messageLogs).values({
-            contactPhone: remoteJid,
-            role: 'user',
-            content: fullText,
-            type: 'text',
-            platform: 'whatsapp'
-          });
-        });
-      }
-      
-      return; // ✅ Exit COMPLETELY - don't queue, don't process
-    }
+  /**
+   * Group mode: in groups the owner switched on, keep each text message as history and
+   * answer the ones that @mention the agent or reply to it. Other groups are ignored.
+   */
+  private async handleGroupMessage(msg: any, groupJid: string, text?: string | null) {
+    if (!text) return;
 
-    // ⏰ NOW check rate limits (after chat agent check)
-    if (rateLimitManager.isLimited() && !isOwner) {
-      console.log(`⏸️ Rate limited. Queueing message from ${remoteJid} (silent mode)`);
-      rateLimitManager.enqueue(remoteJid, messages);
+    const settings = await groupChatService.getSettings(groupJid);
+    if (!settings.enabled) {
+      console.log(`⏩ Skipping: Group message from ${groupJid}`);
       return;
     }
 
-    const contact = await withRetry(async () => {
-      return await db.select().from(contacts).where(eq(contacts.phone, remoteJid)).then(res => res[0]);
+    const senderJid = msg.key.participant || '';
+    await groupChatService.logMessage({
+      groupJid,
+      role: 'user',
+      content: text,
+      senderJid,
+      senderName: msg.pushName,
+      messageId: msg.key.id,
     });
-    if (!contact) return;
 
-    // Check for active custom post campaign session (owner-only)
-    if (isOwner) {
-      try {
-        const { customCampaignService } = await import('../services/marketing/customCampaignService');
-        if (customCampaignService.hasActiveSession(remoteJid)) {
-          const campaignResponse = await customCampaignService.handleMessage(remoteJid, fullText, this);
-          if (campaignResponse !== null) {
-            console.log(`📢 [CustomCampaign] Session intercepted message for ${remoteJid}`);
-            await this.sendResponseAndLog(remoteJid, campaignResponse, contact, [], fullText);
-            return;
-          }
-        }
-      } catch (e) {
-        console.error('[CustomCampaign] Session check failed:', e);
-      }
-    }
-
-    try {
-      const { marketingService } = await import('../services/marketing/marketingService');
-      const onboardingResponse = await marketingService.handleOnboardingResponse(remoteJid, fullText);
-
-      if (onboardingResponse) {
-        console.log(`🎯 Marketing Onboarding Intercepted for ${remoteJid}`);
-        await this.sendResponseAndLog(remoteJid, onboardingResponse, contact, [], fullText);
-        return;
-      }
-    } catch (e) {
-      console.error('Marketing onboarding check failed:', e);
-    }
-
-    let systemPrompt: string | undefined = undefined;
-
-
-
-    if (!contact.isVerified && !isOwner) {
-      const currentName = contact.name || contact.originalPushname || 'Unknown';
-      systemPrompt = IdentityValidator.getIdentityPrompt(currentName);
-      console.log(`🔒 Identity Verification Mode Active for ${remoteJid}`);
-    }
-
-    const historyLogs = await withRetry(async () => {
-      return await db.select()
-        .from(messageLogs)
-        .where(eq(messageLogs.contactPhone, remoteJid))
-        .orderBy(desc(messageLogs.createdAt))
-        .limit(10);
-    });
-
-    const history = historyLogs.reverse().map(m => `${m.role === 'agent' ? 'Me' : 'Them'}: ${m.content}`);
-
-    await withRetry(async () => {
-      await db.insert(messageLogs).values({
-        contactPhone: remoteJid,
-        role: 'user',
-        content: fullText,
-        type: 'text',
-        platform: 'whatsapp'
-      });
-    });
-
-    const userRoleContext = isOwner ?
-      `⚠️ IMPORTANT: You are chatting with the OWNER (Boss). You have full access to all tools including summaries, system status, and analytics. Obey all commands.` :
-      `Contact Name: ${contact.name || "Unknown"}\nSummary: ${contact.summary}\nTrust Level: ${contact.trustLevel}`;
-
-    const sanitizeProfile = (profile: any) => {
-      if (!profile) return undefined;
-      const sanitized: any = {};
-      for (const [key, value] of Object.entries(profile)) {
-        if (value !== null) sanitized[key] = value;
-      }
-      return sanitized;
-    };
-
-    const currentAiProfile = await withRetry(async () => {
-      return await db.select().from(aiProfile).limit(1).then(res => res[0]);
+    // Groups may address the bot by its phone JID or its LID
+    const botJids = [this.sock?.user?.id, (this.sock?.user as any)?.lid]
+      .filter(Boolean)
+      .map((id: string) => ownerService.normalizeJid(id.replace(/:\d+@/, '@')));
+    const contextInfo = msg.message?.extendedTextMessage?.contextInfo || msg.message?.imageMessage?.contextInfo;
+    const mentioned = (contextInfo?.mentionedJid || []).some((jid: string) => botJids.includes(ownerService.normalizeJid(jid)));
+    const repliedTo = !!contextInfo?.participant && botJids.includes(ownerService.normalizeJid(contextInfo.participant));
+    if (!mentioned && !repliedTo) return;
+
+    const metadata = await this.getCachedGroupMetadata(groupJid).catch(() => null);
+    await messageProcessor.receiveGroupTrigger({
+      groupJid,
+      groupName: metadata?.subject,
+      senderJid,
+      senderName: msg.pushName,
+      text,
+      msg: { key: msg.key, message: msg.message },
     });
+  }
 
-    const currentUserProfile = await withRetry(async () => {
-      return await db.select().from(userProfile).limit(1).then(res => res[0]);
+  /**
+   * Hands this connection's transport to the shared message processor
+   */
+  private registerWithProcessor() {
+    const toSent = (message: any) => message?.key?.id ? { id: message.key.id, key: message.key } : undefined;
+
+    messageProcessor.registerPlatform({
+      platform: 'whatsapp',
+      ownsJid: (jid) => jid.includes('@'),
+      isReady: () => !!this.sock?.user && !!this.messageSender,
+      sendReply: async (jid, text, options) => {
+        return toSent(await this.messageSender!.sendText(jid, text, options?.quoted));
+      },
+      sendReplyImage: async (jid, image, caption) => {
+        return toSent(await this.messageSender!.sendImage(jid, image, caption));
+      },
+      sendReplyVoice: async (jid, audio, mimetype) => {
+        return toSent(await this.messageSender!.sendVoiceNote(jid, audio, mimetype));
+      },
+      sendReplyDocument: async (jid, document, fileName, mimetype, caption) => {
+        return toSent(await this.messageSender!.sendDocument(jid, document, fileName, mimetype, caption));
+      },
+      toolClient: this,
     });
-
-    let geminiResponse;
-    try {
-      geminiResponse = await geminiService.generateReply(
-        history.concat(`Them: ${fullText}`),
-        userRoleContext,
-        isOwner,
-        sanitizeProfile(currentAiProfile),
-        sanitizeProfile(currentUserProfile),
-        systemPrompt
-      );
-      console.log(`🧠 Gemini Response Type: ${geminiResponse.type}`);
-      if (geminiResponse.type === 'text') console.log(`📝 Text Content: "${geminiResponse.content?.substring(0, 50)}..."`);
-      if (geminiResponse.type === 'tool_call') console.log(`🛠️ Initial Tool Call: ${geminiResponse.functionCall?.name}`);
-    } catch (error: any) {
-      if ((error.status === 429 || error.code === 429 || error.message === 'ALL_KEYS_EXHAUSTED')) {
-        const { messageQueueService } = await import('../services/messageQueueService');
-        await messageQueueService.enqueue(remoteJid, messages, isOwner ? 'owner' : 'normal');
-        console.log(`⏸️ Rate limit hit. Queued ${messages.length} messages for ${remoteJid}. BackgroundWorker will retry.`);
-        return;
-      }
-      console.error('Gemini Error:', error.message || error);
-      if (isOwner && this.sock) await this.sock.sendMessage(remoteJid, { text: "⚠️ AI Error: " + (error.message || "Unknown error") });
-      return;
-    }
-
-    const MAX_TOOL_DEPTH = 5;
-    let toolDepth = 0;
-
-    let lastToolWasSilent = false;
-
-    while (geminiResponse.type === 'tool_call' && geminiResponse.functionCall && toolDepth < MAX_TOOL_DEPTH) {
-      const { name, args } = geminiResponse.functionCall;
-      console.log(`🛠️ Tool Execution: ${name}`);
-
-      let toolResult;
-      try {
-        toolResult = await executeLocalTool(name, args, { contact, userProfile: currentUserProfile, client: this });
-      } catch (toolError: any) {
-        console.error(`Tool error:`, toolError.message);
-        toolResult = { error: "Tool failed: " + toolError.message };
-      }
-
-      // Check if this tool asked us to stay silent (e.g. start_custom_post sends its own message)
-      lastToolWasSilent = !!(toolResult as any)?._silent;
-
-      const resultData = (toolResult as any)?._data;
-
-      if (resultData?.type === 'image_file' && resultData.path) {
-        console.log(`🖼️ Image Generation Detected! Sending file from ${resultData.path} to ${remoteJid}...`);
-        try {
-          const fs = require('fs');
-          const imageBuffer = fs.readFileSync(resultData.path);
-
-          if (this.messageSender) {
-            await this.messageSender.sendImage(remoteJid, imageBuffer, resultData.caption || "Here is your image");
-          } else if (this.sock) {
-            await this.sock.sendMessage(remoteJid, {
-              image: imageBuffer,
-              caption: resultData.caption
-            });
-          }
-
-          try {
-            fs.unlinkSync(resultData.path);
-          } catch (cleanupError) {
-            console.warn('Failed to cleanup temp image file:', cleanupError);
-          }
-
-          toolResult = { result: "Image generated and sent successfully to user." };
-        } catch (imgError: any) {
-          console.error('Failed to send generated image:', imgError);
-          toolResult = { error: "Image generated but failed to send: " + imgError.message };
-        }
-      }
-
-      const toolOutputText = `[System: Tool '${name}' returned: ${JSON.stringify(toolResult)}]`;
-
-      try {
-        geminiResponse = await geminiService.generateReply(
-          history.concat(`Them: ${fullText}`, toolOutputText),
-          userRoleContext,
-          isOwner,
-          sanitizeProfile(currentAiProfile),
-          sanitizeProfile(currentUserProfile),
-          systemPrompt
-        );
-      } catch (error: any) {
-        if ((error.status === 429 || error.code === 429 || error.message === 'ALL_KEYS_EXHAUSTED') && !isOwner) {
-          console.log(`⏸️ Rate limit hit during tool execution. Re-queueing batch.`);
-          const retryAfter = error.errorDetails?.find((d: any) => d['@type']?.includes('RetryInfo'))?.retryDelay;
-          const seconds = retryAfter ? parseInt(retryAfter) : 60;
-          rateLimitManager.setRateLimited(seconds);
-          rateLimitManager.enqueue(remoteJid, messages);
-          setTimeout(() => rateLimitManager.processQueue(this.processMessageBatch.bind(this)), seconds * 1000);
-          return;
-        }
-        console.error('Gemini Tool Response Error:', error);
-        if (isOwner && this.sock) await this.sock.sendMessage(remoteJid, { text: "⚠️ AI Error during tool: " + (error.message || "Unknown") });
-        break;
-      }
-      toolDepth++;
-    }
-
-    if (geminiResponse.type === 'text' && geminiResponse.content) {
-      // If the last tool sent its own message and flagged _silent, don't also send Gemini's reply.
-      // This prevents double messages (e.g. start_custom_post sends session prompt directly).
-      if (lastToolWasSilent) {
-        console.log(`🤐 Suppressing Gemini text reply (last tool was silent/self-sending).`);
-        return;
-      }
-      await this.sendResponseAndLog(remoteJid, geminiResponse.content, contact, history, fullText);
-    } else if (geminiResponse.type === 'tool_call') {
-      console.warn(`⚠️ Max tool depth (${MAX_TOOL_DEPTH}) exceeded. Forcing final response from AI...`);
-
-      try {
-        const forcedResponse = await geminiService.generateReply(
-          history.concat(`Them: ${fullText}`, `[System: Maximum tool calls reached. You MUST NOT call any more tools. Please provide the best possible answer based on the information you have gathered so far. Do not apologize for the limit, just answer the user's question with the data you have.]`),
-          userRoleContext,
-          isOwner,
-          sanitizeProfile(currentAiProfile),
-          sanitizeProfile(currentUserProfile),
-          systemPrompt
-        );
-
-        if (forcedResponse.type === 'text' && forcedResponse.content) {
-          console.log(`✅ Generated forced response after tool limit.`);
-          await this.sendResponseAndLog(remoteJid, forcedResponse.content, contact, history, fullText);
-        } else {
-          const errorMsg = "I found some information but I'm having trouble synthesizing it. Please try asking a more specific question.";
-          await this.sendResponseAndLog(remoteJid, errorMsg, contact, history, fullText);
-        }
-      } catch (e) {
-        console.error('Error fetching forced response:', e);
-        const errorMsg = "I'm having trouble getting all the information. I might be getting stuck in a research loop.";
-        await this.sendResponseAndLog(remoteJid, errorMsg, contact, history, fullText);
-      }
-    }
   }
 
-  private async sendResponseAndLog(remoteJid: string, responseText: string, contact: any, history: string[], userText: string) {
-    console.log(`📤 Sending Response to ${remoteJid}: "${responseText.substring(0, 50)}..."`);
-    let finalResponse = responseText;
-    let shouldEndSession = false;
-
-    if (responseText.includes('#END_SESSION#')) {
-      shouldEndSession = true;
-      finalResponse = responseText.replace('#END_SESSION#', '').trim();
-    }
-
-    if (this.messageSender) {
-      await this.messageSender.sendText(remoteJid, finalResponse);
-    } else {
-      await this.sock!.sendMessage(remoteJid, { text: finalResponse });
-    }
-
-    await withRetry(async () => {
-      await db.insert(messageLogs).values({
-        contactPhone: remoteJid,
-        role: 'agent',
-        content: finalResponse,
-        type: 'text',
-        platform: 'whatsapp'
-      });
-    });
+  /**
+   * Downloads a voice note and returns its transcript (or null if it couldn't be understood)
+   */
+  private async transcribeVoiceNote(msg: any): Promise<InboundMessage | null> {
+    try {
+      const { downloadMediaMessage } = await import('@whiskeysockets/baileys');
+      const buffer = await downloadMediaMessage(msg, 'buffer', {});
+      if (!buffer) return null;
 
-    if (this.conversationManager) {
-      if (shouldEndSession) {
-        console.log('🏁 Closing Intent Detected. Ending session.');
-        this.conversationManager.endConversation(remoteJid);
-      } else {
-        this.conversationManager.touchConversation(remoteJid);
+      const transcript = await voiceNoteService.transcribe(buffer as Buffer, msg.message?.audioMessage?.mimetype);
+      if (!transcript) {
+        console.log(`🎤 Voice note from ${msg.key.remoteJid} was empty or inaudible. Skipping.`);
       }
-    }
-
-    if (!ownerService.isOwner(remoteJid) && !rateLimitManager.isLimited()) {
-      this.runProfiling(history.concat(`Them: ${userText}`, `Me: ${finalResponse}`), contact);
+      return transcript;
+    } catch (e: any) {
+      console.error('🎤 Failed to transcribe voice note:', e.message);
+      return null;
     }
   }
 
@@ -1138,13 +977,15 @@ Your response:`;
     return "Last message deleted.";
   }
 
-  public async deleteMessage(jid: string, key: any): Promise<void> {
-    if (!this.sock) return;
+  public async deleteMessage(jid: string, key: any): Promise<boolean> {
+    if (!this.sock) return false;
     try {
       await this.sock.sendMessage(jid, { delete: key });
       console.log(`🗑️ Deleted message in ${jid}`);
+      return true;
     } catch (error) {
       console.error(`❌ Failed to delete message:`, error);
+      return false;
     }
   }
 
@@ -1181,26 +1022,4 @@ Your response:`;
       throw error;
     }
   }
-
-  private async runProfiling(history: string[], contact: any) {
-    if (rateLimitManager.isLimited()) return;
-
-    await new Promise(resolve => setTimeout(resolve, 5000));
-
-    const profileUpdate = await geminiService.updateProfile(history, contact.summary || "");
-
-    if (profileUpdate) {
-      console.log(`📝 Updating profile for ${contact.phone}...`);
-
-      await withRetry(async () => {
-        await db.update(contacts)
-          .set({
-            name: profileUpdate.name || contact.name,
-            summary: profileUpdate.summary,
-            trustLevel: profileUpdate.trust_level
-          })
-          .where(eq(contacts.phone, contact.phone));
-      });
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+/**
+ * Credential Cipher
+ * Envelope encryption for the WhatsApp session rows in auth_credentials. Every value gets its
+ * own random data key (AES-256-GCM); the data key is stored wrapped by the master key from
+ * AUTH_ENCRYPTION_KEY, tagged with that key's id:
+ *
+ *   enc:v1:<key id>:<wrapped data key>:<encrypted value>
+ *
+ * Rotating the master key only rewraps data keys: put the new key in AUTH_ENCRYPTION_KEY and
+ * the previous one in AUTH_ENCRYPTION_OLD_KEYS, and the next startup moves every row over.
+ * Rows written before encryption was enabled are plain JSON and are encrypted the same way.
+ */
+
+import crypto from 'crypto';
+import { and, asc, eq, gt, like } from 'drizzle-orm';
+import { config } from '../../config/env';
+import { db } from '../index';
+import { authCredentials } from '../schema';
+
+const PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const MIGRATION_BATCH_SIZE = 200;
+
+/**
+ * The stored credentials can't be read with the configured keys. Reconnecting won't help:
+ * the owner has to set the right key, or clear the session and scan a new QR code.
+ */
+export class CredentialKeyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CredentialKeyError';
+    }
+}
+
+interface MasterKey {
+    id: string;
+    key: Buffer;
+}
+
+export class CredentialCipher {
+    private primary: MasterKey | null = null;
+    private keys = new Map<string, MasterKey>();
+    private configError: CredentialKeyError | null = null;
+
+    constructor(primaryKey: string | undefined, oldKeys: string[] = []) {
+        // A malformed key is reported when the session is opened, not when this module loads
+        try {
+            this.primary = primaryKey ? this.addKey(primaryKey, 'AUTH_ENCRYPTION_KEY') : null;
+            oldKeys.forEach(key => this.addKey(key, 'AUTH_ENCRYPTION_OLD_KEYS'));
+        } catch (error: any) {
+            this.configError = error;
+        }
+    }
+
+    /**
+     * Throws if AUTH_ENCRYPTION_KEY or AUTH_ENCRYPTION_OLD_KEYS is malformed
+     */
+    assertUsable(): void {
+        if (this.configError) throw this.configError;
+    }
+
+    get keyId(): string | null {
+        return this.primary?.id || null;
+    }
+
+    isEncrypted(stored: string): boolean {
+        return stored.startsWith(PREFIX);
+    }
+
+    /**
+     * Encrypts a serialized value, or returns it unchanged when no key is configured
+     */
+    encrypt(plaintext: string): string {
+        this.assertUsable();
+        if (!this.primary) return plaintext;
+
+        const dataKey = crypto.randomBytes(32);
+        const wrapped = this.seal(this.primary.key, dataKey);
+        const payload = this.seal(dataKey, Buffer.from(plaintext, 'utf8'));
+        return `${PREFIX}${this.primary.id}:${wrapped}:${payload}`;
+    }
+
+    /**
+     * The serialized value back; plain (never encrypted) values pass through
+     */
+    decrypt(stored: string): string {
+        this.assertUsable();
+        if (!this.isEncrypted(stored)) return stored;
+        const { master, wrapped, payload } = this.parse(stored);
+
+        try {
+            const dataKey = this.open(master.key, wrapped);
+            return this.open(dataKey, payload).toString('utf8');
+        } catch {
+            throw new CredentialKeyError(`Stored WhatsApp credentials failed to decrypt with key ${master.id}; the key or the data is wrong`);
+        }
+    }
+
+    /**
+     * Moves a value onto the current key, or returns null when nothing needs to change
+     */
+    upgrade(stored: string): string | null {
+        this.assertUsable();
+        if (!this.isEncrypted(stored)) return this.primary ? this.encrypt(stored) : null;
+
+        const { master, wrapped, payload } = this.parse(stored);
+        if (!this.primary || master.id === this.primary.id) return null;
+
+        try {
+            const dataKey = this.open(master.key, wrapped);
+            return `${PREFIX}${this.primary.id}:${this.seal(this.primary.key, dataKey)}:${payload}`;
+        } catch {
+            throw new CredentialKeyError(`Stored WhatsApp credentials failed to decrypt with key ${master.id}; the key or the data is wrong`);
+        }
+    }
+
+    private parse(stored: string) {
+        const [id, wrapped, payload] = stored.slice(PREFIX.length).split(':');
+        const master = this.keys.get(id);
+        if (!master) {
+            throw new CredentialKeyError(this.primary
+                ? `Stored WhatsApp credentials are encrypted with key ${id}, which is neither AUTH_ENCRYPTION_KEY (${this.primary.id}) nor in AUTH_ENCRYPTION_OLD_KEYS`
+                : `Stored WhatsApp credentials are encrypted with key ${id}, but AUTH_ENCRYPTION_KEY is not set`);
+        }
+        return { master, wrapped, payload };
+    }
+
+    private addKey(encoded: string, source: string): MasterKey {
+        const key = parseKey(encoded.trim());
+        if (!key) {
+            throw new CredentialKeyError(`${source} must be a 32-byte key, as 64 hex characters or base64 (e.g. \`openssl rand -base64 32\`)`);
+        }
+        const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+        const master = { id, key };
+        this.keys.set(id, master);
+        return master;
+    }
+
+    private seal(key: Buffer, plaintext: Buffer): string {
+        const iv = crypto.randomBytes(IV_BYTES);
+        const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+        const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+        return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+    }
+
+    private open(key: Buffer, sealed: string): Buffer {
+        const data = Buffer.from(sealed, 'base64');
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_BYTES));
+        decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+        return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+    }
+}
+
+function parseKey(encoded: string): Buffer | null {
+    if (/^[0-9a-fA-F]{64}$/.test(encoded)) return Buffer.from(encoded, 'hex');
+    const key = Buffer.from(encoded, 'base64');
+    return key.length === 32 ? key : null;
+}
+
+export const credentialCipher = new CredentialCipher(config.authEncryption.key, config.authEncryption.oldKeys);
+
+/**
+ * Brings a session's stored rows in line with the configured keys before they're used:
+ * plain rows are encrypted and rows under an old key are rewrapped, in place.
+ * Throws CredentialKeyError if any row can't be read with the configured keys.
+ */
+export async function encryptStoredCredentials(collectionName: string): Promise<{ encrypted: number; rewrapped: number }> {
+    credentialCipher.assertUsable();
+    const counts = { encrypted: 0, rewrapped: 0 };
+    let plain = 0;
+    let lastKey = '';
+
+    while (true) {
+        const rows = await db.select().from(authCredentials)
+            .where(and(like(authCredentials.key, `${collectionName}:%`), gt(authCredentials.key, lastKey)))
+            .orderBy(asc(authCredentials.key))
+            .limit(MIGRATION_BATCH_SIZE);
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+            const wasEncrypted = credentialCipher.isEncrypted(row.value);
+            const upgraded = credentialCipher.upgrade(row.value);
+            if (upgraded) {
+                await db.update(authCredentials).set({ value: upgraded }).where(eq(authCredentials.key, row.key));
+                wasEncrypted ? counts.rewrapped++ : counts.encrypted++;
+            } else if (!wasEncrypted) {
+                plain++;
+            }
+        }
+        lastKey = rows[rows.length - 1].key;
+    }
+
+    if (counts.encrypted || counts.rewrapped) {
+        console.log(`🔐 Auth credentials on key ${credentialCipher.keyId}: ${counts.encrypted} plain rows encrypted, ${counts.rewrapped} rewrapped from old keys`);
+    }
+    if (plain > 0) {
+        console.warn(`⚠️ ${plain} WhatsApp auth credential rows are stored unencrypted. Set AUTH_ENCRYPTION_KEY to encrypt them.`);
+    }
+    return counts;
+}
@@ -2,11 +2,19 @@ import { proto, BufferJSON, initAuthCreds, AuthenticationCreds, AuthenticationSt
 import { db, withRetry } from '../../database';
 import { authCredentials } from '../../database/schema';
 import { eq, sql } from 'drizzle-orm';
+import { CredentialKeyError, credentialCipher, encryptStoredCredentials } from './credentialCipher';
 
+/**
+ * Baileys auth state kept in auth_credentials, encrypted with AUTH_ENCRYPTION_KEY when it is set.
+ * Throws CredentialKeyError when the stored session can't be decrypted with the configured keys.
+ */
 export const usePostgresAuthState = async (collectionName: string): Promise<{ state: AuthenticationState, saveCreds: () => Promise<void> }> => {
+    // Encrypt rows stored in plain text and move rows off rotated-out keys before anything reads them
+    await encryptStoredCredentials(collectionName);
+
     const writeData = async (data: any, id: string) => {
         const key = `${collectionName}:${id}`;
-        const value = JSON.stringify(data, BufferJSON.replacer);
+        const value = credentialCipher.encrypt(JSON.stringify(data, BufferJSON.replacer));
 
         // Use withRetry for resilience
         await withRetry(async () => {
@@ -34,10 +42,12 @@ export const usePostgresAuthState = async (collectionName: string): Promise<{ st
             const result = await db.select().from(authCredentials).where(eq(authCredentials.key, key));
 
             if (result.length > 0) {
-                return JSON.parse(result[0].value, BufferJSON.reviver);
+                return JSON.parse(credentialCipher.decrypt(result[0].value), BufferJSON.reviver);
             }
             return null;
         } catch (error) {
+            // Falling back to fresh creds here would only end in a 405 loop: let the caller stop
+            if (error instanceof CredentialKeyError) throw error;
             console.error(`Error reading auth data for ${id}:`, error);
             return null;
         }
@@ -0,0 +1,148 @@
+/**
+ * Database Drivers
+ * Connects drizzle to whichever Postgres DATABASE_URL points at:
+ * - neon:   Neon's serverless HTTP driver (*.neon.tech URLs). No transactions.
+ * - pg:     a node-postgres pool, for any other postgres:// URL (local or hosted Postgres)
+ * - pglite: an embedded in-process Postgres, for tests and throwaway databases
+ *           (pglite://memory, or pglite://<data directory> to keep the data)
+ * DATABASE_DRIVER overrides the choice, e.g. for Neon behind a custom domain.
+ *
+ * Each connection also gets a raw SQL client on the same database, which the startup
+ * initialization and migration runner use, so migrations run the same way on all three.
+ */
+
+import { neon } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-http';
+import { drizzle as drizzleNodePg, NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { Pool } from 'pg';
+import type { PGlite } from '@electric-sql/pglite';
+import * as schema from './schema';
+
+export type DatabaseDriver = 'neon' | 'pg' | 'pglite';
+
+export const DATABASE_DRIVERS: DatabaseDriver[] = ['neon', 'pg', 'pglite'];
+
+// All three drivers share the query builder; db.execute() results carry .rows on each
+export type Database = NodePgDatabase<typeof schema>;
+
+/**
+ * Raw SQL on the app's database (statements as text, $1-style parameters)
+ */
+export interface SqlClient {
+    query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+    close(): Promise<void>;
+}
+
+export interface DatabaseConnection {
+    driver: DatabaseDriver;
+    db: Database;
+    client: SqlClient;
+    supportsTransactions: boolean;
+}
+
+// Postgres type OIDs PGlite should hand over as text, as node-postgres does: drizzle parses
+// timestamps itself, and int8/numeric would lose precision as numbers
+const PGLITE_TEXT_TYPES = [
+    20,   // int8
+    1082, // date
+    1114, // timestamp
+    1184, // timestamptz
+    1186, // interval
+    1700, // numeric
+];
+
+export function resolveDriver(url: string, override?: string): DatabaseDriver {
+    if (override) {
+        if (!DATABASE_DRIVERS.includes(override as DatabaseDriver)) {
+            throw new Error(`Unknown DATABASE_DRIVER '${override}' (use ${DATABASE_DRIVERS.join(', ')})`);
+        }
+        return override as DatabaseDriver;
+    }
+    if (url.startsWith('pglite:')) return 'pglite';
+    try {
+        if (new URL(url).hostname.endsWith('.neon.tech')) return 'neon';
+    } catch {
+        // Not a URL: node-postgres will report it when connecting
+    }
+    return 'pg';
+}
+
+export function connect(url: string, override?: string): DatabaseConnection {
+    const driver = resolveDriver(url, override);
+    switch (driver) {
+        case 'neon':
+            return connectNeon(url);
+        case 'pg':
+            return connectPool(url);
+        case 'pglite':
+            return connectPglite(url);
+    }
+}
+
+function connectNeon(url: string): DatabaseConnection {
+    const sql = neon(url);
+    const raw = neon(url, { fullResults: true });
+    return {
+        driver: 'neon',
+        // Same query builder; only transactions differ (see supportsTransactions)
+        db: drizzleNeon(sql as any, { schema }) as unknown as Database,
+        client: {
+            query: async (text, params = []) => await raw(text, params as any[]),
+            close: async () => { }, // Stateless HTTP: nothing to close
+        },
+        supportsTransactions: false,
+    };
+}
+
+function connectPool(url: string): DatabaseConnection {
+    const pool = new Pool({ connectionString: url });
+    // An idle client losing its connection must not crash the process; the pool replaces it
+    pool.on('error', (error) => console.error('❌ Postgres pool error:', error.message));
+
+    return {
+        driver: 'pg',
+        db: drizzleNodePg(pool, { schema }),
+        client: {
+            query: async (text, params) => await pool.query(text, params),
+            close: async () => await pool.end(),
+        },
+        supportsTransactions: true,
+    };
+}
+
+function connectPglite(url: string): DatabaseConnection {
+    const dataDir = url.replace(/^pglite:(\/\/)?/, '');
+    // Loaded only when used: it bundles a whole Postgres build
+    const { PGlite } = require('@electric-sql/pglite') as typeof import('@electric-sql/pglite');
+    const pglite = new PGlite({
+        dataDir: !dataDir || dataDir === 'memory' ? undefined : dataDir,
+        parsers: Object.fromEntries(PGLITE_TEXT_TYPES.map(type => [type, (value: string) => value])),
+    });
+    const client = new PgliteQueryClient(pglite);
+
+    return {
+        driver: 'pglite',
+        // drizzle's node-postgres driver only needs query(); transactions run BEGIN/COMMIT on
+        // this single connection (so keep other work out of the way while one is open)
+        db: drizzleNodePg(client as unknown as Pool, { schema }),
+        client: {
+            query: async (text, params) => await client.query(text, params),
+            close: async () => await pglite.close(),
+        },
+        supportsTransactions: true,
+    };
+}
+
+/**
+ * PGlite behind the subset of the node-postgres client interface drizzle uses
+ */
+class PgliteQueryClient {
+    constructor(private pglite: PGlite) { }
+
+    async query(query: string | { text: string; rowMode?: 'array' }, params: unknown[] = []) {
+        const text = typeof query === 'string' ? query : query.text;
+        const rowMode = typeof query === 'string' ? undefined : query.rowMode;
+        const result = await this.pglite.query<any>(text, params as any[], { rowMode: rowMode === 'array' ? 'array' : 'object' });
+        return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length, fields: result.fields };
+    }
+}
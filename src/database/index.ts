@@ -1,16 +1,42 @@
-import { neon } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-http';
 import { config } from '../config/env';
-import * as schema from './schema';
+import { connect, Database } from './drivers';
+
+export type { Database, DatabaseDriver, SqlClient } from './drivers';
 
 if (!config.databaseUrl) {
     throw new Error('DATABASE_URL is not defined (check .env)');
 }
 
-// Configure Neon client with optimized settings for Render
-const sql = neon(config.databaseUrl);
+// Driver picked from the URL (Neon, a Postgres pool, or embedded PGlite); see drivers.ts
+const connection = connect(config.databaseUrl, config.databaseDriver);
+console.log(`🗄️ Database driver: ${connection.driver}`);
+
+export const db = connection.db;
+export const databaseDriver = connection.driver;
+
+// Raw SQL on the same database (startup initialization and migrations)
+export const sqlClient = connection.client;
+
+/**
+ * Runs the operation in a transaction where the driver has them (pg, PGlite).
+ * Neon's HTTP driver doesn't: there the statements run one by one, as they always have,
+ * so operations should still undo their own partial work before throwing.
+ *
+ * PGlite has a single connection, and the transaction runs on it: queries other code issues
+ * while it is open (through db, not tx) run inside it and commit or roll back with it.
+ * Keep PGlite transactions short; it is meant for tests and throwaway databases.
+ */
+export async function withTransaction<T>(operation: (tx: Database) => Promise<T>): Promise<T> {
+    if (!connection.supportsTransactions) return await operation(db);
+    return await db.transaction(async (tx) => await operation(tx));
+}
 
-export const db = drizzle(sql as any, { schema });
+/**
+ * Closes the pool / embedded database (scripts and tests; the app keeps it open)
+ */
+export async function closeDatabase(): Promise<void> {
+    await connection.client.close();
+}
 
 /**
  * Test database connection health
@@ -19,7 +45,7 @@ export const db = drizzle(sql as any, { schema });
 export async function testConnection(): Promise<boolean> {
     try {
         const start = Date.now();
-        await sql`SELECT 1`;
+        await sqlClient.query('SELECT 1');
         const duration = Date.now() - start;
         console.log(`✅ Database connection healthy (${duration}ms)`);
         return true;
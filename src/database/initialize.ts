@@ -6,8 +6,8 @@
  * - Creates missing tables if needed
  */
 
-import { neon } from '@neondatabase/serverless';
 import { config } from '../config/env';
+import { sqlClient, databaseDriver, SqlClient } from './index';
 import path from 'path';
 import fs from 'fs';
 
@@ -38,6 +38,21 @@ const EXPECTED_TABLES: { [key: string]: string[] } = {
   'session_lock': ['id', 'session_name'],
   'user_profile': ['id', 'full_name'],
   'ai_profile': ['id', 'agent_name'],
+  'flow_sessions': ['id', 'flow', 'session_key', 'state', 'expires_at'],
+  'telegram_chats': ['chat_id', 'type', 'is_admin'],
+  'ephemeral_ads': ['id', 'chat_id', 'message_id', 'status'],
+  'outbound_messages': ['id', 'jid', 'source', 'status'],
+  'dashboard_users': ['id', 'username', 'password_hash', 'role'],
+  'auth_sessions': ['id', 'token_hash', 'user_id', 'expires_at'],
+  'audit_log': ['id', 'action', 'created_at'],
+  'ad_broadcasts': ['id', 'group_jid', 'message_id', 'source'],
+  'group_member_events': ['id', 'group_jid', 'phone', 'action'],
+  'orders': ['id', 'jid', 'status', 'total'],
+  'order_items': ['id', 'order_id', 'product_name', 'quantity'],
+  'payments': ['id', 'provider', 'phone', 'amount', 'status'],
+  'bookings': ['id', 'jid', 'event_id', 'start_time', 'status'],
+  'group_settings': ['group_jid', 'enabled', 'allowed_tools'],
+  'group_messages': ['id', 'group_jid', 'role', 'content'],
 };
 
 export async function initializeDatabase() {
@@ -49,12 +64,12 @@ export async function initializeDatabase() {
   }
 
   try {
-    const client = neon(config.databaseUrl, { fullResults: true });
+    const client = sqlClient;
     
     // Step 1: Test connection
-    console.log('🔗 Testing database connection...');
+    console.log(`🔗 Testing database connection (${databaseDriver})...`);
     try {
-      await client('SELECT 1');
+      await client.query('SELECT 1');
       console.log('✅ Database connection successful\n');
     } catch (error: any) {
       console.error('❌ Database connection failed:', error.message);
@@ -83,7 +98,7 @@ export async function initializeDatabase() {
   }
 }
 
-async function executeMigrations(client: any) {
+async function executeMigrations(client: SqlClient) {
   try {
     const migrationFolder = path.join(process.cwd(), 'drizzle');
     
@@ -128,7 +143,7 @@ async function executeMigrations(client: any) {
 
           for (const stmt of statements) {
             try {
-              await client(stmt);
+              await client.query(stmt);
               successCount++;
             } catch (stmtError: any) {
               // Silently skip known error codes
@@ -163,13 +178,13 @@ async function executeMigrations(client: any) {
   }
 }
 
-async function verifyAndCreateTables(client: any): Promise<boolean> {
+async function verifyAndCreateTables(client: SqlClient): Promise<boolean> {
   let allTablesOk = true;
 
   for (const [tableName, requiredColumns] of Object.entries(EXPECTED_TABLES)) {
     try {
       // Check if table exists and get columns
-      const columnsResult = await client(`
+      const columnsResult = await client.query(`
         SELECT column_name, data_type, is_nullable
         FROM information_schema.columns
         WHERE table_name = $1
@@ -216,15 +231,15 @@ export async function checkDatabaseHealth(): Promise<{
   }
 
   try {
-    const client = neon(config.databaseUrl, { fullResults: true });
+    const client = sqlClient;
     
-    await client('SELECT 1');
+    await client.query('SELECT 1');
     
     const missingTables: string[] = [];
     
     for (const tableName of Object.keys(EXPECTED_TABLES)) {
       try {
-        await client(`SELECT 1 FROM "${tableName}" LIMIT 1`);
+        await client.query(`SELECT 1 FROM "${tableName}" LIMIT 1`);
       } catch (error: any) {
         if (error.code === '42P01') {
           missingTables.push(tableName);
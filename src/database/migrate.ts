@@ -1,5 +1,5 @@
-import { neon } from '@neondatabase/serverless';
 import { config } from '../config/env';
+import { sqlClient, databaseDriver } from './index';
 import path from 'path';
 import fs from 'fs';
 
@@ -12,13 +12,13 @@ export async function runMigrations() {
     }
 
     try {
-        // Create pooled connection
-        const client = neon(config.databaseUrl, { fullResults: true });
+        // The app's own connection, whichever driver it uses
+        const client = sqlClient;
         
         // Step 1: Test connection
-        console.log('🔗 Testing database connection...');
+        console.log(`🔗 Testing database connection (${databaseDriver})...`);
         try {
-            const result = await client('SELECT 1');
+            const result = await client.query('SELECT 1');
             console.log('✅ Database connection successful');
         } catch (error: any) {
             console.error('❌ Database health check failed:', error.message);
@@ -50,7 +50,8 @@ export async function runMigrations() {
                     let skipCount = 0;
 
                     for (let blockIdx = 0; blockIdx < blocks.length; blockIdx++) {
-                        const block = blocks[blockIdx];
+                        // Drop the marker text left at the start of each block
+                        const block = blocks[blockIdx].replace('statement-breakpoint', '');
                         const statements = block
                             .split(';')
                             .map(s => s.trim())
@@ -60,7 +61,7 @@ export async function runMigrations() {
                             if (stmt.length > 10) { // Skip very short statements
                                 try {
                                     // Execute raw SQL directly
-                                    const result = await client(stmt);
+                                    const result = await client.query(stmt);
                                     successCount++;
                                 } catch (stmtError: any) {
                                     // Skip "already exists" errors
@@ -94,7 +95,7 @@ export async function runMigrations() {
         
         for (const table of criticalTables) {
             try {
-                const result = await client(`SELECT 1 FROM "${table}" LIMIT 1`);
+                const result = await client.query(`SELECT 1 FROM "${table}" LIMIT 1`);
                 console.log(`  ✅ ${table}`);
             } catch (error: any) {
                 if (error.code === '42P01' || error.message?.includes('does not exist')) {
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, timestamp, boolean, varchar, integer, jsonb, index } from 'drizzle-orm/pg-core'; // Added index import
+import { pgTable, text, serial, timestamp, boolean, varchar, integer, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core'; // Added index import
 
 // 1. Contacts: The Rolodex with Identity Validation
 export const contacts = pgTable('contacts', {
@@ -19,6 +19,12 @@ export const contacts = pgTable('contacts', {
     trustLevel: integer('trust_level').default(0), // 0-10
     platform: varchar('platform', { length: 20 }).default('whatsapp'), // 'whatsapp' | 'telegram'
 
+    // Human takeover: AI stays silent for this contact while the owner handles the chat
+    aiPaused: boolean('ai_paused').default(false),
+    aiPausedAt: timestamp('ai_paused_at'),
+    aiPausedBy: varchar('ai_paused_by', { length: 20 }), // 'owner' | 'dashboard' | 'auto' (owner replied by hand)
+    aiPausedUntil: timestamp('ai_paused_until'), // null = until handed back
+
     // Timestamps
     createdAt: timestamp('created_at').defaultNow(),
     lastSeenAt: timestamp('last_seen_at').defaultNow(),
@@ -37,6 +43,9 @@ export const messageLogs = pgTable('message_logs', {
     content: text('content').notNull(),
     type: varchar('type', { length: 20 }).default('text'), // 'text' | 'image' | 'voice' | 'document' | 'location'
     platform: varchar('platform', { length: 20 }).default('whatsapp'), // 'whatsapp' | 'telegram'
+    mediaPath: text('media_path'), // Stored file for image/document messages (relative to media/)
+    mediaMimeType: varchar('media_mime_type', { length: 100 }),
+    metadata: jsonb('metadata'), // { fileName, caption, latitude, longitude, address, attachments }
     createdAt: timestamp('created_at').defaultNow(),
 }, (table) => {
     return {
@@ -233,6 +242,19 @@ export const marketingCampaigns = pgTable('marketing_campaigns', {
     // Target Groups (JSON array of JIDs) - Updated 2026-01-30
     targetGroups: jsonb('target_groups'),
 
+    // Networks the campaign posts to (JSON array: 'whatsapp' | 'telegram')
+    platforms: jsonb('platforms').default(['whatsapp']),
+    // Telegram group/channel chat IDs (JSON array); empty = every chat where the bot is admin
+    telegramTargets: jsonb('telegram_targets'),
+
+    // Minutes before a posted ad is deleted from groups; 0 = never delete
+    adTtlMinutes: integer('ad_ttl_minutes').default(30),
+
+    // Content templates the campaign may use (JSON array of ids); none of a kind = every active one
+    templateIds: jsonb('template_ids'),
+    // A/B test mode: each slot sends two framework variants to different groups, favouring past winners
+    experimentMode: boolean('experiment_mode').default(false),
+
     // Business Context (Overrides global profile)
     businessDescription: text('business_description'), // AI-enhanced comprehensive business context
     productInfo: text('product_info'),
@@ -259,23 +281,37 @@ export const scheduledPosts = pgTable('scheduled_posts', {
     content: text('content').notNull(), // The ad copy or fact text
     mediaUrl: text('media_url'), // Local path or URL for images
     scheduledTime: timestamp('scheduled_time').notNull(),
-    status: varchar('status', { length: 20 }).default('pending'), // 'pending', 'sent', 'failed'
-    platform: varchar('platform', { length: 20 }).default('whatsapp'), // Target platform
+    status: varchar('status', { length: 20 }).default('pending'), // 'pending', 'approved', 'sent', 'failed', 'cancelled'
+    platform: varchar('platform', { length: 20 }).default('whatsapp'), // 'whatsapp' | 'telegram' | 'all'
+    slot: varchar('slot', { length: 40 }), // Campaign slot it was pre-generated for, e.g. '2026-03-01 ad_morning' (null = added by hand)
     metadata: jsonb('metadata'), // Store framework used, fact ID, etc.
+    approvedBy: varchar('approved_by', { length: 50 }),
+    approvedAt: timestamp('approved_at'),
+    sentAt: timestamp('sent_at'),
+    lastError: text('last_error'),
     createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => {
     return {
         statusTimeIdx: index('sched_status_time_idx').on(table.status, table.scheduledTime),
+        campaignSlotIdx: uniqueIndex('sched_campaign_slot_idx').on(table.campaignId, table.slot),
     };
 });
 
-// 15. Marketing: Content Templates (Ad Frameworks)
+// 15. Marketing: Content Templates (Ad pitch frameworks and visual styles, owner-managed)
 export const contentTemplates = pgTable('content_templates', {
     id: serial('id').primaryKey(),
-    name: varchar('name', { length: 100 }).notNull(), // 'PAS', 'AIDA', 'Story'
-    structure: text('structure').notNull(), // Description of structure for AI
+    kind: varchar('kind', { length: 20 }).notNull().default('framework'), // 'framework' | 'visual_style'
+    name: varchar('name', { length: 100 }).notNull(), // 'PAS', 'AIDA', 'Harambee appeal'
+    structure: text('structure').notNull(), // Description of structure for AI (art direction for visual styles)
     examples: text('examples'), // Few-shot examples
+    isActive: boolean('is_active').notNull().default(true), // Inactive templates are never picked
     createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+    return {
+        kindNameIdx: uniqueIndex('template_kind_name_idx').on(table.kind, table.name),
+    };
 });
 
 // 16. System Settings: Dynamic Configuration
@@ -356,6 +392,7 @@ export const adEngagements = pgTable('ad_engagements', {
     groupJid: varchar('group_jid', { length: 100 }), // Optional, linking to group
     userPhone: varchar('user_phone', { length: 50 }), // Who engaged
     messageId: varchar('message_id', { length: 100 }), // The specific message ID
+    broadcastId: integer('broadcast_id').references(() => adBroadcasts.id, { onDelete: 'set null' }), // The ad that was read / replied to
     type: varchar('type', { length: 20 }).notNull(), // 'delivered', 'read', 'reply'
     context: jsonb('context'), // Extra context (e.g., reply text)
     createdAt: timestamp('created_at').defaultNow(),
@@ -363,5 +400,284 @@ export const adEngagements = pgTable('ad_engagements', {
     return {
         campTypeIdx: index('eng_camp_type_idx').on(table.campaignId, table.type),
         msgIdx: index('eng_msg_idx').on(table.messageId),
+        broadcastIdx: index('eng_broadcast_idx').on(table.broadcastId),
+    };
+});
+
+// 22. Conversational Flow State: multi-step owner wizards (onboarding, custom posts)
+export const flowSessions = pgTable('flow_sessions', {
+    id: serial('id').primaryKey(),
+    flow: varchar('flow', { length: 50 }).notNull(), // 'marketing_onboarding' | 'custom_post' | ...
+    sessionKey: varchar('session_key', { length: 100 }).notNull(), // Usually the contact JID
+    state: jsonb('state').notNull(), // Serialized session (Buffers stored as base64)
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+    return {
+        flowKeyIdx: uniqueIndex('flow_session_key_idx').on(table.flow, table.sessionKey),
+        expiresIdx: index('flow_session_expires_idx').on(table.expiresAt),
+    };
+});
+
+// 23. Telegram Chats: groups/channels the bot has been added to (broadcast targets)
+export const telegramChats = pgTable('telegram_chats', {
+    chatId: varchar('chat_id', { length: 50 }).primaryKey(), // Numeric chat ID as string (negative for groups/channels)
+    title: text('title'),
+    type: varchar('type', { length: 20 }).notNull(), // 'group' | 'supergroup' | 'channel'
+    isAdmin: boolean('is_admin').default(false), // Bot can only broadcast where it is admin
+    isMember: boolean('is_member').default(true), // False once the bot is removed
+    updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// 24. Ephemeral Ads: posted ads awaiting auto-deletion from groups/channels
+export const ephemeralAds = pgTable('ephemeral_ads', {
+    id: serial('id').primaryKey(),
+    campaignId: integer('campaign_id').references(() => marketingCampaigns.id, { onDelete: 'set null' }),
+    platform: varchar('platform', { length: 20 }).default('whatsapp'), // 'whatsapp' | 'telegram'
+    chatId: varchar('chat_id', { length: 100 }).notNull(), // Group JID or Telegram chat ID
+    messageId: varchar('message_id', { length: 100 }).notNull(),
+    messageKey: jsonb('message_key'), // Full Baileys key (WhatsApp only)
+    sentAt: timestamp('sent_at').defaultNow(),
+    expiresAt: timestamp('expires_at'), // NULL = never delete
+    status: varchar('status', { length: 20 }).default('live'), // 'live' | 'deleted' | 'failed'
+    deleteAttempts: integer('delete_attempts').default(0),
+    nextAttemptAt: timestamp('next_attempt_at'), // Backoff after a failed delete
+    lastError: text('last_error'),
+    deletedAt: timestamp('deleted_at'),
+}, (table) => {
+    return {
+        statusExpiresIdx: index('ephemeral_status_expires_idx').on(table.status, table.expiresAt),
+        campaignIdx: index('ephemeral_campaign_idx').on(table.campaignId),
+    };
+});
+
+// 25. Outbox: every outgoing message is written here first, then dispatched with retries
+export const outboundMessages = pgTable('outbound_messages', {
+    id: serial('id').primaryKey(),
+    platform: varchar('platform', { length: 20 }).default('whatsapp'), // 'whatsapp' | 'telegram'
+    jid: varchar('jid', { length: 100 }).notNull(), // Recipient JID / Telegram chat ID
+    kind: varchar('kind', { length: 20 }).notNull().default('text'), // 'text' | 'image' | 'voice' | 'document'
+    content: text('content'), // Text body, or caption for media
+    mediaPath: text('media_path'), // File inside media/ (image/voice/document)
+    mediaMimeType: varchar('media_mime_type', { length: 100 }),
+    fileName: text('file_name'), // Document name shown to the recipient
+    source: varchar('source', { length: 30 }).notNull(), // 'ai_reply' | 'broadcast' | 'notification' | 'manual' (dashboard)
+    messageLogId: integer('message_log_id').references(() => messageLogs.id, { onDelete: 'set null' }),
+    metadata: jsonb('metadata'), // Source-specific context (e.g. campaign for broadcasts)
+    status: varchar('status', { length: 20 }).default('pending'), // 'pending' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed'
+    attempts: integer('attempts').default(0),
+    nextAttemptAt: timestamp('next_attempt_at').defaultNow(),
+    lastError: text('last_error'),
+    externalId: varchar('external_id', { length: 100 }), // Platform message ID, matched against acks
+    sentAt: timestamp('sent_at'),
+    deliveredAt: timestamp('delivered_at'),
+    readAt: timestamp('read_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+    return {
+        statusNextIdx: index('outbox_status_next_idx').on(table.status, table.nextAttemptAt),
+        externalIdx: index('outbox_external_idx').on(table.externalId),
+        messageLogIdx: index('outbox_message_log_idx').on(table.messageLogId),
+    };
+});
+
+// 26. Dashboard Users: logins for the web dashboard / REST API
+export const dashboardUsers = pgTable('dashboard_users', {
+    id: serial('id').primaryKey(),
+    username: varchar('username', { length: 50 }).notNull().unique(),
+    passwordHash: text('password_hash').notNull(), // scrypt$<salt>$<hash>
+    role: varchar('role', { length: 20 }).notNull().default('viewer'), // 'owner' | 'staff' (chats only) | 'viewer' (analytics only)
+    isActive: boolean('is_active').default(true),
+    createdAt: timestamp('created_at').defaultNow(),
+    lastLoginAt: timestamp('last_login_at'),
+});
+
+// 27. Auth Sessions: signed-in dashboard sessions (only a hash of the token is stored)
+export const authSessions = pgTable('auth_sessions', {
+    id: serial('id').primaryKey(),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    userId: integer('user_id').notNull().references(() => dashboardUsers.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at').notNull(),
+    ip: varchar('ip', { length: 64 }),
+    userAgent: text('user_agent'),
+    createdAt: timestamp('created_at').defaultNow(),
+    lastSeenAt: timestamp('last_seen_at').defaultNow(),
+}, (table) => {
+    return {
+        userIdx: index('auth_session_user_idx').on(table.userId),
+    };
+});
+
+// 28. Audit Log: who changed what through the dashboard / REST API
+export const auditLog = pgTable('audit_log', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').references(() => dashboardUsers.id, { onDelete: 'set null' }),
+    username: varchar('username', { length: 50 }), // Kept so entries survive user deletion
+    action: varchar('action', { length: 100 }).notNull(), // Method + path, e.g. 'PUT /api/marketing/campaign/5'
+    target: text('target'), // The setting key, for system setting changes
+    details: jsonb('details'), // Request body with secrets redacted
+    ip: varchar('ip', { length: 64 }),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+    return {
+        createdAtIdx: index('audit_created_at_idx').on(table.createdAt),
+    };
+});
+
+// 29. Ad Broadcasts: one row per ad posted to a group/channel, so reads, replies and deletions can be attributed
+export const adBroadcasts = pgTable('ad_broadcasts', {
+    id: serial('id').primaryKey(),
+    campaignId: integer('campaign_id').references(() => marketingCampaigns.id, { onDelete: 'set null' }),
+    scheduledPostId: integer('scheduled_post_id').references(() => scheduledPosts.id, { onDelete: 'set null' }),
+    source: varchar('source', { length: 20 }).notNull(), // 'slot' | 'calendar' | 'post_now' | 'manual' | 'custom'
+    platform: varchar('platform', { length: 20 }).notNull().default('whatsapp'), // 'whatsapp' | 'telegram'
+    groupJid: varchar('group_jid', { length: 100 }).notNull(), // Group JID or Telegram chat ID
+    messageId: varchar('message_id', { length: 100 }).notNull(),
+    framework: varchar('framework', { length: 60 }), // Pitch framework of the copy (null for custom posts)
+    visualStyle: varchar('visual_style', { length: 60 }),
+    slot: varchar('slot', { length: 40 }), // 'ad_morning', 'ad_afternoon', ...
+    variant: varchar('variant', { length: 10 }), // 'A' | 'B' when part of an A/B test
+    experimentKey: varchar('experiment_key', { length: 60 }), // Variants of the same test share this (e.g. '2026-03-01 ad_morning')
+    audienceSize: integer('audience_size'), // Group members when it was posted (for reach rate)
+    sentAt: timestamp('sent_at').defaultNow(),
+    deletedAt: timestamp('deleted_at'),
+    deletedReason: varchar('deleted_reason', { length: 20 }), // 'expired' (auto-delete) | 'manual' | 'revoked' (deleted in WhatsApp)
+}, (table) => {
+    return {
+        messageIdx: uniqueIndex('broadcast_message_idx').on(table.platform, table.groupJid, table.messageId),
+        campaignIdx: index('broadcast_campaign_idx').on(table.campaignId, table.sentAt),
+        experimentIdx: index('broadcast_experiment_idx').on(table.campaignId, table.experimentKey),
+    };
+});
+
+// 30. Group Member Events: joins, leaves and admin changes (from participant updates and sync diffs)
+export const groupMemberEvents = pgTable('group_member_events', {
+    id: serial('id').primaryKey(),
+    groupJid: varchar('group_jid', { length: 100 }).notNull(),
+    phone: varchar('phone', { length: 50 }).notNull(),
+    action: varchar('action', { length: 20 }).notNull(), // 'join' | 'leave' | 'promote' | 'demote'
+    actor: varchar('actor', { length: 50 }), // Admin who added/removed/promoted, when WhatsApp tells us
+    source: varchar('source', { length: 20 }).notNull().default('event'), // 'event' (live update) | 'sync' (found when re-syncing)
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+    return {
+        groupTimeIdx: index('member_event_group_time_idx').on(table.groupJid, table.createdAt),
+        actionIdx: index('member_event_action_idx').on(table.action, table.createdAt),
+    };
+});
+
+// 31. Orders: a customer's order, drafted in chat by the agent and fulfilled from the dashboard
+export const orders = pgTable('orders', {
+    id: serial('id').primaryKey(),
+    contactId: integer('contact_id').references(() => contacts.id, { onDelete: 'set null' }),
+    jid: varchar('jid', { length: 100 }).notNull(), // Chat the order was placed in (status updates go back here)
+    platform: varchar('platform', { length: 20 }).notNull().default('whatsapp'), // 'whatsapp' | 'telegram'
+    customerName: text('customer_name'),
+    status: varchar('status', { length: 20 }).notNull().default('draft'), // 'draft' | 'pending' | 'paid' | 'dispatched' | 'delivered' | 'cancelled'
+    total: integer('total').notNull().default(0), // Sum of the items at their order-time prices
+    notes: text('notes'), // Delivery details from the customer
+    confirmedAt: timestamp('confirmed_at'), // Draft confirmed and stock taken
+    statusChangedAt: timestamp('status_changed_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+    return {
+        statusIdx: index('order_status_idx').on(table.status, table.createdAt),
+        contactIdx: index('order_contact_idx').on(table.contactId, table.status),
+    };
+});
+
+// 32. Order Items: products in an order, with name and price copied at order time
+export const orderItems = pgTable('order_items', {
+    id: serial('id').primaryKey(),
+    orderId: integer('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(),
+    productId: integer('product_id').references(() => products.id, { onDelete: 'set null' }),
+    productName: varchar('product_name', { length: 200 }).notNull(),
+    unitPrice: integer('unit_price').notNull().default(0),
+    quantity: integer('quantity').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+    return {
+        orderIdx: index('order_item_order_idx').on(table.orderId),
+        orderProductIdx: uniqueIndex('order_item_product_idx').on(table.orderId, table.productId),
+    };
+});
+
+// 33. Payments: M-Pesa STK push requests and their confirmations
+export const payments = pgTable('payments', {
+    id: serial('id').primaryKey(),
+    orderId: integer('order_id').references(() => orders.id, { onDelete: 'set null' }),
+    contactId: integer('contact_id').references(() => contacts.id, { onDelete: 'set null' }),
+    provider: varchar('provider', { length: 20 }).notNull(), // 'mpesa' | 'fake'
+    phone: varchar('phone', { length: 20 }).notNull(), // MSISDN the prompt was sent to (2547XXXXXXXX)
+    amount: integer('amount').notNull(),
+    status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending' | 'success' | 'failed'
+    checkoutRequestId: varchar('checkout_request_id', { length: 100 }),
+    merchantRequestId: varchar('merchant_request_id', { length: 100 }),
+    receiptNumber: varchar('receipt_number', { length: 50 }), // M-Pesa confirmation code, e.g. 'QKJ4ABC123'
+    amountPaid: integer('amount_paid'),
+    resultCode: integer('result_code'),
+    resultDesc: text('result_desc'),
+    callback: jsonb('callback'), // Raw callback body, for disputes
+    createdAt: timestamp('created_at').defaultNow(),
+    completedAt: timestamp('completed_at'),
+}, (table) => {
+    return {
+        checkoutIdx: uniqueIndex('payment_checkout_idx').on(table.provider, table.checkoutRequestId),
+        orderIdx: index('payment_order_idx').on(table.orderId),
+        statusIdx: index('payment_status_idx').on(table.status, table.createdAt),
+    };
+});
+
+// 34. Bookings: meetings the agent put on the calendar, so contacts can move or cancel them and get reminders
+export const bookings = pgTable('bookings', {
+    id: serial('id').primaryKey(),
+    contactId: integer('contact_id').references(() => contacts.id, { onDelete: 'set null' }),
+    jid: varchar('jid', { length: 100 }).notNull(), // Chat the meeting was booked from (reminders go here)
+    platform: varchar('platform', { length: 20 }).notNull().default('whatsapp'), // 'whatsapp' | 'telegram'
+    eventId: varchar('event_id', { length: 200 }).notNull().unique(), // Google Calendar event id
+    customerName: text('customer_name'),
+    purpose: text('purpose'),
+    location: text('location'),
+    meetLink: text('meet_link'),
+    startTime: timestamp('start_time').notNull(),
+    endTime: timestamp('end_time'),
+    timezone: varchar('timezone', { length: 50 }), // Times in reminders are shown in this zone
+    status: varchar('status', { length: 20 }).notNull().default('scheduled'), // 'scheduled' | 'cancelled' | 'attended' | 'no_show'
+    remindersSent: jsonb('reminders_sent'), // Reminder offsets (minutes before start) already sent or skipped
+    cancelledBy: varchar('cancelled_by', { length: 20 }), // 'contact' | 'owner'
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+    return {
+        statusStartIdx: index('booking_status_start_idx').on(table.status, table.startTime),
+        jidIdx: index('booking_jid_idx').on(table.jid, table.startTime),
+    };
+});
+
+// 35. Group Settings: per-group switches for answering when the bot is mentioned or replied to
+export const groupSettings = pgTable('group_settings', {
+    groupJid: varchar('group_jid', { length: 100 }).primaryKey(),
+    enabled: boolean('enabled').notNull().default(false), // Off until the owner turns it on
+    persona: text('persona'), // Extra instructions for this group (tone, topics, language)
+    allowedTools: jsonb('allowed_tools'), // Tool names the agent may use here; null = every group-safe tool
+    updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// 36. Group Messages: recent chat in groups with replies enabled, used as history for group replies
+export const groupMessages = pgTable('group_messages', {
+    id: serial('id').primaryKey(),
+    groupJid: varchar('group_jid', { length: 100 }).notNull(),
+    senderJid: varchar('sender_jid', { length: 100 }), // Participant (null for the agent's own replies)
+    senderName: text('sender_name'),
+    role: varchar('role', { length: 10 }).notNull(), // 'user' | 'agent'
+    content: text('content').notNull(),
+    messageId: varchar('message_id', { length: 100 }),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+    return {
+        groupCreatedIdx: index('group_message_group_idx').on(table.groupJid, table.createdAt),
     };
 });
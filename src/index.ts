@@ -25,15 +25,22 @@ import {
     products,
     groups,
     groupMembers,
-    sessionLock
+    sessionLock,
+    outboundMessages
 } from './database/schema';
-import { eq, desc, sql } from 'drizzle-orm';
+import { eq, desc, sql, getTableColumns } from 'drizzle-orm';
 import { sessionManager } from './services/sessionManager';
 import { groupMetadataLimiter } from './utils/rateLimiter';
 import { initializeDatabase } from './database/initialize';
+import { requireAuth, auditTrail, setSessionCookie, clearSessionCookie, getSessionToken } from './middleware/auth';
+import { authService, USER_ROLES, UserRole } from './services/authService';
+import { auditService } from './services/auditService';
 
 const app = express();
-app.use(cors());
+// Render terminates TLS at its proxy; trust it so req.ip / secure cookies see the real client
+app.set('trust proxy', 1);
+// The dashboard is same-origin; only explicitly configured origins may call the API cross-site
+app.use(cors({ origin: config.corsOrigins.length ? config.corsOrigins : false, credentials: true }));
 app.use(express.json({ limit: '10mb' }));
 
 // Serve static files from public directory
@@ -58,10 +65,206 @@ app.get('/ready', async (req, res) => {
     }
 });
 
+// Everything under /api needs a signed-in dashboard user (see middleware/auth.ts for role rules)
+app.use('/api', requireAuth, auditTrail);
+
+// Auth Endpoints
+
+// Checks a login request's credentials; answers with the error and returns null when they fail
+async function authenticateLogin(req: express.Request, res: express.Response) {
+    const ip = req.ip || 'unknown';
+    if (authService.isLockedOut(ip)) {
+        res.status(429).json({ error: 'Too many failed attempts. Try again in 15 minutes.' });
+        return null;
+    }
+
+    const { username, password } = req.body || {};
+    const session = await authService.login(username, password, { ip, userAgent: req.get('user-agent') });
+    if (!session) {
+        res.status(401).json({ error: 'Invalid username or password' });
+        return null;
+    }
+
+    await auditService.record({ user: session.user, action: 'login', ip });
+    return session;
+}
+
+// Dashboard login: the session only lives in the HttpOnly cookie, out of reach of page scripts
+app.post('/api/auth/login', async (req, res) => {
+    try {
+        const session = await authenticateLogin(req, res);
+        if (!session) return;
+
+        setSessionCookie(res, session.token, session.expiresAt);
+        res.json({ success: true, user: session.user, expiresAt: session.expiresAt });
+    } catch (error) {
+        console.error('Failed to log in:', error);
+        res.status(500).json({ error: 'Failed to log in' });
+    }
+});
+
+// API client login: returns a bearer token instead of setting a cookie
+app.post('/api/auth/token', async (req, res) => {
+    try {
+        const session = await authenticateLogin(req, res);
+        if (!session) return;
+
+        res.json({ success: true, user: session.user, token: session.token, expiresAt: session.expiresAt });
+    } catch (error) {
+        console.error('Failed to issue API token:', error);
+        res.status(500).json({ error: 'Failed to issue API token' });
+    }
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+    try {
+        const token = getSessionToken(req);
+        if (token) await authService.logout(token);
+        clearSessionCookie(res);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to log out:', error);
+        res.status(500).json({ error: 'Failed to log out' });
+    }
+});
+
+app.get('/api/auth/me', (req, res) => {
+    res.json({ user: req.user });
+});
+
+app.put('/api/auth/password', async (req, res) => {
+    try {
+        const { currentPassword, newPassword } = req.body || {};
+        const user = await authService.findUserByUsername(req.user!.username);
+        if (!user || !(await authService.verifyPassword(currentPassword || '', user.passwordHash))) {
+            return res.status(400).json({ error: 'Current password is incorrect' });
+        }
+
+        const weakness = authService.checkPasswordStrength(newPassword);
+        if (weakness) {
+            return res.status(400).json({ error: weakness });
+        }
+
+        // Signs out every session of this user, including this one
+        await authService.updateUser(user.id, { password: newPassword });
+        clearSessionCookie(res);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to change password:', error);
+        res.status(500).json({ error: 'Failed to change password' });
+    }
+});
+
+app.get('/api/auth/users', async (req, res) => {
+    try {
+        res.json(await authService.listUsers());
+    } catch (error) {
+        console.error('Failed to fetch users:', error);
+        res.status(500).json({ error: 'Failed to fetch users' });
+    }
+});
+
+app.post('/api/auth/users', async (req, res) => {
+    try {
+        const { username, password, role } = req.body || {};
+        if (typeof username !== 'string' || !/^[a-zA-Z0-9._-]{3,50}$/.test(username)) {
+            return res.status(400).json({ error: 'Username must be 3-50 letters, numbers, dots, dashes or underscores' });
+        }
+        if (!USER_ROLES.includes(role)) {
+            return res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` });
+        }
+        const weakness = authService.checkPasswordStrength(password);
+        if (weakness) {
+            return res.status(400).json({ error: weakness });
+        }
+        if (await authService.findUserByUsername(username)) {
+            return res.status(409).json({ error: 'Username already exists' });
+        }
+
+        const user = await authService.createUser(username, password, role as UserRole);
+        res.json({ success: true, user });
+    } catch (error) {
+        console.error('Failed to create user:', error);
+        res.status(500).json({ error: 'Failed to create user' });
+    }
+});
+
+app.put('/api/auth/users/:id', async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const { role, isActive, password } = req.body || {};
+
+        if (role !== undefined && !USER_ROLES.includes(role)) {
+            return res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` });
+        }
+        if (isActive !== undefined && typeof isActive !== 'boolean') {
+            return res.status(400).json({ error: 'isActive must be true or false' });
+        }
+        if (password !== undefined) {
+            const weakness = authService.checkPasswordStrength(password);
+            if (weakness) {
+                return res.status(400).json({ error: weakness });
+            }
+        }
+
+        // Never demote or disable the last active owner
+        const losesOwner = (role !== undefined && role !== 'owner') || isActive === false;
+        const target = (await authService.listUsers()).find(u => u.id === id);
+        if (target?.role === 'owner' && losesOwner && !(await authService.hasOtherActiveOwner(id))) {
+            return res.status(400).json({ error: 'There must be at least one active owner' });
+        }
+
+        const found = await authService.updateUser(id, { role, isActive, password });
+        if (!found) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to update user:', error);
+        res.status(500).json({ error: 'Failed to update user' });
+    }
+});
+
+app.delete('/api/auth/users/:id', async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (id === req.user!.id) {
+            return res.status(400).json({ error: 'You cannot delete your own account' });
+        }
+
+        const target = (await authService.listUsers()).find(u => u.id === id);
+        if (target?.role === 'owner' && !(await authService.hasOtherActiveOwner(id))) {
+            return res.status(400).json({ error: 'There must be at least one active owner' });
+        }
+
+        const found = await authService.deleteUser(id);
+        if (!found) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to delete user:', error);
+        res.status(500).json({ error: 'Failed to delete user' });
+    }
+});
+
+app.get('/api/audit-log', async (req, res) => {
+    try {
+        const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+        const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+        res.json(await auditService.list(limit, userId));
+    } catch (error) {
+        console.error('Failed to fetch audit log:', error);
+        res.status(500).json({ error: 'Failed to fetch audit log' });
+    }
+});
+
 // API Endpoints
 app.get('/api/status', (req, res) => {
+    const whatsapp = whatsappClient.getStatus();
     res.json({
-        whatsapp: whatsappClient.getStatus(),
+        // The pairing QR is as good as a login to the WhatsApp account: owners only
+        whatsapp: req.user?.role === 'owner' ? whatsapp : { ...whatsapp, qr: null },
         telegram: { connected: !!config.telegramBotToken }
     });
 });
@@ -118,6 +321,9 @@ app.get('/api/chats', async (req, res) => {
             phone: contacts.phone,
             name: contacts.name,
             trustLevel: contacts.trustLevel,
+            aiPaused: contacts.aiPaused,
+            aiPausedBy: contacts.aiPausedBy,
+            aiPausedUntil: contacts.aiPausedUntil,
             lastMessage: sql<string>`(
                 SELECT content 
                 FROM ${messageLogs} 
@@ -151,8 +357,15 @@ app.get('/api/chats', async (req, res) => {
 
 app.get('/api/chats/:phone/messages', async (req, res) => {
     try {
-        const messages = await db.select()
+        // Agent messages carry their outbox delivery status (pending/sent/delivered/read/failed)
+        const messages = await db.select({
+            ...getTableColumns(messageLogs),
+            deliveryStatus: outboundMessages.status,
+            deliveredAt: outboundMessages.deliveredAt,
+            readAt: outboundMessages.readAt
+        })
             .from(messageLogs)
+            .leftJoin(outboundMessages, eq(outboundMessages.messageLogId, messageLogs.id))
             .where(eq(messageLogs.contactPhone, req.params.phone))
             .orderBy(desc(messageLogs.createdAt))
             .limit(100);
@@ -164,6 +377,152 @@ app.get('/api/chats/:phone/messages', async (req, res) => {
     }
 });
 
+// Human takeover: pause the AI for one contact ({ paused: true, minutes? }) or hand back ({ paused: false })
+app.put('/api/chats/:phone/takeover', async (req, res) => {
+    try {
+        const { paused, minutes } = req.body;
+        if (typeof paused !== 'boolean') {
+            return res.status(400).json({ error: 'paused must be true or false' });
+        }
+        if (minutes !== undefined && (typeof minutes !== 'number' || minutes < 0)) {
+            return res.status(400).json({ error: 'minutes must be a positive number' });
+        }
+
+        const { takeoverService } = await import('./services/takeoverService');
+        const found = paused
+            ? await takeoverService.pause(req.params.phone, 'dashboard', minutes)
+            : await takeoverService.resume(req.params.phone);
+
+        if (!found) {
+            return res.status(404).json({ error: 'Contact not found' });
+        }
+
+        res.json({ success: true, ...(await takeoverService.getState(req.params.phone)) });
+    } catch (error) {
+        console.error('Failed to update takeover:', error);
+        res.status(500).json({ error: 'Failed to update takeover' });
+    }
+});
+
+// Manual messages from the dashboard: { text?, attachment?: { data (base64), mimeType, fileName? } }
+app.post('/api/chats/:phone/messages', async (req, res) => {
+    try {
+        const contact = await db.select()
+            .from(contacts)
+            .where(eq(contacts.phone, req.params.phone))
+            .then(rows => rows[0]);
+
+        if (!contact) {
+            return res.status(404).json({ error: 'Contact not found' });
+        }
+
+        const { manualMessageService } = await import('./services/manualMessageService');
+        const validationError = manualMessageService.validate(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+        if (await manualMessageService.isBacklogged(contact.phone)) {
+            return res.status(429).json({ error: 'Too many messages still waiting to be sent to this chat. Try again shortly.' });
+        }
+
+        const result = await manualMessageService.send(contact.phone, req.body, contact.phone);
+
+        // Replying by hand means the owner is handling this chat (same as replying from their phone)
+        const { takeoverService } = await import('./services/takeoverService');
+        await takeoverService.handleOwnerReply(contact.phone);
+
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Failed to send message:', error);
+        res.status(500).json({ error: 'Failed to send message' });
+    }
+});
+
+app.post('/api/groups/:jid/messages', async (req, res) => {
+    try {
+        const jid = req.params.jid;
+        // WhatsApp groups end in @g.us; Telegram groups/channels have negative chat IDs
+        if (!jid.endsWith('@g.us') && !/^-\d+$/.test(jid)) {
+            return res.status(400).json({ error: 'Not a group JID' });
+        }
+
+        const { manualMessageService } = await import('./services/manualMessageService');
+        const validationError = manualMessageService.validate(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+        if (await manualMessageService.isBacklogged(jid)) {
+            return res.status(429).json({ error: 'Too many messages still waiting to be sent to this group. Try again shortly.' });
+        }
+
+        const result = await manualMessageService.send(jid, req.body, null);
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Failed to send group message:', error);
+        res.status(500).json({ error: 'Failed to send group message' });
+    }
+});
+
+// Group mode: whether the agent answers @mentions/replies in a group, its persona and tools there
+app.get('/api/groups/settings', async (req, res) => {
+    try {
+        const { groupChatService } = await import('./services/groupChatService');
+        const { GROUP_TOOLS } = await import('./services/ai/toolPolicy');
+        res.json({ success: true, settings: await groupChatService.listSettings(), availableTools: GROUP_TOOLS });
+    } catch (error) {
+        console.error('Failed to fetch group settings:', error);
+        res.status(500).json({ error: 'Failed to fetch group settings' });
+    }
+});
+
+app.get('/api/groups/:jid/settings', async (req, res) => {
+    try {
+        const { groupChatService } = await import('./services/groupChatService');
+        const { GROUP_TOOLS } = await import('./services/ai/toolPolicy');
+        const jid = req.params.jid;
+        if (!jid.endsWith('@g.us')) return res.status(400).json({ error: 'Not a WhatsApp group JID' });
+
+        res.json({ success: true, settings: await groupChatService.getSettings(jid), availableTools: GROUP_TOOLS });
+    } catch (error) {
+        console.error('Failed to fetch group settings:', error);
+        res.status(500).json({ error: 'Failed to fetch group settings' });
+    }
+});
+
+app.put('/api/groups/:jid/settings', async (req, res) => {
+    try {
+        const { groupChatService } = await import('./services/groupChatService');
+        const jid = req.params.jid;
+        if (!jid.endsWith('@g.us')) return res.status(400).json({ error: 'Not a WhatsApp group JID' });
+
+        const validationError = groupChatService.validateSettings(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+
+        const { enabled, persona, allowedTools } = req.body;
+        const settings = await groupChatService.updateSettings(jid, { enabled, persona, allowedTools });
+        res.json({ success: true, settings });
+    } catch (error) {
+        console.error('Failed to update group settings:', error);
+        res.status(500).json({ error: 'Failed to update group settings' });
+    }
+});
+
+// Inbound media (images/documents contacts sent) referenced by messageLogs.mediaPath
+app.get('/api/media/:fileName', async (req, res) => {
+    const { mediaIngestionService } = await import('./services/mediaIngestionService');
+    const filePath = mediaIngestionService.resolve(req.params.fileName);
+
+    if (!filePath) {
+        return res.status(404).json({ error: 'Media not found' });
+    }
+    // Contacts choose these files: download them, never render them as a page on this origin.
+    // <img> tags in the dashboard still display images.
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox");
+    res.attachment(path.basename(filePath));
+    res.sendFile(filePath);
+});
+
 app.get('/api/stats', async (req, res) => {
     try {
         const totalContacts = await db.select({ count: sql<number>`count(*)` })
@@ -365,6 +724,42 @@ app.post('/api/settings/system', async (req, res) => {
     }
 });
 
+// AI providers: each task's fallback chain, and which providers can take requests
+app.get('/api/llm/providers', async (req, res) => {
+    try {
+        const { llmRouter } = await import('./services/ai/providers/llmRouter');
+        res.json({ success: true, ...await llmRouter.getStatus() });
+    } catch (error) {
+        console.error('Failed to fetch AI providers:', error);
+        res.status(500).json({ error: 'Failed to fetch AI providers' });
+    }
+});
+
+app.put('/api/llm/providers', async (req, res) => {
+    try {
+        const { llmRouter } = await import('./services/ai/providers/llmRouter');
+        const { LLM_TASKS } = await import('./services/ai/providers/llmProvider');
+        const tasks = req.body?.tasks;
+        if (!tasks || typeof tasks !== 'object') {
+            return res.status(400).json({ error: 'tasks is required' });
+        }
+
+        const updates = LLM_TASKS.filter(task => tasks[task] !== undefined);
+        for (const task of updates) {
+            const invalid = llmRouter.validateChain(tasks[task]);
+            if (invalid) return res.status(400).json({ error: `${task}: ${invalid}` });
+        }
+        for (const task of updates) {
+            await llmRouter.setChain(task, tasks[task]);
+        }
+
+        res.json({ success: true, ...await llmRouter.getStatus() });
+    } catch (error) {
+        console.error('Failed to update AI providers:', error);
+        res.status(500).json({ error: 'Failed to update AI providers' });
+    }
+});
+
 app.post('/api/admin/migrate', async (req, res) => {
     try {
         console.log('🚀 Manual migration triggered via API');
@@ -719,7 +1114,7 @@ app.post('/api/marketing/trigger-now', async (req, res) => {
         console.log(`🚀 Manually triggering campaign: ${campaign.name} (${type})`);
 
         // Execute asynchronously
-        marketingService.executeSingleCampaignSlot(whatsappClient, campaign, type, "Manual trigger by user")
+        marketingService.executeSingleCampaignSlot(whatsappClient, campaign, type, "Manual trigger by user", 'manual')
             .then(() => console.log(`✅ Manual trigger for ${campaign.name} completed`))
             .catch(err => console.error(`❌ Manual trigger for ${campaign.name} failed:`, err));
 
@@ -733,7 +1128,7 @@ app.post('/api/marketing/trigger-now', async (req, res) => {
 app.post('/api/marketing/campaign', async (req, res) => {
     try {
         const { marketingService } = await import('./services/marketing/marketingService');
-        const { name, morningTime, afternoonTime, eveningTime, productInfo, targetAudience, uniqueSellingPoint, brandVoice, businessDescription, companyLink, contentSource, selectedProductId, selectedShopId } = req.body;
+        const { name, morningTime, afternoonTime, eveningTime, productInfo, targetAudience, uniqueSellingPoint, brandVoice, businessDescription, companyLink, contentSource, selectedProductId, selectedShopId, adTtlMinutes, templateIds, experimentMode } = req.body;
 
         const businessContext = (productInfo || contentSource || selectedProductId || selectedShopId) ? {
             productInfo,
@@ -752,7 +1147,10 @@ app.post('/api/marketing/campaign', async (req, res) => {
             morningTime,
             afternoonTime,
             eveningTime,
-            businessContext
+            businessContext,
+            adTtlMinutes !== undefined ? Number(adTtlMinutes) : undefined,
+            Array.isArray(templateIds) ? templateIds.map(Number).filter(id => !isNaN(id)) : undefined,
+            experimentMode === true
         );
         res.json({ success: true, message: result });
     } catch (error) {
@@ -761,6 +1159,333 @@ app.post('/api/marketing/campaign', async (req, res) => {
     }
 });
 
+// Ad template library (pitch frameworks and visual styles used when generating ads)
+app.get('/api/marketing/templates', async (req, res) => {
+    try {
+        const { contentTemplateService } = await import('./services/marketing/contentTemplateService');
+        const kind = req.query.kind as string | undefined;
+        if (kind && kind !== 'framework' && kind !== 'visual_style') {
+            return res.status(400).json({ error: 'kind must be framework or visual_style' });
+        }
+        const templates = await contentTemplateService.list(kind as any);
+        res.json({ success: true, templates });
+    } catch (error) {
+        console.error('Failed to fetch templates:', error);
+        res.status(500).json({ error: 'Failed to fetch templates' });
+    }
+});
+
+app.post('/api/marketing/templates', async (req, res) => {
+    try {
+        const { contentTemplateService } = await import('./services/marketing/contentTemplateService');
+        const invalid = contentTemplateService.validate(req.body, false);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+        if (await contentTemplateService.findByName(req.body.kind, req.body.name.trim())) {
+            return res.status(409).json({ error: 'A template with that name already exists' });
+        }
+
+        const template = await contentTemplateService.create(req.body);
+        res.json({ success: true, template });
+    } catch (error) {
+        console.error('Failed to create template:', error);
+        res.status(500).json({ error: 'Failed to create template' });
+    }
+});
+
+app.put('/api/marketing/templates/:id', async (req, res) => {
+    try {
+        const { contentTemplateService } = await import('./services/marketing/contentTemplateService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid template ID' });
+        }
+        const invalid = contentTemplateService.validate(req.body, true);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const template = await contentTemplateService.get(id);
+        if (!template) {
+            return res.status(404).json({ error: 'Template not found' });
+        }
+        if (req.body.kind !== undefined && req.body.kind !== template.kind) {
+            return res.status(400).json({ error: 'A template cannot change kind' });
+        }
+        if (req.body.name !== undefined) {
+            const existing = await contentTemplateService.findByName(template.kind as any, req.body.name.trim());
+            if (existing && existing.id !== id) {
+                return res.status(409).json({ error: 'A template with that name already exists' });
+            }
+        }
+
+        const updated = await contentTemplateService.update(id, req.body);
+        res.json({ success: true, template: updated });
+    } catch (error) {
+        console.error('Failed to update template:', error);
+        res.status(500).json({ error: 'Failed to update template' });
+    }
+});
+
+app.delete('/api/marketing/templates/:id', async (req, res) => {
+    try {
+        const { contentTemplateService } = await import('./services/marketing/contentTemplateService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid template ID' });
+        }
+
+        const deleted = await contentTemplateService.delete(id);
+        if (!deleted) {
+            return res.status(404).json({ error: 'Template not found' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to delete template:', error);
+        res.status(500).json({ error: 'Failed to delete template' });
+    }
+});
+
+app.get('/api/marketing/ephemeral-ads', async (req, res) => {
+    try {
+        const { ephemeralAdsService } = await import('./services/marketing/ephemeralAdsService');
+        const ads = await ephemeralAdsService.listLiveAds();
+        res.json({ success: true, ads });
+    } catch (error) {
+        console.error('Failed to fetch live ads:', error);
+        res.status(500).json({ error: 'Failed to fetch live ads' });
+    }
+});
+
+app.delete('/api/marketing/ephemeral-ads/:id', async (req, res) => {
+    try {
+        const { ephemeralAdsService } = await import('./services/marketing/ephemeralAdsService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid ad ID' });
+        }
+
+        const deleted = await ephemeralAdsService.deleteNow(id);
+        if (!deleted) {
+            return res.status(404).json({ error: 'Live ad not found' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to delete ad:', error);
+        res.status(500).json({ error: 'Failed to delete ad' });
+    }
+});
+
+// ==================== CONTENT CALENDAR (scheduled_posts) ====================
+
+app.get('/api/marketing/scheduled-posts', async (req, res) => {
+    try {
+        const { contentCalendarService } = await import('./services/marketing/contentCalendarService');
+        const { status, campaignId, from, to } = req.query as Record<string, string | undefined>;
+
+        const posts = await contentCalendarService.list({
+            status: status || undefined,
+            campaignId: campaignId ? parseInt(campaignId) || undefined : undefined,
+            from: from && !isNaN(Date.parse(from)) ? new Date(from) : undefined,
+            to: to && !isNaN(Date.parse(to)) ? new Date(to) : undefined,
+        });
+        res.json({ success: true, posts });
+    } catch (error) {
+        console.error('Failed to fetch scheduled posts:', error);
+        res.status(500).json({ error: 'Failed to fetch scheduled posts' });
+    }
+});
+
+app.post('/api/marketing/scheduled-posts', async (req, res) => {
+    try {
+        const { contentCalendarService } = await import('./services/marketing/contentCalendarService');
+        const { campaignId, content, scheduledTime, platform, image } = req.body || {};
+
+        const invalid = contentCalendarService.validate(req.body || {}, false);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const campaign = Number.isInteger(Number(campaignId)) ? await db.query.marketingCampaigns.findFirst({
+            where: eq(marketingCampaigns.id, Number(campaignId))
+        }) : null;
+        if (!campaign) {
+            return res.status(400).json({ error: 'A valid campaignId is required' });
+        }
+
+        const post = await contentCalendarService.create({
+            campaignId: campaign.id,
+            content: content.trim(),
+            scheduledTime: new Date(scheduledTime),
+            platform,
+            image,
+        });
+        res.json({ success: true, post });
+    } catch (error) {
+        console.error('Failed to create scheduled post:', error);
+        res.status(500).json({ error: 'Failed to create scheduled post' });
+    }
+});
+
+// Drafts upcoming slots now instead of waiting for the hourly run
+app.post('/api/marketing/scheduled-posts/generate', async (req, res) => {
+    try {
+        const { schedulerService } = await import('./services/scheduler');
+        const created = await schedulerService.pregenerateScheduledPosts();
+        res.json({ success: true, created });
+    } catch (error) {
+        console.error('Failed to generate scheduled posts:', error);
+        res.status(500).json({ error: 'Failed to generate scheduled posts' });
+    }
+});
+
+// Edit the copy / platform, or reschedule (scheduledTime)
+app.put('/api/marketing/scheduled-posts/:id', async (req, res) => {
+    try {
+        const { contentCalendarService } = await import('./services/marketing/contentCalendarService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid post ID' });
+        }
+
+        const post = await contentCalendarService.get(id);
+        if (!post) {
+            return res.status(404).json({ error: 'Scheduled post not found' });
+        }
+        if (!contentCalendarService.isOpen(post)) {
+            return res.status(400).json({ error: `A ${post.status} post can no longer be changed` });
+        }
+
+        const invalid = contentCalendarService.validate(req.body || {}, true);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const { content, platform, scheduledTime } = req.body;
+        const updated = await contentCalendarService.update(post, {
+            content: content !== undefined ? content.trim() : undefined,
+            platform,
+            scheduledTime: scheduledTime !== undefined ? new Date(scheduledTime) : undefined,
+        });
+        res.json({ success: true, post: updated });
+    } catch (error) {
+        console.error('Failed to update scheduled post:', error);
+        res.status(500).json({ error: 'Failed to update scheduled post' });
+    }
+});
+
+app.post('/api/marketing/scheduled-posts/:id/approve', async (req, res) => {
+    try {
+        const { contentCalendarService } = await import('./services/marketing/contentCalendarService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid post ID' });
+        }
+
+        const post = await contentCalendarService.get(id);
+        if (!post) {
+            return res.status(404).json({ error: 'Scheduled post not found' });
+        }
+        if (!contentCalendarService.isOpen(post)) {
+            return res.status(400).json({ error: `A ${post.status} post can't be approved` });
+        }
+
+        const updated = await contentCalendarService.approve(id, req.user?.username || 'dashboard');
+        res.json({ success: true, post: updated });
+    } catch (error) {
+        console.error('Failed to approve scheduled post:', error);
+        res.status(500).json({ error: 'Failed to approve scheduled post' });
+    }
+});
+
+app.post('/api/marketing/scheduled-posts/:id/cancel', async (req, res) => {
+    try {
+        const { contentCalendarService } = await import('./services/marketing/contentCalendarService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid post ID' });
+        }
+
+        const post = await contentCalendarService.get(id);
+        if (!post) {
+            return res.status(404).json({ error: 'Scheduled post not found' });
+        }
+        if (!contentCalendarService.isOpen(post)) {
+            return res.status(400).json({ error: `A ${post.status} post can't be cancelled` });
+        }
+
+        const updated = await contentCalendarService.cancel(id);
+        res.json({ success: true, post: updated });
+    } catch (error) {
+        console.error('Failed to cancel scheduled post:', error);
+        res.status(500).json({ error: 'Failed to cancel scheduled post' });
+    }
+});
+
+app.delete('/api/marketing/scheduled-posts/:id', async (req, res) => {
+    try {
+        const { contentCalendarService } = await import('./services/marketing/contentCalendarService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid post ID' });
+        }
+
+        const deleted = await contentCalendarService.delete(id);
+        if (!deleted) {
+            return res.status(404).json({ error: 'Scheduled post not found' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to delete scheduled post:', error);
+        res.status(500).json({ error: 'Failed to delete scheduled post' });
+    }
+});
+
+// Registered before /campaign/:id so 'targets' isn't parsed as a campaign ID
+app.put('/api/marketing/campaign/targets', async (req, res) => {
+    try {
+        const { targetGroups, telegramTargets, platforms, campaignId } = req.body;
+
+        if (targetGroups === undefined && telegramTargets === undefined && platforms === undefined) {
+            return res.status(400).json({ success: false, error: 'Provide targetGroups, telegramTargets or platforms' });
+        }
+        if (targetGroups !== undefined && !Array.isArray(targetGroups)) {
+            return res.status(400).json({ success: false, error: 'targetGroups must be an array' });
+        }
+        if (telegramTargets !== undefined && !Array.isArray(telegramTargets)) {
+            return res.status(400).json({ success: false, error: 'telegramTargets must be an array' });
+        }
+        if (platforms !== undefined && (!Array.isArray(platforms) || platforms.length === 0 ||
+            platforms.some((p: string) => p !== 'whatsapp' && p !== 'telegram'))) {
+            return res.status(400).json({ success: false, error: "platforms must be a non-empty array of 'whatsapp' and/or 'telegram'" });
+        }
+
+        // Update the given campaign, or the active campaign
+        const campaign = await db.query.marketingCampaigns.findFirst({
+            where: campaignId ? eq(marketingCampaigns.id, parseInt(campaignId)) : eq(marketingCampaigns.status, 'active')
+        });
+
+        if (!campaign) {
+            return res.status(404).json({ success: false, error: campaignId ? 'Campaign not found' : 'No active campaign found' });
+        }
+
+        const updates: Partial<typeof marketingCampaigns.$inferInsert> = {};
+        if (targetGroups !== undefined) updates.targetGroups = targetGroups;
+        if (telegramTargets !== undefined) updates.telegramTargets = telegramTargets.map(String);
+        if (platforms !== undefined) updates.platforms = platforms;
+
+        await db.update(marketingCampaigns)
+            .set(updates)
+            .where(eq(marketingCampaigns.id, campaign.id));
+
+        res.json({ success: true, message: 'Target groups updated' });
+    } catch (error) {
+        console.error('Failed to update target groups:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+});
+
 app.put('/api/marketing/campaign/:id', async (req, res) => {
     try {
         const { marketingService } = await import('./services/marketing/marketingService');
@@ -864,31 +1589,29 @@ app.get('/api/marketing/groups', async (req, res) => {
     }
 });
 
-app.put('/api/marketing/campaign/targets', async (req, res) => {
+app.get('/api/marketing/telegram-chats', async (req, res) => {
     try {
-        const { targetGroups } = req.body;
-
-        if (!Array.isArray(targetGroups)) {
-            return res.status(400).json({ success: false, error: 'targetGroups must be an array' });
-        }
-
-        // Update active campaign
-        const activeCampaign = await db.query.marketingCampaigns.findFirst({
-            where: eq(marketingCampaigns.status, 'active')
-        });
+        const campaignId = req.query.campaignId ? parseInt(req.query.campaignId as string) : null;
 
-        if (!activeCampaign) {
-            return res.status(404).json({ success: false, error: 'No active campaign found' });
+        let selectedChats: string[] = [];
+        if (campaignId) {
+            const campaign = await db.query.marketingCampaigns.findFirst({
+                where: eq(marketingCampaigns.id, campaignId)
+            });
+            selectedChats = ((campaign?.telegramTargets as any as string[]) || []).map(String);
         }
 
-        await db.update(marketingCampaigns)
-            .set({ targetGroups: targetGroups as any }) // Cast targetGroups to any for jsonb field
-            .where(eq(marketingCampaigns.id, activeCampaign.id));
+        const chats = (await telegramClient.getBroadcastChats()).map(chat => ({
+            id: chat.id,
+            name: chat.title,
+            type: chat.type,
+            selected: selectedChats.includes(chat.id)
+        }));
 
-        res.json({ success: true, message: 'Target groups updated' });
+        res.json({ success: true, chats });
     } catch (error) {
-        console.error('Failed to update target groups:', error);
-        res.status(500).json({ success: false, error: 'Internal server error' });
+        console.error('Failed to fetch Telegram chats:', error);
+        res.status(500).json({ error: 'Failed to fetch Telegram chats' });
     }
 });
 
@@ -995,6 +1718,161 @@ app.delete('/api/products/:id', async (req, res) => {
     }
 });
 
+// ==================== ORDERS ====================
+
+app.get('/api/orders', async (req, res) => {
+    try {
+        const { orderService, ORDER_STATUSES } = await import('./services/orderService');
+        const status = req.query.status as string | undefined;
+        if (status && !ORDER_STATUSES.includes(status as any)) {
+            return res.status(400).json({ error: `status must be one of: ${ORDER_STATUSES.join(', ')}` });
+        }
+
+        const orders = await orderService.list(status as any);
+        res.json({ success: true, orders });
+    } catch (error) {
+        console.error('Failed to fetch orders:', error);
+        res.status(500).json({ error: 'Failed to fetch orders' });
+    }
+});
+
+app.get('/api/orders/:id', async (req, res) => {
+    try {
+        const { orderService } = await import('./services/orderService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) return res.status(400).json({ error: 'Invalid order ID' });
+
+        const order = await orderService.get(id);
+        if (!order) return res.status(404).json({ error: 'Order not found' });
+
+        res.json({ success: true, order });
+    } catch (error) {
+        console.error('Failed to fetch order:', error);
+        res.status(500).json({ error: 'Failed to fetch order' });
+    }
+});
+
+// Move an order along (paid, dispatched, delivered, cancelled); the customer is messaged
+app.put('/api/orders/:id/status', async (req, res) => {
+    try {
+        const { orderService } = await import('./services/orderService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) return res.status(400).json({ error: 'Invalid order ID' });
+
+        const order = await orderService.get(id);
+        if (!order) return res.status(404).json({ error: 'Order not found' });
+
+        const { status } = req.body || {};
+        const invalid = orderService.validateStatusChange(order, status);
+        if (invalid) return res.status(400).json({ error: invalid });
+
+        const updated = await orderService.updateStatus(order, status);
+        if (!updated) return res.status(409).json({ error: 'The order changed meanwhile. Reload it and try again.' });
+        res.json({ success: true, order: updated });
+    } catch (error) {
+        console.error('Failed to update order status:', error);
+        res.status(500).json({ error: 'Failed to update order status' });
+    }
+});
+
+// ==================== PAYMENTS ====================
+
+app.get('/api/payments', async (req, res) => {
+    try {
+        const { paymentService } = await import('./services/payments/paymentService');
+        const orderId = req.query.orderId ? parseInt(req.query.orderId as string) : undefined;
+        if (orderId !== undefined && isNaN(orderId)) return res.status(400).json({ error: 'Invalid order ID' });
+
+        const payments = await paymentService.list(orderId);
+        res.json({ success: true, payments });
+    } catch (error) {
+        console.error('Failed to fetch payments:', error);
+        res.status(500).json({ error: 'Failed to fetch payments' });
+    }
+});
+
+// Called by Safaricom (no dashboard session): checked against MPESA_CALLBACK_TOKEN instead
+app.post('/api/payments/mpesa/callback', async (req, res) => {
+    try {
+        const { paymentService } = await import('./services/payments/paymentService');
+        if (!paymentService.isValidCallbackToken(req.query.token)) {
+            console.warn(`⚠️ Rejected M-Pesa callback with a bad token from ${req.ip}`);
+            return res.status(403).json({ ResultCode: 1, ResultDesc: 'Rejected' });
+        }
+
+        const handled = await paymentService.handleCallback(req.body);
+        if (!handled) return res.status(400).json({ ResultCode: 1, ResultDesc: 'Not an STK callback' });
+
+        res.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    } catch (error) {
+        console.error('Failed to process M-Pesa callback:', error);
+        res.status(500).json({ ResultCode: 1, ResultDesc: 'Failed to process callback' });
+    }
+});
+
+// ==================== BOOKINGS ====================
+
+// ?status= filters; ?upcoming=true lists meetings from now on, soonest first
+app.get('/api/bookings', async (req, res) => {
+    try {
+        const { bookingService, BOOKING_STATUSES } = await import('./services/bookingService');
+        const status = req.query.status as string | undefined;
+        if (status && !BOOKING_STATUSES.includes(status as any)) {
+            return res.status(400).json({ error: `status must be one of: ${BOOKING_STATUSES.join(', ')}` });
+        }
+
+        const result = await bookingService.list({
+            status: status as any,
+            from: req.query.upcoming === 'true' ? new Date() : undefined,
+        });
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Failed to fetch bookings:', error);
+        res.status(500).json({ error: 'Failed to fetch bookings' });
+    }
+});
+
+// Record whether the contact showed up (only once the meeting has started)
+app.put('/api/bookings/:id/outcome', async (req, res) => {
+    try {
+        const { bookingService } = await import('./services/bookingService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) return res.status(400).json({ error: 'Invalid booking ID' });
+
+        const booking = await bookingService.get(id);
+        if (!booking) return res.status(404).json({ error: 'Booking not found' });
+
+        const { status } = req.body || {};
+        const invalid = bookingService.validateOutcome(booking, status);
+        if (invalid) return res.status(400).json({ error: invalid });
+
+        const updated = await bookingService.markOutcome(id, status);
+        res.json({ success: true, booking: updated });
+    } catch (error) {
+        console.error('Failed to update booking outcome:', error);
+        res.status(500).json({ error: 'Failed to update booking outcome' });
+    }
+});
+
+// Owner cancellation: removes the calendar event and messages the contact
+app.post('/api/bookings/:id/cancel', async (req, res) => {
+    try {
+        const { bookingService } = await import('./services/bookingService');
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) return res.status(400).json({ error: 'Invalid booking ID' });
+
+        const booking = await bookingService.get(id);
+        if (!booking) return res.status(404).json({ error: 'Booking not found' });
+        if (booking.status !== 'scheduled') return res.status(409).json({ error: `Booking is already ${booking.status}` });
+
+        const updated = await bookingService.cancel(booking, 'owner');
+        res.json({ success: true, booking: updated });
+    } catch (error) {
+        console.error('Failed to cancel booking:', error);
+        res.status(500).json({ error: 'Failed to cancel booking' });
+    }
+});
+
 // Analytics API Endpoints
 app.get('/api/analytics/groups/details/:jid', async (req, res) => {
     try {
@@ -1013,6 +1891,57 @@ app.get('/api/analytics/groups/details/:jid', async (req, res) => {
     }
 });
 
+app.get('/api/analytics/groups/details/:jid/growth', async (req, res) => {
+    try {
+        const { groupService } = await import('./services/groupService');
+        const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+        res.json(await groupService.getGrowth(req.params.jid, days));
+    } catch (error) {
+        console.error('Failed to fetch group growth:', error);
+        res.status(500).json({ error: 'Failed to fetch group growth' });
+    }
+});
+
+app.get('/api/analytics/groups/details/:jid/admin-changes', async (req, res) => {
+    try {
+        const { groupService } = await import('./services/groupService');
+        const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+        res.json(await groupService.getAdminChanges(req.params.jid, limit));
+    } catch (error) {
+        console.error('Failed to fetch admin changes:', error);
+        res.status(500).json({ error: 'Failed to fetch admin changes' });
+    }
+});
+
+// A/B test results per campaign and framework (campaigns in experiment mode)
+app.get('/api/analytics/experiments', async (req, res) => {
+    try {
+        const { experimentService } = await import('./services/marketing/experimentService');
+        const campaignId = req.query.campaignId ? parseInt(req.query.campaignId as string) : undefined;
+        if (campaignId !== undefined && isNaN(campaignId)) {
+            return res.status(400).json({ error: 'Invalid campaign ID' });
+        }
+        res.json(await experimentService.getResults(campaignId));
+    } catch (error) {
+        console.error('Failed to fetch experiment results:', error);
+        res.status(500).json({ error: 'Failed to fetch experiment results' });
+    }
+});
+
+// Joins/leaves in the hours after each ad post: churn per post and net member change per campaign
+app.get('/api/analytics/ad-churn', async (req, res) => {
+    try {
+        const { groupService } = await import('./services/groupService');
+        const hours = Math.min(Math.max(parseInt(req.query.hours as string) || 24, 1), 168);
+        const days = parseInt(req.query.days as string) || 30;
+        const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        res.json(await groupService.getAdMemberImpact(hours, startDate));
+    } catch (error) {
+        console.error('Failed to fetch ad churn:', error);
+        res.status(500).json({ error: 'Failed to fetch ad churn' });
+    }
+});
+
 app.get('/api/analytics/groups', async (req, res) => {
     console.log('📊 API Request: GET /api/analytics/groups');
     try {
@@ -1082,6 +2011,23 @@ const start = async () => {
             console.log('✅ Database initialization successful');
         }
 
+        // Seed the first dashboard owner from DASHBOARD_ADMIN_USERNAME/PASSWORD
+        try {
+            await authService.bootstrapOwner();
+        } catch (error) {
+            console.error('⚠️ Failed to set up dashboard owner account:', error);
+        }
+
+        // Resume multi-step owner flows (onboarding, custom posts) left open by the last run
+        try {
+            await import('./services/marketing/marketingService');
+            await import('./services/marketing/customCampaignService');
+            const { FlowStateStore } = await import('./services/flowStateStore');
+            await FlowStateStore.restoreAll();
+        } catch (error) {
+            console.error('⚠️ Failed to resume flow sessions:', error);
+        }
+
         // 1. Start API Server
         const PORT = config.port;
         const server = app.listen(PORT, () => {
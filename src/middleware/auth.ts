@@ -0,0 +1,131 @@
+/**
+ * API Auth Middleware
+ * Every /api route requires a signed-in dashboard user, except the few listed in PUBLIC_ROUTES.
+ * Access is role based: owners can do everything, staff handle chats and orders, viewers only see analytics.
+ * Successful changes (non-GET requests) are written to the audit log.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { authService, AuthUser, UserRole } from '../services/authService';
+import { auditService } from '../services/auditService';
+import { config } from '../config/env';
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+        }
+    }
+}
+
+export const SESSION_COOKIE = 'kn_session';
+
+interface RouteRule {
+    methods?: string[];  // Any method when omitted
+    pattern: RegExp;     // Matched against the path under /api
+}
+
+// Reachable without signing in
+const PUBLIC_ROUTES: RouteRule[] = [
+    { methods: ['POST'], pattern: /^\/auth\/(login|logout|token)$/ },
+    { methods: ['POST'], pattern: /^\/payments\/mpesa\/callback$/ }, // Safaricom; verified by its token
+];
+
+// Routes each non-owner role may use. Anything not listed is owner-only.
+const ROLE_ROUTES: Record<Exclude<UserRole, 'owner'>, RouteRule[]> = {
+    staff: [
+        { methods: ['GET'], pattern: /^\/(auth\/me|status)$/ },
+        { methods: ['PUT'], pattern: /^\/auth\/password$/ },
+        { pattern: /^\/chats(\/|$)/ },
+        { methods: ['GET'], pattern: /^\/contacts(\/|$)/ },
+        { methods: ['GET'], pattern: /^\/media\// },
+        { methods: ['POST'], pattern: /^\/groups\/[^/]+\/messages$/ },
+        { methods: ['GET'], pattern: /^\/orders(\/|$)/ },
+        { methods: ['PUT'], pattern: /^\/orders\/\d+\/status$/ },
+    ],
+    viewer: [
+        { methods: ['GET'], pattern: /^\/(auth\/me|status)$/ },
+        { methods: ['PUT'], pattern: /^\/auth\/password$/ },
+        { methods: ['GET'], pattern: /^\/(analytics|stats|activity)(\/|$)/ },
+    ],
+};
+
+function matches(rules: RouteRule[], method: string, path: string): boolean {
+    return rules.some(rule => (!rule.methods || rule.methods.includes(method)) && rule.pattern.test(path));
+}
+
+/**
+ * Session token from the HttpOnly cookie (dashboard) or an Authorization: Bearer header (scripts)
+ */
+export function getSessionToken(req: Request): string | null {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) return header.substring(7).trim();
+
+    const cookies = req.headers.cookie?.split(';') || [];
+    for (const cookie of cookies) {
+        const [name, ...rest] = cookie.trim().split('=');
+        if (name === SESSION_COOKIE) return decodeURIComponent(rest.join('='));
+    }
+    return null;
+}
+
+export function setSessionCookie(res: Response, token: string, expiresAt: Date) {
+    res.cookie(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: config.nodeEnv === 'production',
+        expires: expiresAt,
+        path: '/',
+    });
+}
+
+export function clearSessionCookie(res: Response) {
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Mounted on /api: authenticates the request and enforces the role rules
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+    const method = req.method === 'HEAD' ? 'GET' : req.method;
+    if (method === 'OPTIONS' || matches(PUBLIC_ROUTES, method, req.path)) return next();
+
+    try {
+        const token = getSessionToken(req);
+        const user = token ? await authService.authenticate(token) : null;
+        if (!user) {
+            return res.status(401).json({ error: 'Authentication required' });
+        }
+
+        if (user.role !== 'owner' && !matches(ROLE_ROUTES[user.role] || [], method, req.path)) {
+            return res.status(403).json({ error: 'Your role does not have access to this' });
+        }
+
+        req.user = user;
+        next();
+    } catch (error) {
+        console.error('Failed to authenticate request:', error);
+        res.status(500).json({ error: 'Failed to authenticate request' });
+    }
+}
+
+/**
+ * Mounted on /api after requireAuth: writes successful changes to the audit log
+ */
+export function auditTrail(req: Request, res: Response, next: NextFunction) {
+    if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS' || !req.user) return next();
+
+    const user = req.user;
+    const path = req.path;
+    res.on('finish', () => {
+        if (res.statusCode >= 400) return;
+        auditService.record({
+            user,
+            action: `${req.method} /api${path}`,
+            target: typeof req.body?.key === 'string' ? req.body.key : null, // Setting key for /settings/system
+            details: req.body && Object.keys(req.body).length ? req.body : undefined,
+            ip: req.ip,
+        });
+    });
+    next();
+}
@@ -1,9 +1,20 @@
-import { GoogleGenerativeAI, GenerativeModel, FunctionCall } from '@google/generative-ai';
-import { config } from '../../config/env';
+/**
+ * Gemini Service
+ * The agent's model calls: builds prompts and conversations, then hands the request to the
+ * provider chain configured for its task (see providers/llmRouter). The name predates the
+ * other providers; voice note transcription and speech stay on Gemini.
+ */
+
+import { Content, Part } from '@google/generative-ai';
+import { GoogleGenAI } from '@google/genai';
 import { SYSTEM_PROMPTS } from './prompts';
-import { AI_TOOLS, getFilteredTools } from './tools';
-import { keyManager } from '../keyManager';
+import { getFilteredTools } from './tools';
+import { ToolCaller } from './toolPolicy';
 import { systemSettingsService } from '../systemSettings';
+import { llmRouter } from './providers/llmRouter';
+import { geminiProvider } from './providers/geminiProvider';
+import type { ChatResponse, LlmTask, ToolDeclaration } from './providers/llmProvider';
+import type { InlineMedia } from '../mediaIngestionService';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -32,13 +43,26 @@ interface UserProfile {
   timezone?: string;
 }
 
-interface GeminiResponse {
-  type: 'text' | 'tool_call';
-  content?: string;
-  functionCall?: {
-    name: string;
-    args: any;
-  };
+export type { ToolCall } from './providers/llmProvider';
+
+export interface ToolResult {
+  name: string;
+  response: any;
+}
+
+/**
+ * A logged message as fed into buildConversation
+ */
+export interface HistoryMessage {
+  role: 'user' | 'agent';
+  content: string;
+}
+
+export type GeminiResponse = ChatResponse;
+
+interface GenerateReplyOptions {
+  allowTools?: boolean;         // false forces a plain text answer (e.g. after the tool-depth limit)
+  caller?: ToolCaller;          // Who is chatting; decides which tools are offered (see toolPolicy)
 }
 
 interface AnalysisResult {
@@ -55,17 +79,16 @@ interface ProfileUpdate {
 // CONFIGURATION CONSTANTS
 // ============================================================================
 
-const RATE_LIMIT_CONFIG = {
-  MIN_REQUEST_SPACING_MS: 3000,      // 3 seconds between requests (Gemini free tier: 2 RPM)
-  MAX_RETRIES: 50,                   // Maximum retry attempts
-  RETRY_DELAY_MS: 2000,              // Delay before trying next key after rate limit
-  DEFAULT_RETRY_SECONDS: 60,         // Default wait time if retry-after not specified
+const SPEECH_CONFIG = {
+  MODEL: 'gemini-2.5-flash-preview-tts',
+  VOICE_NAME: 'Kore',
+  SAMPLE_RATE: 24000,                // Gemini TTS returns 16-bit mono PCM at 24kHz
+  CHANNELS: 1,
+  BITS_PER_SAMPLE: 16,
 } as const;
 
 const ERROR_CODES = {
   ALL_KEYS_EXHAUSTED: 'ALL_KEYS_EXHAUSTED',
-  RATE_LIMIT: 429,
-  INVALID_KEY: 400,
 } as const;
 
 const ERROR_MESSAGES = {
@@ -79,178 +102,6 @@ const ERROR_MESSAGES = {
 // ============================================================================
 
 export class GeminiService {
-  private requestQueue: Promise<any> = Promise.resolve();
-
-  constructor() { }
-
-  // --------------------------------------------------------------------------
-  // CORE REQUEST HANDLING WITH RETRY & QUEUEING
-  // --------------------------------------------------------------------------
-
-  /**
-   * Executes Gemini operations with key rotation, retries, and request queueing.
-   * Ensures sequential execution and enforces rate limit spacing.
-   */
-  private async executeWithRetry<T>(
-    operation: (model: GenerativeModel) => Promise<T>
-  ): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.requestQueue = this.requestQueue
-        .then(async () => {
-          const startTime = Date.now();
-
-          try {
-            const result = await this._retryWithKeyRotation(operation);
-            await this._enforceRateLimit(startTime);
-            resolve(result);
-          } catch (error) {
-            reject(error);
-          }
-        })
-        .catch(reject);
-    });
-  }
-
-  /**
-   * Internal retry logic with automatic key rotation on failures
-   */
-  private async _retryWithKeyRotation<T>(
-    operation: (model: GenerativeModel) => Promise<T>
-  ): Promise<T> {
-    let lastError: any;
-
-    for (let attempt = 0; attempt < RATE_LIMIT_CONFIG.MAX_RETRIES; attempt++) {
-      try {
-        const key = this._getNextKey();
-        const model = this._createModel(key);
-        return await operation(model);
-      } catch (error: any) {
-        lastError = error;
-
-        const shouldRetry = await this._handleOperationError(error);
-        if (!shouldRetry) {
-          throw error;
-        }
-      }
-    }
-
-    throw lastError;
-  }
-
-  /**
-   * Handles operation errors and determines retry strategy
-   */
-  private async _handleOperationError(error: any): Promise<boolean> {
-    // All keys exhausted - propagate immediately
-    if (error.message === ERROR_CODES.ALL_KEYS_EXHAUSTED) {
-      return false;
-    }
-
-    const currentKey = keyManager.getCurrentKey?.() || 'unknown';
-
-    // Rate limit error (429) OR Service Overload (503)
-    if (this._isRateLimitError(error)) {
-      const isOverloaded = error.status === 503 || error.code === 503 || error.message?.includes('503') || error.message?.includes('overloaded');
-
-      if (isOverloaded) {
-        // 503 Service Unavailable: Wait with exponential strategy, don't necessarily switch keys (problem is global)
-        console.warn(`⚠️ Gemini Service Overloaded (503). Waiting ${RATE_LIMIT_CONFIG.MIN_REQUEST_SPACING_MS}ms before retry...`);
-        await this._delay(RATE_LIMIT_CONFIG.MIN_REQUEST_SPACING_MS * 2); // Wait longer for 503
-        return true;
-      } else {
-        // 429 Rate Limit: Switch keys
-        const retrySeconds = this._extractRetryDelay(error);
-        console.warn(
-          `⚠️ Key ending in ...${currentKey.slice(-4)} hit Rate Limit (429). ` +
-          `Retry after ${retrySeconds}s. Switching keys...`
-        );
-        keyManager.markRateLimited(currentKey, retrySeconds);
-        await this._delay(RATE_LIMIT_CONFIG.RETRY_DELAY_MS);
-        return true;
-      }
-    }
-
-    // Invalid or expired key - skip this key
-    if (this._isInvalidKeyError(error)) {
-      console.warn(`❌ Key ending in ...${currentKey.slice(-4)} is INVALID/EXPIRED. Skipping...`);
-      return true;
-    }
-
-    // Other errors should not retry
-    return false;
-  }
-
-  /**
-   * Retrieves next available API key from key manager
-   */
-  private _getNextKey(): string {
-    try {
-      return keyManager.getNextKey();
-    } catch (error: any) {
-      if (error.message === ERROR_CODES.ALL_KEYS_EXHAUSTED) {
-        throw error;
-      }
-      throw error;
-    }
-  }
-
-  /**
-   * Creates a Gemini model instance with the provided API key
-   */
-  private _createModel(apiKey: string): GenerativeModel {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    return genAI.getGenerativeModel({ model: config.geminiModel });
-  }
-
-  /**
-   * Enforces minimum spacing between API requests for rate limiting
-   */
-  private async _enforceRateLimit(startTime: number): Promise<void> {
-    const elapsed = Date.now() - startTime;
-    const remainingWait = RATE_LIMIT_CONFIG.MIN_REQUEST_SPACING_MS - elapsed;
-
-    if (remainingWait > 0) {
-      await this._delay(remainingWait);
-    }
-  }
-
-  // --------------------------------------------------------------------------
-  // ERROR DETECTION HELPERS
-  // --------------------------------------------------------------------------
-
-  private _isRateLimitError(error: any): boolean {
-    return (
-      error.status === ERROR_CODES.RATE_LIMIT ||
-      error.code === ERROR_CODES.RATE_LIMIT ||
-      error.status === 503 || // Handle Service Unavailable
-      error.code === 503 ||
-      error.message?.includes('429') ||
-      error.message?.includes('503') ||
-      error.message?.includes('overloaded') // Catch "The model is overloaded"
-    );
-  }
-
-  private _isInvalidKeyError(error: any): boolean {
-    return (
-      error.status === ERROR_CODES.INVALID_KEY ||
-      error.message?.includes('API_KEY_INVALID') ||
-      error.message?.includes('API key expired')
-    );
-  }
-
-  private _extractRetryDelay(error: any): number {
-    const retryInfo = error.errorDetails?.find(
-      (detail: any) => detail['@type']?.includes('RetryInfo')
-    );
-
-    if (retryInfo?.retryDelay) {
-      const seconds = parseInt(retryInfo.retryDelay, 10);
-      return isNaN(seconds) ? RATE_LIMIT_CONFIG.DEFAULT_RETRY_SECONDS : seconds;
-    }
-
-    return RATE_LIMIT_CONFIG.DEFAULT_RETRY_SECONDS;
-  }
-
   // --------------------------------------------------------------------------
   // SYSTEM PROMPT CONSTRUCTION
   // --------------------------------------------------------------------------
@@ -403,16 +254,58 @@ Communication Prefs: ${userProfile.communicationPreferences || 'N/A'}`;
 CRITICAL INSTRUCTION: Your response MUST be short, concise, and direct. Use short sentences. Avoid flowery language or unnecessary pleasantries. Maximum 2-3 sentences unless explaining a complex topic.`;
   }
 
+  // --------------------------------------------------------------------------
+  // CONVERSATION BUILDERS
+  // --------------------------------------------------------------------------
+
   /**
-   * Builds the final conversation prompt with history
+   * Turns logged messages into structured user/model turns.
+   * Consecutive messages from the same side are merged into one turn, and any
+   * media the contact just sent is attached to the final user turn.
    */
-  private _buildConversationPrompt(systemPrompt: string, history: string[]): string {
-    return `${systemPrompt}
+  buildConversation(history: HistoryMessage[], media: InlineMedia[] = []): Content[] {
+    const conversation: Content[] = [];
 
-**CONVERSATION HISTORY:**
-${history.join('\n')}
+    for (const message of history) {
+      const role = message.role === 'agent' ? 'model' : 'user';
+      const last = conversation[conversation.length - 1];
+
+      if (last && last.role === role) {
+        last.parts.push({ text: message.content });
+      } else {
+        conversation.push({ role, parts: [{ text: message.content }] });
+      }
+    }
+
+    if (media.length > 0) {
+      const mediaParts: Part[] = media.map(m => ({ inlineData: { mimeType: m.mimeType, data: m.data } }));
+      const last = conversation[conversation.length - 1];
+      if (last && last.role === 'user') {
+        last.parts.push(...mediaParts);
+      } else {
+        conversation.push({ role: 'user', parts: mediaParts });
+      }
+    }
 
-**YOUR REPLY:**`;
+    return conversation;
+  }
+
+  /**
+   * Builds the function turn answering every call of a model turn, in call order
+   */
+  buildFunctionResponseTurn(results: ToolResult[]): Content {
+    return {
+      role: 'function',
+      parts: results.map(result => ({
+        functionResponse: {
+          name: result.name,
+          // The API requires an object; wrap primitives and arrays
+          response: result.response && typeof result.response === 'object' && !Array.isArray(result.response)
+            ? result.response
+            : { result: result.response ?? null },
+        },
+      })),
+    };
   }
 
   // --------------------------------------------------------------------------
@@ -420,16 +313,22 @@ ${history.join('\n')}
   // --------------------------------------------------------------------------
 
   /**
-   * Generates AI reply to conversation with tool calling support
+   * Generates AI reply to a structured conversation with native tool calling.
+   * The conversation holds user/model turns plus function turns for tool results
+   * (see buildConversation / buildFunctionResponseTurn).
    */
   async generateReply(
-    history: string[],
+    conversation: Content[],
     userContext: string,
     isOwner: boolean,
     aiProfile?: AIProfile,
     userProfile?: UserProfile,
-    customPrompt?: string
+    customPrompt?: string,
+    options: GenerateReplyOptions = {}
   ): Promise<GeminiResponse> {
+    const { allowTools = true } = options;
+    const caller: ToolCaller = options.caller || { jid: '', isOwner, isVerified: isOwner, isGroup: false };
+
     try {
       // Check calendar access permission
       const calendarAccessEnabled = await systemSettingsService.isCalendarAccessEnabled();
@@ -443,28 +342,20 @@ ${history.join('\n')}
         calendarAccessEnabled
       );
 
-      const fullPrompt = this._buildConversationPrompt(systemPrompt, history);
-
-      // Get filtered tools based on calendar access
-      const availableTools = await getFilteredTools(calendarAccessEnabled);
-
-      return await this.executeWithRetry(async (model) => {
-        const result = await model.generateContent({
-          contents: [{ role: 'user', parts: [{ text: fullPrompt }] }],
-          tools: availableTools as any,
-        });
-
-        const response = result.response;
-        const functionCalls = response.functionCalls();
+      // Get filtered tools based on the caller and calendar access
+      const availableTools = await getFilteredTools(caller, calendarAccessEnabled);
 
-        // Handle tool/function calls
-        if (functionCalls && functionCalls.length > 0) {
-          return this._createToolCallResponse(functionCalls[0]);
-        }
-
-        // Handle text response
-        return this._createTextResponse(response.text());
+      const response = await llmRouter.chat('replies', {
+        systemPrompt,
+        conversation,
+        tools: availableTools[0].functionDeclarations as ToolDeclaration[],
+        allowTools,
       });
+
+      if (response.type === 'tool_call') {
+        console.log('🤖 Model wants to call tools:', response.functionCalls?.map(call => call.name).join(', '));
+      }
+      return response;
     } catch (error: any) {
       return this._handleGenerateReplyError(error);
     }
@@ -488,11 +379,7 @@ ${history.join('\n')}
 
 **OUTPUT JSON:**`;
 
-      return await this.executeWithRetry(async (model) => {
-        const result = await model.generateContent(prompt);
-        const text = result.response.text();
-        return this._parseJsonResponse(text);
-      });
+      return await llmRouter.generateJson<ProfileUpdate>('profiling', prompt);
     } catch (error) {
       // Silent fail for profiling - non-critical operation
       return null;
@@ -511,11 +398,7 @@ ${history.join('\n')}
 
 **OUTPUT JSON:**`;
 
-      return await this.executeWithRetry(async (model) => {
-        const result = await model.generateContent(prompt);
-        const text = result.response.text();
-        return this._parseJsonResponse(text);
-      });
+      return await llmRouter.generateJson<AnalysisResult>('reports', prompt);
     } catch (error) {
       console.error('Gemini Analysis Error:', error);
       return this._getDefaultAnalysisResult();
@@ -545,10 +428,7 @@ ${history.join('\n')}
 
 **YOUR REPORT:**`;
 
-      return await this.executeWithRetry(async (model) => {
-        const result = await model.generateContent(prompt);
-        return result.response.text().trim();
-      });
+      return await llmRouter.generateText('reports', prompt);
     } catch (error) {
       console.error('Gemini Report Error:', error);
       return this._getDefaultReportError(contactName);
@@ -556,40 +436,66 @@ ${history.join('\n')}
   }
 
   /**
-   * Generates generic text response from a prompt (for marketing/facts)
+   * Generates generic text response from a prompt (for marketing/facts).
+   * Goes to the ad copy providers unless another task is given.
+   */
+  async generateText(prompt: string, task: LlmTask = 'ad_copy'): Promise<string> {
+    try {
+      return await llmRouter.generateText(task, prompt);
+    } catch (error) {
+      console.error('Gemini Text Generation Error:', error);
+      return "";
+    }
+  }
+
+  /**
+   * Transcribes a voice note (inline audio) to plain text.
+   * Returns an empty string when transcription fails.
    */
-  async generateText(prompt: string): Promise<string> {
+  async transcribeAudio(audio: Buffer, mimeType: string): Promise<string> {
     try {
-      return await this.executeWithRetry(async (model) => {
-        const result = await model.generateContent(prompt);
+      // Audio input: Gemini only
+      return await geminiProvider.executeWithRetry(async (model) => {
+        const result = await model.generateContent([
+          { text: SYSTEM_PROMPTS.TRANSCRIBER },
+          { inlineData: { mimeType, data: audio.toString('base64') } },
+        ]);
         return result.response.text().trim();
       });
     } catch (error) {
-      console.error('Gemini Text Generation Error:', error);
+      console.error('Gemini Transcription Error:', error);
       return "";
     }
   }
 
-  // --------------------------------------------------------------------------
-  // RESPONSE BUILDERS
-  // --------------------------------------------------------------------------
+  /**
+   * Synthesizes speech for a reply using Gemini TTS.
+   * Returns a WAV buffer, or null if synthesis is unavailable.
+   */
+  async synthesizeSpeech(text: string): Promise<Buffer | null> {
+    try {
+      const apiKey = geminiProvider.getNextKey();
+      const genAI = new GoogleGenAI({ apiKey });
+
+      const response = await genAI.models.generateContent({
+        model: SPEECH_CONFIG.MODEL,
+        contents: [{ role: 'user', parts: [{ text }] }],
+        config: {
+          responseModalities: ['AUDIO'],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: SPEECH_CONFIG.VOICE_NAME } },
+          },
+        },
+      });
 
-  private _createToolCallResponse(functionCall: FunctionCall): GeminiResponse {
-    console.log('🤖 Gemini wants to call tool:', functionCall.name);
-    return {
-      type: 'tool_call',
-      functionCall: {
-        name: functionCall.name,
-        args: functionCall.args,
-      },
-    };
-  }
+      const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!data) return null;
 
-  private _createTextResponse(text: string): GeminiResponse {
-    return {
-      type: 'text',
-      content: text.trim(),
-    };
+      return this._pcmToWav(Buffer.from(data, 'base64'));
+    } catch (error) {
+      console.error('Gemini Speech Synthesis Error:', error);
+      return null;
+    }
   }
 
   // --------------------------------------------------------------------------
@@ -625,21 +531,28 @@ ${history.join('\n')}
   // --------------------------------------------------------------------------
 
   /**
-   * Parses JSON response from Gemini, removing markdown code blocks
-   */
-  private _parseJsonResponse<T = any>(text: string): T {
-    const cleanJson = text
-      .replace(/```json/g, '')
-      .replace(/```/g, '')
-      .trim();
-    return JSON.parse(cleanJson);
-  }
-
-  /**
-   * Promise-based delay utility
+   * Wraps raw PCM samples from Gemini TTS in a WAV container
    */
-  private _delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private _pcmToWav(pcm: Buffer): Buffer {
+    const { SAMPLE_RATE, CHANNELS, BITS_PER_SAMPLE } = SPEECH_CONFIG;
+    const byteRate = SAMPLE_RATE * CHANNELS * (BITS_PER_SAMPLE / 8);
+    const header = Buffer.alloc(44);
+
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(CHANNELS, 22);
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt32LE(byteRate, 28);
+    header.writeUInt16LE(CHANNELS * (BITS_PER_SAMPLE / 8), 32);
+    header.writeUInt16LE(BITS_PER_SAMPLE, 34);
+    header.write('data', 36);
+    header.writeUInt32LE(pcm.length, 40);
+
+    return Buffer.concat([header, pcm]);
   }
 }
 
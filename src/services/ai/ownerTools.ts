@@ -8,6 +8,7 @@ import { contacts, messageLogs } from '../../database/schema';
 import { desc, sql, eq, and, gte } from 'drizzle-orm';
 import { rateLimitManager } from '../rateLimitManager';
 import { systemSettingsService } from '../systemSettings';
+import { Contact, takeoverService } from '../takeoverService';
 
 /**
  * Generate daily summary of conversations
@@ -285,4 +286,81 @@ export async function getChatAgentStatus(): Promise<string> {
         console.error('Failed to get chat agent status:', error);
         return `❌ Error retrieving chat agent status: ${error.message}`;
     }
-}
\ No newline at end of file
+}
+/**
+ * The one contact a takeover tool should act on, or the reply asking the owner to be specific
+ */
+async function findTakeoverContact(contactQuery: unknown): Promise<{ contact: Contact } | { reply: string }> {
+    const invalid = takeoverService.validateContactQuery(contactQuery);
+    if (invalid) return { reply: `❌ ${invalid}` };
+
+    const { contact, candidates } = await takeoverService.findContact(contactQuery as string);
+    if (contact) return { contact };
+    if (candidates.length === 0) return { reply: `❌ No contact found matching "${contactQuery}".` };
+
+    const lines = candidates.map(c => `- ${c.confirmedName || c.name || 'Unknown'} (${c.phone})`);
+    return { reply: `❓ Several contacts match "${contactQuery}". Which one did you mean?\n\n${lines.join('\n')}` };
+}
+
+/**
+ * Human takeover: pause the AI for a single contact
+ */
+export async function pauseAiForContact(contactQuery: string, minutes?: number): Promise<string> {
+    try {
+        const found = await findTakeoverContact(contactQuery);
+        if ('reply' in found) return found.reply;
+        const { contact } = found;
+
+        await takeoverService.pause(contact.phone, 'owner', minutes);
+        const label = contact.name || contact.phone;
+        const until = minutes && minutes > 0 ? `for ${minutes} minutes` : 'until you hand the chat back';
+        return `🙋 AI paused for ${label} ${until}.\n\nTheir messages are still logged, but the AI won't reply. Say "resume AI for ${label}" to hand the chat back.`;
+    } catch (error: any) {
+        console.error('Failed to pause AI for contact:', error);
+        return `❌ Error pausing AI: ${error.message}`;
+    }
+}
+
+/**
+ * Hand a contact back to the AI after a takeover
+ */
+export async function resumeAiForContact(contactQuery: string): Promise<string> {
+    try {
+        const found = await findTakeoverContact(contactQuery);
+        if ('reply' in found) return found.reply;
+        const { contact } = found;
+
+        const label = contact.name || contact.phone;
+        if (!contact.aiPaused) {
+            return `🤖 The AI is already handling ${label}.`;
+        }
+
+        await takeoverService.resume(contact.phone);
+        return `🤖 ${label} handed back to the AI. It will reply to their next message.`;
+    } catch (error: any) {
+        console.error('Failed to resume AI for contact:', error);
+        return `❌ Error resuming AI: ${error.message}`;
+    }
+}
+
+/**
+ * Contacts currently under human takeover
+ */
+export async function listPausedContacts(): Promise<string> {
+    try {
+        const paused = await takeoverService.listPaused();
+        if (paused.length === 0) {
+            return "🤖 No chats are under human takeover. The AI is handling everyone.";
+        }
+
+        const sourceLabels: Record<string, string> = { owner: 'by you', dashboard: 'from dashboard', auto: 'you replied by hand' };
+        const lines = paused.map(c => {
+            const until = c.aiPausedUntil ? `until ${c.aiPausedUntil.toLocaleString()}` : 'until handed back';
+            return `- ${c.name || 'Unknown'} (${c.phone}) — ${sourceLabels[c.aiPausedBy || ''] || 'paused'}, ${until}`;
+        });
+        return `🙋 Chats under human takeover (${paused.length}):\n\n${lines.join('\n')}`;
+    } catch (error: any) {
+        console.error('Failed to list paused contacts:', error);
+        return `❌ Error listing paused contacts: ${error.message}`;
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * Gemini Provider
+ * Google Gemini through the key pool: requests run one at a time with a minimum spacing,
+ * and a rate-limited or invalid key is swapped for the next one. When every key is
+ * rate-limited, requests fail with ALL_KEYS_EXHAUSTED until one frees up.
+ */
+
+import { GoogleGenerativeAI, GenerativeModel, FunctionCall, FunctionCallingMode, Content } from '@google/generative-ai';
+import { config } from '../../../config/env';
+import { keyManager } from '../../keyManager';
+import { ChatRequest, ChatResponse, LlmProvider, TextOptions } from './llmProvider';
+
+const RATE_LIMIT_CONFIG = {
+    MIN_REQUEST_SPACING_MS: 3000,      // 3 seconds between requests (Gemini free tier: 2 RPM)
+    MAX_RETRIES: 50,                   // Maximum retry attempts
+    RETRY_DELAY_MS: 2000,              // Delay before trying next key after rate limit
+    DEFAULT_RETRY_SECONDS: 60,         // Default wait time if retry-after not specified
+} as const;
+
+const ERROR_CODES = {
+    ALL_KEYS_EXHAUSTED: 'ALL_KEYS_EXHAUSTED',
+    RATE_LIMIT: 429,
+    INVALID_KEY: 400,
+} as const;
+
+export class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini' as const;
+    private requestQueue: Promise<any> = Promise.resolve();
+
+    get model(): string {
+        return config.geminiModel;
+    }
+
+    isAvailable(): boolean {
+        return keyManager.hasAvailableKey();
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        return await this.executeWithRetry(async (model) => {
+            const result = await model.generateContent({
+                systemInstruction: { role: 'system', parts: [{ text: request.systemPrompt }] },
+                contents: request.conversation,
+                tools: [{ functionDeclarations: request.tools }] as any,
+                toolConfig: request.allowTools ? undefined : { functionCallingConfig: { mode: FunctionCallingMode.NONE } },
+            });
+
+            const response = result.response;
+            const functionCalls = response.functionCalls();
+
+            // Every call, not just the first: the model may request several in one turn
+            if (functionCalls && functionCalls.length > 0) {
+                return this._createToolCallResponse(functionCalls, response.candidates?.[0]?.content);
+            }
+
+            return { type: 'text', content: response.text().trim() };
+        });
+    }
+
+    async generateText(prompt: string, options: TextOptions = {}): Promise<string> {
+        return await this.executeWithRetry(async (model) => {
+            const result = await model.generateContent(options.json
+                ? { contents: [{ role: 'user', parts: [{ text: prompt }] }], generationConfig: { responseMimeType: 'application/json' } }
+                : prompt);
+            return result.response.text().trim();
+        });
+    }
+
+    // --------------------------------------------------------------------------
+    // CORE REQUEST HANDLING WITH RETRY & QUEUEING
+    // --------------------------------------------------------------------------
+
+    /**
+     * Executes Gemini operations with key rotation, retries, and request queueing.
+     * Ensures sequential execution and enforces rate limit spacing.
+     * Also used directly for Gemini-only work (voice note transcription).
+     */
+    async executeWithRetry<T>(
+        operation: (model: GenerativeModel) => Promise<T>
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.requestQueue = this.requestQueue
+                .then(async () => {
+                    const startTime = Date.now();
+
+                    try {
+                        const result = await this._retryWithKeyRotation(operation);
+                        await this._enforceRateLimit(startTime);
+                        resolve(result);
+                    } catch (error) {
+                        reject(error);
+                    }
+                })
+                .catch(reject);
+        });
+    }
+
+    /**
+     * Next available API key (throws ALL_KEYS_EXHAUSTED when none is left)
+     */
+    getNextKey(): string {
+        return keyManager.getNextKey();
+    }
+
+    /**
+     * Internal retry logic with automatic key rotation on failures
+     */
+    private async _retryWithKeyRotation<T>(
+        operation: (model: GenerativeModel) => Promise<T>
+    ): Promise<T> {
+        let lastError: any;
+
+        for (let attempt = 0; attempt < RATE_LIMIT_CONFIG.MAX_RETRIES; attempt++) {
+            try {
+                const key = this.getNextKey();
+                const model = this._createModel(key);
+                return await operation(model);
+            } catch (error: any) {
+                lastError = error;
+
+                const shouldRetry = await this._handleOperationError(error);
+                if (!shouldRetry) {
+                    throw error;
+                }
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * Handles operation errors and determines retry strategy
+     */
+    private async _handleOperationError(error: any): Promise<boolean> {
+        // All keys exhausted - propagate immediately
+        if (error.message === ERROR_CODES.ALL_KEYS_EXHAUSTED) {
+            return false;
+        }
+
+        const currentKey = keyManager.getCurrentKey?.() || 'unknown';
+
+        // Rate limit error (429) OR Service Overload (503)
+        if (this._isRateLimitError(error)) {
+            const isOverloaded = error.status === 503 || error.code === 503 || error.message?.includes('503') || error.message?.includes('overloaded');
+
+            if (isOverloaded) {
+                // 503 Service Unavailable: Wait with exponential strategy, don't necessarily switch keys (problem is global)
+                console.warn(`⚠️ Gemini Service Overloaded (503). Waiting ${RATE_LIMIT_CONFIG.MIN_REQUEST_SPACING_MS}ms before retry...`);
+                await this._delay(RATE_LIMIT_CONFIG.MIN_REQUEST_SPACING_MS * 2); // Wait longer for 503
+                return true;
+            } else {
+                // 429 Rate Limit: Switch keys
+                const retrySeconds = this._extractRetryDelay(error);
+                console.warn(
+                    `⚠️ Key ending in ...${currentKey.slice(-4)} hit Rate Limit (429). ` +
+                    `Retry after ${retrySeconds}s. Switching keys...`
+                );
+                keyManager.markRateLimited(currentKey, retrySeconds);
+                await this._delay(RATE_LIMIT_CONFIG.RETRY_DELAY_MS);
+                return true;
+            }
+        }
+
+        // Invalid or expired key - skip this key
+        if (this._isInvalidKeyError(error)) {
+            console.warn(`❌ Key ending in ...${currentKey.slice(-4)} is INVALID/EXPIRED. Skipping...`);
+            return true;
+        }
+
+        // Other errors should not retry
+        return false;
+    }
+
+    /**
+     * Creates a Gemini model instance with the provided API key
+     */
+    private _createModel(apiKey: string): GenerativeModel {
+        const genAI = new GoogleGenerativeAI(apiKey);
+        return genAI.getGenerativeModel({ model: config.geminiModel });
+    }
+
+    /**
+     * Enforces minimum spacing between API requests for rate limiting
+     */
+    private async _enforceRateLimit(startTime: number): Promise<void> {
+        const elapsed = Date.now() - startTime;
+        const remainingWait = RATE_LIMIT_CONFIG.MIN_REQUEST_SPACING_MS - elapsed;
+
+        if (remainingWait > 0) {
+            await this._delay(remainingWait);
+        }
+    }
+
+    private _createToolCallResponse(functionCalls: FunctionCall[], modelTurn?: Content): ChatResponse {
+        return {
+            type: 'tool_call',
+            functionCalls: functionCalls.map(call => ({ name: call.name, args: call.args })),
+            // Keep the model's own turn (incl. any thought signatures); rebuild it if the SDK omitted it
+            modelTurn: modelTurn ?? { role: 'model', parts: functionCalls.map(call => ({ functionCall: call })) },
+        };
+    }
+
+    // --------------------------------------------------------------------------
+    // ERROR DETECTION HELPERS
+    // --------------------------------------------------------------------------
+
+    private _isRateLimitError(error: any): boolean {
+        return (
+            error.status === ERROR_CODES.RATE_LIMIT ||
+            error.code === ERROR_CODES.RATE_LIMIT ||
+            error.status === 503 || // Handle Service Unavailable
+            error.code === 503 ||
+            error.message?.includes('429') ||
+            error.message?.includes('503') ||
+            error.message?.includes('overloaded') // Catch "The model is overloaded"
+        );
+    }
+
+    private _isInvalidKeyError(error: any): boolean {
+        return (
+            error.status === ERROR_CODES.INVALID_KEY ||
+            error.message?.includes('API_KEY_INVALID') ||
+            error.message?.includes('API key expired')
+        );
+    }
+
+    private _extractRetryDelay(error: any): number {
+        const retryInfo = error.errorDetails?.find(
+            (detail: any) => detail['@type']?.includes('RetryInfo')
+        );
+
+        if (retryInfo?.retryDelay) {
+            const seconds = parseInt(retryInfo.retryDelay, 10);
+            return isNaN(seconds) ? RATE_LIMIT_CONFIG.DEFAULT_RETRY_SECONDS : seconds;
+        }
+
+        return RATE_LIMIT_CONFIG.DEFAULT_RETRY_SECONDS;
+    }
+
+    private _delay(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
+
+export const geminiProvider = new GeminiProvider();
@@ -0,0 +1,69 @@
+/**
+ * LLM Provider
+ * What the agent needs from a language model backend: a chat turn with tool calling, plain
+ * text, and JSON. Conversations stay in Gemini's Content shape (user/model/function turns),
+ * which is what the message processor builds; other providers convert on the way in and out.
+ */
+
+import type { Content } from '@google/generative-ai';
+
+export type LlmProviderName = 'gemini' | 'openai' | 'scripted';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['gemini', 'openai', 'scripted'];
+
+// What the agent uses a model for; each task has its own provider chain
+export type LlmTask = 'replies' | 'reports' | 'profiling' | 'ad_copy';
+
+export const LLM_TASKS: LlmTask[] = ['replies', 'reports', 'profiling', 'ad_copy'];
+
+export interface ToolCall {
+    name: string;
+    args: any;
+}
+
+/**
+ * A tool as declared in AI_TOOLS (Gemini schema: upper-case types such as "OBJECT")
+ */
+export interface ToolDeclaration {
+    name: string;
+    description?: string;
+    parameters?: any;
+}
+
+export interface ChatRequest {
+    systemPrompt: string;
+    conversation: Content[];
+    tools: ToolDeclaration[];   // Already filtered for the caller (see toolPolicy)
+    allowTools: boolean;        // false forces a plain text answer
+}
+
+export interface ChatResponse {
+    type: 'text' | 'tool_call';
+    content?: string;
+    functionCalls?: ToolCall[];   // Every call from the model turn (may be several in parallel)
+    modelTurn?: Content;          // The model turn, appended to the conversation before the function responses
+}
+
+export interface TextOptions {
+    json?: boolean;   // Ask for a bare JSON object
+}
+
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    readonly model: string;
+    /** Whether a request can be sent right now (configured, and for Gemini, a key left) */
+    isAvailable(): boolean;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+    generateText(prompt: string, options?: TextOptions): Promise<string>;
+}
+
+/**
+ * Parses a model's JSON answer, removing markdown code fences
+ */
+export function parseJsonText<T = any>(text: string): T {
+    const cleanJson = text
+        .replace(/```json/g, '')
+        .replace(/```/g, '')
+        .trim();
+    return JSON.parse(cleanJson);
+}
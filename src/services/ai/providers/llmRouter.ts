@@ -0,0 +1,139 @@
+/**
+ * LLM Router
+ * Sends each task to its provider chain, read from system settings: 'llm_provider_replies',
+ * 'llm_provider_reports', 'llm_provider_profiling' and 'llm_provider_ad_copy', each a
+ * comma-separated list such as "gemini,openai" (default "gemini").
+ *
+ * Providers are tried in order. One that can't take a request (not configured, no Gemini key
+ * left) is skipped and one that fails hands over to the next, so a Gemini outage or an
+ * exhausted key pool falls back to a local model instead of stopping the agent.
+ */
+
+import { config } from '../../../config/env';
+import { systemSettingsService } from '../../systemSettings';
+import { ChatRequest, ChatResponse, LLM_PROVIDERS, LLM_TASKS, LlmProvider, LlmProviderName, LlmTask, parseJsonText } from './llmProvider';
+import { geminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiProvider';
+import { ScriptedProvider } from './scriptedProvider';
+
+const DEFAULT_CHAIN = 'gemini';
+
+// Thrown when no provider in the chain could take the request; the message queue retries these later
+const ALL_KEYS_EXHAUSTED = 'ALL_KEYS_EXHAUSTED';
+
+export class LlmRouter {
+    private providers = new Map<LlmProviderName, LlmProvider | null>();
+
+    /**
+     * The provider by name, or null when it can't be used here
+     */
+    getProvider(name: LlmProviderName): LlmProvider | null {
+        if (this.providers.has(name)) return this.providers.get(name)!;
+
+        let provider: LlmProvider | null = null;
+        if (name === 'gemini') {
+            provider = geminiProvider;
+        } else if (name === 'openai' && OpenAiCompatibleProvider.isConfigured()) {
+            provider = new OpenAiCompatibleProvider();
+        } else if (name === 'scripted' && config.nodeEnv !== 'production') {
+            provider = new ScriptedProvider();
+        } else {
+            console.warn(`⚠️ LlmRouter: provider '${name}' is not usable here and will be skipped.`);
+        }
+        this.providers.set(name, provider);
+        return provider;
+    }
+
+    settingKey(task: LlmTask): string {
+        return `llm_provider_${task}`;
+    }
+
+    async getChain(task: LlmTask): Promise<LlmProviderName[]> {
+        const setting = await systemSettingsService.get(this.settingKey(task), DEFAULT_CHAIN) || DEFAULT_CHAIN;
+        const chain = [...new Set(setting.split(',').map(name => name.trim().toLowerCase()))]
+            .filter((name): name is LlmProviderName => LLM_PROVIDERS.includes(name as LlmProviderName));
+        return chain.length > 0 ? chain : [DEFAULT_CHAIN];
+    }
+
+    /**
+     * Returns why a provider chain is invalid, or null if it's fine
+     */
+    validateChain(value: unknown): string | null {
+        if (typeof value !== 'string' || !value.trim()) return 'A provider chain is a comma-separated list of providers';
+        const names = value.split(',').map(name => name.trim().toLowerCase());
+        const unknown = names.filter(name => !LLM_PROVIDERS.includes(name as LlmProviderName));
+        if (unknown.length > 0) return `Unknown providers: ${unknown.join(', ')} (use ${LLM_PROVIDERS.join(', ')})`;
+        return null;
+    }
+
+    async setChain(task: LlmTask, chain: string): Promise<void> {
+        const value = [...new Set(chain.split(',').map(name => name.trim().toLowerCase()))].join(',');
+        await systemSettingsService.set(this.settingKey(task), value, `LLM providers for ${task.replace('_', ' ')}, in fallback order`);
+    }
+
+    /**
+     * Every task's chain and whether each provider can take requests, for the dashboard
+     */
+    async getStatus() {
+        const tasks: Record<string, LlmProviderName[]> = {};
+        for (const task of LLM_TASKS) tasks[task] = await this.getChain(task);
+
+        const providers = LLM_PROVIDERS.map(name => {
+            const provider = this.getProvider(name);
+            return { name, usable: !!provider, available: !!provider?.isAvailable(), model: provider?.model || null };
+        });
+        return { tasks, providers };
+    }
+
+    /**
+     * Whether any provider in the task's chain can take a request right now
+     */
+    async hasAvailableProvider(task: LlmTask): Promise<boolean> {
+        const chain = await this.getChain(task);
+        return chain.some(name => this.getProvider(name)?.isAvailable());
+    }
+
+    async chat(task: LlmTask, request: ChatRequest): Promise<ChatResponse> {
+        return await this.run(task, provider => provider.chat(request));
+    }
+
+    async generateText(task: LlmTask, prompt: string): Promise<string> {
+        return await this.run(task, provider => provider.generateText(prompt));
+    }
+
+    /**
+     * Asks for a JSON object; an answer that doesn't parse counts as a failure and falls through
+     */
+    async generateJson<T = any>(task: LlmTask, prompt: string): Promise<T> {
+        return await this.run(task, async provider => parseJsonText<T>(await provider.generateText(prompt, { json: true })));
+    }
+
+    private async run<T>(task: LlmTask, operation: (provider: LlmProvider) => Promise<T>): Promise<T> {
+        const chain = await this.getChain(task);
+        let lastError: any = null;
+        let tried = 0;
+
+        for (const name of chain) {
+            const provider = this.getProvider(name);
+            if (!provider || !provider.isAvailable()) continue;
+
+            try {
+                const result = await operation(provider);
+                if (tried > 0) console.log(`🔀 ${task} answered by fallback provider '${name}'`);
+                return result;
+            } catch (error: any) {
+                tried++;
+                lastError = error;
+                console.warn(`⚠️ LLM provider '${name}' failed for ${task}: ${error.message}`);
+            }
+        }
+
+        // Nothing could take it (or only an exhausted key pool did): a retry later may succeed
+        if (!lastError || lastError.message === ALL_KEYS_EXHAUSTED) {
+            throw new Error(ALL_KEYS_EXHAUSTED);
+        }
+        throw lastError;
+    }
+}
+
+export const llmRouter = new LlmRouter();
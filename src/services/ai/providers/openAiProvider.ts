@@ -0,0 +1,184 @@
+/**
+ * OpenAI-Compatible Provider
+ * Any server speaking the OpenAI chat completions API: a local Ollama or llama.cpp server,
+ * or a hosted one. Tool declarations and the Gemini-shaped conversation are converted to
+ * OpenAI messages; tool call ids are made up per turn, since Gemini turns don't carry them.
+ *
+ * Images the contact sent are passed as data URLs (vision models read them); other media
+ * is replaced by a short note.
+ */
+
+import axios from 'axios';
+import type { Content, Part } from '@google/generative-ai';
+import { config } from '../../../config/env';
+import { ChatRequest, ChatResponse, LlmProvider, TextOptions, ToolCall, ToolDeclaration } from './llmProvider';
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+    readonly name = 'openai' as const;
+
+    static isConfigured(): boolean {
+        return !!(config.llm.openaiBaseUrl && config.llm.openaiModel);
+    }
+
+    get model(): string {
+        return config.llm.openaiModel || '';
+    }
+
+    isAvailable(): boolean {
+        return OpenAiCompatibleProvider.isConfigured();
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        // Without tools on offer the model can only answer in text
+        const offerTools = request.allowTools && request.tools.length > 0;
+        const message = await this.complete({
+            messages: [{ role: 'system', content: request.systemPrompt }, ...this.toMessages(request.conversation)],
+            ...(offerTools && { tools: request.tools.map(tool => this.toTool(tool)), tool_choice: 'auto' }),
+        });
+
+        const toolCalls: any[] = message.tool_calls || [];
+        if (toolCalls.length > 0) {
+            const functionCalls: ToolCall[] = toolCalls.map(call => ({
+                name: call.function?.name,
+                args: this.parseArguments(call.function?.arguments),
+            }));
+            const text = this.cleanText(message.content);
+            return {
+                type: 'tool_call',
+                functionCalls,
+                modelTurn: {
+                    role: 'model',
+                    parts: [...(text ? [{ text }] : []), ...functionCalls.map(call => ({ functionCall: call }))],
+                },
+            };
+        }
+
+        return { type: 'text', content: this.cleanText(message.content) };
+    }
+
+    async generateText(prompt: string, options: TextOptions = {}): Promise<string> {
+        const message = await this.complete({
+            messages: [{ role: 'user', content: prompt }],
+            ...(options.json && { response_format: { type: 'json_object' } }),
+        });
+        return this.cleanText(message.content);
+    }
+
+    private async complete(body: Record<string, any>): Promise<any> {
+        const baseUrl = config.llm.openaiBaseUrl!.replace(/\/+$/, '');
+        const response = await axios.post(`${baseUrl}/chat/completions`, { model: config.llm.openaiModel, ...body }, {
+            headers: config.llm.openaiApiKey ? { Authorization: `Bearer ${config.llm.openaiApiKey}` } : {},
+            timeout: config.llm.openaiTimeoutMs,
+            validateStatus: () => true,
+        });
+
+        const message = response.data?.choices?.[0]?.message;
+        if (response.status !== 200 || !message) {
+            const error: any = new Error(response.data?.error?.message || `OpenAI-compatible request failed (HTTP ${response.status})`);
+            error.status = response.status;
+            throw error;
+        }
+        return message;
+    }
+
+    /**
+     * Gemini turns as OpenAI messages. A model turn's function calls become assistant tool_calls
+     * and the function turn after it becomes one tool message per call, matched by position.
+     */
+    private toMessages(conversation: Content[]): any[] {
+        const messages: any[] = [];
+        let callIds: string[] = [];
+
+        conversation.forEach((turn, turnIndex) => {
+            const parts = turn.parts || [];
+
+            if (turn.role === 'model') {
+                const calls = parts.filter(part => part.functionCall);
+                callIds = calls.map((_, i) => `call_${turnIndex}_${i}`);
+                messages.push({
+                    role: 'assistant',
+                    content: this.textOf(parts) || null,
+                    ...(calls.length > 0 && {
+                        tool_calls: calls.map((part, i) => ({
+                            id: callIds[i],
+                            type: 'function',
+                            function: { name: part.functionCall!.name, arguments: JSON.stringify(part.functionCall!.args || {}) },
+                        })),
+                    }),
+                });
+            } else if (turn.role === 'function') {
+                parts.filter(part => part.functionResponse).forEach((part, i) => {
+                    messages.push({
+                        role: 'tool',
+                        tool_call_id: callIds[i] || `call_${turnIndex}_${i}`,
+                        content: JSON.stringify(part.functionResponse!.response),
+                    });
+                });
+            } else {
+                messages.push({ role: 'user', content: this.userContent(parts) });
+            }
+        });
+
+        return messages;
+    }
+
+    private userContent(parts: Part[]): string | any[] {
+        const media = parts.filter(part => part.inlineData);
+        if (media.length === 0) return this.textOf(parts);
+
+        const content: any[] = [];
+        const text = this.textOf(parts);
+        if (text) content.push({ type: 'text', text });
+        for (const part of media) {
+            const { mimeType, data } = part.inlineData!;
+            content.push(mimeType.startsWith('image/')
+                ? { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } }
+                : { type: 'text', text: `[The contact attached a ${mimeType} file this model can't read]` });
+        }
+        return content;
+    }
+
+    private textOf(parts: Part[]): string {
+        return parts.filter(part => typeof part.text === 'string').map(part => part.text).join('\n');
+    }
+
+    private toTool(tool: ToolDeclaration) {
+        return {
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description || '',
+                parameters: tool.parameters ? toJsonSchema(tool.parameters) : { type: 'object', properties: {} },
+            },
+        };
+    }
+
+    private parseArguments(args: unknown): any {
+        if (args && typeof args === 'object') return args;
+        try {
+            return JSON.parse(String(args || '{}'));
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * Drops the <think> block local reasoning models (Qwen, DeepSeek-R1) put before their answer
+     */
+    private cleanText(content: unknown): string {
+        return String(content || '').replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+    }
+}
+
+/**
+ * Gemini schema → JSON Schema: the only difference in AI_TOOLS is the upper-case type names
+ */
+function toJsonSchema(schema: any): any {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+
+    return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+        key,
+        key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value),
+    ]));
+}
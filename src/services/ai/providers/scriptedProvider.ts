@@ -0,0 +1,72 @@
+/**
+ * Scripted Provider
+ * A deterministic stand-in for offline tests: no network, same input → same output.
+ * Replies are played back in order from LLM_SCRIPT_FILE (a JSON array) or ones queued with
+ * push(). Once the script runs out, chat turns echo the contact's last message, text prompts
+ * get a fixed line and JSON prompts get an empty object.
+ */
+
+import fs from 'fs';
+import type { Content } from '@google/generative-ai';
+import { config } from '../../../config/env';
+import { ChatRequest, ChatResponse, LlmProvider, TextOptions, ToolCall } from './llmProvider';
+
+export interface ScriptedReply {
+    text?: string;
+    toolCalls?: ToolCall[];   // Only returned when tools are allowed for the turn
+}
+
+export class ScriptedProvider implements LlmProvider {
+    readonly name = 'scripted' as const;
+    readonly model = 'scripted';
+    private script: ScriptedReply[];
+
+    constructor(script: ScriptedReply[] = ScriptedProvider.loadScript()) {
+        this.script = [...script];
+    }
+
+    /**
+     * Replies from LLM_SCRIPT_FILE, or none when it isn't set
+     */
+    static loadScript(): ScriptedReply[] {
+        if (!config.llm.scriptFile) return [];
+        const script = JSON.parse(fs.readFileSync(config.llm.scriptFile, 'utf8'));
+        if (!Array.isArray(script)) throw new Error('LLM_SCRIPT_FILE must hold a JSON array of replies');
+        return script;
+    }
+
+    push(...replies: ScriptedReply[]) {
+        this.script.push(...replies);
+    }
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const next = this.script.shift();
+
+        if (next?.toolCalls?.length && request.allowTools) {
+            return {
+                type: 'tool_call',
+                functionCalls: next.toolCalls,
+                modelTurn: { role: 'model', parts: next.toolCalls.map(call => ({ functionCall: call })) },
+            };
+        }
+        if (next?.text !== undefined) return { type: 'text', content: next.text };
+
+        const lastMessage = this.lastUserText(request.conversation);
+        return { type: 'text', content: lastMessage ? `You said: ${lastMessage}` : 'Hello!' };
+    }
+
+    async generateText(prompt: string, options: TextOptions = {}): Promise<string> {
+        const next = this.script.shift();
+        if (next?.text !== undefined) return next.text;
+        return options.json ? '{}' : `Scripted text (${prompt.length} character prompt)`;
+    }
+
+    private lastUserText(conversation: Content[]): string {
+        const turn = [...conversation].reverse().find(t => t.role === 'user');
+        return (turn?.parts || []).map(part => part.text || '').join(' ').trim();
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * Tool Policy
+ * Who may use each AI tool. Tools are filtered before they are offered to Gemini and
+ * checked again when a call comes back, so a prompt can't talk the agent into running
+ * a tool the chat isn't entitled to. Denied calls are written to the audit log.
+ *
+ * Audiences:
+ * - owner:    the owner's own chat only
+ * - verified: the owner, or a contact whose identity has been confirmed (direct chats)
+ * - anyone:   every chat, including unverified contacts and groups
+ * - group:    group chats only
+ */
+
+import { ownerService } from '../ownerService';
+import { auditService } from '../auditService';
+
+export type ToolAudience = 'owner' | 'verified' | 'anyone' | 'group';
+
+export interface ToolCaller {
+    jid: string;
+    isOwner: boolean;
+    isVerified: boolean;
+    isGroup: boolean;
+    allowedTools?: string[] | null; // Narrows the policy further (per-group settings); never widens it
+}
+
+export const TOOL_POLICY: Record<string, ToolAudience> = {
+    // Identity & general
+    update_contact_info: 'anyone', // Identity verification runs through it
+    get_current_time: 'anyone',
+    generate_image: 'verified',
+    browse_url: 'verified',
+    search_web: 'verified',
+
+    // Owner: conversations, status and agent controls
+    search_messages: 'owner', // Searches every chat's history
+    get_daily_summary: 'owner',
+    search_all_conversations: 'owner',
+    get_recent_conversations: 'owner',
+    get_system_status: 'owner',
+    get_analytics: 'owner',
+    enable_calendar_access: 'owner',
+    disable_calendar_access: 'owner',
+    get_calendar_access_status: 'owner',
+    enable_chat_agent: 'owner',
+    disable_chat_agent: 'owner',
+    get_chat_agent_status: 'owner',
+    pause_ai_for_contact: 'owner',
+    resume_ai_for_contact: 'owner',
+    list_paused_contacts: 'owner',
+    delete_last_message: 'owner',
+
+    // Owner: marketing
+    start_marketing_onboarding: 'owner',
+    create_campaign: 'owner',
+    post_now: 'owner',
+
+    // Calendar
+    check_schedule: 'owner', // Lists the owner's events
+    check_availability: 'anyone',
+    schedule_meeting: 'verified',
+    list_my_bookings: 'verified',
+    reschedule_booking: 'verified',
+    cancel_booking: 'verified',
+
+    // Catalog, orders & payments
+    search_products: 'anyone',
+    get_product_details: 'anyone',
+    send_product_photo: 'anyone',
+    add_to_order: 'verified',
+    remove_from_order: 'verified',
+    view_order: 'verified',
+    confirm_order: 'verified',
+    request_payment: 'verified',
+
+    // Groups
+    message_admins: 'group',
+};
+
+// Tools a group chat can be given (the owner may narrow this per group).
+// update_contact_info edits the chat's contact record, which groups don't have.
+export const GROUP_TOOLS = Object.keys(TOOL_POLICY).filter(name =>
+    (TOOL_POLICY[name] === 'anyone' || TOOL_POLICY[name] === 'group') && name !== 'update_contact_info');
+
+/**
+ * The caller behind a chat's contact record (contacts.phone holds the chat JID / Telegram chat id)
+ */
+export function getToolCaller(contact: { phone: string; isVerified?: boolean | null } | null | undefined, allowedTools?: string[] | null): ToolCaller {
+    const jid = contact?.phone || '';
+    const isOwner = !!jid && ownerService.isOwner(jid);
+    return {
+        jid,
+        isOwner,
+        isVerified: isOwner || !!contact?.isVerified,
+        // Telegram group chat ids are negative
+        isGroup: jid.endsWith('@g.us') || jid.startsWith('-'),
+        allowedTools,
+    };
+}
+
+/**
+ * Whether the caller may use a tool. Tools missing from the policy are owner-only.
+ */
+export function isToolAllowed(name: string, caller: ToolCaller): boolean {
+    if (caller.allowedTools && !caller.allowedTools.includes(name)) return false;
+
+    const audience = TOOL_POLICY[name] || 'owner';
+    switch (audience) {
+        case 'anyone':
+            return true;
+        case 'group':
+            return caller.isGroup;
+        case 'verified':
+            return !caller.isGroup && caller.isVerified;
+        case 'owner':
+            return !caller.isGroup && caller.isOwner;
+    }
+}
+
+/**
+ * Logs and audits a call the policy refused
+ */
+export async function recordDeniedCall(name: string, args: any, caller: ToolCaller): Promise<void> {
+    console.warn(`🚫 Tool '${name}' denied for ${caller.jid || 'unknown chat'} (requires ${TOOL_POLICY[name] || 'owner'})`);
+    await auditService.record({
+        actor: 'agent',
+        action: 'tool_denied',
+        target: name,
+        details: {
+            jid: caller.jid,
+            requires: TOOL_POLICY[name] || 'owner',
+            caller: { isOwner: caller.isOwner, isVerified: caller.isVerified, isGroup: caller.isGroup },
+            args,
+        },
+    });
+}
@@ -12,6 +12,7 @@ import { webScraper } from '../webScraper';
 import { googleImageGenerationService } from '../googleImageGeneration';
 import { marketingCampaigns } from '../../database/schema';
 import { systemSettingsService } from '../systemSettings';
+import { ToolCaller, getToolCaller, isToolAllowed, recordDeniedCall } from './toolPolicy';
 
 // Deduplication: Track recent tool calls to prevent double-execution
 const recentToolCalls = new Map<string, number>();
@@ -202,6 +203,38 @@ export const AI_TOOLS = [
                     required: []
                 }
             },
+            {
+                name: "pause_ai_for_contact",
+                description: "Human takeover: stop the AI from replying to ONE contact so the owner can handle that chat personally. Messages from the contact are still logged. OWNER ONLY.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        contact: { type: "STRING", description: "The contact's phone number or name." },
+                        minutes: { type: "NUMBER", description: "Optional: hand the chat back to the AI automatically after this many minutes. Omit to stay paused until resumed." }
+                    },
+                    required: ["contact"]
+                }
+            },
+            {
+                name: "resume_ai_for_contact",
+                description: "Hand a contact back to the AI after a human takeover, so the AI replies to them again. OWNER ONLY.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        contact: { type: "STRING", description: "The contact's phone number or name." }
+                    },
+                    required: ["contact"]
+                }
+            },
+            {
+                name: "list_paused_contacts",
+                description: "List the contacts currently under human takeover (AI paused). OWNER ONLY.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {},
+                    required: []
+                }
+            },
             {
                 name: "get_current_time",
                 description: "Get the current date and time. CRITICAL: Use this FIRST when customers mention relative dates like 'tomorrow', 'next week', 'in 2 days', etc., so you can provide accurate scheduling information and know what specific dates they're referring to.",
@@ -260,11 +293,49 @@ export const AI_TOOLS = [
                         purpose: {
                             type: "STRING",
                             description: "Brief description of the meeting purpose. Example: 'Product demo' or 'Consultation call'"
+                        },
+                        location: {
+                            type: "STRING",
+                            description: "Optional in-person venue. If the customer shared a location pin (a '📍 [location:lat,lng] Shared location: ...' message), pass that address here."
                         }
                     },
                     required: ["date", "time", "duration", "customer_name", "purpose"]
                 }
             },
+            {
+                name: "list_my_bookings",
+                description: "List this chat's upcoming meetings with their booking ids. Use this when the customer asks about, or wants to move or cancel, a meeting they booked.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {},
+                    required: []
+                }
+            },
+            {
+                name: "reschedule_booking",
+                description: "Move one of this chat's upcoming meetings to a new date and time. Get the booking id from list_my_bookings, check the new slot with check_availability, and confirm it with the customer first.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        booking_id: { type: "NUMBER", description: "The booking to move, from list_my_bookings." },
+                        date: { type: "STRING", description: "New date in YYYY-MM-DD format." },
+                        time: { type: "STRING", description: "New start time in HH:MM format (24-hour)." },
+                        duration: { type: "NUMBER", description: "Optional new length in minutes. Defaults to the current length." }
+                    },
+                    required: ["booking_id", "date", "time"]
+                }
+            },
+            {
+                name: "cancel_booking",
+                description: "Cancel one of this chat's upcoming meetings. ONLY call this after the customer clearly confirms they want to cancel. The owner is notified.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        booking_id: { type: "NUMBER", description: "The booking to cancel, from list_my_bookings." }
+                    },
+                    required: ["booking_id"]
+                }
+            },
             {
                 name: "browse_url",
                 description: "Fetch and extract content from a website URL. ONLY use this when the user explicitly requests information that requires browsing external websites (e.g., 'check the news', 'what is the price of X'). Do NOT use for general knowledge queries the AI can answer itself. Returns smart-compressed content with exact token/character/word counts to fit model limits.",
@@ -343,6 +414,96 @@ export const AI_TOOLS = [
                     required: []
                 }
             },
+            {
+                name: "search_products",
+                description: "Search the owner's product catalog by name or description. Use this when a customer asks what is available, whether something is sold, or what it costs. Only in-stock shop products and portfolio (career) items are returned; if nothing matches, tell the customer it isn't available right now.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        query: { type: "STRING", description: "What the customer is looking for (e.g. 'red dress', 'wedding photography'). Leave empty to list what is available." },
+                        shop_type: { type: "STRING", description: "Optional: 'shop' for products for sale, 'career' for portfolio work and services." }
+                    },
+                    required: []
+                }
+            },
+            {
+                name: "get_product_details",
+                description: "Get the full description, price and stock of one product from search_products. Use this before quoting a price or confirming availability.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        product_id: { type: "NUMBER", description: "The product id returned by search_products." }
+                    },
+                    required: ["product_id"]
+                }
+            },
+            {
+                name: "send_product_photo",
+                description: "Send a product's photo to the customer in this chat. Use this when a customer asks to see a product.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        product_id: { type: "NUMBER", description: "The product id returned by search_products." },
+                        photo_number: { type: "NUMBER", description: "Optional: which photo to send (1 = first) when the product has several. Default 1." }
+                    },
+                    required: ["product_id"]
+                }
+            },
+            {
+                name: "add_to_order",
+                description: "Add a product to the customer's order, or change its quantity if it's already in the order. Checks the quantity against stock. Use the product id from search_products.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        product_id: { type: "NUMBER", description: "The product id returned by search_products." },
+                        quantity: { type: "NUMBER", description: "How many the customer wants in total (default 1)." }
+                    },
+                    required: ["product_id"]
+                }
+            },
+            {
+                name: "remove_from_order",
+                description: "Remove a product from the customer's order in progress.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        product_id: { type: "NUMBER", description: "The product id to remove." }
+                    },
+                    required: ["product_id"]
+                }
+            },
+            {
+                name: "view_order",
+                description: "Show the items and total of the customer's order in progress. Use this to read the order back before confirming it.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {},
+                    required: []
+                }
+            },
+            {
+                name: "confirm_order",
+                description: "Place the customer's order. ONLY call this after reading the items and total back to the customer and they explicitly agree. Ask for delivery details first.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        delivery_notes: { type: "STRING", description: "Delivery location, preferred time or other instructions from the customer." }
+                    },
+                    required: []
+                }
+            },
+            {
+                name: "request_payment",
+                description: "Send an M-Pesa payment prompt (STK push) to the customer's phone for their placed order. Use this after confirm_order when the customer wants to pay by M-Pesa. The customer enters their PIN on the prompt; you'll be told in the chat if it fails.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        order_id: { type: "NUMBER", description: "Optional: the order to pay for. Defaults to the customer's latest unpaid order." },
+                        phone: { type: "STRING", description: "Optional: the Safaricom number to prompt (e.g. 0712345678). Defaults to the customer's WhatsApp number; ask for it on Telegram." }
+                    },
+                    required: []
+                }
+            },
             {
                 name: "message_admins",
                 description: "Send a direct message to all administrators of the current group. Use this for reporting severe issues, requesting admin intervention, or when a user explicitly asks to speak to an admin.",
@@ -361,25 +522,20 @@ export const AI_TOOLS = [
 ];
 
 /**
- * Get filtered tools based on user permissions (e.g., calendar access)
- * Dynamically removes tools that the user doesn't have access to
+ * Get filtered tools based on the caller's permissions (see toolPolicy) and calendar access.
+ * Dynamically removes tools that the caller doesn't have access to
  */
-export async function getFilteredTools(calendarAccessEnabled?: boolean) {
+export async function getFilteredTools(caller: ToolCaller, calendarAccessEnabled?: boolean) {
     // If not explicitly provided, check the system setting
     const hasCalendarAccess = calendarAccessEnabled ?? await systemSettingsService.isCalendarAccessEnabled();
 
-    if (hasCalendarAccess) {
-        // Return all tools
-        return AI_TOOLS;
-    }
-
-    // Filter out calendar-related tools
-    const calendarToolNames = new Set(['check_schedule', 'check_availability', 'schedule_meeting']);
+    // Calendar-related tools are removed while calendar access is off
+    const calendarToolNames = new Set(['check_schedule', 'check_availability', 'schedule_meeting', 'list_my_bookings', 'reschedule_booking', 'cancel_booking']);
 
     return [
         {
             functionDeclarations: AI_TOOLS[0].functionDeclarations.filter(
-                tool => !calendarToolNames.has(tool.name)
+                tool => isToolAllowed(tool.name, caller) && (hasCalendarAccess || !calendarToolNames.has(tool.name))
             )
         }
     ];
@@ -387,13 +543,20 @@ export async function getFilteredTools(calendarAccessEnabled?: boolean) {
 
 // Helper to execute tools locally
 export async function executeLocalTool(name: string, args: any, context: any) {
+    // Re-check the policy: the model only saw allowed tools, but never trust the call it sends back
+    const caller = getToolCaller(context?.contact, context?.group?.allowedTools);
+    if (!isToolAllowed(name, caller)) {
+        await recordDeniedCall(name, args, caller);
+        return { error: "This tool isn't available in this chat." };
+    }
+
     if (isRecentDuplicate(name, args)) {
         console.warn(`⚠️ Skipping duplicate tool call: ${name} (Args: ${JSON.stringify(args)})`);
         return { error: "Duplicate tool call ignored. Please wait a moment." };
     }
 
     // Check if calendar tools are being called without access permission
-    const calendarToolNames = new Set(['check_schedule', 'check_availability', 'schedule_meeting']);
+    const calendarToolNames = new Set(['check_schedule', 'check_availability', 'schedule_meeting', 'list_my_bookings', 'reschedule_booking', 'cancel_booking']);
     if (calendarToolNames.has(name)) {
         const calendarAccessEnabled = await systemSettingsService.isCalendarAccessEnabled();
         if (!calendarAccessEnabled) {
@@ -535,6 +698,15 @@ export async function executeLocalTool(name: string, args: any, context: any) {
         case 'get_chat_agent_status':
             return { result: await ownerTools.getChatAgentStatus() };
 
+        case 'pause_ai_for_contact':
+            return { result: await ownerTools.pauseAiForContact(args.contact, args.minutes) };
+
+        case 'resume_ai_for_contact':
+            return { result: await ownerTools.resumeAiForContact(args.contact) };
+
+        case 'list_paused_contacts':
+            return { result: await ownerTools.listPausedContacts() };
+
         case 'check_availability':
             try {
                 const { date, duration } = args;
@@ -559,7 +731,7 @@ export async function executeLocalTool(name: string, args: any, context: any) {
 
         case 'schedule_meeting':
             try {
-                const { date, time, duration, customer_name, customer_email, purpose } = args;
+                const { date, time, duration, customer_name, customer_email, purpose, location } = args;
 
                 // Get customer phone from context if available
                 const customerPhone = context?.contact?.phone;
@@ -576,12 +748,30 @@ export async function executeLocalTool(name: string, args: any, context: any) {
                     customerName: customer_name,
                     customerEmail: customer_email,
                     purpose,
-                    customerPhone
+                    customerPhone,
+                    location
                 }, userTimezone);
 
                 if (result.success) {
+                    if (context?.contact && result.eventId && result.startTime) {
+                        try {
+                            const { bookingService } = await import('../bookingService');
+                            await bookingService.record(context.contact, {
+                                eventId: result.eventId,
+                                startTime: result.startTime,
+                                endTime: result.endTime,
+                                customerName: customer_name,
+                                purpose,
+                                location,
+                                meetLink: result.meetLink,
+                            }, userTimezone);
+                        } catch (err) {
+                            // The meeting is on the calendar either way; it just won't get reminders
+                            console.error('Failed to record booking:', err);
+                        }
+                    }
                     return {
-                        result: `✅ Meeting scheduled successfully!\n\nDate: ${date}\nTime: ${time}\nDuration: ${duration} minutes\nGoogle Meet Link: ${result.meetLink}\n\nEvent ID: ${result.eventId}`
+                        result: `✅ Meeting scheduled successfully!\n\nDate: ${date}\nTime: ${time}\nDuration: ${duration} minutes${location ? `\nLocation: ${location}` : ''}\nGoogle Meet Link: ${result.meetLink}\n\nEvent ID: ${result.eventId}`
                     };
                 } else {
                     return { error: `Failed to schedule meeting: ${result.error}` };
@@ -704,7 +894,7 @@ export async function executeLocalTool(name: string, args: any, context: any) {
                     }
 
                     // Execute in background
-                    marketingService.executeMarketingSlot(client, args.type, args.custom_instructions)
+                    marketingService.executeMarketingSlot(client, args.type, args.custom_instructions, 'post_now')
                         .catch(err => console.error(`❌ Background broadcast failed for ${args.type}:`, err));
 
                     return {
@@ -719,6 +909,147 @@ export async function executeLocalTool(name: string, args: any, context: any) {
 
 
 
+        case 'search_products':
+            try {
+                const { shopService } = await import('../shopService');
+                const type = args.shop_type === 'shop' || args.shop_type === 'career' ? args.shop_type : undefined;
+                const items = await shopService.searchCatalog(args.query || '', { type, limit: 8 });
+                if (items.length === 0) {
+                    return { result: `No available items match "${args.query || ''}".` };
+                }
+                return {
+                    result: items.map(item => ({
+                        ...item,
+                        description: item.description && item.description.length > 200 ? item.description.substring(0, 200) + '...' : item.description
+                    }))
+                };
+            } catch (e: any) {
+                return { error: `Product search failed: ${e.message}` };
+            }
+
+        case 'get_product_details':
+            try {
+                const { shopService } = await import('../shopService');
+                const found = await shopService.getCatalogProduct(Number(args.product_id));
+                if (!found) return { error: "That product doesn't exist or is out of stock." };
+                return {
+                    result: {
+                        ...found.item,
+                        note: found.item.shopType === 'career'
+                            ? 'Portfolio item: there is no fixed price. Offer to pass a quote request to the owner.'
+                            : `Price ${found.item.price}, ${found.item.stock} in stock.`
+                    }
+                };
+            } catch (e: any) {
+                return { error: `Failed to get product: ${e.message}` };
+            }
+
+        case 'send_product_photo':
+            try {
+                const { shopService } = await import('../shopService');
+                const found = await shopService.getCatalogProduct(Number(args.product_id));
+                if (!found) return { error: "That product doesn't exist or is out of stock." };
+                if (found.item.photoCount === 0) return { error: `${found.item.name} has no photos.` };
+
+                const index = Math.min(Math.max(Number(args.photo_number) || 1, 1), found.item.photoCount) - 1;
+                const photo = shopService.getProductPhoto(found.product, index);
+                if (!photo) return { error: `The photo for ${found.item.name} could not be loaded.` };
+
+                const caption = found.item.shopType === 'career' || found.item.price === null
+                    ? found.item.name
+                    : `${found.item.name} - ${found.item.price}`;
+                return {
+                    result: `[PHOTO_SENT] ${found.item.name} (photo ${index + 1} of ${found.item.photoCount})`,
+                    _data: {
+                        type: 'image_buffer',
+                        data: photo.data,
+                        mimeType: photo.mimeType,
+                        caption
+                    }
+                };
+            } catch (e: any) {
+                return { error: `Failed to send product photo: ${e.message}` };
+            }
+
+        case 'add_to_order':
+        case 'remove_from_order':
+        case 'view_order':
+        case 'confirm_order':
+            try {
+                const { orderService } = await import('../orderService');
+                const contact = context?.contact;
+                if (!contact?.phone) return { error: "No contact found for this chat." };
+
+                if (name === 'view_order') {
+                    const draft = await orderService.getDraft(contact.phone);
+                    if (!draft || draft.items.length === 0) return { result: "The customer has no order in progress." };
+                    return { result: `Order in progress:\n${orderService.formatItems(draft)}` };
+                }
+                if (name === 'confirm_order') {
+                    const order = await orderService.confirm(contact.phone, args.delivery_notes);
+                    return { result: `Order #${order.id} placed and the owner has been notified.\n${orderService.formatItems(order)}` };
+                }
+
+                const order = name === 'add_to_order'
+                    ? await orderService.setItem(contact, Number(args.product_id), args.quantity === undefined ? 1 : Number(args.quantity))
+                    : await orderService.removeItem(contact.phone, Number(args.product_id));
+                return {
+                    result: order.items.length > 0
+                        ? `Order in progress (not placed yet):\n${orderService.formatItems(order)}`
+                        : "The order is now empty."
+                };
+            } catch (e: any) {
+                return { error: e.message };
+            }
+
+        case 'request_payment':
+            try {
+                const { paymentService } = await import('../payments/paymentService');
+                const contact = context?.contact;
+                if (!contact?.phone) return { error: "No contact found for this chat." };
+
+                const payment = await paymentService.requestOrderPayment(contact, {
+                    orderId: args.order_id !== undefined ? Number(args.order_id) : undefined,
+                    phone: args.phone,
+                });
+                return { result: `M-Pesa prompt for ${payment.amount} sent to ${payment.phone} (order #${payment.orderId}). Ask the customer to enter their M-Pesa PIN on the prompt.` };
+            } catch (e: any) {
+                return { error: e.message };
+            }
+
+        case 'list_my_bookings':
+        case 'reschedule_booking':
+        case 'cancel_booking':
+            try {
+                const { bookingService } = await import('../bookingService');
+                const contact = context?.contact;
+                if (!contact?.phone) return { error: "No contact found for this chat." };
+
+                if (name === 'list_my_bookings') {
+                    const upcoming = await bookingService.listUpcomingForChat(contact.phone);
+                    if (upcoming.length === 0) return { result: "This chat has no upcoming meetings." };
+                    return {
+                        result: upcoming.map(b => `#${b.id}: ${bookingService.formatTime(b)}${b.purpose ? ` — ${b.purpose}` : ''}${b.meetLink ? ` (${b.meetLink})` : ''}`).join('\n')
+                    };
+                }
+
+                const booking = await bookingService.getUpcomingForChat(contact.phone, Number(args.booking_id));
+                if (name === 'cancel_booking') {
+                    await bookingService.cancel(booking, 'contact');
+                    return { result: `Booking #${booking.id} on ${bookingService.formatTime(booking)} is cancelled and the owner has been notified.` };
+                }
+
+                const userTimezone = context?.userProfile?.timezone || 'UTC';
+                const moved = await bookingService.reschedule(booking, {
+                    date: args.date,
+                    time: args.time,
+                    duration: args.duration !== undefined ? Number(args.duration) : undefined,
+                }, userTimezone);
+                return { result: `Booking #${moved.id} moved to ${bookingService.formatTime(moved)}.${moved.meetLink ? ` The Meet link is unchanged: ${moved.meetLink}` : ''}` };
+            } catch (e: any) {
+                return { error: e.message };
+            }
+
         case 'message_admins':
             try {
                 const client = context?.client;
@@ -1,6 +1,7 @@
 import { db } from '../database';
-import { adEngagements, marketingCampaigns, contacts, messageLogs, messageQueue, queueMetrics } from '../database/schema';
+import { adEngagements, contacts, messageLogs, messageQueue, queueMetrics } from '../database/schema';
 import { eq, sql, desc, gte } from 'drizzle-orm';
+import { adBroadcastService } from './marketing/adBroadcastService';
 
 export class AnalyticsService {
     private static instance: AnalyticsService;
@@ -44,17 +45,20 @@ export class AnalyticsService {
     }
 
     /**
-     * Track an engagement event
+     * Track an engagement event on an ad. Receipts and replies only carry a message id, so it is
+     * matched to the broadcast that posted it; messages that weren't ads are ignored.
      */
     public async trackEngagement(
         type: 'delivered' | 'read' | 'reply',
         messageId: string,
-        campaignId: number | null,
         userPhone: string,
-        groupJid: string | null = null,
+        groupJid: string,
         context: any = {}
     ) {
         try {
+            const broadcast = await adBroadcastService.findByMessage(messageId, groupJid);
+            if (!broadcast) return;
+
             // Deduplication for 'read' events (only count first read per user/msg)
             if (type === 'read') {
                 const existing = await db.query.adEngagements.findFirst({
@@ -70,19 +74,101 @@ export class AnalyticsService {
             await db.insert(adEngagements).values({
                 type,
                 messageId,
-                campaignId,
+                campaignId: broadcast.campaignId,
+                broadcastId: broadcast.id,
                 userPhone,
                 groupJid,
                 context,
                 createdAt: new Date()
             });
 
-            console.log(`📊 Tracked '${type}' from ${userPhone} (Msg: ${messageId})`);
+            console.log(`📊 Tracked '${type}' from ${userPhone} (Msg: ${messageId}, Campaign: ${broadcast.campaignId ?? 'none'})`);
         } catch (error) {
             console.error('Failed to track engagement:', error);
         }
     }
 
+    /**
+     * Reach and reply rates of posted ads, per campaign, per group and per pitch framework.
+     * Reach = distinct members who read the ad; rates are against the group size when it was posted.
+     */
+    public async getBroadcastPerformance(startDate: Date | null = null) {
+        const since = startDate ? sql`WHERE b.sent_at >= ${startDate}` : sql``;
+        const totals = sql`
+            count(*)::int AS broadcasts,
+            coalesce(sum(b.audience_size), 0)::int AS audience,
+            coalesce(sum(e.reads), 0)::int AS reads,
+            coalesce(sum(e.replies), 0)::int AS replies,
+            count(b.deleted_at)::int AS deleted
+        `;
+        const engagements = sql`
+            LEFT JOIN (
+                SELECT broadcast_id,
+                    count(DISTINCT user_phone) FILTER (WHERE type = 'read') AS reads,
+                    count(*) FILTER (WHERE type = 'reply') AS replies
+                FROM ad_engagements
+                WHERE broadcast_id IS NOT NULL
+                GROUP BY broadcast_id
+            ) e ON e.broadcast_id = b.id
+        `;
+
+        const [byCampaign, byGroup, byFramework] = await Promise.all([
+            db.execute(sql`
+                SELECT b.campaign_id AS id, c.name AS name, ${totals}
+                FROM ad_broadcasts b
+                ${engagements}
+                LEFT JOIN marketing_campaigns c ON c.id = b.campaign_id
+                ${since}
+                GROUP BY b.campaign_id, c.name
+                ORDER BY broadcasts DESC
+                LIMIT 50
+            `),
+            db.execute(sql`
+                SELECT b.group_jid AS jid, b.platform, coalesce(g.subject, tc.title) AS name, ${totals}
+                FROM ad_broadcasts b
+                ${engagements}
+                LEFT JOIN groups g ON g.jid = b.group_jid
+                LEFT JOIN telegram_chats tc ON tc.chat_id = b.group_jid
+                ${since}
+                GROUP BY b.group_jid, b.platform, g.subject, tc.title
+                ORDER BY broadcasts DESC
+                LIMIT 50
+            `),
+            db.execute(sql`
+                SELECT coalesce(b.framework, 'Custom post') AS framework, ${totals}
+                FROM ad_broadcasts b
+                ${engagements}
+                ${since}
+                GROUP BY 1
+                ORDER BY broadcasts DESC
+            `),
+        ]);
+
+        const withRates = (result: any) => {
+            const rows = Array.isArray(result) ? result : (result?.rows || []);
+            return (rows as any[]).map(r => {
+                const audience = Number(r.audience);
+                return {
+                    ...r,
+                    broadcasts: Number(r.broadcasts),
+                    audience,
+                    reads: Number(r.reads),
+                    replies: Number(r.replies),
+                    deleted: Number(r.deleted),
+                    // Unknown audience (Telegram) leaves the rates empty
+                    reachRate: audience ? Math.round((Number(r.reads) / audience) * 100) : null,
+                    replyRate: audience ? Math.round((Number(r.replies) / audience) * 100) : null,
+                };
+            });
+        };
+
+        return {
+            byCampaign: withRates(byCampaign),
+            byGroup: withRates(byGroup),
+            byFramework: withRates(byFramework),
+        };
+    }
+
     /**
      * Get Aggregated Dashboard Data (legacy - kept for backward compat)
      */
@@ -129,18 +215,12 @@ export class AnalyticsService {
             return acc;
         }, {} as Record<string, number>);
 
-        // 2. Campaign Performance
-        const campaignPerformance = await db.select({
-            id: marketingCampaigns.id,
-            name: marketingCampaigns.name,
-            reads: sql<number>`count(case when ${adEngagements.type} = 'read' then 1 end)`,
-            replies: sql<number>`count(case when ${adEngagements.type} = 'reply' then 1 end)`
-        })
-            .from(marketingCampaigns)
-            .leftJoin(adEngagements, eq(marketingCampaigns.id, adEngagements.campaignId))
-            .groupBy(marketingCampaigns.id, marketingCampaigns.name)
-            .orderBy(desc(sql`count(case when ${adEngagements.type} = 'read' then 1 end)`))
-            .limit(5);
+        // 2. Campaign Performance (engagements attributed through ad_broadcasts)
+        const broadcastPerformance = await this.getBroadcastPerformance(startDate);
+        const campaignPerformance = broadcastPerformance.byCampaign
+            .filter(c => c.id !== null)
+            .sort((a, b) => b.reads - a.reads)
+            .slice(0, 5);
 
         // 3. Contact & Message Metrics
         const totalContacts = await db.select({ count: sql<number>`count(*)` })
@@ -409,6 +489,7 @@ export class AnalyticsService {
                 avgProcessingMs: queueHealth.avgProcessingMs
             },
             topCampaigns: campaignPerformance,
+            broadcastPerformance,
             messageVolumeByDay,
             peakActivityByHour,
             messageTypes,
@@ -0,0 +1,75 @@
+/**
+ * Audit Service
+ * Records who changed what through the dashboard / REST API.
+ */
+
+import { db, withRetry } from '../database';
+import { auditLog } from '../database/schema';
+import { desc, eq } from 'drizzle-orm';
+import type { AuthUser } from './authService';
+
+export interface AuditEntry {
+    user?: AuthUser | null;
+    actor?: string;      // Who acted when it wasn't a dashboard user (e.g. 'agent')
+    action: string;
+    target?: string | null;
+    details?: any;
+    ip?: string | null;
+}
+
+// Never store these in the audit trail
+const SECRET_KEYS = /pass(word)?|secret|token|api[_-]?key|credential/i;
+const MAX_STRING_LENGTH = 500;
+
+export class AuditService {
+    async record(entry: AuditEntry): Promise<void> {
+        try {
+            await withRetry(async () => {
+                await db.insert(auditLog).values({
+                    userId: entry.user?.id ?? null,
+                    username: entry.user?.username ?? entry.actor ?? null,
+                    action: entry.action.substring(0, 100),
+                    target: entry.target ?? null,
+                    details: entry.details === undefined ? null : this.redact(entry.details),
+                    ip: entry.ip?.substring(0, 64) ?? null,
+                });
+            });
+        } catch (error) {
+            console.error(`Failed to record audit entry "${entry.action}":`, error);
+        }
+    }
+
+    async list(limit: number = 100, userId?: number) {
+        return await withRetry(async () => {
+            const query = db.select().from(auditLog);
+            return await (userId ? query.where(eq(auditLog.userId, userId)) : query)
+                .orderBy(desc(auditLog.createdAt))
+                .limit(limit);
+        });
+    }
+
+    /**
+     * Copies a request body with secrets masked and long values (e.g. base64 uploads) truncated
+     */
+    redact(value: any, depth: number = 0): any {
+        if (value === null || value === undefined) return value;
+        if (typeof value === 'string') {
+            return value.length > MAX_STRING_LENGTH ? `${value.substring(0, MAX_STRING_LENGTH)}… (${value.length} chars)` : value;
+        }
+        if (typeof value !== 'object') return value;
+        if (depth > 4) return '[nested]';
+        if (Array.isArray(value)) return value.slice(0, 50).map(v => this.redact(v, depth + 1));
+
+        // Key/value settings ({ key: 'gemini_api_key', value: '...' }) hide the secret in the value
+        const secretSetting = typeof value.key === 'string' && SECRET_KEYS.test(value.key);
+
+        const result: Record<string, any> = {};
+        for (const [key, v] of Object.entries(value)) {
+            const isSecret = SECRET_KEYS.test(key) || (secretSetting && key === 'value');
+            result[key] = isSecret ? '[redacted]' : this.redact(v, depth + 1);
+        }
+        return result;
+    }
+}
+
+export const auditService = new AuditService();
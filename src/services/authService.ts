@@ -0,0 +1,272 @@
+/**
+ * Auth Service
+ * Dashboard / REST API accounts and sessions.
+ *
+ * Passwords are hashed with scrypt (per-user random salt). Sessions are random tokens;
+ * only their SHA-256 is stored, so a database leak doesn't hand out live sessions.
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { db, withRetry } from '../database';
+import { authSessions, dashboardUsers } from '../database/schema';
+import { and, asc, eq, gt, lt, ne, sql } from 'drizzle-orm';
+import { config } from '../config/env';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export type UserRole = 'owner' | 'staff' | 'viewer';
+export const USER_ROLES: UserRole[] = ['owner', 'staff', 'viewer'];
+
+export interface AuthUser {
+    id: number;
+    username: string;
+    role: UserRole;
+}
+
+export interface SessionMeta {
+    ip?: string;
+    userAgent?: string;
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SESSION_TOUCH_MS = 5 * 60 * 1000;       // Refresh lastSeenAt at most this often
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 10;
+
+// Failed logins per IP: lock out after MAX_FAILED_LOGINS within the window
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+export class AuthService {
+    private failedLogins: Map<string, { count: number; firstAt: number }> = new Map();
+    private lastTouched: Map<string, number> = new Map();
+
+    /**
+     * Creates the first owner from DASHBOARD_ADMIN_USERNAME/PASSWORD when there are no users yet
+     */
+    async bootstrapOwner(): Promise<void> {
+        const [{ count }] = await withRetry(async () => {
+            return await db.select({ count: sql<number>`count(*)::int` }).from(dashboardUsers);
+        });
+        if (count > 0) return;
+
+        if (!config.dashboardAdminUsername || !config.dashboardAdminPassword) {
+            console.warn('⚠️ No dashboard users exist and DASHBOARD_ADMIN_USERNAME/DASHBOARD_ADMIN_PASSWORD are not set - nobody can sign in to the dashboard');
+            return;
+        }
+
+        await this.createUser(config.dashboardAdminUsername, config.dashboardAdminPassword, 'owner');
+        console.log(`🔐 Created dashboard owner account "${config.dashboardAdminUsername}"`);
+    }
+
+    async hashPassword(password: string): Promise<string> {
+        const salt = crypto.randomBytes(16);
+        const hash = await scrypt(password, salt, KEY_LENGTH);
+        return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+    }
+
+    async verifyPassword(password: string, stored: string): Promise<boolean> {
+        const [scheme, saltB64, hashB64] = stored.split('$');
+        if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false;
+
+        const expected = Buffer.from(hashB64, 'base64');
+        const actual = await scrypt(password, Buffer.from(saltB64, 'base64'), expected.length);
+        return crypto.timingSafeEqual(expected, actual);
+    }
+
+    /**
+     * Returns a reason the password is unacceptable, or null
+     */
+    checkPasswordStrength(password: string): string | null {
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+        }
+        return null;
+    }
+
+    async createUser(username: string, password: string, role: UserRole): Promise<AuthUser> {
+        const passwordHash = await this.hashPassword(password);
+        const [user] = await withRetry(async () => {
+            return await db.insert(dashboardUsers)
+                .values({ username: username.trim().toLowerCase(), passwordHash, role })
+                .returning({ id: dashboardUsers.id, username: dashboardUsers.username, role: dashboardUsers.role });
+        });
+        return user as AuthUser;
+    }
+
+    async listUsers() {
+        return await withRetry(async () => {
+            return await db.select({
+                id: dashboardUsers.id,
+                username: dashboardUsers.username,
+                role: dashboardUsers.role,
+                isActive: dashboardUsers.isActive,
+                createdAt: dashboardUsers.createdAt,
+                lastLoginAt: dashboardUsers.lastLoginAt,
+            })
+                .from(dashboardUsers)
+                .orderBy(asc(dashboardUsers.id));
+        });
+    }
+
+    async findUserByUsername(username: string) {
+        return await withRetry(async () => {
+            return await db.select().from(dashboardUsers)
+                .where(eq(dashboardUsers.username, username.trim().toLowerCase()))
+                .then(rows => rows[0]);
+        });
+    }
+
+    /**
+     * Updates role / active flag / password. Revokes the user's sessions when access is reduced.
+     * Returns false if the user doesn't exist.
+     */
+    async updateUser(id: number, changes: { role?: UserRole; isActive?: boolean; password?: string }): Promise<boolean> {
+        const values: Partial<typeof dashboardUsers.$inferInsert> = {};
+        if (changes.role) values.role = changes.role;
+        if (changes.isActive !== undefined) values.isActive = changes.isActive;
+        if (changes.password) values.passwordHash = await this.hashPassword(changes.password);
+        if (Object.keys(values).length === 0) return true;
+
+        const updated = await withRetry(async () => {
+            return await db.update(dashboardUsers).set(values).where(eq(dashboardUsers.id, id)).returning({ id: dashboardUsers.id });
+        });
+        if (updated.length === 0) return false;
+
+        if (changes.role || changes.isActive === false || changes.password) {
+            await this.revokeSessions(id);
+        }
+        return true;
+    }
+
+    async deleteUser(id: number): Promise<boolean> {
+        const deleted = await withRetry(async () => {
+            return await db.delete(dashboardUsers).where(eq(dashboardUsers.id, id)).returning({ id: dashboardUsers.id });
+        });
+        return deleted.length > 0;
+    }
+
+    /**
+     * Whether another active owner exists (so the last owner can't lock everyone out)
+     */
+    async hasOtherActiveOwner(excludeId: number): Promise<boolean> {
+        const [{ count }] = await withRetry(async () => {
+            return await db.select({ count: sql<number>`count(*)::int` })
+                .from(dashboardUsers)
+                .where(and(
+                    eq(dashboardUsers.role, 'owner'),
+                    eq(dashboardUsers.isActive, true),
+                    ne(dashboardUsers.id, excludeId)
+                ));
+        });
+        return count > 0;
+    }
+
+    /**
+     * Whether this IP has failed too many logins recently
+     */
+    isLockedOut(ip: string): boolean {
+        const entry = this.failedLogins.get(ip);
+        if (!entry) return false;
+        if (Date.now() - entry.firstAt > FAILED_LOGIN_WINDOW_MS) {
+            this.failedLogins.delete(ip);
+            return false;
+        }
+        return entry.count >= MAX_FAILED_LOGINS;
+    }
+
+    /**
+     * Checks credentials and opens a session. Returns null on bad credentials.
+     */
+    async login(username: string, password: string, meta: SessionMeta = {}): Promise<{ token: string; expiresAt: Date; user: AuthUser } | null> {
+        const ip = meta.ip || 'unknown';
+        const user = await this.findUserByUsername(username || '');
+        const valid = !!user && user.isActive !== false && await this.verifyPassword(password || '', user.passwordHash);
+
+        if (!valid) {
+            const entry = this.failedLogins.get(ip);
+            if (!entry || Date.now() - entry.firstAt > FAILED_LOGIN_WINDOW_MS) {
+                this.failedLogins.set(ip, { count: 1, firstAt: Date.now() });
+            } else {
+                entry.count++;
+            }
+            console.warn(`🔐 Failed dashboard login for "${username}" from ${ip}`);
+            return null;
+        }
+
+        this.failedLogins.delete(ip);
+
+        const token = crypto.randomBytes(32).toString('base64url');
+        const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+        await withRetry(async () => {
+            await db.insert(authSessions).values({
+                tokenHash: this.hashToken(token),
+                userId: user!.id,
+                expiresAt,
+                ip: meta.ip?.substring(0, 64) || null,
+                userAgent: meta.userAgent || null,
+            });
+            await db.update(dashboardUsers).set({ lastLoginAt: new Date() }).where(eq(dashboardUsers.id, user!.id));
+            // Housekeeping: drop expired sessions
+            await db.delete(authSessions).where(lt(authSessions.expiresAt, new Date()));
+        });
+
+        console.log(`🔐 ${user!.username} (${user!.role}) signed in from ${ip}`);
+        return { token, expiresAt, user: { id: user!.id, username: user!.username, role: user!.role as UserRole } };
+    }
+
+    /**
+     * Resolves a session token to its user (null if missing, expired or the user is disabled)
+     */
+    async authenticate(token: string): Promise<AuthUser | null> {
+        if (!token) return null;
+        const tokenHash = this.hashToken(token);
+
+        const row = await withRetry(async () => {
+            return await db.select({
+                id: dashboardUsers.id,
+                username: dashboardUsers.username,
+                role: dashboardUsers.role,
+                isActive: dashboardUsers.isActive,
+            })
+                .from(authSessions)
+                .innerJoin(dashboardUsers, eq(authSessions.userId, dashboardUsers.id))
+                .where(and(eq(authSessions.tokenHash, tokenHash), gt(authSessions.expiresAt, new Date())))
+                .then(rows => rows[0]);
+        });
+
+        if (!row || row.isActive === false) return null;
+
+        const lastTouched = this.lastTouched.get(tokenHash) || 0;
+        if (Date.now() - lastTouched > SESSION_TOUCH_MS) {
+            this.lastTouched.set(tokenHash, Date.now());
+            await withRetry(async () => {
+                await db.update(authSessions).set({ lastSeenAt: new Date() }).where(eq(authSessions.tokenHash, tokenHash));
+            });
+        }
+
+        return { id: row.id, username: row.username, role: row.role as UserRole };
+    }
+
+    async logout(token: string): Promise<void> {
+        const tokenHash = this.hashToken(token);
+        this.lastTouched.delete(tokenHash);
+        await withRetry(async () => {
+            await db.delete(authSessions).where(eq(authSessions.tokenHash, tokenHash));
+        });
+    }
+
+    async revokeSessions(userId: number): Promise<void> {
+        await withRetry(async () => {
+            await db.delete(authSessions).where(eq(authSessions.userId, userId));
+        });
+    }
+
+    private hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
+
+export const authService = new AuthService();
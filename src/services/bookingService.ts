@@ -0,0 +1,311 @@
+/**
+ * Booking Service
+ * Every meeting the agent puts on the Google Calendar is recorded with its event id, so the
+ * contact who booked it can move or cancel it from the chat, and the owner can mark it
+ * attended or no-show afterwards.
+ *
+ * Reminders go to the booking chat through the outbox at the offsets in the
+ * 'booking_reminder_hours' setting (default 24h and 1h before). Offsets that had already
+ * passed when the meeting was booked or moved are skipped, and when several fall due at
+ * once (the bot was down) only one reminder is sent.
+ */
+
+import { db, withRetry } from '../database';
+import { bookings } from '../database/schema';
+import { and, asc, desc, eq, gt, gte, lte, sql, SQL } from 'drizzle-orm';
+import { googleCalendar } from './googleCalendar';
+import { notificationService } from './notificationService';
+import { outboxService } from './outboxService';
+import { systemSettingsService } from './systemSettings';
+import type { OrderCustomer } from './orderService';
+
+export type BookingStatus = 'scheduled' | 'cancelled' | 'attended' | 'no_show';
+
+export const BOOKING_STATUSES: BookingStatus[] = ['scheduled', 'cancelled', 'attended', 'no_show'];
+
+export type Booking = typeof bookings.$inferSelect;
+
+export interface BookingFilters {
+    status?: BookingStatus;
+    from?: Date;
+    to?: Date;
+}
+
+const DEFAULT_REMINDER_HOURS = '24,1';
+const DEFAULT_DURATION_MINUTES = 30;
+const LIST_LIMIT = 200;
+
+export class BookingService {
+    private isSendingReminders = false;
+
+    /**
+     * Records a meeting createMeeting just put on the calendar
+     */
+    async record(customer: OrderCustomer, meeting: {
+        eventId: string;
+        startTime: Date;
+        endTime?: Date;
+        customerName?: string;
+        purpose?: string;
+        location?: string;
+        meetLink?: string;
+    }, timezone: string): Promise<Booking> {
+        const [booking] = await withRetry(async () => {
+            return await db.insert(bookings).values({
+                contactId: customer.id,
+                jid: customer.phone,
+                platform: customer.platform === 'telegram' ? 'telegram' : 'whatsapp',
+                eventId: meeting.eventId,
+                customerName: meeting.customerName || customer.confirmedName || customer.name || null,
+                purpose: meeting.purpose || null,
+                location: meeting.location || null,
+                meetLink: meeting.meetLink || null,
+                startTime: meeting.startTime,
+                endTime: meeting.endTime || null,
+                timezone,
+                remindersSent: await this.passedOffsets(meeting.startTime),
+            }).returning();
+        });
+        console.log(`📅 Booking #${booking.id} recorded for ${booking.customerName || booking.jid} at ${booking.startTime.toISOString()}`);
+        return booking;
+    }
+
+    async get(id: number): Promise<Booking | undefined> {
+        return await withRetry(async () => {
+            return await db.select().from(bookings).where(eq(bookings.id, id)).then(rows => rows[0]);
+        });
+    }
+
+    /**
+     * The chat's meetings that haven't happened yet
+     */
+    async listUpcomingForChat(jid: string): Promise<Booking[]> {
+        return await withRetry(async () => {
+            return await db.select().from(bookings)
+                .where(and(eq(bookings.jid, jid), eq(bookings.status, 'scheduled'), gt(bookings.startTime, new Date())))
+                .orderBy(asc(bookings.startTime));
+        });
+    }
+
+    /**
+     * A chat's own upcoming booking; contacts can only touch meetings they booked
+     */
+    async getUpcomingForChat(jid: string, id: number): Promise<Booking> {
+        const booking = await this.get(id);
+        if (!booking || booking.jid !== jid) throw new Error('No booking with that id for this chat');
+        if (booking.status !== 'scheduled') throw new Error(`That booking is already ${booking.status.replace('_', '-')}`);
+        if (booking.startTime <= new Date()) throw new Error('That meeting has already started');
+        return booking;
+    }
+
+    /**
+     * Moves a booking on the calendar. Keeps its length unless a new duration is given.
+     */
+    async reschedule(booking: Booking, params: { date: string; time: string; duration?: number }, timezone: string): Promise<Booking> {
+        const currentMinutes = booking.endTime
+            ? Math.round((booking.endTime.getTime() - booking.startTime.getTime()) / 60000)
+            : DEFAULT_DURATION_MINUTES;
+        const duration = params.duration || currentMinutes;
+
+        const result = await googleCalendar.rescheduleMeeting(booking.eventId, { date: params.date, time: params.time, duration }, timezone);
+        if (!result.success || !result.startTime) throw new Error(result.error || 'Failed to move the meeting');
+        if (result.startTime <= new Date()) throw new Error('The new time is in the past');
+
+        const [updated] = await withRetry(async () => {
+            return await db.update(bookings)
+                .set({
+                    startTime: result.startTime!,
+                    endTime: result.endTime || null,
+                    timezone,
+                    remindersSent: await this.passedOffsets(result.startTime!),
+                    updatedAt: new Date(),
+                })
+                .where(eq(bookings.id, booking.id))
+                .returning();
+        });
+
+        console.log(`📅 Booking #${booking.id} moved to ${updated.startTime.toISOString()}`);
+        await notificationService.notifyOwner(`📅 *Meeting moved*\n👤 ${updated.customerName || updated.jid.split('@')[0]}\n${this.formatTime(booking)} → ${this.formatTime(updated)}`);
+        return updated;
+    }
+
+    /**
+     * Takes a booking off the calendar. The owner hears about contact cancellations;
+     * the contact is messaged when the owner cancels.
+     */
+    async cancel(booking: Booking, by: 'contact' | 'owner'): Promise<Booking> {
+        const result = await googleCalendar.cancelMeeting(booking.eventId);
+        if (!result.success) throw new Error(result.error || 'Failed to cancel the meeting');
+
+        const [updated] = await withRetry(async () => {
+            return await db.update(bookings)
+                .set({ status: 'cancelled', cancelledBy: by, updatedAt: new Date() })
+                .where(eq(bookings.id, booking.id))
+                .returning();
+        });
+        console.log(`📅 Booking #${booking.id} cancelled by ${by}`);
+
+        if (by === 'contact') {
+            await notificationService.notifyOwner(`❌ *Meeting cancelled*\n👤 ${booking.customerName || booking.jid.split('@')[0]}\n🕒 ${this.formatTime(booking)}${booking.purpose ? `\n📝 ${booking.purpose}` : ''}`);
+        } else {
+            await this.message(booking, `❌ Your meeting on ${this.formatTime(booking)} has been cancelled. Reply here if you'd like to book another time.`);
+        }
+        return updated;
+    }
+
+    /**
+     * Returns why a booking can't get this outcome, or null if it can
+     */
+    validateOutcome(booking: Booking, status: unknown): string | null {
+        if (status !== 'attended' && status !== 'no_show') return 'status must be attended or no_show';
+        if (booking.status === 'cancelled') return 'A cancelled meeting has no outcome';
+        if (booking.startTime > new Date()) return "The meeting hasn't started yet";
+        return null;
+    }
+
+    async markOutcome(id: number, status: 'attended' | 'no_show'): Promise<Booking> {
+        const [updated] = await withRetry(async () => {
+            return await db.update(bookings)
+                .set({ status, updatedAt: new Date() })
+                .where(eq(bookings.id, id))
+                .returning();
+        });
+        return updated;
+    }
+
+    /**
+     * Bookings for the dashboard (upcoming first when filtering from now on, newest first otherwise)
+     * with attended/no-show totals
+     */
+    async list(filters: BookingFilters = {}) {
+        const conditions: (SQL | undefined)[] = [
+            filters.status ? eq(bookings.status, filters.status) : undefined,
+            filters.from ? gte(bookings.startTime, filters.from) : undefined,
+            filters.to ? lte(bookings.startTime, filters.to) : undefined,
+        ];
+
+        const rows = await withRetry(async () => {
+            return await db.select().from(bookings)
+                .where(and(...conditions))
+                .orderBy(filters.from ? asc(bookings.startTime) : desc(bookings.startTime))
+                .limit(LIST_LIMIT);
+        });
+
+        const totals = await withRetry(async () => {
+            return await db.select({ status: bookings.status, count: sql<number>`count(*)::int` })
+                .from(bookings)
+                .groupBy(bookings.status);
+        });
+        const count = (status: BookingStatus) => Number(totals.find(t => t.status === status)?.count || 0);
+        const attended = count('attended');
+        const noShows = count('no_show');
+
+        return {
+            bookings: rows,
+            summary: {
+                scheduled: count('scheduled'),
+                cancelled: count('cancelled'),
+                attended,
+                noShows,
+                noShowRate: attended + noShows > 0 ? Math.round((noShows / (attended + noShows)) * 100) : null,
+            },
+        };
+    }
+
+    /**
+     * Sends reminders that have fallen due. Runs every minute from the scheduler.
+     */
+    async sendDueReminders(): Promise<void> {
+        if (this.isSendingReminders) return;
+        this.isSendingReminders = true;
+
+        try {
+            const offsets = await this.getReminderOffsets();
+            if (offsets.length === 0) return;
+
+            const now = Date.now();
+            const horizon = new Date(now + Math.max(...offsets) * 60000);
+            const upcoming = await withRetry(async () => {
+                return await db.select().from(bookings)
+                    .where(and(eq(bookings.status, 'scheduled'), gt(bookings.startTime, new Date(now)), lte(bookings.startTime, horizon)));
+            });
+
+            for (const booking of upcoming) {
+                const sent = Array.isArray(booking.remindersSent) ? (booking.remindersSent as number[]) : [];
+                const minutesLeft = (booking.startTime.getTime() - now) / 60000;
+                const due = offsets.filter(o => o >= minutesLeft && !sent.includes(o));
+                if (due.length === 0) continue;
+
+                // Several due at once: only the closest one is worth sending
+                const offset = Math.min(...due);
+                await withRetry(async () => {
+                    await db.update(bookings)
+                        .set({ remindersSent: [...sent, ...due], updatedAt: new Date() })
+                        .where(eq(bookings.id, booking.id));
+                });
+                await this.message(booking, this.reminderText(booking, offset));
+                console.log(`⏰ Sent ${offset}-minute reminder for booking #${booking.id}`);
+            }
+        } catch (error) {
+            console.error('❌ Booking reminders failed:', error);
+        } finally {
+            this.isSendingReminders = false;
+        }
+    }
+
+    /**
+     * "Tuesday, March 3 at 02:30 PM" in the booking's timezone
+     */
+    formatTime(booking: Booking): string {
+        return booking.startTime.toLocaleString('en-US', {
+            timeZone: booking.timezone || 'UTC',
+            weekday: 'long',
+            month: 'long',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    }
+
+    /**
+     * Reminder offsets in minutes before the meeting, from the 'booking_reminder_hours' setting
+     */
+    private async getReminderOffsets(): Promise<number[]> {
+        const setting = await systemSettingsService.get('booking_reminder_hours', DEFAULT_REMINDER_HOURS) || '';
+        return [...new Set(setting.split(',')
+            .map(h => Math.round(parseFloat(h.trim()) * 60))
+            .filter(m => !isNaN(m) && m > 0))];
+    }
+
+    /**
+     * Offsets already past for a meeting at this time (booked or moved late), so they're never sent
+     */
+    private async passedOffsets(startTime: Date): Promise<number[]> {
+        const minutesLeft = (startTime.getTime() - Date.now()) / 60000;
+        return (await this.getReminderOffsets()).filter(o => o >= minutesLeft);
+    }
+
+    private reminderText(booking: Booking, offset: number): string {
+        const lead = offset % 60 === 0 ? `${offset / 60} hour${offset === 60 ? '' : 's'}` : `${offset} minutes`;
+        return `⏰ Reminder: your meeting${booking.purpose ? ` about ${booking.purpose}` : ''} is in ${lead}, on ${this.formatTime(booking)}.`
+            + (booking.location ? `\n📍 ${booking.location}` : '')
+            + (booking.meetLink ? `\n🔗 ${booking.meetLink}` : '')
+            + `\nReply here if you need to reschedule or cancel.`;
+    }
+
+    private async message(booking: Booking, text: string) {
+        try {
+            await outboxService.enqueue({
+                jid: booking.jid,
+                platform: booking.platform === 'telegram' ? 'telegram' : 'whatsapp',
+                text,
+                source: 'notification',
+                metadata: { bookingId: booking.id },
+            });
+        } catch (error) {
+            console.error(`Failed to queue message for booking #${booking.id}:`, error);
+        }
+    }
+}
+
+export const bookingService = new BookingService();
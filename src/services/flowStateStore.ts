@@ -0,0 +1,166 @@
+/**
+ * Flow State Store
+ * Persists multi-step conversational flows (owner wizards) in Postgres so a deploy,
+ * crash restart or failover to another instance doesn't lose a half-finished session.
+ *
+ * Each flow gets its own store instance keyed by a flow name (the session key is the chat);
+ * sessions expire after the store's TTL (refreshed on every write). Buffers inside the state
+ * (e.g. an uploaded image) are serialized as base64.
+ *
+ * On startup, each chat with a session still open is sent its flow's resume prompt (where it
+ * left off and what to answer next), and its next message carries on from there.
+ */
+import { db, withRetry } from '../database';
+import { flowSessions } from '../database/schema';
+import { and, eq, gt, lt } from 'drizzle-orm';
+import { outboxService } from './outboxService';
+
+const BUFFER_TAG = '__buffer';
+
+// What to tell a chat whose session survived a restart; null sends nothing
+export type ResumePrompt<T> = (state: T) => string | null;
+
+export class FlowStateStore<T> {
+    private static stores: FlowStateStore<any>[] = [];
+
+    constructor(
+        private readonly flow: string,
+        private readonly ttlMs: number,
+        private readonly resumePrompt?: ResumePrompt<T>
+    ) {
+        FlowStateStore.stores.push(this);
+    }
+
+    /**
+     * Get a live session, or undefined if none exists / it expired
+     */
+    async get(key: string): Promise<T | undefined> {
+        const row = await withRetry(async () => {
+            return await db.select()
+                .from(flowSessions)
+                .where(and(
+                    eq(flowSessions.flow, this.flow),
+                    eq(flowSessions.sessionKey, key),
+                    gt(flowSessions.expiresAt, new Date())
+                ))
+                .then(res => res[0]);
+        });
+
+        return row ? this.deserialize(row.state) : undefined;
+    }
+
+    /**
+     * Check whether a live session exists
+     */
+    async has(key: string): Promise<boolean> {
+        return (await this.get(key)) !== undefined;
+    }
+
+    /**
+     * Create or replace a session (refreshes its TTL)
+     */
+    async set(key: string, state: T): Promise<void> {
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + this.ttlMs);
+        const serialized = this.serialize(state);
+
+        await withRetry(async () => {
+            await db.insert(flowSessions)
+                .values({ flow: this.flow, sessionKey: key, state: serialized, expiresAt, updatedAt: now })
+                .onConflictDoUpdate({
+                    target: [flowSessions.flow, flowSessions.sessionKey],
+                    set: { state: serialized, expiresAt, updatedAt: now },
+                });
+        });
+    }
+
+    /**
+     * Remove a session
+     */
+    async delete(key: string): Promise<void> {
+        await withRetry(async () => {
+            await db.delete(flowSessions)
+                .where(and(eq(flowSessions.flow, this.flow), eq(flowSessions.sessionKey, key)));
+        });
+    }
+
+    /**
+     * Purge expired sessions and return the keys that survive (resume-on-boot)
+     */
+    async restore(): Promise<string[]> {
+        const now = new Date();
+
+        await withRetry(async () => {
+            await db.delete(flowSessions)
+                .where(and(eq(flowSessions.flow, this.flow), lt(flowSessions.expiresAt, now)));
+        });
+
+        const rows = await withRetry(async () => {
+            return await db.select({ sessionKey: flowSessions.sessionKey })
+                .from(flowSessions)
+                .where(eq(flowSessions.flow, this.flow));
+        });
+
+        return rows.map(r => r.sessionKey);
+    }
+
+    /**
+     * Restore every registered flow store and prompt the chats left mid-flow. Called once on startup.
+     */
+    static async restoreAll(): Promise<void> {
+        for (const store of FlowStateStore.stores) {
+            try {
+                const keys = await store.restore();
+                if (keys.length > 0) {
+                    const prompted = await store.promptResume(keys);
+                    console.log(`🔁 Resumed ${keys.length} '${store.flow}' session(s): ${keys.join(', ')} (${prompted} prompted)`);
+                }
+            } catch (error: any) {
+                console.error(`❌ Failed to restore '${store.flow}' sessions:`, error.message);
+            }
+        }
+    }
+
+    /**
+     * Queues the resume prompt for each session. Returns how many chats were prompted.
+     */
+    private async promptResume(keys: string[]): Promise<number> {
+        if (!this.resumePrompt) return 0;
+
+        let prompted = 0;
+        for (const key of keys) {
+            try {
+                const state = await this.get(key);
+                const text = state !== undefined ? this.resumePrompt(state) : null;
+                if (!text) continue;
+
+                // Goes out once the chat's platform connects
+                await outboxService.enqueue({ jid: key, text, source: 'notification', metadata: { flow: this.flow } });
+                prompted++;
+            } catch (error: any) {
+                console.error(`❌ Failed to prompt '${this.flow}' session ${key}:`, error.message);
+            }
+        }
+        return prompted;
+    }
+
+    private serialize(state: T): any {
+        return JSON.parse(JSON.stringify(state, function (this: any, key: string, value: any) {
+            // Buffer.toJSON has already run on `value`, so inspect the raw property
+            const raw = this[key];
+            if (Buffer.isBuffer(raw)) {
+                return { [BUFFER_TAG]: raw.toString('base64') };
+            }
+            return value;
+        }));
+    }
+
+    private deserialize(state: unknown): T {
+        return JSON.parse(JSON.stringify(state), (_key, value) => {
+            if (value && typeof value === 'object' && typeof value[BUFFER_TAG] === 'string') {
+                return Buffer.from(value[BUFFER_TAG], 'base64');
+            }
+            return value;
+        });
+    }
+}
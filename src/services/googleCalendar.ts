@@ -370,7 +370,8 @@ export class GoogleCalendarService {
         customerEmail?: string;
         purpose: string;
         customerPhone?: string;
-    }, timezone: string = 'UTC'): Promise<{ success: boolean; meetLink?: string; eventId?: string; error?: string }> {
+        location?: string;
+    }, timezone: string = 'UTC'): Promise<{ success: boolean; meetLink?: string; eventId?: string; startTime?: Date; endTime?: Date; error?: string }> {
         if (!this.calendar) {
             return {
                 success: false,
@@ -386,39 +387,10 @@ export class GoogleCalendarService {
             // We just need to formulate the dateTime string correctly: "YYYY-MM-DDTHH:mm:ss" (local time) 
             // AND pass the 'timeZone' field. Google handles the offset.
 
-            const dateTimeLocal = `${params.date}T${params.time}:00`;
+            const { start: dateTimeLocal, end: realEndDateTimeLocal } = this.localEventTimes(params.date, params.time, params.duration);
 
             console.log(`📅 Creating meeting: ${params.customerName} on ${dateTimeLocal} (${timezone})`);
 
-            // Calculate end time (we need to pass end dateTime too)
-            // Ideally we pass start/end with timezone
-
-            // To calculate "End Time" string, we simply add minutes to the local parsing.
-            const tempDate = new Date(`${params.date}T${params.time}:00`); // Parsed as local system time but we only need math
-            tempDate.setMinutes(tempDate.getMinutes() + params.duration);
-
-            // Extract HH:MM:SS for end time
-            const endH = String(tempDate.getHours()).padStart(2, '0');
-            const endM = String(tempDate.getMinutes()).padStart(2, '0');
-            const endS = String(tempDate.getSeconds()).padStart(2, '0');
-            const dateTimeEndLocal = `${params.date}T${endH}:${endM}:${endS}`;
-
-            // Note: Crossing midnight?
-            // If the duration crosses midnight, the date part of dateTimeEndLocal needs to be incremented.
-            // Simple check:
-            const startTotalMins = parseInt(params.time.split(':')[0]) * 60 + parseInt(params.time.split(':')[1]);
-            const endTotalMins = startTotalMins + params.duration;
-
-            let realEndDate = params.date;
-            if (endTotalMins >= 1440) {
-                // Next day
-                const d = new Date(params.date);
-                d.setDate(d.getDate() + 1);
-                realEndDate = d.toISOString().split('T')[0];
-            }
-            const realEndDateTimeLocal = `${realEndDate}T${endH}:${endM}:${endS}`;
-
-
             // Build event object
             const event = {
                 summary: `Meeting with ${params.customerName}`,
@@ -430,6 +402,7 @@ Customer Details:
 - Email: ${params.customerEmail || 'N/A'}
 
 Scheduled via WhatsApp AI Agent`,
+                ...(params.location ? { location: params.location } : {}),
                 start: {
                     dateTime: dateTimeLocal,
                     timeZone: timezone, // Google handles the offset!
@@ -485,6 +458,9 @@ Scheduled via WhatsApp AI Agent`,
                 success: true,
                 meetLink: meetLink,
                 eventId: response.data.id,
+                // Google returns the times with their UTC offset
+                startTime: new Date(response.data.start.dateTime),
+                endTime: new Date(response.data.end.dateTime),
             };
 
         } catch (error: any) {
@@ -495,6 +471,80 @@ Scheduled via WhatsApp AI Agent`,
             };
         }
     }
+
+    /**
+     * Moves a meeting created by createMeeting to a new date, time and length
+     */
+    async rescheduleMeeting(eventId: string, params: { date: string; time: string; duration: number }, timezone: string = 'UTC'): Promise<{ success: boolean; startTime?: Date; endTime?: Date; error?: string }> {
+        if (!this.calendar) {
+            return { success: false, error: 'Calendar integration not configured. Please contact the owner directly.' };
+        }
+
+        try {
+            const cfg = await this.getCalendarConfig();
+            const { start, end } = this.localEventTimes(params.date, params.time, params.duration);
+            console.log(`📅 Rescheduling event ${eventId} to ${start} (${timezone})`);
+
+            const response = await this.calendar.events.patch({
+                calendarId: cfg.calendarId,
+                eventId,
+                resource: {
+                    start: { dateTime: start, timeZone: timezone },
+                    end: { dateTime: end, timeZone: timezone },
+                },
+            });
+
+            return {
+                success: true,
+                startTime: new Date(response.data.start.dateTime),
+                endTime: new Date(response.data.end.dateTime),
+            };
+        } catch (error: any) {
+            console.error('Error rescheduling meeting:', error);
+            return { success: false, error: error.message || 'Failed to reschedule meeting' };
+        }
+    }
+
+    /**
+     * Deletes a meeting from the calendar. An event that is already gone counts as cancelled.
+     */
+    async cancelMeeting(eventId: string): Promise<{ success: boolean; error?: string }> {
+        if (!this.calendar) {
+            return { success: false, error: 'Calendar integration not configured. Please contact the owner directly.' };
+        }
+
+        try {
+            const cfg = await this.getCalendarConfig();
+            await this.calendar.events.delete({ calendarId: cfg.calendarId, eventId });
+            console.log(`🗑️ Cancelled calendar event ${eventId}`);
+            return { success: true };
+        } catch (error: any) {
+            if (error.code === 404 || error.code === 410) return { success: true };
+            console.error('Error cancelling meeting:', error);
+            return { success: false, error: error.message || 'Failed to cancel meeting' };
+        }
+    }
+
+    /**
+     * Local start/end strings ("YYYY-MM-DDTHH:mm:ss") for an event; Google applies the timezone.
+     * The end rolls over to the next day when the meeting crosses midnight.
+     */
+    private localEventTimes(date: string, time: string, duration: number): { start: string; end: string } {
+        const start = `${date}T${time}:00`;
+
+        const [hours, minutes] = time.split(':').map(n => parseInt(n));
+        const endTotalMins = hours * 60 + minutes + Number(duration);
+        const endH = String(Math.floor(endTotalMins / 60) % 24).padStart(2, '0');
+        const endM = String(endTotalMins % 60).padStart(2, '0');
+
+        let endDate = date;
+        if (endTotalMins >= 1440) {
+            const d = new Date(date);
+            d.setDate(d.getDate() + 1);
+            endDate = d.toISOString().split('T')[0];
+        }
+        return { start, end: `${endDate}T${endH}:${endM}:00` };
+    }
 }
 
 export const googleCalendar = new GoogleCalendarService();
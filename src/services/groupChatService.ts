@@ -0,0 +1,139 @@
+/**
+ * Group Chat Service
+ * Settings and history for group mode: in groups the owner has switched on, the agent
+ * answers when it is @mentioned or replied to. Every text message in those groups is kept
+ * (up to a short window) so replies have the group's recent conversation as context.
+ */
+
+import { db, withRetry } from '../database';
+import { groupMessages, groupSettings } from '../database/schema';
+import { and, desc, eq, lt } from 'drizzle-orm';
+import { GROUP_TOOLS } from './ai/toolPolicy';
+
+export type GroupSettings = typeof groupSettings.$inferSelect;
+export type GroupMessage = typeof groupMessages.$inferSelect;
+
+export interface GroupSettingsUpdate {
+    enabled?: boolean;
+    persona?: string | null;
+    allowedTools?: string[] | null;
+}
+
+const HISTORY_LIMIT = 15;
+const MAX_PERSONA_LENGTH = 2000;
+// Older messages are pruned as new ones arrive; only the recent window is ever read
+const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class GroupChatService {
+    private cache: Map<string, GroupSettings> = new Map();
+    private loaded = false;
+
+    /**
+     * A group's settings (replies off when the owner hasn't set any)
+     */
+    async getSettings(groupJid: string): Promise<GroupSettings> {
+        await this.load();
+        return this.cache.get(groupJid) || { groupJid, enabled: false, persona: null, allowedTools: null, updatedAt: null };
+    }
+
+    async listSettings(): Promise<GroupSettings[]> {
+        await this.load();
+        return [...this.cache.values()];
+    }
+
+    /**
+     * Returns why a settings update is invalid, or null if it's fine
+     */
+    validateSettings(body: any): string | null {
+        if (!body || typeof body !== 'object') return 'Settings are required';
+        if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be true or false';
+        if (body.persona !== undefined && body.persona !== null) {
+            if (typeof body.persona !== 'string') return 'persona must be text';
+            if (body.persona.length > MAX_PERSONA_LENGTH) return `persona must be at most ${MAX_PERSONA_LENGTH} characters`;
+        }
+        if (body.allowedTools !== undefined && body.allowedTools !== null) {
+            if (!Array.isArray(body.allowedTools)) return 'allowedTools must be a list of tool names';
+            const unknown = body.allowedTools.filter((name: unknown) => typeof name !== 'string' || !GROUP_TOOLS.includes(name));
+            if (unknown.length > 0) return `Tools not available in groups: ${unknown.join(', ')}`;
+        }
+        return null;
+    }
+
+    async updateSettings(groupJid: string, update: GroupSettingsUpdate): Promise<GroupSettings> {
+        const current = await this.getSettings(groupJid);
+        const values = {
+            groupJid,
+            enabled: update.enabled ?? current.enabled,
+            persona: update.persona !== undefined ? (update.persona?.trim() || null) : current.persona,
+            allowedTools: update.allowedTools !== undefined ? update.allowedTools : current.allowedTools,
+            updatedAt: new Date(),
+        };
+
+        const [saved] = await withRetry(async () => {
+            return await db.insert(groupSettings)
+                .values(values)
+                .onConflictDoUpdate({ target: groupSettings.groupJid, set: values })
+                .returning();
+        });
+        this.cache.set(groupJid, saved);
+        console.log(`👥 Group mode ${saved.enabled ? 'enabled' : 'disabled'} for ${groupJid}`);
+        return saved;
+    }
+
+    /**
+     * Keeps a group message for reply context
+     */
+    async logMessage(message: {
+        groupJid: string;
+        role: 'user' | 'agent';
+        content: string;
+        senderJid?: string | null;
+        senderName?: string | null;
+        messageId?: string | null;
+    }): Promise<void> {
+        await withRetry(async () => {
+            await db.insert(groupMessages).values({
+                groupJid: message.groupJid,
+                role: message.role,
+                content: message.content,
+                senderJid: message.senderJid || null,
+                senderName: message.senderName || null,
+                messageId: message.messageId || null,
+            });
+        });
+    }
+
+    /**
+     * The group's recent messages, oldest first
+     */
+    async getHistory(groupJid: string, limit: number = HISTORY_LIMIT): Promise<GroupMessage[]> {
+        const rows = await withRetry(async () => {
+            return await db.select().from(groupMessages)
+                .where(eq(groupMessages.groupJid, groupJid))
+                .orderBy(desc(groupMessages.createdAt))
+                .limit(limit);
+        });
+        return rows.reverse();
+    }
+
+    /**
+     * Drops a group's messages older than the retention window
+     */
+    async prune(groupJid: string): Promise<void> {
+        await withRetry(async () => {
+            await db.delete(groupMessages)
+                .where(and(eq(groupMessages.groupJid, groupJid), lt(groupMessages.createdAt, new Date(Date.now() - HISTORY_RETENTION_MS))));
+        });
+    }
+
+    private async load() {
+        if (this.loaded) return;
+        const rows = await withRetry(async () => {
+            return await db.select().from(groupSettings);
+        });
+        this.cache = new Map(rows.map(row => [row.groupJid, row]));
+        this.loaded = true;
+    }
+}
+
+export const groupChatService = new GroupChatService();
@@ -1,6 +1,21 @@
-import { db } from '../database';
-import { groups, groupMembers, adEngagements } from '../database/schema';
-import { eq, sql } from 'drizzle-orm';
+import { db, withTransaction, Database } from '../database';
+import { groups, groupMembers, groupMemberEvents, adEngagements } from '../database/schema';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+
+export type MemberAction = 'join' | 'leave' | 'promote' | 'demote';
+
+// Baileys participant actions we keep history for
+const PARTICIPANT_ACTIONS: Record<string, MemberAction> = {
+    add: 'join',
+    remove: 'leave',
+    promote: 'promote',
+    demote: 'demote',
+};
+
+interface MemberChange {
+    phone: string;
+    action: MemberAction;
+}
 
 export class GroupService {
     private static instance: GroupService;
@@ -26,8 +41,8 @@ export class GroupService {
      * Improvements over original:
      * 1. Deduplication guard — if the same JID is already syncing, skip.
      * 2. Concurrency throttle — cap simultaneous syncs at MAX_CONCURRENT_SYNCS.
-     * 3. Batch upsert for members — raw SQL INSERT ... ON CONFLICT DO UPDATE
-     *    replaces N individual findFirst+insert/update round-trips per member.
+     * 3. Member diff — only joiners, leavers and role changes are written, and each
+     *    one is recorded in group_member_events (except on a group's first sync).
      */
     public async syncGroup(jid: string, metadata: any) {
         if (!metadata) return;
@@ -78,48 +93,297 @@ export class GroupService {
                 }
             });
 
-            // 2. Batch upsert members using raw SQL ON CONFLICT
-            //    group_members has an index on (group_jid, phone) but no UNIQUE constraint,
-            //    so we use a DELETE + INSERT approach per chunk to stay safe.
-            const allParticipants = metadata.participants.map((p: any) => {
-                const phone = p.id.replace(/:[0-9]+@/, '@');
-                return {
-                    groupJid: jid,
-                    phone,
-                    role: (p.admin as string) || 'participant',
-                    isAdmin: !!p.admin,
-                };
+            // 2. Diff members against what we had, so join dates and leavers are kept
+            const allParticipants = metadata.participants.map((p: any) => ({
+                phone: this.normalizePhone(p.id),
+                role: (p.admin as string) || 'participant',
+                isAdmin: !!p.admin,
+            }));
+            await this.applyMemberDiff(jid, allParticipants);
+
+            console.log(`✅ Synced ${allParticipants.length} members for ${metadata.subject}`);
+        } catch (error) {
+            console.error(`❌ Group sync failed for ${jid}:`, error);
+        } finally {
+            this.syncingJids.delete(jid);
+            this.activeSyncCount--;
+        }
+    }
+
+    /**
+     * Applies a group-participants.update event and records it as history.
+     * Groups that were never synced are skipped; their first sync takes the baseline.
+     */
+    public async handleParticipantsUpdate(jid: string, participants: any[], action: string, author?: string) {
+        const memberAction = PARTICIPANT_ACTIONS[action];
+        if (!memberAction || !participants?.length) return;
+
+        try {
+            const group = await db.query.groups.findFirst({ where: eq(groups.jid, jid) });
+            if (!group) return;
+
+            // Baileys 7 sends participant objects; older versions send plain JIDs
+            const phones: string[] = participants.map(p => this.normalizePhone(typeof p === 'string' ? p : p.id));
+            const actor = author ? this.normalizePhone(author) : null;
+
+            // Member rows and their history commit together, so a failure can't leave a change unrecorded
+            const changes = await withTransaction(async (tx) => {
+                const existing = await tx.select().from(groupMembers)
+                    .where(and(eq(groupMembers.groupJid, jid), inArray(groupMembers.phone, phones)));
+                const byPhone = new Map(existing.map(m => [m.phone, m]));
+
+                // Only record changes we didn't already pick up (e.g. from a sync that ran first)
+                const applied = phones.filter(phone => {
+                    const member = byPhone.get(phone);
+                    switch (memberAction) {
+                        case 'join': return !member;
+                        case 'leave': return !!member;
+                        case 'promote': return !!member && !member.isAdmin;
+                        case 'demote': return !!member?.isAdmin;
+                    }
+                });
+                if (applied.length === 0) return applied;
+
+                // History first: on Neon (no transactions) a failure below repeats an event instead of losing it
+                await this.recordEvents(tx, jid, applied.map(phone => ({ phone, action: memberAction })), 'event', actor);
+                for (const phone of applied) {
+                    const member = byPhone.get(phone);
+                    if (memberAction === 'join') {
+                        await tx.insert(groupMembers).values({ groupJid: jid, phone, role: 'participant', isAdmin: false, joinedAt: new Date() });
+                    } else if (memberAction === 'leave') {
+                        await tx.delete(groupMembers).where(eq(groupMembers.id, member!.id));
+                    } else {
+                        const isAdmin = memberAction === 'promote';
+                        await tx.update(groupMembers).set({ role: isAdmin ? 'admin' : 'participant', isAdmin, updatedAt: new Date() }).where(eq(groupMembers.id, member!.id));
+                    }
+                }
+                await this.refreshMemberCounts(tx, jid);
+                return applied;
             });
 
-            // Delete existing members for this group in one shot, then bulk-insert fresh
-            // This is much faster than N individual findFirst+update+insert queries
-            // and avoids the need for a UNIQUE constraint.
-            await db.delete(groupMembers).where(eq(groupMembers.groupJid, jid));
+            if (changes.length > 0) {
+                console.log(`👥 ${group.subject}: ${memberAction} ${changes.length} member(s)`);
+            }
+        } catch (error) {
+            console.error(`❌ Failed to apply participant update for ${jid}:`, error);
+        }
+    }
+
+    /**
+     * Brings the stored members in line with the group and records the difference, in one
+     * transaction: if any write fails, none apply, and the next sync finds the same difference.
+     */
+    private async applyMemberDiff(jid: string, participants: { phone: string; role: string; isAdmin: boolean }[]) {
+        await withTransaction(async (tx) => {
+            const existing = await tx.select().from(groupMembers).where(eq(groupMembers.groupJid, jid));
+            // Nothing stored yet: everyone is a baseline member, not a join
+            const isFirstSync = existing.length === 0;
+
+            const current = new Map(existing.map(m => [m.phone, m]));
+            const latest = new Map(participants.map(p => [p.phone, p]));
+            const joined = participants.filter(p => !current.has(p.phone));
+            const left = existing.filter(m => !latest.has(m.phone));
+            const changedRole = existing.filter(m => latest.has(m.phone) && latest.get(m.phone)!.role !== m.role);
+
+            const changes: MemberChange[] = [];
+            if (!isFirstSync) joined.forEach(m => changes.push({ phone: m.phone, action: 'join' }));
+            left.forEach(m => changes.push({ phone: m.phone, action: 'leave' }));
+            for (const member of changedRole) {
+                const isAdmin = latest.get(member.phone)!.isAdmin;
+                // admin <-> superadmin is not a promotion
+                if (isAdmin !== !!member.isAdmin) changes.push({ phone: member.phone, action: isAdmin ? 'promote' : 'demote' });
+            }
+
+            // Events before the member writes, as in handleParticipantsUpdate
+            await this.recordEvents(tx, jid, changes, 'sync', null);
 
             const chunkSize = 100;
-            for (let i = 0; i < allParticipants.length; i += chunkSize) {
-                const chunk = allParticipants.slice(i, i + chunkSize);
-                await db.insert(groupMembers).values(
-                    chunk.map((m: any) => ({
-                        groupJid: m.groupJid,
+            for (let i = 0; i < joined.length; i += chunkSize) {
+                await tx.insert(groupMembers).values(
+                    joined.slice(i, i + chunkSize).map(m => ({
+                        groupJid: jid,
                         phone: m.phone,
                         role: m.role,
                         isAdmin: m.isAdmin,
-                        joinedAt: new Date(),
+                        joinedAt: isFirstSync ? null : new Date(), // Unknown for members who were there before us
                         updatedAt: new Date()
                     }))
                 );
             }
+            for (let i = 0; i < left.length; i += chunkSize) {
+                await tx.delete(groupMembers).where(inArray(groupMembers.id, left.slice(i, i + chunkSize).map(m => m.id)));
+            }
+            for (const member of changedRole) {
+                const now = latest.get(member.phone)!;
+                await tx.update(groupMembers)
+                    .set({ role: now.role, isAdmin: now.isAdmin, updatedAt: new Date() })
+                    .where(eq(groupMembers.id, member.id));
+            }
+        });
+    }
 
-            console.log(`✅ Synced ${allParticipants.length} members for ${metadata.subject}`);
-        } catch (error) {
-            console.error(`❌ Group sync failed for ${jid}:`, error);
-        } finally {
-            this.syncingJids.delete(jid);
-            this.activeSyncCount--;
+    private async recordEvents(tx: Database, jid: string, changes: MemberChange[], source: 'event' | 'sync', actor: string | null) {
+        const chunkSize = 100;
+        for (let i = 0; i < changes.length; i += chunkSize) {
+            await tx.insert(groupMemberEvents).values(
+                changes.slice(i, i + chunkSize).map(c => ({ groupJid: jid, phone: c.phone, action: c.action, actor, source }))
+            );
         }
     }
 
+    private async refreshMemberCounts(tx: Database, jid: string) {
+        const counts = await tx.select({
+            total: sql<number>`count(*)::int`,
+            admins: sql<number>`count(*) FILTER (WHERE ${groupMembers.isAdmin})::int`
+        }).from(groupMembers).where(eq(groupMembers.groupJid, jid)).then(rows => rows[0]);
+
+        await tx.update(groups)
+            .set({ totalMembers: counts?.total || 0, adminsCount: counts?.admins || 0, updatedAt: new Date() })
+            .where(eq(groups.jid, jid));
+    }
+
+    private normalizePhone(participantJid: string): string {
+        return participantJid.replace(/:[0-9]+@/, '@');
+    }
+
+    /**
+     * Daily joins, leaves and member count for a group over the last N days.
+     * Member counts are worked back from today's size, so they are only as good as the history we have.
+     */
+    public async getGrowth(jid: string, days: number = 30) {
+        const since = new Date();
+        since.setUTCHours(0, 0, 0, 0);
+        since.setUTCDate(since.getUTCDate() - (days - 1));
+
+        const group = await db.query.groups.findFirst({ where: eq(groups.jid, jid) });
+        const result = await db.execute(sql`
+            SELECT
+                date_trunc('day', created_at AT TIME ZONE 'UTC')::date as day,
+                count(*) FILTER (WHERE action = 'join')::int as joins,
+                count(*) FILTER (WHERE action = 'leave')::int as leaves
+            FROM group_member_events
+            WHERE group_jid = ${jid} AND created_at >= ${since}
+            GROUP BY 1
+        `);
+        const rows = Array.isArray(result) ? result : (result?.rows || []);
+        const byDay = new Map((rows as { day: Date | string; joins: number; leaves: number }[]).map(r => [
+            r.day instanceof Date ? r.day.toISOString().split('T')[0] : String(r.day || '').split('T')[0],
+            { joins: Number(r.joins), leaves: Number(r.leaves) }
+        ]));
+
+        const series: { date: string; joins: number; leaves: number; net: number; members: number }[] = [];
+        for (let i = 0; i < days; i++) {
+            const date = new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+            const day = byDay.get(date) || { joins: 0, leaves: 0 };
+            series.push({ date, ...day, net: day.joins - day.leaves, members: 0 });
+        }
+
+        // Walk back from the current size: members at the end of a day = end of next day - next day's net
+        let members = group?.totalMembers || 0;
+        for (let i = series.length - 1; i >= 0; i--) {
+            series[i].members = members;
+            members -= series[i].net;
+        }
+
+        return {
+            series,
+            joins: series.reduce((sum, d) => sum + d.joins, 0),
+            leaves: series.reduce((sum, d) => sum + d.leaves, 0),
+            net: series.reduce((sum, d) => sum + d.net, 0),
+        };
+    }
+
+    /**
+     * Recent promotions and demotions in a group, newest first
+     */
+    public async getAdminChanges(jid: string, limit: number = 50) {
+        return await db.select()
+            .from(groupMemberEvents)
+            .where(and(eq(groupMemberEvents.groupJid, jid), inArray(groupMemberEvents.action, ['promote', 'demote'])))
+            .orderBy(desc(groupMemberEvents.createdAt))
+            .limit(limit);
+    }
+
+    /**
+     * Joins and leaves in the hours after each ad post. Each join/leave is credited to the
+     * most recent ad in that group within the window, so back-to-back posts don't double count.
+     */
+    public async getAdMemberImpact(windowHours: number = 24, startDate: Date | null = null) {
+        const since = startDate ? sql`AND b.sent_at >= ${startDate}` : sql``;
+        const eventsSince = startDate ? sql`AND e.created_at >= ${startDate}` : sql``;
+        const attributed = sql`
+            SELECT a.id AS broadcast_id,
+                count(*) FILTER (WHERE e.action = 'join') AS joins,
+                count(*) FILTER (WHERE e.action = 'leave') AS leaves
+            FROM group_member_events e
+            JOIN LATERAL (
+                SELECT b.id FROM ad_broadcasts b
+                WHERE b.group_jid = e.group_jid
+                    AND b.sent_at <= e.created_at
+                    AND b.sent_at > e.created_at - make_interval(hours => ${windowHours})
+                ORDER BY b.sent_at DESC
+                LIMIT 1
+            ) a ON true
+            WHERE e.action IN ('join', 'leave') ${eventsSince}
+            GROUP BY a.id
+        `;
+        const totals = sql`
+            count(*)::int AS broadcasts,
+            coalesce(sum(b.audience_size), 0)::int AS audience,
+            coalesce(sum(m.joins), 0)::int AS joins,
+            coalesce(sum(m.leaves), 0)::int AS leaves
+        `;
+
+        const [byCampaign, recentPosts] = await Promise.all([
+            db.execute(sql`
+                SELECT b.campaign_id AS id, c.name AS name, ${totals}
+                FROM ad_broadcasts b
+                LEFT JOIN (${attributed}) m ON m.broadcast_id = b.id
+                LEFT JOIN marketing_campaigns c ON c.id = b.campaign_id
+                WHERE b.platform = 'whatsapp' ${since}
+                GROUP BY b.campaign_id, c.name
+                ORDER BY leaves DESC, broadcasts DESC
+                LIMIT 50
+            `),
+            db.execute(sql`
+                SELECT b.id AS broadcast_id, b.campaign_id AS id, c.name AS name, b.group_jid AS jid, g.subject, b.sent_at, ${totals}
+                FROM ad_broadcasts b
+                LEFT JOIN (${attributed}) m ON m.broadcast_id = b.id
+                LEFT JOIN marketing_campaigns c ON c.id = b.campaign_id
+                LEFT JOIN groups g ON g.jid = b.group_jid
+                WHERE b.platform = 'whatsapp' ${since}
+                GROUP BY b.id, c.name, g.subject
+                ORDER BY b.sent_at DESC
+                LIMIT 50
+            `),
+        ]);
+
+        const withChurn = (result: any) => {
+            const rows = Array.isArray(result) ? result : (result?.rows || []);
+            return (rows as any[]).map(r => {
+                const audience = Number(r.audience);
+                const joins = Number(r.joins);
+                const leaves = Number(r.leaves);
+                return {
+                    ...r,
+                    broadcasts: Number(r.broadcasts),
+                    audience,
+                    joins,
+                    leaves,
+                    net: joins - leaves,
+                    // Share of the audience that left after the post (tenths of a percent; churn is small)
+                    churnRate: audience ? Math.round((leaves / audience) * 1000) / 10 : null,
+                };
+            });
+        };
+
+        return {
+            windowHours,
+            byCampaign: withChurn(byCampaign),
+            recentPosts: withChurn(recentPosts),
+        };
+    }
+
     /**
      * Get statistics for the dashboard
      */
@@ -184,9 +448,22 @@ export class GroupService {
             return acc;
         }, {} as Record<string, number>);
 
+        // 4. Membership history
+        const [growth, adminChanges, recentEvents] = await Promise.all([
+            this.getGrowth(jid, 30),
+            this.getAdminChanges(jid, 20),
+            db.select().from(groupMemberEvents)
+                .where(eq(groupMemberEvents.groupJid, jid))
+                .orderBy(desc(groupMemberEvents.createdAt))
+                .limit(50)
+        ]);
+
         return {
             info: groupInfo,
             members,
+            growth,
+            adminChanges,
+            recentEvents,
             stats: {
                 delivered: statsMap['delivered'] || 0,
                 read: statsMap['read'] || 0,
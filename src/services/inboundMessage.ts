@@ -0,0 +1,24 @@
+/**
+ * Inbound Message
+ * One incoming DM as it travels through the buffer and queues to the message processor.
+ * Media the client downloaded itself rides along as data next to the text, never inside it:
+ * the text can be anything the contact typed, so nothing in it is trusted as a file reference
+ * or as a sign of how the message was sent.
+ */
+
+import type { MediaAttachment } from './mediaIngestionService';
+
+export interface InboundMessage {
+    text: string;
+    attachment?: MediaAttachment;   // Set by the client for media it downloaded and stored
+    voiceNote?: boolean;            // The text is the transcript of a voice note
+}
+
+/**
+ * Messages from a persisted queue row. Rows queued before attachments moved out of the
+ * text hold plain strings; those come back as text only.
+ */
+export function toInboundMessages(data: unknown): InboundMessage[] {
+    if (!Array.isArray(data)) return [];
+    return data.map(item => typeof item === 'string' ? { text: item } : item as InboundMessage);
+}
@@ -0,0 +1,112 @@
+/**
+ * Manual Message Service
+ * Messages the owner sends by hand from the dashboard (to a contact or a group).
+ * They are logged as agent messages and delivered through the outbox like every
+ * other outgoing message, so they get retries and delivery ticks for free.
+ */
+
+import { db, withRetry } from '../database';
+import { messageLogs, outboundMessages } from '../database/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { outboxService, OutboxKind } from './outboxService';
+import { mediaIngestionService } from './mediaIngestionService';
+import type { Platform } from '../core/messageProcessor';
+
+export interface ManualMessage {
+    text?: string;
+    attachment?: {
+        data: string;       // base64
+        mimeType: string;
+        fileName?: string;
+    };
+}
+
+// The outbox delivers one recipient in order, so a chat that can't receive would otherwise pile up
+const MAX_QUEUED_PER_CHAT = 10;
+
+export class ManualMessageService {
+    /**
+     * Returns a validation error for a request body, or null if it can be sent
+     */
+    validate(body: any): string | null {
+        const text = typeof body?.text === 'string' ? body.text.trim() : '';
+        const attachment = body?.attachment;
+
+        if (!text && !attachment) {
+            return 'Message text or an attachment is required';
+        }
+        if (attachment && (typeof attachment.data !== 'string' || typeof attachment.mimeType !== 'string')) {
+            return 'attachment needs base64 data and a mimeType';
+        }
+        return null;
+    }
+
+    /**
+     * Whether too many manual messages to this chat are still waiting in the outbox
+     */
+    async isBacklogged(jid: string): Promise<boolean> {
+        const [{ queued }] = await withRetry(async () => {
+            return await db.select({ queued: sql<number>`count(*)::int` })
+                .from(outboundMessages)
+                .where(and(
+                    eq(outboundMessages.jid, jid),
+                    eq(outboundMessages.source, 'manual'),
+                    inArray(outboundMessages.status, ['pending', 'sending'])
+                ));
+        });
+        return queued >= MAX_QUEUED_PER_CHAT;
+    }
+
+    /**
+     * Logs the message and queues it for delivery. Images go out as photos, any other
+     * attachment as a document; the text becomes the caption.
+     * contactPhone is null for groups (message_logs only links contacts).
+     */
+    async send(jid: string, message: ManualMessage, contactPhone: string | null) {
+        const text = message.text?.trim() || '';
+        const attachment = message.attachment;
+        const platform: Platform = jid.includes('@') ? 'whatsapp' : 'telegram';
+
+        const mimeType = attachment ? attachment.mimeType.split(';')[0].trim() : null;
+        const kind: OutboxKind = !attachment ? 'text' : mimeType!.startsWith('image/') ? 'image' : 'document';
+        const fileName = attachment ? (attachment.fileName || kind) : null;
+        const mediaPath = attachment
+            ? mediaIngestionService.store(Buffer.from(attachment.data, 'base64'), mimeType!)
+            : null;
+
+        const [log] = await withRetry(async () => {
+            return await db.insert(messageLogs).values({
+                contactPhone,
+                role: 'agent',
+                content: text || (kind === 'image' ? '[Image]' : `[Document] ${fileName}`),
+                type: kind,
+                platform,
+                mediaPath,
+                mediaMimeType: mimeType,
+                metadata: {
+                    manual: true,
+                    sentFrom: 'dashboard',
+                    ...(contactPhone ? {} : { groupJid: jid }),
+                    ...(fileName ? { fileName } : {}),
+                },
+            }).returning({ id: messageLogs.id });
+        });
+
+        const outboxId = await outboxService.enqueue({
+            jid,
+            platform,
+            kind,
+            text: text || undefined,
+            mediaPath: mediaPath || undefined,
+            mimeType: mimeType || undefined,
+            fileName: fileName || undefined,
+            source: 'manual',
+            messageLogId: log.id,
+        });
+
+        console.log(`✍️ Dashboard ${kind} message to ${jid} queued (outbox #${outboxId})`);
+        return { messageLogId: log.id, outboxId, status: 'pending' };
+    }
+}
+
+export const manualMessageService = new ManualMessageService();
@@ -0,0 +1,91 @@
+/**
+ * Ad Broadcast Service
+ * Records every ad posted to a group/channel with its campaign, group, framework/visual style
+ * and message id, so read receipts, replies and deletions (which only carry a message id)
+ * can be attributed back to the campaign and post that caused them.
+ */
+
+import { db, withRetry } from '../../database';
+import { adBroadcasts, groups } from '../../database/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export type BroadcastSource = 'slot' | 'calendar' | 'post_now' | 'manual' | 'custom';
+export type BroadcastDeleteReason = 'expired' | 'manual' | 'revoked';
+
+export interface BroadcastEntry {
+    campaignId?: number | null;
+    scheduledPostId?: number | null;
+    source: BroadcastSource;
+    platform: 'whatsapp' | 'telegram';
+    groupJid: string;
+    messageId: string;
+    framework?: string | null;
+    visualStyle?: string | null;
+    slot?: string | null;
+    variant?: string | null;
+    experimentKey?: string | null;
+}
+
+export class AdBroadcastService {
+    async record(entry: BroadcastEntry): Promise<void> {
+        try {
+            // Member count at posting time is the audience for the reach rate (unknown for Telegram)
+            const group = entry.platform === 'whatsapp'
+                ? await db.select({ totalMembers: groups.totalMembers }).from(groups).where(eq(groups.jid, entry.groupJid)).then(rows => rows[0])
+                : undefined;
+
+            await withRetry(async () => {
+                await db.insert(adBroadcasts).values({
+                    campaignId: entry.campaignId ?? null,
+                    scheduledPostId: entry.scheduledPostId ?? null,
+                    source: entry.source,
+                    platform: entry.platform,
+                    groupJid: entry.groupJid,
+                    messageId: entry.messageId,
+                    framework: entry.framework ?? null,
+                    visualStyle: entry.visualStyle ?? null,
+                    slot: entry.slot ?? null,
+                    variant: entry.variant ?? null,
+                    experimentKey: entry.experimentKey ?? null,
+                    audienceSize: group?.totalMembers || null,
+                }).onConflictDoNothing();
+            });
+        } catch (error) {
+            console.error(`Failed to record broadcast ${entry.messageId} in ${entry.groupJid}:`, error);
+        }
+    }
+
+    /**
+     * The broadcast a message id belongs to, or undefined if it wasn't an ad
+     */
+    async findByMessage(messageId: string, groupJid: string) {
+        return await withRetry(async () => {
+            return await db.select({ id: adBroadcasts.id, campaignId: adBroadcasts.campaignId })
+                .from(adBroadcasts)
+                .where(and(eq(adBroadcasts.messageId, messageId), eq(adBroadcasts.groupJid, groupJid)))
+                .then(rows => rows[0]);
+        });
+    }
+
+    /**
+     * Our own deletes also come back from WhatsApp as a revoke; whichever arrives first,
+     * the reason we deleted it for wins over 'revoked'.
+     */
+    async markDeleted(groupJid: string, messageId: string, reason: BroadcastDeleteReason): Promise<void> {
+        try {
+            await withRetry(async () => {
+                await db.update(adBroadcasts)
+                    .set({ deletedAt: new Date(), deletedReason: reason })
+                    .where(and(
+                        eq(adBroadcasts.groupJid, groupJid),
+                        eq(adBroadcasts.messageId, messageId),
+                        reason === 'revoked' ? isNull(adBroadcasts.deletedAt) : undefined
+                    ));
+            });
+        } catch (error) {
+            console.error(`Failed to mark broadcast ${messageId} in ${groupJid} deleted:`, error);
+        }
+    }
+}
+
+export const adBroadcastService = new AdBroadcastService();
@@ -5,33 +5,7 @@ import { googleImageGenerationService } from '../googleImageGeneration';
 import { db } from '../../database';
 import { businessProfile, marketingCampaigns, products } from '../../database/schema';
 import { eq, and, asc } from 'drizzle-orm';
-
-// --- Types based on User Idea ---
-export enum VisualStyle {
-    HERO = "Product Hero Shots",
-    LIFESTYLE = "Lifestyle Integration",
-    BEFORE_AFTER = "Before/After Transformations",
-    CUSTOMER_STORY = "Customer Stories",
-    INFOGRAPHIC = "Infographic Style",
-    MINIMALIST = "Minimalist Design",
-    VIBRANT = "Vibrant & Energetic",
-    LUXURY = "Luxury Premium",
-    UGC = "User-Generated Content Style",
-    SEASONAL = "Seasonal/Trending"
-}
-
-export enum PitchFramework {
-    PAS = "Problem-Agitate-Solution",
-    AIDA = "Attention-Interest-Desire-Action",
-    STORY = "Story-Based",
-    FOMO = "Urgency-Driven (FOMO)",
-    VALUE = "Value Comparison",
-    SOCIAL_PROOF = "Social Proof",
-    EDUCATIONAL = "Educational",
-    EMOTIONAL = "Emotional Appeal",
-    CHALLENGE = "Challenge-Based",
-    QUESTION = "Question-Led"
-}
+import { contentTemplateService, ContentTemplate } from './contentTemplateService';
 
 export enum TimeOfDay {
     MORNING = "Morning",
@@ -39,6 +13,13 @@ export enum TimeOfDay {
     EVENING = "Evening"
 }
 
+export interface GeneratedAd {
+    text: string;
+    imagePath?: string;
+    framework: string; // Name of the content template used for the copy
+    visualStyle: string; // Name of the visual style template
+}
+
 export class AdContentService {
     private static instance: AdContentService;
 
@@ -51,39 +32,6 @@ export class AdContentService {
         return AdContentService.instance;
     }
 
-    /**
-     * Get rotated visual style based on campaign start date (rotates every 3 days)
-     */
-    private getRotatedStyle(campaignStartDate: Date): VisualStyle {
-        const styles = Object.values(VisualStyle);
-        const daysSinceStart = Math.floor((Date.now() - campaignStartDate.getTime()) / (1000 * 60 * 60 * 24));
-        const styleIndex = Math.floor(daysSinceStart / 3) % styles.length;
-        return styles[styleIndex] as VisualStyle;
-    }
-
-    /**
-     * Get rotated pitch framework (rotates daily)
-     */
-    private getRotatedFramework(campaignStartDate: Date): PitchFramework {
-        const frameworks = Object.values(PitchFramework);
-        const daysSinceStart = Math.floor((Date.now() - campaignStartDate.getTime()) / (1000 * 60 * 60 * 24));
-        const frameworkIndex = daysSinceStart % frameworks.length;
-        return frameworks[frameworkIndex] as PitchFramework;
-    }
-
-    private styleGuides: Record<VisualStyle, string> = {
-        [VisualStyle.HERO]: "Studio hero shot, extremely sharp focus, crisp professional lighting, floating product, high-end commercial aesthetic, neutral gradient background.",
-        [VisualStyle.LIFESTYLE]: "Cinematic lifestyle photography, product in natural use by people, shallow depth of field, warm inviting colors, authentic surroundings.",
-        [VisualStyle.BEFORE_AFTER]: "Split-screen comparison, dramatic transformation, clear problem vs solution contrast, professional before/after documentation style.",
-        [VisualStyle.CUSTOMER_STORY]: "Authentic testimonial aesthetic, real customer using product, genuine emotion, relatable setting, documentary photography style.",
-        [VisualStyle.INFOGRAPHIC]: "Clean top-down view, labeled features with subtle aesthetic lines, organized layout, modern technical illustration style.",
-        [VisualStyle.MINIMALIST]: "Clean minimalist art, flat matte colors, geometric balance, soft diffused lighting, no clutter, Scandinavian design influence.",
-        [VisualStyle.VIBRANT]: "Explosion of color, dynamic motion blur, high energy, pop-art saturation, fun and youthful aesthetic.",
-        [VisualStyle.LUXURY]: "Moody premium lighting, gold and silver highlights, velvet and marble textures, sophisticated shadows, elite boutique photography.",
-        [VisualStyle.UGC]: "Shot on iPhone style, authentic raw lighting, handheld feel, relatable everyday background, non-commercial vibe.",
-        [VisualStyle.SEASONAL]: "Seasonal theme integration, holiday decorations or current event context, trending aesthetic, timely cultural relevance."
-    };
-
     private timeInfluence = {
         [TimeOfDay.MORNING]: "Bright morning sunlight, crisp white highlights, fresh airy atmosphere. Mindset: energetic, productive, fresh start.",
         [TimeOfDay.AFTERNOON]: "Natural midday light, clear shadows, high clarity and detail. Mindset: busy, solution-focused, quick.",
@@ -117,7 +65,7 @@ export class AdContentService {
         return set[Math.floor(Math.random() * set.length)];
     }
 
-    private constructImagePrompt(profile: any, style: VisualStyle, timeContext: TimeOfDay, visualScenario: string): string {
+    private constructImagePrompt(profile: any, style: ContentTemplate, timeContext: TimeOfDay, visualScenario: string): string {
         // Prioritize enhanced businessDescription if available
         const businessContext = profile.businessDescription || profile.productInfo || 'innovative product';
 
@@ -152,6 +100,7 @@ export class AdContentService {
         return `Create a SIMPLE, EYE-CATCHING image for: "${businessContext}"
 
 STYLE: ${randomVisual} with ${randomColor} background
+ART DIRECTION (${style.name}): ${style.structure}
 
 RULES:
 - SIMPLE & CLEAN: Minimal elements, maximum impact
@@ -202,15 +151,20 @@ Less is more. Bold and simple beats complex and detailed.`;
     }
 
     /**
-     * Generate complete ad content (Text + Image URL/Path)
+     * Generate complete ad content (Text + Image URL/Path).
+     * framework overrides today's rotated framework (A/B test variants).
      */
-    public async generateAd(campaignId: number, styleHint: string = 'balanced', customInstructions?: string): Promise<{ text: string, imagePath?: string }> {
+    public async generateAd(campaignId: number, styleHint: string = 'balanced', customInstructions?: string, frameworkOverride?: ContentTemplate): Promise<GeneratedAd> {
         // 1. Fetch Campaign
         const campaign = await db.query.marketingCampaigns.findFirst({
             where: eq(marketingCampaigns.id, campaignId)
         });
         if (!campaign) throw new Error("Campaign not found.");
 
+        // Today's framework and visual style from the template library (recorded with each broadcast for per-framework analytics)
+        const style = await contentTemplateService.pickForCampaign(campaign, 'visual_style');
+        const framework = frameworkOverride || await contentTemplateService.pickForCampaign(campaign, 'framework');
+
         // 2. Determine Business Profile (Campaign specific OR Global Fallback)
         let profile: any = campaign;
 
@@ -227,10 +181,10 @@ Less is more. Bold and simple beats complex and detailed.`;
                 const productImagePath = this.getProductImage(product, nextIndex);
                 if (productImagePath) {
                     console.log(`📦 Rotating shop: using product ${nextIndex + 1}/${shopProducts.length} "${product.name}"`);
-                    const adCopy = await this.generateAdCopy(profile, this.getRotatedStyle(campaign.startDate!), this.extractTimeContext(styleHint), this.getRotatedFramework(campaign.startDate!), customInstructions, campaign.name, campaign.businessDescription, campaign.companyLink);
+                    const adCopy = await this.generateAdCopy(profile, style, this.extractTimeContext(styleHint), framework, customInstructions, campaign.name, campaign.businessDescription, campaign.companyLink);
                     const newIndex = (nextIndex + 1) % shopProducts.length;
                     await db.update(marketingCampaigns).set({ settings: { ...settings, lastRotatedProductIndex: newIndex } }).where(eq(marketingCampaigns.id, campaignId));
-                    return { text: this.formatAdOutput(adCopy, campaign.companyLink), imagePath: productImagePath };
+                    return { text: this.formatAdOutput(adCopy, campaign.companyLink), imagePath: productImagePath, framework: framework.name, visualStyle: style.name };
                 }
                 console.log(`📦 Product "${product.name}" has no image, using AI to generate ad visual`);
                 await db.update(marketingCampaigns).set({ settings: { ...settings, lastRotatedProductIndex: (nextIndex + 1) % shopProducts.length } }).where(eq(marketingCampaigns.id, campaignId));
@@ -248,8 +202,8 @@ Less is more. Bold and simple beats complex and detailed.`;
                 const productImagePath = this.getProductImage(product);
                 if (productImagePath) {
                     console.log(`📦 Using existing product image for "${product.name}"`);
-                    const adCopy = await this.generateAdCopy(profile, this.getRotatedStyle(campaign.startDate!), this.extractTimeContext(styleHint), this.getRotatedFramework(campaign.startDate!), customInstructions, campaign.name, campaign.businessDescription, campaign.companyLink);
-                    return { text: this.formatAdOutput(adCopy, campaign.companyLink), imagePath: productImagePath };
+                    const adCopy = await this.generateAdCopy(profile, style, this.extractTimeContext(styleHint), framework, customInstructions, campaign.name, campaign.businessDescription, campaign.companyLink);
+                    return { text: this.formatAdOutput(adCopy, campaign.companyLink), imagePath: productImagePath, framework: framework.name, visualStyle: style.name };
                 }
                 console.log(`📦 Product "${product.name}" has no image, using AI to generate ad visual`);
             }
@@ -262,30 +216,26 @@ Less is more. Bold and simple beats complex and detailed.`;
             profile = globalProfile;
         }
 
-        // 3. Calculate rotated style and framework
-        const style = this.getRotatedStyle(campaign.startDate!);
-        const framework = this.getRotatedFramework(campaign.startDate!);
-
-        // 4. Determine time context from styleHint
+        // 3. Determine time context from styleHint
         const timeContext = this.extractTimeContext(styleHint);
 
-        // 5. Generate Copy (with framework and business description)
+        // 4. Generate Copy (with framework and business description)
         const adCopy = await this.generateAdCopy(profile, style, timeContext, framework, customInstructions, campaign.name, campaign.businessDescription, campaign.companyLink);
 
-        // 6. Generate Image (AI-generated when contentSource is 'ai' or product has no image)
+        // 5. Generate Image (AI-generated when contentSource is 'ai' or product has no image)
         const isService = this.detectServiceBusiness(profile.productInfo);
         const visualScenario = this.getRandomVisualScenario(isService);
         const imagePrompt = this.constructImagePrompt(profile, style, timeContext, visualScenario);
         let imagePath: string | undefined;
 
         try {
-            console.log(`🎨 Generating AI visual (Style: ${style}, Scenario: ${visualScenario})...`);
+            console.log(`🎨 Generating AI visual (Style: ${style.name}, Scenario: ${visualScenario})...`);
             imagePath = await googleImageGenerationService.generateImage(imagePrompt);
         } catch (e) {
             console.error("Failed to generate ad image:", e);
         }
 
-        return { text: this.formatAdOutput(adCopy, campaign.companyLink), imagePath };
+        return { text: this.formatAdOutput(adCopy, campaign.companyLink), imagePath, framework: framework.name, visualStyle: style.name };
     }
 
     private extractTimeContext(styleHint: string): TimeOfDay {
@@ -295,25 +245,6 @@ Less is more. Bold and simple beats complex and detailed.`;
         return TimeOfDay.MORNING;
     }
 
-    private mapStyleToEnums(styleHint: string): { style: VisualStyle, timeContext: TimeOfDay } {
-        let style = VisualStyle.HERO;
-        let timeContext = TimeOfDay.MORNING;
-
-        const lowerHint = styleHint.toLowerCase();
-
-        // Map Time
-        if (lowerHint.includes('afternoon')) timeContext = TimeOfDay.AFTERNOON;
-        else if (lowerHint.includes('evening')) timeContext = TimeOfDay.EVENING;
-
-        // Map Style
-        if (lowerHint.includes('energetic') || lowerHint.includes('vibrant')) style = VisualStyle.VIBRANT;
-        else if (lowerHint.includes('practical') || lowerHint.includes('clean')) style = VisualStyle.MINIMALIST;
-        else if (lowerHint.includes('relaxed') || lowerHint.includes('lifestyle')) style = VisualStyle.LIFESTYLE;
-        else if (lowerHint.includes('luxury')) style = VisualStyle.LUXURY;
-
-        return { style, timeContext };
-    }
-
     /**
      * Creativity Engine: Defines distinct personas for the AI to adopt
      */
@@ -334,7 +265,7 @@ Less is more. Bold and simple beats complex and detailed.`;
         return angles[Math.floor(Math.random() * angles.length)];
     }
 
-    private async generateAdCopy(profile: any, style: VisualStyle, timeContext: TimeOfDay, framework: PitchFramework, customInstructions?: string, campaignName?: string, businessDescription?: string | null, companyLink?: string | null): Promise<any> {
+    private async generateAdCopy(profile: any, style: ContentTemplate, timeContext: TimeOfDay, framework: ContentTemplate, customInstructions?: string, campaignName?: string, businessDescription?: string | null, companyLink?: string | null): Promise<any> {
         // Prioritize businessDescription as the primary context
         const businessContext = businessDescription || `Campaign Platform: ${profile.productInfo}, Target Voters: ${profile.targetAudience}. Unique Strength: ${profile.uniqueSellingPoint}. Voice: ${profile.brandVoice || 'inspiring and authentic'}`;
 
@@ -402,20 +333,12 @@ Less is more. Bold and simple beats complex and detailed.`;
         }
     }
 
-    private getFrameworkInstructions(framework: PitchFramework): string {
-        const instructions: Record<PitchFramework, string> = {
-            [PitchFramework.PAS]: "Use Problem-Agitate-Solution: Start with the challenge facing voters, intensify it, then present the candidate's solution.",
-            [PitchFramework.AIDA]: "Use Attention-Interest-Desire-Action: Grab attention, build interest in the platform, create desire for change, end with clear call to action.",
-            [PitchFramework.STORY]: "Tell a compelling story: The current situation, the vision for change, the better future we can build together.",
-            [PitchFramework.FOMO]: "Create urgency: This is our moment, this election matters, be part of the change, don't miss this opportunity.",
-            [PitchFramework.VALUE]: "Show the value: What voters will gain, how life will improve, comparison with failed promises of others.",
-            [PitchFramework.SOCIAL_PROOF]: "Lead with momentum: Growing support, community backing, testimonials from supporters, grassroots movement.",
-            [PitchFramework.EDUCATIONAL]: "Educate voters: Share policy details, explain the plan, provide insights, then call them to join the movement.",
-            [PitchFramework.EMOTIONAL]: "Appeal to identity and hope: Belonging to a movement, pride in our nation, vision for our children, shared aspirations.",
-            [PitchFramework.CHALLENGE]: "Start with a bold statement: 'Enough is enough', 'We deserve better', 'The time for change is now'.",
-            [PitchFramework.QUESTION]: "Lead with powerful questions: 'Are you ready for change?', 'What future do we want?', then answer with the campaign vision."
-        };
-        return instructions[framework];
+    private getFrameworkInstructions(framework: ContentTemplate): string {
+        if (!framework.examples) return framework.structure;
+        return `${framework.structure}
+
+        EXAMPLES of this framework (match the approach, do NOT copy the wording):
+        ${framework.examples}`;
     }
 
 
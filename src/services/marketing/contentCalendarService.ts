@@ -0,0 +1,409 @@
+/**
+ * Content Calendar Service
+ * Ads are drafted ahead of time into scheduled_posts so the owner can review them before
+ * they go out. Each post moves through pending → approved → sent (or failed); the
+ * dispatcher only ever sends approved posts, at their scheduledTime.
+ *
+ * A campaign slot with a calendar post is owned by the calendar: the live slot trigger
+ * skips it, so an unapproved draft is simply not posted.
+ *
+ * Campaigns in experiment mode get one post per A/B variant; variant B's slot is suffixed
+ * (e.g. '2026-03-01 ad_morning B') and each variant goes to its share of the groups.
+ */
+
+import { db, withRetry } from '../../database';
+import { marketingCampaigns, scheduledPosts } from '../../database/schema';
+import { and, asc, desc, eq, gte, lte, SQL } from 'drizzle-orm';
+import { marketingService, BroadcastPlatform } from './marketingService';
+import { mediaIngestionService } from '../mediaIngestionService';
+import { systemSettingsService } from '../systemSettings';
+import { experimentService, VariantAssignment, VARIANT_LABELS } from './experimentService';
+
+export type ScheduledPostStatus = 'pending' | 'approved' | 'sent' | 'failed' | 'cancelled';
+export type PostPlatform = BroadcastPlatform | 'all';
+
+const POST_PLATFORMS: PostPlatform[] = ['whatsapp', 'telegram', 'all'];
+
+type ScheduledPost = typeof scheduledPosts.$inferSelect;
+
+export interface PostFilters {
+    status?: string;
+    campaignId?: number;
+    from?: Date;
+    to?: Date;
+}
+
+const SLOTS = [
+    { slot: 'ad_morning', field: 'morningTime' },
+    { slot: 'ad_afternoon', field: 'afternoonTime' },
+    { slot: 'ad_evening', field: 'eveningTime' },
+] as const;
+
+// Posts that can still be edited, rescheduled or cancelled
+const OPEN_STATUSES: ScheduledPostStatus[] = ['pending', 'approved', 'failed'];
+
+const DEFAULT_DAYS_AHEAD = 2;
+const MIN_LEAD_MS = 15 * 60 * 1000;      // Slots closer than this are left to the live trigger
+const MAX_LATE_MS = 2 * 60 * 60 * 1000;  // Approved posts this overdue (bot was down) are not sent anymore
+const DISPATCH_BATCH = 20;
+
+export class ContentCalendarService {
+    private isGenerating = false;
+    private isDispatching = false;
+
+    /**
+     * Identifies a campaign slot on a given day in the owner's timezone, e.g. '2026-03-01 ad_morning'
+     */
+    slotKey(date: Date, timezone: string, slotType: string): string {
+        return `${date.toLocaleDateString('en-CA', { timeZone: timezone })} ${slotType}`;
+    }
+
+    /**
+     * Whether the calendar already has a post for this campaign slot (in any status)
+     */
+    async hasPostForSlot(campaignId: number, slot: string): Promise<boolean> {
+        const row = await withRetry(async () => {
+            return await db.select({ id: scheduledPosts.id })
+                .from(scheduledPosts)
+                .where(and(eq(scheduledPosts.campaignId, campaignId), eq(scheduledPosts.slot, slot)))
+                .then(rows => rows[0]);
+        });
+        return !!row;
+    }
+
+    /**
+     * Drafts posts for every active campaign slot in the next few days that doesn't have one yet.
+     * Returns how many posts were created.
+     */
+    async pregenerate(timezone: string): Promise<number> {
+        if (this.isGenerating) return 0;
+        this.isGenerating = true;
+
+        try {
+            const daysAhead = await systemSettingsService.getNumber('content_calendar_days_ahead', DEFAULT_DAYS_AHEAD) ?? DEFAULT_DAYS_AHEAD;
+            const autoApprove = (await systemSettingsService.get('content_calendar_auto_approve', 'false')) === 'true';
+
+            const campaigns = await withRetry(async () => {
+                return await db.select().from(marketingCampaigns).where(eq(marketingCampaigns.status, 'active'));
+            });
+
+            const now = Date.now();
+            let created = 0;
+
+            for (let day = 0; day < daysAhead; day++) {
+                const date = new Date(now + day * 24 * 60 * 60 * 1000);
+                const ymd = date.toLocaleDateString('en-CA', { timeZone: timezone });
+
+                for (const campaign of campaigns) {
+                    for (const { slot: slotType, field } of SLOTS) {
+                        const time = campaign[field];
+                        if (!time) continue;
+
+                        const scheduledTime = this.zonedTimeToDate(ymd, time, timezone);
+                        if (scheduledTime.getTime() - now < MIN_LEAD_MS) continue;
+
+                        const slot = `${ymd} ${slotType}`;
+                        if (await this.hasPostForSlot(campaign.id, slot)) continue;
+
+                        // A/B test: one post per framework variant, otherwise a single post
+                        const frameworks = campaign.experimentMode ? await experimentService.selectFrameworks(campaign) : [];
+                        const variants = frameworks.length > 1 ? frameworks : [undefined];
+
+                        for (const [index, framework] of variants.entries()) {
+                            const variant = framework ? { label: VARIANT_LABELS[index], index, count: variants.length, key: slot } : undefined;
+                            const variantSlot = variant && index > 0 ? `${slot} ${variant.label}` : slot;
+
+                            try {
+                                const ad = await marketingService.prepareAd(campaign, slotType, undefined, framework);
+                                const inserted = await withRetry(async () => {
+                                    return await db.insert(scheduledPosts).values({
+                                        campaignId: campaign.id,
+                                        type: 'ad',
+                                        content: ad.text,
+                                        mediaUrl: ad.imageFile,
+                                        scheduledTime,
+                                        status: autoApprove ? 'approved' : 'pending',
+                                        platform: 'all',
+                                        slot: variantSlot,
+                                        approvedBy: autoApprove ? 'auto' : null,
+                                        approvedAt: autoApprove ? new Date() : null,
+                                        metadata: { slotType, framework: ad.framework, visualStyle: ad.visualStyle, variant },
+                                    })
+                                        .onConflictDoNothing()
+                                        .returning({ id: scheduledPosts.id });
+                                });
+                                if (inserted.length > 0) {
+                                    created++;
+                                    console.log(`🗓️ Drafted ${slotType} post${variant ? ` (variant ${variant.label})` : ''} for "${campaign.name}" at ${scheduledTime.toISOString()}`);
+                                }
+                            } catch (error) {
+                                // Retried on the next run
+                                console.error(`❌ Failed to draft ${variantSlot} for "${campaign.name}":`, error);
+                            }
+                        }
+                    }
+                }
+            }
+
+            if (created > 0 && !autoApprove) {
+                const { notificationService } = await import('../notificationService');
+                await notificationService.notifyOwner(
+                    `🗓️ ${created} new campaign post${created === 1 ? ' is' : 's are'} waiting for your approval.\n\nReview them in the dashboard under Marketing → Content Calendar. Unapproved posts are not sent.`
+                );
+            }
+
+            return created;
+        } finally {
+            this.isGenerating = false;
+        }
+    }
+
+    /**
+     * Sends approved posts whose time has come. Called every minute by the scheduler.
+     */
+    async dispatchDue(client: any): Promise<void> {
+        if (this.isDispatching) return;
+        this.isDispatching = true;
+
+        try {
+            const due = await withRetry(async () => {
+                return await db.select()
+                    .from(scheduledPosts)
+                    .where(and(eq(scheduledPosts.status, 'approved'), lte(scheduledPosts.scheduledTime, new Date())))
+                    .orderBy(asc(scheduledPosts.scheduledTime))
+                    .limit(DISPATCH_BATCH);
+            });
+
+            for (const post of due) {
+                await this.dispatch(client, post);
+            }
+        } catch (error) {
+            console.error('❌ Content calendar dispatch failed:', error);
+        } finally {
+            this.isDispatching = false;
+        }
+    }
+
+    private async dispatch(client: any, post: ScheduledPost): Promise<void> {
+        if (Date.now() - post.scheduledTime.getTime() > MAX_LATE_MS) {
+            await this.markFailed(post.id, 'Missed its send window (the bot was offline)');
+            return;
+        }
+
+        try {
+            const campaign = post.campaignId
+                ? await db.query.marketingCampaigns.findFirst({ where: eq(marketingCampaigns.id, post.campaignId) })
+                : null;
+            if (!campaign) {
+                await this.markFailed(post.id, 'Campaign no longer exists');
+                return;
+            }
+            if (campaign.status !== 'active') {
+                await this.markFailed(post.id, `Campaign is ${campaign.status}`);
+                return;
+            }
+
+            const platforms = post.platform === 'whatsapp' || post.platform === 'telegram' ? [post.platform as BroadcastPlatform] : undefined;
+            const needsWhatsApp = platforms ? platforms.includes('whatsapp') : this.campaignUsesWhatsApp(campaign);
+
+            // Group lists come from the live connection; try again next minute
+            if (needsWhatsApp && client?.getStatus?.().status !== 'CONNECTED') {
+                console.log(`⏳ Scheduled post #${post.id} waiting for WhatsApp to connect`);
+                return;
+            }
+
+            console.log(`🗓️ Sending scheduled post #${post.id} for "${campaign.name}"`);
+            const { slotType, framework, visualStyle, variant } = (post.metadata || {}) as {
+                slotType?: string, framework?: string, visualStyle?: string, variant?: VariantAssignment
+            };
+            const queued = await marketingService.broadcastAd(
+                client,
+                campaign,
+                { text: post.content, imageFile: post.mediaUrl, framework, visualStyle },
+                { source: 'calendar', platforms, slot: slotType, scheduledPostId: post.id, variant }
+            );
+            if (queued === 0) {
+                await this.markFailed(post.id, 'No groups to post to');
+                return;
+            }
+
+            await withRetry(async () => {
+                await db.update(scheduledPosts)
+                    .set({ status: 'sent', sentAt: new Date(), lastError: null, updatedAt: new Date() })
+                    .where(eq(scheduledPosts.id, post.id));
+            });
+            console.log(`✅ Scheduled post #${post.id} queued to ${queued} group(s)`);
+        } catch (error: any) {
+            console.error(`❌ Failed to send scheduled post #${post.id}:`, error);
+            await this.markFailed(post.id, error?.message || String(error));
+        }
+    }
+
+    private campaignUsesWhatsApp(campaign: typeof marketingCampaigns.$inferSelect): boolean {
+        const platforms = campaign.platforms as string[] | null;
+        return !Array.isArray(platforms) || platforms.length === 0 || platforms.includes('whatsapp');
+    }
+
+    private async markFailed(id: number, reason: string): Promise<void> {
+        console.warn(`⚠️ Scheduled post #${id} failed: ${reason}`);
+        await withRetry(async () => {
+            await db.update(scheduledPosts)
+                .set({ status: 'failed', lastError: reason, updatedAt: new Date() })
+                .where(eq(scheduledPosts.id, id));
+        });
+    }
+
+    async list(filters: PostFilters = {}, limit: number = 200) {
+        const conditions: SQL[] = [];
+        if (filters.status) conditions.push(eq(scheduledPosts.status, filters.status));
+        if (filters.campaignId) conditions.push(eq(scheduledPosts.campaignId, filters.campaignId));
+        if (filters.from) conditions.push(gte(scheduledPosts.scheduledTime, filters.from));
+        if (filters.to) conditions.push(lte(scheduledPosts.scheduledTime, filters.to));
+
+        return await withRetry(async () => {
+            return await db.select({
+                post: scheduledPosts,
+                campaignName: marketingCampaigns.name,
+            })
+                .from(scheduledPosts)
+                .leftJoin(marketingCampaigns, eq(scheduledPosts.campaignId, marketingCampaigns.id))
+                .where(conditions.length ? and(...conditions) : undefined)
+                .orderBy(filters.status === 'sent' ? desc(scheduledPosts.scheduledTime) : asc(scheduledPosts.scheduledTime))
+                .limit(limit)
+                .then(rows => rows.map(r => ({ ...r.post, campaignName: r.campaignName })));
+        });
+    }
+
+    async get(id: number) {
+        return await withRetry(async () => {
+            return await db.select().from(scheduledPosts).where(eq(scheduledPosts.id, id)).then(rows => rows[0]);
+        });
+    }
+
+    /**
+     * Returns a validation error for a post body, or null. partial = only check the fields given (edits).
+     */
+    validate(body: any, partial: boolean): string | null {
+        if (!partial || body.content !== undefined) {
+            if (typeof body.content !== 'string' || !body.content.trim()) return 'content is required';
+        }
+        if (!partial || body.scheduledTime !== undefined) {
+            const time = new Date(body.scheduledTime);
+            if (!body.scheduledTime || isNaN(time.getTime())) return 'scheduledTime must be a valid date';
+            if (time.getTime() <= Date.now()) return 'scheduledTime must be in the future';
+        }
+        if (body.platform !== undefined && !POST_PLATFORMS.includes(body.platform)) {
+            return `platform must be one of: ${POST_PLATFORMS.join(', ')}`;
+        }
+        if (body.image !== undefined && (typeof body.image?.data !== 'string' || typeof body.image?.mimeType !== 'string' || !body.image.mimeType.startsWith('image/'))) {
+            return 'image needs base64 data and an image mimeType';
+        }
+        return null;
+    }
+
+    /**
+     * Whether a post can still be edited, rescheduled, approved or cancelled
+     */
+    isOpen(post: ScheduledPost): boolean {
+        return OPEN_STATUSES.includes(post.status as ScheduledPostStatus);
+    }
+
+    /**
+     * Adds a post by hand. image is optional base64 data.
+     */
+    async create(post: {
+        campaignId: number;
+        content: string;
+        scheduledTime: Date;
+        platform?: PostPlatform;
+        image?: { data: string; mimeType: string };
+    }) {
+        const mediaUrl = post.image
+            ? mediaIngestionService.store(Buffer.from(post.image.data, 'base64'), post.image.mimeType)
+            : null;
+
+        const [created] = await withRetry(async () => {
+            return await db.insert(scheduledPosts).values({
+                campaignId: post.campaignId,
+                type: 'ad',
+                content: post.content,
+                mediaUrl,
+                scheduledTime: post.scheduledTime,
+                status: 'pending',
+                platform: post.platform || 'all',
+            }).returning();
+        });
+        return created;
+    }
+
+    /**
+     * Edits the copy, target platform or time of an open post. Rescheduling a failed post queues it again.
+     */
+    async update(post: ScheduledPost, changes: { content?: string; platform?: PostPlatform; scheduledTime?: Date }) {
+        const values: Partial<typeof scheduledPosts.$inferInsert> = { updatedAt: new Date() };
+        if (changes.content !== undefined) values.content = changes.content;
+        if (changes.platform !== undefined) values.platform = changes.platform;
+        if (changes.scheduledTime !== undefined) {
+            values.scheduledTime = changes.scheduledTime;
+            if (post.status === 'failed') {
+                values.status = 'approved';
+                values.lastError = null;
+            }
+        }
+
+        const [updated] = await withRetry(async () => {
+            return await db.update(scheduledPosts).set(values).where(eq(scheduledPosts.id, post.id)).returning();
+        });
+        return updated;
+    }
+
+    async approve(id: number, approvedBy: string) {
+        const [updated] = await withRetry(async () => {
+            return await db.update(scheduledPosts)
+                .set({ status: 'approved', approvedBy, approvedAt: new Date(), lastError: null, updatedAt: new Date() })
+                .where(eq(scheduledPosts.id, id))
+                .returning();
+        });
+        return updated;
+    }
+
+    async cancel(id: number) {
+        const [updated] = await withRetry(async () => {
+            return await db.update(scheduledPosts)
+                .set({ status: 'cancelled', updatedAt: new Date() })
+                .where(eq(scheduledPosts.id, id))
+                .returning();
+        });
+        return updated;
+    }
+
+    async delete(id: number): Promise<boolean> {
+        const deleted = await withRetry(async () => {
+            return await db.delete(scheduledPosts).where(eq(scheduledPosts.id, id)).returning({ id: scheduledPosts.id });
+        });
+        return deleted.length > 0;
+    }
+
+    /**
+     * Converts a wall-clock date/time in the given timezone ('2026-03-01', '07:00') to a Date
+     */
+    private zonedTimeToDate(ymd: string, hhmm: string, timezone: string): Date {
+        const [year, month, day] = ymd.split('-').map(Number);
+        const [hour, minute] = hhmm.split(':').map(Number);
+        const guess = Date.UTC(year, month - 1, day, hour, minute);
+
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit',
+        }).formatToParts(new Date(guess));
+        const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+        // How far the timezone's wall clock is ahead of UTC at that moment
+        const offset = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute')) - guess;
+        return new Date(guess - offset);
+    }
+}
+
+export const contentCalendarService = new ContentCalendarService();
@@ -0,0 +1,175 @@
+/**
+ * Content Template Service
+ * Owner-managed library of pitch frameworks and visual styles for generated ads, stored in
+ * content_templates. The built-in frameworks/styles are seeded the first time a kind has no
+ * templates, so they can be edited or switched off like any other.
+ *
+ * Campaigns rotate through the active templates (frameworks daily, visual styles every 3 days),
+ * limited to the campaign's templateIds when it has any of that kind.
+ */
+
+import { db, withRetry } from '../../database';
+import { contentTemplates } from '../../database/schema';
+import { and, asc, eq } from 'drizzle-orm';
+
+export type TemplateKind = 'framework' | 'visual_style';
+
+const TEMPLATE_KINDS: TemplateKind[] = ['framework', 'visual_style'];
+
+export type ContentTemplate = typeof contentTemplates.$inferSelect;
+
+// Days each template is used before rotating to the next
+const ROTATION_DAYS: Record<TemplateKind, number> = {
+    framework: 1,
+    visual_style: 3,
+};
+
+const DEFAULT_TEMPLATES: { kind: TemplateKind; name: string; structure: string }[] = [
+    { kind: 'framework', name: 'Problem-Agitate-Solution', structure: "Use Problem-Agitate-Solution: Start with the challenge facing voters, intensify it, then present the candidate's solution." },
+    { kind: 'framework', name: 'Attention-Interest-Desire-Action', structure: 'Use Attention-Interest-Desire-Action: Grab attention, build interest in the platform, create desire for change, end with clear call to action.' },
+    { kind: 'framework', name: 'Story-Based', structure: 'Tell a compelling story: The current situation, the vision for change, the better future we can build together.' },
+    { kind: 'framework', name: 'Urgency-Driven (FOMO)', structure: "Create urgency: This is our moment, this election matters, be part of the change, don't miss this opportunity." },
+    { kind: 'framework', name: 'Value Comparison', structure: 'Show the value: What voters will gain, how life will improve, comparison with failed promises of others.' },
+    { kind: 'framework', name: 'Social Proof', structure: 'Lead with momentum: Growing support, community backing, testimonials from supporters, grassroots movement.' },
+    { kind: 'framework', name: 'Educational', structure: 'Educate voters: Share policy details, explain the plan, provide insights, then call them to join the movement.' },
+    { kind: 'framework', name: 'Emotional Appeal', structure: 'Appeal to identity and hope: Belonging to a movement, pride in our nation, vision for our children, shared aspirations.' },
+    { kind: 'framework', name: 'Challenge-Based', structure: "Start with a bold statement: 'Enough is enough', 'We deserve better', 'The time for change is now'." },
+    { kind: 'framework', name: 'Question-Led', structure: "Lead with powerful questions: 'Are you ready for change?', 'What future do we want?', then answer with the campaign vision." },
+    { kind: 'visual_style', name: 'Product Hero Shots', structure: 'Studio hero shot, extremely sharp focus, crisp professional lighting, floating product, high-end commercial aesthetic, neutral gradient background.' },
+    { kind: 'visual_style', name: 'Lifestyle Integration', structure: 'Cinematic lifestyle photography, product in natural use by people, shallow depth of field, warm inviting colors, authentic surroundings.' },
+    { kind: 'visual_style', name: 'Before/After Transformations', structure: 'Split-screen comparison, dramatic transformation, clear problem vs solution contrast, professional before/after documentation style.' },
+    { kind: 'visual_style', name: 'Customer Stories', structure: 'Authentic testimonial aesthetic, real customer using product, genuine emotion, relatable setting, documentary photography style.' },
+    { kind: 'visual_style', name: 'Infographic Style', structure: 'Clean top-down view, labeled features with subtle aesthetic lines, organized layout, modern technical illustration style.' },
+    { kind: 'visual_style', name: 'Minimalist Design', structure: 'Clean minimalist art, flat matte colors, geometric balance, soft diffused lighting, no clutter, Scandinavian design influence.' },
+    { kind: 'visual_style', name: 'Vibrant & Energetic', structure: 'Explosion of color, dynamic motion blur, high energy, pop-art saturation, fun and youthful aesthetic.' },
+    { kind: 'visual_style', name: 'Luxury Premium', structure: 'Moody premium lighting, gold and silver highlights, velvet and marble textures, sophisticated shadows, elite boutique photography.' },
+    { kind: 'visual_style', name: 'User-Generated Content Style', structure: 'Shot on iPhone style, authentic raw lighting, handheld feel, relatable everyday background, non-commercial vibe.' },
+    { kind: 'visual_style', name: 'Seasonal/Trending', structure: 'Seasonal theme integration, holiday decorations or current event context, trending aesthetic, timely cultural relevance.' },
+];
+
+export class ContentTemplateService {
+    /**
+     * Seeds the built-in templates for any kind that has none
+     */
+    async ensureDefaults(): Promise<void> {
+        const existing = await withRetry(async () => {
+            return await db.select({ kind: contentTemplates.kind }).from(contentTemplates);
+        });
+        const missing = TEMPLATE_KINDS.filter(kind => !existing.some(t => t.kind === kind));
+        if (missing.length === 0) return;
+
+        await withRetry(async () => {
+            await db.insert(contentTemplates)
+                .values(DEFAULT_TEMPLATES.filter(t => missing.includes(t.kind)))
+                .onConflictDoNothing();
+        });
+        console.log(`📚 Seeded built-in ad templates (${missing.join(', ')})`);
+    }
+
+    async list(kind?: TemplateKind): Promise<ContentTemplate[]> {
+        await this.ensureDefaults();
+        return await withRetry(async () => {
+            return await db.select()
+                .from(contentTemplates)
+                .where(kind ? eq(contentTemplates.kind, kind) : undefined)
+                .orderBy(asc(contentTemplates.kind), asc(contentTemplates.id));
+        });
+    }
+
+    async get(id: number): Promise<ContentTemplate | undefined> {
+        return await withRetry(async () => {
+            return await db.select().from(contentTemplates).where(eq(contentTemplates.id, id)).then(rows => rows[0]);
+        });
+    }
+
+    /**
+     * Returns an error message for an invalid create/update body, or null
+     */
+    validate(body: any, partial: boolean): string | null {
+        if (!partial || body.kind !== undefined) {
+            if (!TEMPLATE_KINDS.includes(body.kind)) return `kind must be one of: ${TEMPLATE_KINDS.join(', ')}`;
+        }
+        if (!partial || body.name !== undefined) {
+            if (typeof body.name !== 'string' || !body.name.trim()) return 'name is required';
+            if (body.name.trim().length > 100) return 'name must be at most 100 characters';
+        }
+        if (!partial || body.structure !== undefined) {
+            if (typeof body.structure !== 'string' || !body.structure.trim()) return 'structure is required';
+        }
+        if (body.examples !== undefined && body.examples !== null && typeof body.examples !== 'string') {
+            return 'examples must be text';
+        }
+        if (body.isActive !== undefined && typeof body.isActive !== 'boolean') return 'isActive must be true or false';
+        return null;
+    }
+
+    async findByName(kind: TemplateKind, name: string): Promise<ContentTemplate | undefined> {
+        return await withRetry(async () => {
+            return await db.select().from(contentTemplates)
+                .where(and(eq(contentTemplates.kind, kind), eq(contentTemplates.name, name)))
+                .then(rows => rows[0]);
+        });
+    }
+
+    async create(template: { kind: TemplateKind; name: string; structure: string; examples?: string | null; isActive?: boolean }) {
+        const [created] = await withRetry(async () => {
+            return await db.insert(contentTemplates).values({
+                kind: template.kind,
+                name: template.name.trim(),
+                structure: template.structure.trim(),
+                examples: template.examples?.trim() || null,
+                isActive: template.isActive ?? true,
+            }).returning();
+        });
+        return created;
+    }
+
+    async update(id: number, changes: { name?: string; structure?: string; examples?: string | null; isActive?: boolean }) {
+        const values: Partial<typeof contentTemplates.$inferInsert> = { updatedAt: new Date() };
+        if (changes.name !== undefined) values.name = changes.name.trim();
+        if (changes.structure !== undefined) values.structure = changes.structure.trim();
+        if (changes.examples !== undefined) values.examples = changes.examples?.trim() || null;
+        if (changes.isActive !== undefined) values.isActive = changes.isActive;
+
+        const [updated] = await withRetry(async () => {
+            return await db.update(contentTemplates).set(values).where(eq(contentTemplates.id, id)).returning();
+        });
+        return updated;
+    }
+
+    async delete(id: number): Promise<boolean> {
+        const deleted = await withRetry(async () => {
+            return await db.delete(contentTemplates).where(eq(contentTemplates.id, id)).returning({ id: contentTemplates.id });
+        });
+        return deleted.length > 0;
+    }
+
+    /**
+     * Active templates of a kind the campaign may use: its allowed ones, or every active one
+     * when none of those are active
+     */
+    async getPool(campaign: { templateIds?: unknown }, kind: TemplateKind): Promise<ContentTemplate[]> {
+        const active = (await this.list(kind)).filter(t => t.isActive);
+        const allowedIds = Array.isArray(campaign.templateIds) ? campaign.templateIds.map(Number) : [];
+        const allowed = active.filter(t => allowedIds.includes(t.id));
+        return allowed.length > 0 ? allowed : active;
+    }
+
+    /**
+     * The template of a kind a campaign uses today; the first built-in when no template is active
+     */
+    async pickForCampaign(campaign: { startDate: Date | null; templateIds?: unknown }, kind: TemplateKind): Promise<ContentTemplate> {
+        const pool = await this.getPool(campaign, kind);
+
+        if (pool.length === 0) {
+            const fallback = DEFAULT_TEMPLATES.find(t => t.kind === kind)!;
+            return { id: 0, examples: null, isActive: true, createdAt: null, updatedAt: null, ...fallback };
+        }
+
+        const startDate = campaign.startDate || new Date();
+        const daysSinceStart = Math.floor((Date.now() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+        return pool[Math.floor(daysSinceStart / ROTATION_DAYS[kind]) % pool.length];
+    }
+}
+
+export const contentTemplateService = new ContentTemplateService();
@@ -13,6 +13,8 @@
  */
 
 import { geminiService } from '../ai/gemini';
+import { FlowStateStore } from '../flowStateStore';
+import { adBroadcastService } from './adBroadcastService';
 
 // ─────────────────────────────────────────────
 // Types
@@ -37,29 +39,27 @@ interface CustomPostSession {
 // Service
 // ─────────────────────────────────────────────
 
-class CustomCampaignService {
-    private sessions: Map<string, CustomPostSession> = new Map();
+// How long before an idle session is auto-discarded (15 minutes)
+const SESSION_TTL_MS = 15 * 60 * 1000;
 
-    // How long before an idle session is auto-discarded (15 minutes)
-    private readonly SESSION_TTL_MS = 15 * 60 * 1000;
+class CustomCampaignService {
+    // Persisted in the DB so a restart mid-session doesn't lose the topic or uploaded photo
+    private sessions = new FlowStateStore<CustomPostSession>('custom_post', SESSION_TTL_MS, session => this._buildResumePrompt(session));
 
     // ─── Public API ───────────────────────────
 
     /** Called when owner triggers the `start_custom_post` tool */
-    public startSession(phone: string): string {
+    public async startSession(phone: string): Promise<string> {
         // Guard: if a session already exists (e.g. duplicate tool calls from multiple workers),
         // don't reset it — just nudge the owner to continue.
-        if (this.sessions.has(phone)) {
-            const existing = this.sessions.get(phone)!;
-            if (Date.now() - existing.startedAt < this.SESSION_TTL_MS) {
-                return (
-                    '⚠️ A custom post session is already in progress.\n\n' +
-                    'Please continue from where we left off, or type *cancel* to start fresh.'
-                );
-            }
+        if (await this.hasActiveSession(phone)) {
+            return (
+                '⚠️ A custom post session is already in progress.\n\n' +
+                'Please continue from where we left off, or type *cancel* to start fresh.'
+            );
         }
 
-        this.sessions.set(phone, {
+        await this.sessions.set(phone, {
             step: 'awaiting_topic',
             topic: '',
             wantsPhoto: false,
@@ -76,21 +76,21 @@ class CustomCampaignService {
     }
 
     /** Returns true if there is an active session for this phone */
-    public hasActiveSession(phone: string): boolean {
-        const session = this.sessions.get(phone);
+    public async hasActiveSession(phone: string): Promise<boolean> {
+        const session = await this.sessions.get(phone);
         if (!session) return false;
 
         // Auto-expire stale sessions
-        if (Date.now() - session.startedAt > this.SESSION_TTL_MS) {
-            this.sessions.delete(phone);
+        if (Date.now() - session.startedAt > SESSION_TTL_MS) {
+            await this.sessions.delete(phone);
             return false;
         }
         return true;
     }
 
     /** Cancel an active session */
-    public cancelSession(phone: string): void {
-        this.sessions.delete(phone);
+    public async cancelSession(phone: string): Promise<void> {
+        await this.sessions.delete(phone);
     }
 
     /**
@@ -104,9 +104,9 @@ class CustomCampaignService {
         text: string,
         client: any
     ): Promise<string | null> {
-        if (!this.hasActiveSession(phone)) return null;
+        if (!(await this.hasActiveSession(phone))) return null;
 
-        const session = this.sessions.get(phone)!;
+        const session = (await this.sessions.get(phone))!;
         const normalized = text.trim().toLowerCase();
 
         // Owner can cancel at any time
@@ -116,7 +116,7 @@ class CustomCampaignService {
             normalized === 'abort' ||
             normalized === 'quit'
         ) {
-            this.cancelSession(phone);
+            await this.cancelSession(phone);
             return '❌ Custom post cancelled. Nothing was sent.';
         }
 
@@ -125,14 +125,14 @@ class CustomCampaignService {
                 return await this._handleTopic(phone, session, text);
 
             case 'awaiting_photo_choice':
-                return this._handlePhotoChoice(phone, session, normalized);
+                return await this._handlePhotoChoice(phone, session, normalized);
 
             case 'awaiting_photo':
                 // Owner typed something while we expected a photo
                 if (['skip', 'no', 'text only', 'text-only', 'none'].some(k => normalized.includes(k))) {
                     session.wantsPhoto = false;
                     session.step = 'awaiting_confirmation';
-                    this.sessions.set(phone, session);
+                    await this.sessions.set(phone, session);
                     return this._buildConfirmationPrompt(session);
                 }
                 return (
@@ -157,9 +157,9 @@ class CustomCampaignService {
         imageBuffer: Buffer,
         client: any
     ): Promise<string | null> {
-        if (!this.hasActiveSession(phone)) return null;
+        if (!(await this.hasActiveSession(phone))) return null;
 
-        const session = this.sessions.get(phone)!;
+        const session = (await this.sessions.get(phone))!;
 
         if (session.step !== 'awaiting_photo') {
             // Not expecting a photo — ignore silently (return null to let normal flow handle it)
@@ -168,7 +168,7 @@ class CustomCampaignService {
 
         session.imageBuffer = imageBuffer;
         session.step = 'awaiting_confirmation';
-        this.sessions.set(phone, session);
+        await this.sessions.set(phone, session);
 
         return this._buildConfirmationPrompt(session);
     }
@@ -182,7 +182,7 @@ class CustomCampaignService {
     ): Promise<string> {
         session.topic = text;
         session.step = 'awaiting_photo_choice';
-        this.sessions.set(phone, session);
+        await this.sessions.set(phone, session);
 
         return (
             `✅ Got it!\n\n` +
@@ -191,11 +191,11 @@ class CustomCampaignService {
         );
     }
 
-    private _handlePhotoChoice(
+    private async _handlePhotoChoice(
         phone: string,
         session: CustomPostSession,
         normalized: string
-    ): string {
+    ): Promise<string> {
         const wantsPhoto = ['yes', 'yeah', 'yep', 'photo', 'image', 'pic', 'picture', 'add photo', 'with photo'].some(k =>
             normalized.includes(k)
         );
@@ -204,14 +204,14 @@ class CustomCampaignService {
 
         if (wantsPhoto) {
             session.step = 'awaiting_photo';
-            this.sessions.set(phone, session);
+            await this.sessions.set(phone, session);
             return (
                 '📸 Perfect! Please send me the photo now.\n\n' +
                 '_(Type *skip* if you change your mind and want text-only.)_'
             );
         } else {
             session.step = 'awaiting_confirmation';
-            this.sessions.set(phone, session);
+            await this.sessions.set(phone, session);
             return this._buildConfirmationPrompt(session);
         }
     }
@@ -231,6 +231,25 @@ class CustomCampaignService {
         );
     }
 
+    /** Sent when a restart finds the session still open; null once it has run out */
+    private _buildResumePrompt(session: CustomPostSession): string | null {
+        if (Date.now() - session.startedAt > SESSION_TTL_MS) return null;
+
+        const intro = '🔁 I was restarted, but your custom post is still open (type *cancel* to drop it).\n\n';
+        switch (session.step) {
+            case 'awaiting_topic':
+                return intro + '✏️ *What is this post about?*';
+            case 'awaiting_photo_choice':
+                return intro + '🖼️ *Do you want to add a photo to this post?*\n\nReply *yes* to include a photo, or *no* for a text-only post.';
+            case 'awaiting_photo':
+                return intro + '📸 Please send me the photo now, or type *skip* for a text-only post.';
+            case 'awaiting_confirmation':
+                return intro + this._buildConfirmationPrompt(session);
+            default:
+                return null;
+        }
+    }
+
     private async _handleConfirmation(
         phone: string,
         session: CustomPostSession,
@@ -246,7 +265,7 @@ class CustomCampaignService {
 
         if (isConfirmed) {
             // Generate and broadcast
-            this.sessions.delete(phone); // Clear session before async work
+            await this.sessions.delete(phone); // Clear session before async work
             return await this._generateAndBroadcast(session, client);
         }
 
@@ -259,7 +278,7 @@ class CustomCampaignService {
             session.step = 'awaiting_topic';
             session.imageBuffer = null;
             session.draftText = '';
-            this.sessions.set(phone, session);
+            await this.sessions.set(phone, session);
             return (
                 '✏️ *Let\'s start over.* What is this post about?\n\n' +
                 '_(Your previous photo has been cleared.)_'
@@ -272,7 +291,7 @@ class CustomCampaignService {
         );
 
         if (isCancel) {
-            this.cancelSession(phone);
+            await this.cancelSession(phone);
             return '❌ Post cancelled. Come back anytime to create a new custom post!';
         }
 
@@ -361,12 +380,14 @@ Output ONLY the final post text, nothing else.`;
         for (let i = 0; i < groups.length; i++) {
             const groupJid = groups[i];
             try {
-                if (imageBuffer) {
-                    await client.sendImage(groupJid, imageBuffer, text);
-                } else {
-                    await client.sendText(groupJid, text);
-                }
+                const sent = imageBuffer
+                    ? await client.sendImage(groupJid, imageBuffer, text)
+                    : await client.sendText(groupJid, text);
                 successCount++;
+
+                if (sent?.key?.id) {
+                    await adBroadcastService.record({ source: 'custom', platform: 'whatsapp', groupJid, messageId: sent.key.id });
+                }
                 console.log(`✅ [CustomCampaign] Sent to ${groupJid} (${i + 1}/${groups.length})`);
             } catch (err: any) {
                 failCount++;
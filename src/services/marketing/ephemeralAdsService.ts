@@ -1,112 +1,248 @@
 
 import fs from 'fs';
 import path from 'path';
-
-interface EphemeralAd {
-    id: string;
-    jid: string;
-    messageKey: any;
-    sentAt: number;
-    ttlMinutes: number; // Time to live in minutes
+import { db, withRetry } from '../../database';
+import { ephemeralAds, marketingCampaigns } from '../../database/schema';
+import { and, asc, eq, isNull, lte, or } from 'drizzle-orm';
+import { adBroadcastService, BroadcastDeleteReason } from './adBroadcastService';
+
+export type AdPlatform = 'whatsapp' | 'telegram';
+
+export interface TrackAdOptions {
+    campaignId?: number | null;
+    platform: AdPlatform;
+    chatId: string;
+    messageId: string;
+    messageKey?: any; // Baileys key, required to delete on WhatsApp
+    ttlMinutes: number; // 0 = never delete
 }
 
+// Failed deletes are retried with exponential backoff, then given up on
+const MAX_DELETE_ATTEMPTS = 5;
+const RETRY_BASE_MS = 5 * 60 * 1000; // 5 min, 10 min, 20 min, ...
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
 export class EphemeralAdsService {
-    private storagePath = path.join(process.cwd(), 'ephemeral_ads.json');
-    private ads: EphemeralAd[] = [];
+    // Pre-database storage, imported once on startup
+    private legacyStoragePath = path.join(process.cwd(), 'ephemeral_ads.json');
     private cleanupInterval: NodeJS.Timeout | null = null;
     private client: any = null; // WhatsApp client reference
+    private telegramClient: any = null;
+    private isCleaning = false;
 
-    constructor(customStoragePath?: string) {
-        if (customStoragePath) {
-            this.storagePath = customStoragePath;
-        }
-        this.loadAds();
+    constructor() {
         // Run cleanup check every 5 minutes
         this.cleanupInterval = setInterval(() => this.runCleanup(), 5 * 60 * 1000);
     }
 
     public setClient(client: any) {
         this.client = client;
+        this.importLegacyFile().catch(e => console.error('Failed to import legacy ephemeral ads:', e));
     }
 
-    private loadAds() {
+    public setTelegramClient(client: any) {
+        this.telegramClient = client;
+    }
+
+    /**
+     * Track an ad for auto-deletion
+     */
+    public async trackAd(options: TrackAdOptions): Promise<void> {
+        if (!options.messageId) return;
+
+        const sentAt = new Date();
+        const expiresAt = options.ttlMinutes > 0
+            ? new Date(sentAt.getTime() + options.ttlMinutes * 60 * 1000)
+            : null;
+
         try {
-            if (fs.existsSync(this.storagePath)) {
-                const data = fs.readFileSync(this.storagePath, 'utf-8');
-                this.ads = JSON.parse(data);
+            await withRetry(async () => {
+                await db.insert(ephemeralAds).values({
+                    campaignId: options.campaignId ?? null,
+                    platform: options.platform,
+                    chatId: options.chatId,
+                    messageId: options.messageId,
+                    messageKey: options.messageKey ?? null,
+                    sentAt,
+                    expiresAt,
+                });
+            });
+
+            if (expiresAt) {
+                console.log(`🕒 Tracking ad in ${options.chatId} for cleanup in ${options.ttlMinutes} mins`);
+            } else {
+                console.log(`📌 Tracking ad in ${options.chatId} (never auto-deleted)`);
             }
         } catch (e) {
-            console.error('Failed to load ephemeral ads:', e);
-            this.ads = [];
+            console.error(`Failed to track ad in ${options.chatId}:`, e);
         }
     }
 
-    private saveAds() {
-        try {
-            fs.writeFileSync(this.storagePath, JSON.stringify(this.ads, null, 2));
-        } catch (e) {
-            console.error('Failed to save ephemeral ads:', e);
-        }
+    /**
+     * Ads currently live in groups/channels, oldest first
+     */
+    public async listLiveAds() {
+        return await withRetry(async () => {
+            return await db.select({
+                id: ephemeralAds.id,
+                campaignId: ephemeralAds.campaignId,
+                campaignName: marketingCampaigns.name,
+                platform: ephemeralAds.platform,
+                chatId: ephemeralAds.chatId,
+                messageId: ephemeralAds.messageId,
+                sentAt: ephemeralAds.sentAt,
+                expiresAt: ephemeralAds.expiresAt,
+                deleteAttempts: ephemeralAds.deleteAttempts,
+                nextAttemptAt: ephemeralAds.nextAttemptAt,
+                lastError: ephemeralAds.lastError,
+            })
+                .from(ephemeralAds)
+                .leftJoin(marketingCampaigns, eq(ephemeralAds.campaignId, marketingCampaigns.id))
+                .where(eq(ephemeralAds.status, 'live'))
+                .orderBy(asc(ephemeralAds.sentAt));
+        });
     }
 
     /**
-     * Track an ad for auto-deletion
-     * @param jid Group JID
-     * @param messageKey The key object from the sent message
-     * @param ttlMinutes How long to keep it (default 120 mins = 2 hours)
+     * Delete a live ad right away, ignoring its TTL and any backoff.
+     * Returns false if the ad doesn't exist or is no longer live.
      */
-    public trackAd(jid: string, messageKey: any, ttlMinutes: number = 30) {
-        if (!messageKey) return;
-
-        this.ads.push({
-            id: Math.random().toString(36).substring(7),
-            jid,
-            messageKey,
-            sentAt: Date.now(),
-            ttlMinutes
+    public async deleteNow(id: number): Promise<boolean> {
+        const ad = await withRetry(async () => {
+            return await db.select().from(ephemeralAds).where(eq(ephemeralAds.id, id)).then(rows => rows[0]);
         });
-        this.saveAds();
-        console.log(`🕒 Tracking ad in ${jid} for cleanup in ${ttlMinutes} mins`);
+
+        if (!ad || ad.status !== 'live') return false;
+
+        const deleted = await this.deleteAd(ad, 'manual');
+        if (!deleted) {
+            throw new Error(`Could not delete ad ${id} from ${ad.chatId}`);
+        }
+        return true;
     }
 
     /**
      * Check for expired ads and delete them
      */
     public async runCleanup() {
-        if (!this.client) {
-            console.log('⚠️ Cleanup skipped: Client not set');
-            return;
+        if (this.isCleaning) return;
+        this.isCleaning = true;
+
+        try {
+            const now = new Date();
+            const dueAds = await withRetry(async () => {
+                return await db.select()
+                    .from(ephemeralAds)
+                    .where(and(
+                        eq(ephemeralAds.status, 'live'),
+                        lte(ephemeralAds.expiresAt, now),
+                        or(isNull(ephemeralAds.nextAttemptAt), lte(ephemeralAds.nextAttemptAt, now))
+                    ));
+            });
+
+            if (dueAds.length === 0) return;
+
+            console.log(`🧹 Running Ephemeral Ads Cleanup. ${dueAds.length} ads due.`);
+
+            let deletedCount = 0;
+            for (const ad of dueAds) {
+                console.log(`🗑️ Deleting expired ad from ${ad.chatId} (Age: ${Math.round((now.getTime() - ad.sentAt!.getTime()) / 60000)} mins)`);
+                if (await this.deleteAd(ad, 'expired')) deletedCount++;
+            }
+
+            console.log(`✅ Cleanup complete. Deleted ${deletedCount}/${dueAds.length} ads.`);
+        } catch (e) {
+            console.error('Ephemeral ads cleanup failed:', e);
+        } finally {
+            this.isCleaning = false;
         }
+    }
 
-        const now = Date.now();
-        const remainingAds: EphemeralAd[] = [];
-        let deletedCount = 0;
-
-        console.log(`🧹 Running Ephemeral Ads Cleanup. Tracking ${this.ads.length} ads.`);
-
-        for (const ad of this.ads) {
-            const expiryTime = ad.sentAt + (ad.ttlMinutes * 60 * 1000);
-
-            if (now >= expiryTime) {
-                // Time to delete!
-                try {
-                    console.log(`🗑️ Deleting expired ad from ${ad.jid} (Age: ${Math.round((now - ad.sentAt) / 60000)} mins)`);
-                    await this.client.deleteMessage(ad.jid, ad.messageKey);
-                    deletedCount++;
-                } catch (e) {
-                    console.error(`❌ Failed to delete ad in ${ad.jid}:`, e);
-                    // Keep it to try again? No, assume failed or already gone to avoid loops.
-                }
+    /**
+     * Deletes one ad on its platform and records the outcome (deleted, or retry with backoff)
+     */
+    private async deleteAd(ad: typeof ephemeralAds.$inferSelect, reason: BroadcastDeleteReason): Promise<boolean> {
+        let deleted = false;
+        let error: string | null = null;
+
+        if (ad.platform === 'telegram') {
+            if (!this.telegramClient) {
+                error = 'Telegram bot not connected';
             } else {
-                remainingAds.push(ad);
+                deleted = await this.telegramClient.deleteMessage(ad.chatId, ad.messageId);
             }
+        } else {
+            if (!this.client) {
+                error = 'WhatsApp client not connected';
+            } else {
+                deleted = await this.client.deleteMessage(ad.chatId, ad.messageKey);
+            }
+        }
+
+        if (deleted) {
+            await withRetry(async () => {
+                await db.update(ephemeralAds)
+                    .set({ status: 'deleted', deletedAt: new Date(), lastError: null, nextAttemptAt: null })
+                    .where(eq(ephemeralAds.id, ad.id));
+            });
+            await adBroadcastService.markDeleted(ad.chatId, ad.messageId, reason);
+            return true;
+        }
+
+        // Transport missing isn't the ad's fault: try again next run without burning an attempt
+        if (error) {
+            console.log(`⚠️ Cleanup deferred for ad ${ad.id}: ${error}`);
+            return false;
         }
 
-        if (this.ads.length !== remainingAds.length) {
-            this.ads = remainingAds;
-            this.saveAds();
-            console.log(`✅ Cleanup complete. Deleted ${deletedCount} ads. Remaining: ${this.ads.length}`);
+        const attempts = (ad.deleteAttempts || 0) + 1;
+        const gaveUp = attempts >= MAX_DELETE_ATTEMPTS;
+        const backoffMs = Math.min(RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+
+        await withRetry(async () => {
+            await db.update(ephemeralAds)
+                .set({
+                    status: gaveUp ? 'failed' : 'live',
+                    deleteAttempts: attempts,
+                    nextAttemptAt: gaveUp ? null : new Date(Date.now() + backoffMs),
+                    lastError: 'Delete request was rejected',
+                })
+                .where(eq(ephemeralAds.id, ad.id));
+        });
+
+        if (gaveUp) {
+            console.error(`❌ Giving up on deleting ad ${ad.id} in ${ad.chatId} after ${attempts} attempts`);
+        } else {
+            console.log(`🔁 Ad ${ad.id} delete failed (attempt ${attempts}/${MAX_DELETE_ATTEMPTS}). Retrying in ${Math.round(backoffMs / 60000)} mins`);
         }
+        return false;
+    }
+
+    /**
+     * Moves ads tracked in the old ephemeral_ads.json file into the database
+     */
+    private async importLegacyFile() {
+        if (!fs.existsSync(this.legacyStoragePath)) return;
+
+        const legacyAds: { jid: string, messageKey: any, sentAt: number, ttlMinutes: number }[] =
+            JSON.parse(fs.readFileSync(this.legacyStoragePath, 'utf-8'));
+
+        for (const ad of legacyAds) {
+            if (!ad.messageKey?.id) continue;
+            await withRetry(async () => {
+                await db.insert(ephemeralAds).values({
+                    platform: 'whatsapp',
+                    chatId: ad.jid,
+                    messageId: ad.messageKey.id,
+                    messageKey: ad.messageKey,
+                    sentAt: new Date(ad.sentAt),
+                    expiresAt: new Date(ad.sentAt + ad.ttlMinutes * 60 * 1000),
+                });
+            });
+        }
+
+        fs.renameSync(this.legacyStoragePath, `${this.legacyStoragePath}.imported`);
+        console.log(`📦 Imported ${legacyAds.length} ephemeral ads from ${path.basename(this.legacyStoragePath)}`);
     }
 }
 
@@ -0,0 +1,194 @@
+/**
+ * Experiment Service
+ * A/B tests for campaigns in experiment mode: each slot sends two copies written with different
+ * pitch frameworks to two halves of the campaign's groups. Which frameworks get tested is chosen
+ * by Thompson sampling over each framework's past engagement for that campaign, so frameworks
+ * that win keep getting picked while the others are still tried now and then.
+ */
+
+import crypto from 'crypto';
+import { db } from '../../database';
+import { sql } from 'drizzle-orm';
+import { contentTemplateService, ContentTemplate } from './contentTemplateService';
+
+export const VARIANT_LABELS = ['A', 'B'];
+
+export interface VariantAssignment {
+    label: string;
+    index: number;
+    count: number;
+    key: string; // Shared by all variants of one test; also seeds the group split
+}
+
+// Posts younger than this haven't collected their reads yet and would drag their framework down
+const MIN_RESULT_AGE_HOURS = 6;
+// A reply is worth this many reads in the engagement score
+const REPLY_WEIGHT = 5;
+
+interface FrameworkStats {
+    posts: number;
+    reward: number; // Sum of per-post engagement scores (0-1)
+}
+
+export class ExperimentService {
+    /**
+     * Picks up to `count` different frameworks for a test. Each framework's score is sampled from
+     * Beta(1 + reward, 1 + posts - reward); untested frameworks sample from Beta(1, 1) and so get tried.
+     */
+    async selectFrameworks(campaign: { id: number; startDate: Date | null; templateIds?: unknown }, count: number = VARIANT_LABELS.length): Promise<ContentTemplate[]> {
+        const pool = await contentTemplateService.getPool(campaign, 'framework');
+        if (pool.length <= 1) return pool;
+
+        const stats = await this.getFrameworkStats(campaign.id);
+        return pool
+            .map(template => {
+                const s = stats.get(template.name) || { posts: 0, reward: 0 };
+                return { template, sample: this.sampleBeta(1 + s.reward, 1 + s.posts - s.reward) };
+            })
+            .sort((a, b) => b.sample - a.sample)
+            .slice(0, count)
+            .map(s => s.template);
+    }
+
+    /**
+     * Splits targets evenly between variants. The order is shuffled by the test key, so every
+     * variant's dispatch computes the same split and groups don't always get the same variant.
+     */
+    splitTargets<T extends { id: string }>(targets: T[], variant: VariantAssignment): T[] {
+        const rank = (id: string) => crypto.createHash('md5').update(`${variant.key}|${id}`).digest('hex');
+        return [...targets]
+            .sort((a, b) => rank(a.id).localeCompare(rank(b.id)))
+            .filter((_, i) => i % variant.count === variant.index);
+    }
+
+    private async getFrameworkStats(campaignId: number): Promise<Map<string, FrameworkStats>> {
+        const result = await db.execute(sql`
+            SELECT b.framework,
+                count(*)::int AS posts,
+                coalesce(sum(least(1, (coalesce(e.reads, 0) + ${REPLY_WEIGHT} * coalesce(e.replies, 0))::float / b.audience_size)), 0) AS reward
+            FROM ad_broadcasts b
+            LEFT JOIN (
+                SELECT broadcast_id,
+                    count(DISTINCT user_phone) FILTER (WHERE type = 'read') AS reads,
+                    count(*) FILTER (WHERE type = 'reply') AS replies
+                FROM ad_engagements
+                WHERE broadcast_id IS NOT NULL
+                GROUP BY broadcast_id
+            ) e ON e.broadcast_id = b.id
+            WHERE b.campaign_id = ${campaignId}
+                AND b.framework IS NOT NULL
+                AND b.audience_size > 0
+                AND b.sent_at < now() - make_interval(hours => ${MIN_RESULT_AGE_HOURS})
+            GROUP BY b.framework
+        `);
+        const rows = Array.isArray(result) ? result : (result?.rows || []);
+        return new Map((rows as any[]).map(r => [r.framework as string, { posts: Number(r.posts), reward: Number(r.reward) }]));
+    }
+
+    /**
+     * A/B test results: per campaign and framework, how often it won its test and how it engaged.
+     * A test is won by the variant with the higher engagement score (reads + 5 × replies per member).
+     */
+    async getResults(campaignId?: number) {
+        const campaignFilter = campaignId ? sql`AND b.campaign_id = ${campaignId}` : sql``;
+        const result = await db.execute(sql`
+            SELECT b.campaign_id, c.name AS campaign_name, b.experiment_key, b.variant, b.framework,
+                count(*)::int AS posts,
+                min(b.sent_at) AS sent_at,
+                coalesce(sum(b.audience_size), 0)::int AS audience,
+                coalesce(sum(e.reads), 0)::int AS reads,
+                coalesce(sum(e.replies), 0)::int AS replies
+            FROM ad_broadcasts b
+            LEFT JOIN (
+                SELECT broadcast_id,
+                    count(DISTINCT user_phone) FILTER (WHERE type = 'read') AS reads,
+                    count(*) FILTER (WHERE type = 'reply') AS replies
+                FROM ad_engagements
+                WHERE broadcast_id IS NOT NULL
+                GROUP BY broadcast_id
+            ) e ON e.broadcast_id = b.id
+            LEFT JOIN marketing_campaigns c ON c.id = b.campaign_id
+            WHERE b.experiment_key IS NOT NULL ${campaignFilter}
+            GROUP BY b.campaign_id, c.name, b.experiment_key, b.variant, b.framework
+            ORDER BY min(b.sent_at) DESC
+        `);
+        const rows = (Array.isArray(result) ? result : (result?.rows || [])) as any[];
+
+        const score = (r: { audience: number; reads: number; replies: number }) =>
+            r.audience ? (r.reads + REPLY_WEIGHT * r.replies) / r.audience : 0;
+        const rate = (count: number, audience: number) => audience ? Math.round((count / audience) * 100) : null;
+
+        // Group variants into tests
+        const tests = new Map<string, any>();
+        for (const r of rows) {
+            const key = `${r.campaign_id}|${r.experiment_key}`;
+            if (!tests.has(key)) {
+                tests.set(key, { campaignId: r.campaign_id, campaignName: r.campaign_name, key: r.experiment_key, sentAt: r.sent_at, variants: [] });
+            }
+            const variant = { label: r.variant, framework: r.framework, posts: Number(r.posts), audience: Number(r.audience), reads: Number(r.reads), replies: Number(r.replies) };
+            tests.get(key).variants.push({ ...variant, reachRate: rate(variant.reads, variant.audience), replyRate: rate(variant.replies, variant.audience) });
+        }
+
+        // Per framework: tests entered and won, plus pooled engagement
+        const frameworks = new Map<string, any>();
+        for (const test of tests.values()) {
+            test.variants.sort((a: any, b: any) => String(a.label).localeCompare(String(b.label)));
+            const scored = test.variants.filter((v: any) => v.audience > 0);
+            const best = scored.length > 1 ? scored.reduce((a: any, b: any) => score(b) > score(a) ? b : a) : null;
+            // A tie or a test without reads yet has no winner
+            test.winner = best && scored.some((v: any) => v !== best && score(v) < score(best)) ? best.label : null;
+
+            for (const v of test.variants) {
+                const key = `${test.campaignId}|${v.framework}`;
+                if (!frameworks.has(key)) {
+                    frameworks.set(key, { campaignId: test.campaignId, campaignName: test.campaignName, framework: v.framework, tests: 0, wins: 0, posts: 0, audience: 0, reads: 0, replies: 0 });
+                }
+                const f = frameworks.get(key);
+                f.tests++;
+                if (test.winner === v.label) f.wins++;
+                f.posts += v.posts;
+                f.audience += v.audience;
+                f.reads += v.reads;
+                f.replies += v.replies;
+            }
+        }
+
+        return {
+            byFramework: [...frameworks.values()]
+                .map(f => ({ ...f, winRate: f.tests ? Math.round((f.wins / f.tests) * 100) : 0, reachRate: rate(f.reads, f.audience), replyRate: rate(f.replies, f.audience) }))
+                .sort((a, b) => b.winRate - a.winRate || b.tests - a.tests),
+            recentTests: [...tests.values()].slice(0, 30),
+        };
+    }
+
+    /**
+     * Beta sample as X / (X + Y) with X ~ Gamma(alpha), Y ~ Gamma(beta)
+     */
+    private sampleBeta(alpha: number, beta: number): number {
+        const x = this.sampleGamma(alpha);
+        const y = this.sampleGamma(beta);
+        return x / (x + y);
+    }
+
+    /**
+     * Marsaglia-Tsang Gamma(shape, 1) sampler (shape >= 1, which always holds here)
+     */
+    private sampleGamma(shape: number): number {
+        const d = shape - 1 / 3;
+        const c = 1 / Math.sqrt(9 * d);
+        while (true) {
+            let x: number;
+            let v: number;
+            do {
+                // Standard normal via Box-Muller
+                x = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+                v = 1 + c * x;
+            } while (v <= 0);
+            v = v * v * v;
+            const u = Math.random();
+            if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+        }
+    }
+}
+
+export const experimentService = new ExperimentService();
@@ -1,19 +1,87 @@
 import { db } from '../../database';
-import { businessProfile, marketingCampaigns, scheduledPosts } from '../../database/schema';
-import { eq, desc } from 'drizzle-orm';
+import { adEngagements, businessProfile, marketingCampaigns, scheduledPosts } from '../../database/schema';
+import { and, eq, desc, ne } from 'drizzle-orm';
+import { FlowStateStore } from '../flowStateStore';
+import { outboxService } from '../outboxService';
+import { mediaIngestionService } from '../mediaIngestionService';
+import { adBroadcastService, BroadcastSource } from './adBroadcastService';
+import { experimentService, VariantAssignment, VARIANT_LABELS } from './experimentService';
+import type { ContentTemplate } from './contentTemplateService';
+
+export type BroadcastPlatform = 'whatsapp' | 'telegram';
+
+interface BroadcastTarget {
+    platform: BroadcastPlatform;
+    id: string;
+}
+
+export interface PreparedAd {
+    text: string;
+    imageFile: string | null; // Stored file name in media/
+    framework?: string | null;
+    visualStyle?: string | null;
+}
 
+export interface BroadcastOptions {
+    source: BroadcastSource;
+    platforms?: BroadcastPlatform[]; // Only some of the campaign's networks
+    slot?: string;
+    scheduledPostId?: number;
+    variant?: VariantAssignment; // A/B test variant: only this variant's share of the groups
+}
+
+// The onboarding interview, by step (also repeated when a session resumes after a restart)
+const ONBOARDING_QUESTIONS: Record<number, string> = {
+    1: '**What is your main campaign message or platform?** (e.g., Youth Employment, Healthcare Reform, Infrastructure Development)',
+    2: '**Who are your target voters?** (e.g., Youth 18-35, Women, Farmers, Urban professionals, Rural communities)',
+    3: '**What makes your candidacy unique?** Why should voters choose YOU over other candidates?',
+};
 
 export class MarketingService {
     private static instance: MarketingService;
-    // Simple in-memory state for onboarding. 
-    // In production, this should be in the DB (conversations table) or Redis.
-    private onboardingSessions: Map<string, { step: number, data: any }> = new Map();
+    // Onboarding interview state, persisted so it survives restarts (expires after 24h idle)
+    private onboardingSessions = new FlowStateStore<{ step: number, data: any }>(
+        'marketing_onboarding',
+        24 * 60 * 60 * 1000,
+        session => ONBOARDING_QUESTIONS[session.step]
+            ? `🔁 I was restarted, but your campaign setup is still open. Picking up where we left off:\n\n${ONBOARDING_QUESTIONS[session.step]}`
+            : null
+    );
 
     // Global Cooldown Map to prevent double-posting to the same group (e.g. from multiple campaigns triggering at once)
     private lastGroupPostTime: Map<string, number> = new Map();
     private readonly GROUP_COOLDOWN_MS = 15 * 60 * 1000; // 15 Minutes
 
-    private constructor() { }
+    // Telegram transport (set once the bot connects); campaigns skip Telegram without it
+    private telegramClient: any = null;
+
+    private constructor() {
+        // Ads go out through the outbox; once one is posted, schedule its auto-deletion and record it for analytics
+        outboxService.onSent('broadcast', async (row, sent) => {
+            const meta = (row.metadata || {}) as {
+                campaignId?: number, adTtlMinutes?: number, source?: BroadcastSource, slot?: string,
+                scheduledPostId?: number, framework?: string, visualStyle?: string,
+                variant?: string, experimentKey?: string
+            };
+            await this.trackSentAd({ id: meta.campaignId, adTtlMinutes: meta.adTtlMinutes }, row.platform as BroadcastPlatform, row.jid, sent?.id, sent?.key);
+
+            if (sent?.id) {
+                await adBroadcastService.record({
+                    campaignId: meta.campaignId,
+                    scheduledPostId: meta.scheduledPostId,
+                    source: meta.source || 'slot',
+                    platform: row.platform as BroadcastPlatform,
+                    groupJid: row.jid,
+                    messageId: sent.id,
+                    framework: meta.framework,
+                    visualStyle: meta.visualStyle,
+                    slot: meta.slot,
+                    variant: meta.variant,
+                    experimentKey: meta.experimentKey,
+                });
+            }
+        });
+    }
 
     public static getInstance(): MarketingService {
         if (!MarketingService.instance) {
@@ -22,39 +90,43 @@ export class MarketingService {
         return MarketingService.instance;
     }
 
+    public setTelegramClient(client: any) {
+        this.telegramClient = client;
+    }
+
     /**
      * Start the onboarding interview for a user
      */
     public async startOnboarding(contactId: string): Promise<string> {
-        this.onboardingSessions.set(contactId, { step: 1, data: {} });
-        return "👋 Welcome to Campaign Pro! I'm your AI Campaign Manager for Kenya 2027.\n\nLet's set up your campaign profile so I can start broadcasting your message.\n\nFirst question: **What is your main campaign message or platform?** (e.g., Youth Employment, Healthcare Reform, Infrastructure Development)";
+        await this.onboardingSessions.set(contactId, { step: 1, data: {} });
+        return `👋 Welcome to Campaign Pro! I'm your AI Campaign Manager for Kenya 2027.\n\nLet's set up your campaign profile so I can start broadcasting your message.\n\nFirst question: ${ONBOARDING_QUESTIONS[1]}`;
     }
 
     /**
      * Handle user response during onboarding
      */
     public async handleOnboardingResponse(contactId: string, message: string): Promise<string | null> {
-        const session = this.onboardingSessions.get(contactId);
+        const session = await this.onboardingSessions.get(contactId);
         if (!session) return null; // Not in onboarding
 
         switch (session.step) {
             case 1:
                 session.data.productInfo = message;
                 session.step++;
-                this.onboardingSessions.set(contactId, session);
-                return "Got it. Next: **Who are your target voters?** (e.g., Youth 18-35, Women, Farmers, Urban professionals, Rural communities)";
+                await this.onboardingSessions.set(contactId, session);
+                return `Got it. Next: ${ONBOARDING_QUESTIONS[2]}`;
 
             case 2:
                 session.data.targetAudience = message;
                 session.step++;
-                this.onboardingSessions.set(contactId, session);
-                return "Understood. Last key question: **What makes your candidacy unique?** Why should voters choose YOU over other candidates?";
+                await this.onboardingSessions.set(contactId, session);
+                return `Understood. Last key question: ${ONBOARDING_QUESTIONS[3]}`;
 
             case 3:
                 session.data.uniqueSellingPoint = message;
                 // Finish Onboarding
                 await this.saveBusinessProfile(session.data);
-                this.onboardingSessions.delete(contactId);
+                await this.onboardingSessions.delete(contactId);
                 return "🎉 Excellent! Your campaign profile is saved.\n\nI will now start preparing your campaign messaging and broadcast schedule.\n\nYou can say 'create campaign' to get started.";
 
             default:
@@ -114,7 +186,10 @@ export class MarketingService {
             contentSource?: string,
             selectedProductId?: number | null,
             selectedShopId?: number | null
-        }
+        },
+        adTtlMinutes: number = 30, // Minutes before posted ads are deleted; 0 = never
+        templateIds?: number[], // Content templates to rotate through; none = every active one
+        experimentMode: boolean = false // A/B test frameworks in every slot
     ): Promise<string> {
         const hasProductContext = businessContext?.productInfo || (businessContext?.contentSource === 'existing' && (businessContext?.selectedProductId || businessContext?.selectedShopId));
         if (!await this.hasProfile() && (!businessContext || !hasProductContext)) {
@@ -157,7 +232,10 @@ export class MarketingService {
             companyLink: businessContext?.companyLink,
             contentSource: businessContext?.contentSource || 'ai',
             selectedProductId: businessContext?.selectedProductId ?? null,
-            selectedShopId: businessContext?.selectedShopId ?? null
+            selectedShopId: businessContext?.selectedShopId ?? null,
+            adTtlMinutes,
+            templateIds: templateIds?.length ? templateIds : null,
+            experimentMode
         }).returning();
 
         return `✅ Campaign '${name}' created! ID: ${campaign.id}. Use 'view schedule' to see upcoming posts.`;
@@ -178,9 +256,14 @@ export class MarketingService {
         uniqueSellingPoint?: string,
         brandVoice?: string,
         targetGroups?: any,
+        telegramTargets?: any,
+        platforms?: BroadcastPlatform[],
+        adTtlMinutes?: number,
         contentSource?: string,
         selectedProductId?: number | null,
-        selectedShopId?: number | null
+        selectedShopId?: number | null,
+        templateIds?: number[] | null,
+        experimentMode?: boolean
     }): Promise<void> {
         // If name is being updated, check for duplicates
         if (updates.name) {
@@ -222,6 +305,16 @@ export class MarketingService {
      * Delete a campaign
      */
     public async deleteCampaign(id: number): Promise<void> {
+        // Drop its unsent calendar posts; sent ones stay as history without the campaign
+        await db.delete(scheduledPosts)
+            .where(and(eq(scheduledPosts.campaignId, id), ne(scheduledPosts.status, 'sent')));
+        await db.update(scheduledPosts)
+            .set({ campaignId: null })
+            .where(eq(scheduledPosts.campaignId, id));
+        await db.update(adEngagements)
+            .set({ campaignId: null })
+            .where(eq(adEngagements.campaignId, id));
+
         await db.delete(marketingCampaigns)
             .where(eq(marketingCampaigns.id, id));
     }
@@ -280,12 +373,12 @@ export class MarketingService {
      * Execute a specific marketing slot for a SINGLE campaign
      * Called by Dynamic Scheduler
      */
-    public async executeSingleCampaignSlot(client: any, campaign: any, slotType: string, customInstructions?: string) {
+    public async executeSingleCampaignSlot(client: any, campaign: any, slotType: string, customInstructions?: string, source: BroadcastSource = 'slot') {
         console.log(`🚀 Executing Single Campaign Slot: ${slotType} for '${campaign.name}'`);
         try {
             // Only handle ad slots for political campaigns
             if (slotType.startsWith('ad')) {
-                await this.handleAdSlot(client, campaign, slotType, customInstructions);
+                await this.handleAdSlot(client, campaign, slotType, customInstructions, source);
             } else {
                 console.log(`⚠️ Skipping non-ad slot type: ${slotType} (Facts/motivational content disabled for campaign mode)`);
             }
@@ -299,7 +392,7 @@ export class MarketingService {
      * Kept for backward compatibility or manual triggers
      * Only accepts ad types - facts and non-ad content are no longer sent to groups
      */
-    public async executeMarketingSlot(client: any, slotType: 'ad_morning' | 'ad_afternoon' | 'ad_evening', customInstructions?: string) {
+    public async executeMarketingSlot(client: any, slotType: 'ad_morning' | 'ad_afternoon' | 'ad_evening', customInstructions?: string, source: BroadcastSource = 'slot') {
         console.log(`🚀 Executing Marketing Slot (Mass): ${slotType}`);
 
         // 1. Check for Active Campaigns (Fetch ALL active)
@@ -318,41 +411,103 @@ export class MarketingService {
         if (customInstructions) {
             console.log(`✨ Manual Post Detected ('${customInstructions.substring(0, 20)}...'). Merging audiences to prevent duplicates.`);
 
-            // A. Aggregate Target Groups
-            const uniqueTargetIds = new Set<string>();
-            let targetsAll = false;
-
-            for (const c of campaigns) {
-                const targets = c.targetGroups as string[] | null;
-                if (!targets || targets.length === 0) {
-                    targetsAll = true; // One campaign targets ALL, so the manual post should target ALL
-                    break;
+            // A. Aggregate Target Groups per platform
+            const mergeTargets = (platform: BroadcastPlatform, pick: (c: any) => string[] | null) => {
+                const uniqueTargetIds = new Set<string>();
+                for (const c of campaigns.filter(c => this.getCampaignPlatforms(c).includes(platform))) {
+                    const targets = pick(c);
+                    if (!targets || targets.length === 0) {
+                        return []; // One campaign targets ALL, so the manual post should target ALL
+                    }
+                    targets.forEach(t => uniqueTargetIds.add(t));
                 }
-                targets.forEach(t => uniqueTargetIds.add(t));
-            }
+                return Array.from(uniqueTargetIds);
+            };
+            const platforms = Array.from(new Set(campaigns.flatMap(c => this.getCampaignPlatforms(c))));
 
             // B. Construct 'Merged' Campaign
             // Use the first campaign as a template for other props, but override targets
             const mergedCampaign = {
                 ...campaigns[0],
                 name: "Manual Broadcast (Merged)",
-                targetGroups: targetsAll ? [] : Array.from(uniqueTargetIds) // Empty array triggers "ALL" logic in getBroadcastGroups
+                platforms,
+                // Empty arrays trigger the "ALL" logic in getBroadcastGroups / getTelegramBroadcastChats
+                targetGroups: mergeTargets('whatsapp', c => c.targetGroups as string[] | null),
+                telegramTargets: mergeTargets('telegram', c => c.telegramTargets as string[] | null)
             };
 
             // C. Execute Once
-            await this.executeSingleCampaignSlot(client, mergedCampaign, slotType, customInstructions);
+            await this.executeSingleCampaignSlot(client, mergedCampaign, slotType, customInstructions, source);
             return;
         }
 
         // 3. STANDARD SCHEDULE: Execute based on slot type for EACH campaign
         console.log(`🗓️ Scheduled Run: Executing ${campaigns.length} campaigns individually.`);
         const executions = campaigns.map(async (campaign) => {
-            await this.executeSingleCampaignSlot(client, campaign, slotType, customInstructions);
+            await this.executeSingleCampaignSlot(client, campaign, slotType, customInstructions, source);
         });
 
         await Promise.all(executions);
     }
 
+    /**
+     * Networks a campaign posts to. Campaigns created before Telegram support are WhatsApp-only.
+     */
+    private getCampaignPlatforms(campaign: any): BroadcastPlatform[] {
+        const platforms = campaign?.platforms as BroadcastPlatform[] | null;
+        if (!Array.isArray(platforms) || platforms.length === 0) return ['whatsapp'];
+        return platforms.filter(p => p === 'whatsapp' || p === 'telegram');
+    }
+
+    /**
+     * Resolves every group/channel the campaign should post to across its platforms
+     */
+    private async getBroadcastTargets(client: any, campaign: any): Promise<BroadcastTarget[]> {
+        const platforms = this.getCampaignPlatforms(campaign);
+        const targets: BroadcastTarget[] = [];
+
+        // One network being down must not block the other
+        if (platforms.includes('whatsapp') && client) {
+            try {
+                const groups = await this.getBroadcastGroups(client, campaign);
+                targets.push(...groups.map(id => ({ platform: 'whatsapp' as const, id })));
+            } catch (error) {
+                console.error('❌ Failed to load WhatsApp broadcast groups:', error);
+            }
+        }
+
+        if (platforms.includes('telegram')) {
+            try {
+                const chats = await this.getTelegramBroadcastChats(campaign);
+                targets.push(...chats.map(id => ({ platform: 'telegram' as const, id })));
+            } catch (error) {
+                console.error('❌ Failed to load Telegram broadcast chats:', error);
+            }
+        }
+
+        return targets;
+    }
+
+    private async getTelegramBroadcastChats(campaign: any): Promise<string[]> {
+        if (!this.telegramClient) {
+            console.log(`⚠️ Telegram bot not connected. Skipping Telegram targets for '${campaign?.name || 'Global'}'.`);
+            return [];
+        }
+
+        // Only chats where the bot is (still) an admin can be posted to
+        const adminChats: string[] = (await this.telegramClient.getBroadcastChats()).map((c: { id: string }) => c.id);
+        const telegramTargets = campaign?.telegramTargets as string[] | null;
+
+        if (telegramTargets && Array.isArray(telegramTargets) && telegramTargets.length > 0) {
+            const filtered = adminChats.filter(id => telegramTargets.some(t => String(t) === id));
+            console.log(`🎯 Targeted Telegram Broadcasting for '${campaign.name}': ${filtered.length} chats selected out of ${adminChats.length} total.`);
+            return filtered;
+        }
+
+        console.log(`📢 Broadcasting '${campaign?.name || 'Global'}' to ALL ${adminChats.length} Telegram chats (No specific targets set).`);
+        return adminChats;
+    }
+
     private async getBroadcastGroups(client: any, campaign: any): Promise<string[]> {
         // Fetch all WhatsApp groups the bot is a member of
         const allGroups = await client.getAllGroups();
@@ -375,20 +530,56 @@ export class MarketingService {
         return allGroups;
     }
 
-    private async handleAdSlot(client: any, campaign: any, slot: string, customInstructions?: string) {
-        const { adContentService } = await import('./adContentService');
+    private async handleAdSlot(client: any, campaign: any, slot: string, customInstructions: string | undefined, source: BroadcastSource) {
+        // A/B test: one copy per framework, each to its share of the groups
+        const frameworks = campaign.id && campaign.experimentMode ? await experimentService.selectFrameworks(campaign) : [];
+        if (frameworks.length > 1) {
+            const key = `${new Date().toISOString().slice(0, 16)} ${slot}`;
+            let queued = 0;
+            for (const [index, framework] of frameworks.entries()) {
+                console.log(`🧪 Variant ${VARIANT_LABELS[index]} for '${campaign.name}': ${framework.name}`);
+                const ad = await this.prepareAd(campaign, slot, customInstructions, framework);
+                queued += await this.broadcastAd(client, campaign, ad, {
+                    source,
+                    slot,
+                    variant: { label: VARIANT_LABELS[index], index, count: frameworks.length, key }
+                });
+            }
+            if (queued === 0) {
+                console.log('⚠️ No groups found to broadcast to');
+            }
+            return;
+        }
+
+        const ad = await this.prepareAd(campaign, slot, customInstructions);
+        const queued = await this.broadcastAd(client, campaign, ad, { source, slot });
+        if (queued === 0) {
+            console.log('⚠️ No groups found to broadcast to');
+        }
+    }
 
-        // Determine style based on slot
-        let style = 'balanced';
-        if (slot.includes('morning')) style = 'energetic, morning, fresh start';
-        else if (slot.includes('afternoon')) style = 'practical, solution-focused, afternoon';
-        else if (slot.includes('evening')) style = 'relaxed, aspirational, cozy, evening';
+    /**
+     * Tone for the ad copy, based on the time of day of the slot
+     */
+    public getSlotStyle(slot: string): string {
+        if (slot.includes('morning')) return 'energetic, morning, fresh start';
+        if (slot.includes('afternoon')) return 'practical, solution-focused, afternoon';
+        if (slot.includes('evening')) return 'relaxed, aspirational, cozy, evening';
+        return 'balanced';
+    }
+
+    /**
+     * Generates an ad for a campaign slot. The image (if any) is moved into media/ so it can be
+     * sent later or to many groups; imageFile is its stored file name.
+     */
+    public async prepareAd(campaign: any, slot: string, customInstructions?: string, framework?: ContentTemplate): Promise<PreparedAd> {
+        const { adContentService } = await import('./adContentService');
 
         // Check if forced text-only mode
         const forceTextOnly = process.env.FORCE_TEXT_ONLY_ADS === 'true';
 
         // Pass customInstructions if available
-        const ad = await adContentService.generateAd(campaign.id, style, customInstructions);
+        const ad = await adContentService.generateAd(campaign.id, this.getSlotStyle(slot), customInstructions, framework);
 
         // LOG CONTENT FOR USER VERIFICATION
         console.log('\n📜 [GENERATED AD CONTENT]:');
@@ -396,21 +587,46 @@ export class MarketingService {
         console.log(ad.text);
         console.log('----------------------------------------\n');
 
-        // Get all groups to broadcast to
-        const groups = await this.getBroadcastGroups(client, campaign);
-
-        if (groups.length === 0) {
-            console.log('⚠️ No groups found to broadcast to');
-            return;
-        }
-
-        console.log(`📢 Broadcasting ad to ${groups.length} groups...`);
         if (forceTextOnly) {
             console.log('📝 Text-only mode enabled');
         }
 
-        // Send to each group with delay
-        for (const groupJid of groups) {
+        // One stored copy of the image serves every queued post
+        let imageFile: string | null = null;
+        if (ad.imagePath) {
+            const fs = require('fs');
+            if (!forceTextOnly) {
+                imageFile = mediaIngestionService.store(fs.readFileSync(ad.imagePath), 'image/jpeg');
+            }
+            try {
+                fs.unlinkSync(ad.imagePath);
+                console.log('🗑️ Cleaned up temporary image file');
+            } catch (e) {
+                console.error('⚠️ Failed to cleanup image:', e);
+            }
+        }
+
+        return { text: ad.text, imageFile, framework: ad.framework, visualStyle: ad.visualStyle };
+    }
+
+    /**
+     * Queues an ad for every group/channel of the campaign, skipping groups still in their cooldown.
+     * Each post is recorded as an ad broadcast once sent. Returns how many posts were queued.
+     * The outbox paces the actual sends (see outboundMessageLimiter), so queueing doesn't wait.
+     */
+    public async broadcastAd(client: any, campaign: any, ad: PreparedAd, options: BroadcastOptions): Promise<number> {
+        // Get all groups/channels to broadcast to
+        const allTargets = await this.getBroadcastTargets(client, options.platforms ? { ...campaign, platforms: options.platforms } : campaign);
+        const targets = options.variant ? experimentService.splitTargets(allTargets, options.variant) : allTargets;
+        if (targets.length === 0) return 0;
+
+        console.log(`📢 Broadcasting ad to ${targets.length} groups...`);
+        const imageFile = ad.imageFile;
+        let queued = 0;
+
+        for (const target of targets) {
+            const groupJid = target.id;
+
             // GLOBAL COOLDOWN CHECK
             const lastPost = this.lastGroupPostTime.get(groupJid) || 0;
             const now = Date.now();
@@ -423,57 +639,52 @@ export class MarketingService {
                 // Update Timestamp immediately to block other concurrent campaigns
                 this.lastGroupPostTime.set(groupJid, now);
 
-                const { ephemeralAdsService } = require('./ephemeralAdsService'); // Lazy import
-
-                if (ad.imagePath && !forceTextOnly) {
-                    console.log(`📸 Sending image ad to ${groupJid}...`);
-                    try {
-                        const fs = require('fs');
-                        const buffer = fs.readFileSync(ad.imagePath);
-
-                        const sentMsg = await client.sendImage(groupJid, buffer, ad.text);
-                        if (sentMsg?.key) {
-                            ephemeralAdsService.trackAd(groupJid, sentMsg.key, 30); // 30 mins TTL
-                        }
-                        console.log(`✅ Image ad sent to ${groupJid}`);
-                    } catch (imgError: any) {
-                        console.error(`⚠️ Failed to send image to ${groupJid}, sending text fallback. Error:`, imgError.message);
-                        // Only fallback if image send specifically failed
-                        const sentFallback = await client.sendText(groupJid, `(Image unavailable)\n\n${ad.text}`);
-                        if (sentFallback?.key) {
-                            ephemeralAdsService.trackAd(groupJid, sentFallback.key, 30);
-                        }
-                        console.log(`✅ Fallback text ad sent to ${groupJid}`);
+                console.log(`${imageFile ? '📸' : '📝'} Queueing ${imageFile ? 'image' : 'text'} ad for ${target.platform} group ${groupJid}...`);
+                await outboxService.enqueue({
+                    jid: groupJid,
+                    platform: target.platform,
+                    kind: imageFile ? 'image' : 'text',
+                    text: ad.text,
+                    mediaPath: imageFile || undefined,
+                    mimeType: imageFile ? 'image/jpeg' : undefined,
+                    source: 'broadcast',
+                    metadata: {
+                        campaignId: campaign.id,
+                        adTtlMinutes: campaign.adTtlMinutes ?? 30,
+                        source: options.source,
+                        slot: options.slot,
+                        scheduledPostId: options.scheduledPostId,
+                        framework: ad.framework,
+                        visualStyle: ad.visualStyle,
+                        variant: options.variant?.label,
+                        experimentKey: options.variant?.key,
                     }
-                } else {
-                    console.log(`📝 Sending text ad to ${groupJid}...`);
-                    const sentMsg = await client.sendText(groupJid, ad.text);
-                    if (sentMsg?.key) {
-                        ephemeralAdsService.trackAd(groupJid, sentMsg.key, 30);
-                    }
-                    console.log(`✅ Text ad sent to ${groupJid}`);
-                }
-
-                // Increased delay between groups for reliability
-                if (groups.indexOf(groupJid) < groups.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 10000)); // 10 seconds
-                }
+                });
+                queued++;
             } catch (error) {
                 console.error(`❌ Failed to send to group ${groupJid}:`, error);
                 // Continue to next group instead of failing completely
             }
         }
 
-        // Cleanup image after all sends
-        if (ad.imagePath) {
-            const fs = require('fs');
-            try {
-                fs.unlinkSync(ad.imagePath);
-                console.log('🗑️ Cleaned up temporary image file');
-            } catch (e) {
-                console.error('⚠️ Failed to cleanup image:', e);
-            }
-        }
+        return queued;
+    }
+
+    /**
+     * Registers a posted ad for auto-deletion using the campaign's TTL (0 = keep forever)
+     */
+    private async trackSentAd(campaign: any, platform: BroadcastPlatform, chatId: string, messageId?: string, messageKey?: any) {
+        if (!messageId) return;
+
+        const { ephemeralAdsService } = await import('./ephemeralAdsService'); // Lazy import
+        await ephemeralAdsService.trackAd({
+            campaignId: campaign?.id ?? null,
+            platform,
+            chatId,
+            messageId,
+            messageKey,
+            ttlMinutes: campaign?.adTtlMinutes ?? 30
+        });
     }
 }
 
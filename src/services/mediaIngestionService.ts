@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import type { InboundMessage } from './inboundMessage';
+
+/**
+ * Media Ingestion Service
+ * Downloads inbound images, documents, stickers and location pins from WhatsApp,
+ * stores them under media/ and describes them to the AI with a marker line
+ * (e.g. "📎 [image:abc.jpg] caption").
+ *
+ * The attachment itself travels next to that text as data on the InboundMessage. Markers are
+ * never parsed back into files: a contact can type one, and its file name could point anywhere.
+ */
+
+export type MediaType = 'image' | 'document' | 'location';
+
+export interface MediaAttachment {
+    type: MediaType;
+    fileName?: string;      // Stored file name inside media/ (image/document)
+    mimeType?: string;
+    originalName?: string;  // Document file name as sent by the contact
+    caption?: string;
+    latitude?: number;
+    longitude?: number;
+    address?: string;
+}
+
+export interface InlineMedia {
+    mimeType: string;
+    data: string; // base64
+}
+
+const MEDIA_DIR = path.join(process.cwd(), 'media');
+
+// Anything Gemini can read inline; other documents are described by name only
+const INLINE_MIME_PREFIXES = ['image/', 'application/pdf', 'text/'];
+const MAX_INLINE_BYTES = 15 * 1024 * 1024;
+
+// Extensions files are stored under, by MIME type. Only types a browser won't run as a page
+// (no HTML, SVG or XML): the dashboard serves media/ from its own origin. Anything else is .bin.
+const STORED_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp',
+    'image/gif': '.gif',
+    'audio/ogg': '.ogg',
+    'audio/mpeg': '.mp3',
+    'audio/mp4': '.m4a',
+    'audio/wav': '.wav',
+    'video/mp4': '.mp4',
+    'application/pdf': '.pdf',
+    'text/plain': '.txt',
+    'text/csv': '.csv',
+    'application/msword': '.doc',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+    'application/vnd.ms-excel': '.xls',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+    'application/zip': '.zip',
+};
+
+export class MediaIngestionService {
+    constructor() {
+        if (!fs.existsSync(MEDIA_DIR)) {
+            fs.mkdirSync(MEDIA_DIR, { recursive: true });
+        }
+    }
+
+    /**
+     * Whether a raw Baileys message carries media this service understands
+     */
+    hasMedia(msg: any): boolean {
+        const m = msg.message;
+        return !!(
+            m?.imageMessage ||
+            m?.stickerMessage ||
+            m?.documentMessage ||
+            m?.documentWithCaptionMessage?.message?.documentMessage ||
+            m?.locationMessage ||
+            m?.liveLocationMessage
+        );
+    }
+
+    /**
+     * Downloads/decodes the media in a message and returns it with its marker text.
+     * Returns null when the media could not be retrieved.
+     */
+    async ingest(msg: any): Promise<InboundMessage | null> {
+        const attachment = await this.buildAttachment(msg);
+        if (!attachment) return null;
+        return { text: this.toMarker(attachment), attachment };
+    }
+
+    private async buildAttachment(msg: any): Promise<MediaAttachment | null> {
+        const m = msg.message;
+
+        const location = m?.locationMessage || m?.liveLocationMessage;
+        if (location) {
+            const latitude = Number(location.degreesLatitude);
+            const longitude = Number(location.degreesLongitude);
+            const pinLabel = [location.name, location.address].filter(Boolean).join(', ');
+            const address = pinLabel || await this.describeLocation(latitude, longitude);
+            return { type: 'location', latitude, longitude, address, caption: location.comment || undefined };
+        }
+
+        const image = m?.imageMessage || m?.stickerMessage;
+        const document = m?.documentMessage || m?.documentWithCaptionMessage?.message?.documentMessage;
+        const content = image || document;
+        if (!content) return null;
+
+        const { downloadMediaMessage } = await import('@whiskeysockets/baileys');
+        // documentWithCaptionMessage wraps the real payload one level deeper
+        const downloadable = m?.documentWithCaptionMessage
+            ? { ...msg, message: m.documentWithCaptionMessage.message }
+            : msg;
+        const buffer = await downloadMediaMessage(downloadable, 'buffer', {});
+        if (!buffer) return null;
+
+        const mimeType = (content.mimetype || (image ? 'image/jpeg' : 'application/octet-stream')).split(';')[0].trim();
+        const fileName = this.store(buffer as Buffer, mimeType);
+
+        console.log(`📎 Stored inbound ${image ? 'image' : 'document'} as media/${fileName} (${mimeType})`);
+
+        return {
+            type: image ? 'image' : 'document',
+            fileName,
+            mimeType,
+            originalName: document?.fileName || undefined,
+            caption: content.caption || undefined,
+        };
+    }
+
+    /**
+     * Saves a file under media/ and returns its stored name. The extension comes from the
+     * MIME type, never from a name the sender chose (see STORED_EXTENSIONS).
+     */
+    store(data: Buffer, mimeType: string): string {
+        const fileName = `${uuidv4()}${this.extensionFor(mimeType.split(';')[0].trim())}`;
+        fs.writeFileSync(path.join(MEDIA_DIR, fileName), data);
+        return fileName;
+    }
+
+    /**
+     * Reads a stored file back (null if it no longer exists)
+     */
+    read(fileName: string): Buffer | null {
+        const filePath = this.resolve(fileName);
+        return filePath ? fs.readFileSync(filePath) : null;
+    }
+
+    /**
+     * The path of a stored file, or null unless it is an existing file directly inside media/
+     */
+    resolve(fileName: string): string | null {
+        const filePath = path.resolve(MEDIA_DIR, path.basename(fileName));
+        if (path.dirname(filePath) !== path.resolve(MEDIA_DIR)) return null;
+        return fs.existsSync(filePath) && fs.statSync(filePath).isFile() ? filePath : null;
+    }
+
+    /**
+     * Encodes an attachment as a single marker line for the buffer
+     */
+    toMarker(attachment: MediaAttachment): string {
+        if (attachment.type === 'location') {
+            const desc = attachment.address || 'Unknown place';
+            const comment = attachment.caption ? ` - ${attachment.caption}` : '';
+            return `📍 [location:${attachment.latitude},${attachment.longitude}] Shared location: ${desc}${comment}`;
+        }
+
+        const label = attachment.type === 'image'
+            ? 'Sent an image'
+            : `Sent a document${attachment.originalName ? ` "${attachment.originalName}"` : ''}`;
+        const caption = attachment.caption ? `: ${attachment.caption}` : '';
+        return `📎 [${attachment.type}:${attachment.fileName}] ${label}${caption}`;
+    }
+
+    /**
+     * The attachments that came with a batch of buffered messages
+     */
+    collectAttachments(messages: InboundMessage[]): MediaAttachment[] {
+        return messages.flatMap(message => message.attachment ? [message.attachment] : []);
+    }
+
+    /**
+     * Picks the messageLogs type for a batch: the first attachment's type, or 'text'
+     */
+    getBatchType(attachments: MediaAttachment[]): 'text' | MediaType {
+        return attachments[0]?.type || 'text';
+    }
+
+    /**
+     * Column values that store the media reference alongside a messageLogs row
+     */
+    toLogColumns(attachments: MediaAttachment[]): { mediaPath: string | null; mediaMimeType: string | null; metadata: any } {
+        if (attachments.length === 0) {
+            return { mediaPath: null, mediaMimeType: null, metadata: null };
+        }
+
+        const [primary] = attachments;
+        return {
+            mediaPath: primary.fileName || null,
+            mediaMimeType: primary.mimeType || null,
+            metadata: {
+                latitude: primary.latitude,
+                longitude: primary.longitude,
+                address: primary.address,
+                attachments,
+            },
+        };
+    }
+
+    /**
+     * Loads stored files as inline parts for a multimodal Gemini request
+     */
+    loadInlineMedia(attachments: MediaAttachment[]): InlineMedia[] {
+        const parts: InlineMedia[] = [];
+
+        for (const attachment of attachments) {
+            if (!attachment.fileName || !attachment.mimeType) continue;
+            if (!INLINE_MIME_PREFIXES.some(prefix => attachment.mimeType!.startsWith(prefix))) continue;
+
+            const filePath = this.resolve(attachment.fileName);
+            if (!filePath) {
+                console.warn(`⚠️ Media file missing for inline input: ${attachment.fileName}`);
+                continue;
+            }
+
+            const data = fs.readFileSync(filePath);
+            if (data.length > MAX_INLINE_BYTES) {
+                console.warn(`⚠️ Skipping oversized media for Gemini: ${attachment.fileName} (${data.length} bytes)`);
+                continue;
+            }
+
+            parts.push({ mimeType: attachment.mimeType, data: data.toString('base64') });
+        }
+
+        return parts;
+    }
+
+    /**
+     * Reverse-geocodes a pin into a human readable place (OpenStreetMap Nominatim)
+     */
+    async describeLocation(latitude: number, longitude: number): Promise<string> {
+        try {
+            const response = await axios.get('https://nominatim.openstreetmap.org/reverse', {
+                params: { lat: latitude, lon: longitude, format: 'json', zoom: 17 },
+                headers: { 'User-Agent': 'whatsapp-representative-agent/2.0' },
+                timeout: 10000,
+            });
+            return response.data?.display_name || `${latitude}, ${longitude}`;
+        } catch (error: any) {
+            console.warn(`⚠️ Reverse geocoding failed for ${latitude},${longitude}:`, error.message);
+            return `${latitude}, ${longitude}`;
+        }
+    }
+
+    private extensionFor(mimeType: string): string {
+        return STORED_EXTENSIONS[mimeType] || '.bin';
+    }
+}
+
+export const mediaIngestionService = new MediaIngestionService();
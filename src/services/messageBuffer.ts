@@ -7,9 +7,10 @@
 import { messageQueueService, Priority } from './queue/messageQueue';
 import { ownerService } from './ownerService';
 import { systemSettingsService } from './systemSettings';
+import { InboundMessage } from './inboundMessage';
 
 interface BufferedMessage {
-    text: string;
+    message: InboundMessage;
     timestamp: number;
     fingerprint: string;
 }
@@ -22,7 +23,7 @@ export class MessageBuffer {
     private readonly DEFAULT_BATCH_WINDOW_MS = 30000;
     private readonly OWNER_WINDOW_MS = 5000; // 5 seconds for owner
 
-    constructor(private processBatchCallback: (jid: string, messages: string[]) => Promise<void>) { }
+    constructor(private processBatchCallback: (jid: string, messages: InboundMessage[]) => Promise<void>) { }
 
     /**
      * Generate message fingerprint for deduplication
@@ -41,16 +42,16 @@ export class MessageBuffer {
     /**
      * Deduplicate messages
      */
-    private deduplicateMessages(messages: BufferedMessage[]): string[] {
+    private deduplicateMessages(messages: BufferedMessage[]): InboundMessage[] {
         const seen = new Set<string>();
-        const deduplicated: string[] = [];
+        const deduplicated: InboundMessage[] = [];
 
         for (const msg of messages) {
             if (!seen.has(msg.fingerprint)) {
                 seen.add(msg.fingerprint);
-                deduplicated.push(msg.text);
+                deduplicated.push(msg.message);
             } else {
-                console.log(`🔍 Deduplicated message: "${msg.text.substring(0, 30)}..."`);
+                console.log(`🔍 Deduplicated message: "${msg.message.text.substring(0, 30)}..."`);
             }
         }
 
@@ -62,17 +63,18 @@ export class MessageBuffer {
      * Implements a sliding window: every new message resets the timer.
      * Processing only happens after silence for the window duration.
      */
-    async add(jid: string, text: string) {
+    async add(jid: string, message: InboundMessage) {
         // 1. Initialize buffer if missing
         if (!this.buffers.has(jid)) {
             this.buffers.set(jid, []);
         }
 
         // 2. Create buffered message with fingerprint
+        // Two sends of the same picture with the same caption are still two different files
         const bufferedMsg: BufferedMessage = {
-            text,
+            message,
             timestamp: Date.now(),
-            fingerprint: this.generateFingerprint(text)
+            fingerprint: this.generateFingerprint(`${message.text}|${message.attachment?.fileName || ''}`)
         };
 
         // 3. Add message to buffer
@@ -7,9 +7,8 @@
 import { db } from '../database';
 import { messageQueue, contacts } from '../database/schema';
 import { eq, and, or, sql } from 'drizzle-orm';
-import { geminiService } from './ai/gemini';
-import { ownerService } from './ownerService';
-import { keyManager } from './keyManager';
+import { llmRouter } from './ai/providers/llmRouter';
+import { InboundMessage, toInboundMessages } from './inboundMessage';
 
 type QueuePriority = 'owner' | 'normal';
 type QueueStatus = 'pending' | 'processing' | 'failed' | 'completed';
@@ -21,7 +20,7 @@ export class MessageQueueService {
     /**
      * Add messages to the queue
      */
-    async enqueue(contactPhone: string, messages: string[], priority: QueuePriority = 'normal'): Promise<void> {
+    async enqueue(contactPhone: string, messages: InboundMessage[], priority: QueuePriority = 'normal'): Promise<void> {
         // Check if there's already a pending batch for this contact
         const existing = await db.select()
             .from(messageQueue)
@@ -36,7 +35,7 @@ export class MessageQueueService {
 
         if (existing) {
             // Merge with existing batch
-            const existingMessages = existing.messageData as any as string[];
+            const existingMessages = toInboundMessages(existing.messageData);
             const mergedMessages = [...existingMessages, ...messages];
 
             await db.update(messageQueue)
@@ -71,8 +70,8 @@ export class MessageQueueService {
             return; // Already processing
         }
 
-        // Check if any keys are available
-        if (!keyManager.hasAvailableKey()) {
+        // Check if any reply provider can take a request (Gemini keys left, or a fallback)
+        if (!(await llmRouter.hasAvailableProvider('replies'))) {
             // console.log('⏸️ No API keys available. Skipping queue processing.');
             return;
         }
@@ -101,9 +100,7 @@ export class MessageQueueService {
 
             // Try to process
             try {
-                const messages = pending.messageData as any as string[];
-                const fullText = messages.join('\n');
-                const isOwner = ownerService.isOwner(pending.jid);
+                const messages = toInboundMessages(pending.messageData);
 
                 // Get contact info
                 const contact = await db.select()
@@ -115,20 +112,9 @@ export class MessageQueueService {
                     throw new Error('Contact not found');
                 }
 
-                // Generate AI reply
-                const userRoleContext = isOwner ? 'Owner' : `Contact: ${contact.name || 'Unknown'}`;
-
-                const geminiResponse = await geminiService.generateReply(
-                    [`User: ${fullText}`],
-                    userRoleContext,
-                    isOwner
-                );
-
-                if (geminiResponse.type === 'text' && geminiResponse.content) {
-                    // TODO: Send the response via WhatsApp
-                    // This will be integrated with WhatsAppClient
-                    console.log(`✅ Generated reply for ${pending.jid}: "${geminiResponse.content.substring(0, 50)}..."`);
-                }
+                // Run the batch through the same pipeline live messages use (AI, tools, send, log)
+                const { messageProcessor } = await import('../core/messageProcessor');
+                await messageProcessor.processBatch(pending.jid, messages);
 
                 // Mark as completed
                 await db.update(messageQueue)
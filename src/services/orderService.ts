@@ -0,0 +1,303 @@
+/**
+ * Order Service
+ * Customers build an order in chat: the agent keeps one draft per chat, and confirming it takes
+ * the items out of stock and alerts the owner. From there the owner moves it through
+ * pending → paid → dispatched → delivered (or cancelled) on the dashboard, and every change is
+ * messaged back to the customer.
+ *
+ * Item names and prices are copied into order_items, so later catalog edits don't change
+ * orders already placed. Status changes and the stock they take or return commit together
+ * (see withTransaction).
+ */
+
+import { db, withRetry, withTransaction, Database } from '../database';
+import { orders, orderItems, products } from '../database/schema';
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { shopService } from './shopService';
+import { notificationService } from './notificationService';
+import { outboxService } from './outboxService';
+
+export type OrderStatus = 'draft' | 'pending' | 'paid' | 'dispatched' | 'delivered' | 'cancelled';
+
+export const ORDER_STATUSES: OrderStatus[] = ['draft', 'pending', 'paid', 'dispatched', 'delivered', 'cancelled'];
+
+export type Order = typeof orders.$inferSelect;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type OrderWithItems = Order & { items: OrderItem[] };
+
+// Statuses the owner can move an order to from each status (drafts are confirmed by the customer)
+const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    draft: [],
+    pending: ['paid', 'dispatched', 'cancelled'],
+    paid: ['dispatched', 'cancelled'],
+    dispatched: ['delivered', 'cancelled'],
+    delivered: [],
+    cancelled: [],
+};
+
+// Cancelling before dispatch puts the items back in stock
+const RESTOCK_ON_CANCEL: OrderStatus[] = ['pending', 'paid'];
+
+const STATUS_MESSAGES: Partial<Record<OrderStatus, (id: number) => string>> = {
+    paid: id => `✅ Payment received for order #${id}. We'll let you know as soon as it's on its way.`,
+    dispatched: id => `🚚 Your order #${id} is on its way!`,
+    delivered: id => `📦 Order #${id} has been delivered. Thank you for shopping with us!`,
+    cancelled: id => `❌ Order #${id} has been cancelled. Reply here if you have any questions.`,
+};
+
+const MAX_ITEM_QUANTITY = 100;
+const LIST_LIMIT = 200;
+
+export interface OrderCustomer {
+    id: number;
+    phone: string; // Chat JID / Telegram chat id
+    platform?: string | null;
+    name?: string | null;
+    confirmedName?: string | null;
+}
+
+export class OrderService {
+    /**
+     * The chat's order in progress, if any
+     */
+    async getDraft(jid: string): Promise<OrderWithItems | null> {
+        const order = await withRetry(async () => {
+            return await db.select().from(orders)
+                .where(and(eq(orders.jid, jid), eq(orders.status, 'draft')))
+                .orderBy(desc(orders.id))
+                .then(rows => rows[0]);
+        });
+        return order ? await this.withItems(order) : null;
+    }
+
+    /**
+     * Puts a product in the customer's draft order, or changes its quantity if it's already there
+     */
+    async setItem(customer: OrderCustomer, productId: number, quantity: number): Promise<OrderWithItems> {
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ITEM_QUANTITY) {
+            throw new Error(`Quantity must be a whole number from 1 to ${MAX_ITEM_QUANTITY}`);
+        }
+
+        const found = await shopService.getCatalogProduct(productId);
+        if (!found) throw new Error('That product is not available');
+        if (found.item.shopType === 'career') throw new Error(`${found.item.name} is a portfolio item and can't be ordered`);
+        if (quantity > (found.item.stock || 0)) throw new Error(`Only ${found.item.stock} of ${found.item.name} in stock`);
+
+        const draft = await this.getDraft(customer.phone) || await this.createDraft(customer);
+        const values = { productName: found.item.name, unitPrice: found.item.price || 0, quantity };
+
+        await withRetry(async () => {
+            await db.insert(orderItems)
+                .values({ orderId: draft.id, productId, ...values })
+                .onConflictDoUpdate({ target: [orderItems.orderId, orderItems.productId], set: values });
+        });
+        return await this.refreshTotal(draft.id);
+    }
+
+    async removeItem(jid: string, productId: number): Promise<OrderWithItems> {
+        const draft = await this.getDraft(jid);
+        if (!draft) throw new Error('There is no order in progress');
+
+        const removed = await withRetry(async () => {
+            return await db.delete(orderItems)
+                .where(and(eq(orderItems.orderId, draft.id), eq(orderItems.productId, productId)))
+                .returning({ id: orderItems.id });
+        });
+        if (removed.length === 0) throw new Error("That product isn't in the order");
+        return await this.refreshTotal(draft.id);
+    }
+
+    /**
+     * Places the chat's draft order: takes every item out of stock and alerts the owner.
+     * If any item has run out meanwhile, nothing is taken and the order stays a draft.
+     */
+    async confirm(jid: string, notes?: string): Promise<OrderWithItems> {
+        const draft = await this.getDraft(jid);
+        if (!draft || draft.items.length === 0) throw new Error('The order has no items yet');
+
+        await withTransaction(async (tx) => {
+            // Claim the draft first so a repeated confirm can't take the stock twice
+            const claimed = await tx.update(orders)
+                .set({ status: 'pending', notes: notes?.trim() || draft.notes, confirmedAt: new Date(), statusChangedAt: new Date(), updatedAt: new Date() })
+                .where(and(eq(orders.id, draft.id), eq(orders.status, 'draft')))
+                .returning({ id: orders.id });
+            if (claimed.length === 0) throw new Error('The order was already placed');
+
+            const taken: OrderItem[] = [];
+            for (const item of draft.items) {
+                const ok = item.productId !== null && await this.takeStock(tx, item.productId, item.quantity);
+                if (!ok) {
+                    // The rollback undoes this anyway; on Neon, which has no transactions, it's done by hand
+                    await this.restock(tx, taken);
+                    await tx.update(orders)
+                        .set({ status: 'draft', confirmedAt: null, statusChangedAt: null, updatedAt: new Date() })
+                        .where(eq(orders.id, draft.id));
+                    throw new Error(`Not enough ${item.productName} left in stock`);
+                }
+                taken.push(item);
+            }
+        });
+
+        const order = (await this.get(draft.id))!;
+        console.log(`🛒 Order #${order.id} placed by ${order.customerName || order.jid} (total ${order.total})`);
+        await notificationService.notifyOwner(`🛒 *New order #${order.id}*\n👤 ${order.customerName || order.jid.split('@')[0]}\n\n${this.formatItems(order)}${order.notes ? `\n\n📝 ${order.notes}` : ''}`);
+        return order;
+    }
+
+    /**
+     * The chat's most recent placed order that hasn't been paid yet
+     */
+    async getLatestUnpaid(jid: string): Promise<OrderWithItems | null> {
+        const order = await withRetry(async () => {
+            return await db.select().from(orders)
+                .where(and(eq(orders.jid, jid), eq(orders.status, 'pending')))
+                .orderBy(desc(orders.id))
+                .then(rows => rows[0]);
+        });
+        return order ? await this.withItems(order) : null;
+    }
+
+    async get(id: number): Promise<OrderWithItems | null> {
+        const order = await withRetry(async () => {
+            return await db.select().from(orders).where(eq(orders.id, id)).then(rows => rows[0]);
+        });
+        return order ? await this.withItems(order) : null;
+    }
+
+    /**
+     * Orders for the dashboard, newest first. Drafts are only listed when asked for.
+     */
+    async list(status?: OrderStatus): Promise<OrderWithItems[]> {
+        const rows = await withRetry(async () => {
+            return await db.select().from(orders)
+                .where(status ? eq(orders.status, status) : sql`${orders.status} <> 'draft'`)
+                .orderBy(desc(orders.createdAt))
+                .limit(LIST_LIMIT);
+        });
+        if (rows.length === 0) return [];
+
+        const items = await withRetry(async () => {
+            return await db.select().from(orderItems).where(inArray(orderItems.orderId, rows.map(r => r.id)));
+        });
+        return rows.map(order => ({ ...order, items: items.filter(i => i.orderId === order.id) }));
+    }
+
+    /**
+     * Returns why an order can't move to a status, or null if it can
+     */
+    validateStatusChange(order: Order, status: unknown): string | null {
+        if (!ORDER_STATUSES.includes(status as OrderStatus)) return `status must be one of: ${ORDER_STATUSES.join(', ')}`;
+        const allowed = STATUS_TRANSITIONS[order.status as OrderStatus] || [];
+        if (!allowed.includes(status as OrderStatus)) {
+            return allowed.length > 0
+                ? `A ${order.status} order can only become ${allowed.join(' or ')}`
+                : `A ${order.status} order can't be changed`;
+        }
+        return null;
+    }
+
+    /**
+     * Moves an order to a new status (already validated) and tells the customer.
+     * Returns null, changing nothing, if the order's status changed since it was read
+     * (e.g. the payment callback and an owner's cancel arriving together).
+     */
+    async updateStatus(order: OrderWithItems, status: OrderStatus): Promise<OrderWithItems | null> {
+        // Only from the status the transition was validated against. Not retried: a retry after
+        // a lost response would find the new status and report a conflict.
+        const changed = await withTransaction(async (tx) => {
+            const rows = await tx.update(orders)
+                .set({ status, statusChangedAt: new Date(), updatedAt: new Date() })
+                .where(and(eq(orders.id, order.id), eq(orders.status, order.status)))
+                .returning({ id: orders.id });
+
+            if (rows.length > 0 && status === 'cancelled' && RESTOCK_ON_CANCEL.includes(order.status as OrderStatus)) {
+                await this.restock(tx, order.items);
+            }
+            return rows.length > 0;
+        });
+        if (!changed) {
+            console.warn(`⚠️ Order #${order.id} is no longer ${order.status}; not moving it to ${status}`);
+            return null;
+        }
+        console.log(`📦 Order #${order.id}: ${order.status} → ${status}`);
+
+        const message = STATUS_MESSAGES[status];
+        if (message) {
+            try {
+                await outboxService.enqueue({
+                    jid: order.jid,
+                    platform: order.platform === 'telegram' ? 'telegram' : 'whatsapp',
+                    text: message(order.id),
+                    source: 'notification',
+                    metadata: { orderId: order.id, status },
+                });
+            } catch (error) {
+                console.error(`Failed to queue status update for order #${order.id}:`, error);
+            }
+        }
+
+        return (await this.get(order.id))!;
+    }
+
+    /**
+     * One line per item plus the total, for chat messages
+     */
+    formatItems(order: OrderWithItems): string {
+        const lines = order.items.map(i => `• ${i.quantity} × ${i.productName} @ ${i.unitPrice} = ${i.quantity * i.unitPrice}`);
+        return `${lines.join('\n')}\n*Total: ${order.total}*`;
+    }
+
+    private async createDraft(customer: OrderCustomer): Promise<Order> {
+        const [created] = await withRetry(async () => {
+            return await db.insert(orders).values({
+                contactId: customer.id,
+                jid: customer.phone,
+                platform: customer.platform === 'telegram' ? 'telegram' : 'whatsapp',
+                customerName: customer.confirmedName || customer.name || null,
+            }).returning();
+        });
+        return created;
+    }
+
+    private async withItems(order: Order): Promise<OrderWithItems> {
+        const items = await withRetry(async () => {
+            return await db.select().from(orderItems).where(eq(orderItems.orderId, order.id)).orderBy(orderItems.id);
+        });
+        return { ...order, items };
+    }
+
+    private async refreshTotal(orderId: number): Promise<OrderWithItems> {
+        await withRetry(async () => {
+            await db.update(orders)
+                .set({
+                    total: sql`(SELECT coalesce(sum(${orderItems.unitPrice} * ${orderItems.quantity}), 0) FROM ${orderItems} WHERE ${orderItems.orderId} = ${orderId})`,
+                    updatedAt: new Date(),
+                })
+                .where(eq(orders.id, orderId));
+        });
+        return (await this.get(orderId))!;
+    }
+
+    /**
+     * Decrements stock only if enough is left, so concurrent orders can't oversell.
+     * Stock changes aren't retried: a retry after a lost response would apply them twice.
+     */
+    private async takeStock(tx: Database, productId: number, quantity: number): Promise<boolean> {
+        const updated = await tx.update(products)
+            .set({ stock: sql`${products.stock} - ${quantity}`, updatedAt: new Date() })
+            .where(and(eq(products.id, productId), gte(products.stock, quantity)))
+            .returning({ id: products.id });
+        return updated.length > 0;
+    }
+
+    private async restock(tx: Database, items: OrderItem[]): Promise<void> {
+        for (const item of items) {
+            if (item.productId === null) continue;
+            await tx.update(products)
+                .set({ stock: sql`${products.stock} + ${item.quantity}`, updatedAt: new Date() })
+                .where(eq(products.id, item.productId));
+        }
+    }
+}
+
+export const orderService = new OrderService();
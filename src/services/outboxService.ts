@@ -0,0 +1,336 @@
+/**
+ * Outbox Service
+ * Every outgoing message (AI replies, broadcasts, owner notifications, dashboard sends) is written to
+ * outbound_messages first and then dispatched by a background worker, so a reply the AI
+ * already generated survives a dropped socket, a failed send or a restart.
+ *
+ * Failed sends are retried with exponential backoff. Messages to the same recipient go
+ * out strictly in order: a later message waits while an earlier one is still retrying.
+ * Messages for a platform that is offline wait without using up attempts, for up to 24h.
+ * After a send, platform acks (WhatsApp messages.update) move the row through
+ * sent → delivered → read.
+ */
+
+import { db, withRetry } from '../database';
+import { outboundMessages } from '../database/schema';
+import { and, asc, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+import { mediaIngestionService } from './mediaIngestionService';
+import { outboundMessageLimiter } from '../utils/rateLimiter';
+import type { Platform, PlatformAdapter, SentMessage } from '../core/messageProcessor';
+
+export type OutboxKind = 'text' | 'image' | 'voice' | 'document';
+export type OutboxSource = 'ai_reply' | 'broadcast' | 'notification' | 'manual';
+export type DeliveryStatus = 'sent' | 'delivered' | 'read';
+
+export interface OutboxMessage {
+    jid: string;
+    platform?: Platform;        // Defaults from the JID format
+    kind?: OutboxKind;          // Defaults to 'text'
+    text?: string;              // Body, or caption for media
+    media?: Buffer;             // Stored under media/ before the row is written
+    mediaPath?: string;         // ...or a file already stored under media/
+    mimeType?: string;
+    fileName?: string;
+    source: OutboxSource;
+    messageLogId?: number | null;
+    metadata?: any;
+}
+
+export type OutboundRow = typeof outboundMessages.$inferSelect;
+type SentHandler = (row: OutboundRow, sent: SentMessage | undefined) => Promise<void>;
+
+const PLATFORMS: Platform[] = ['whatsapp', 'telegram'];
+const DISPATCH_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 10 * 1000;              // 10s, 20s, 40s, ... capped below
+const RETRY_MAX_MS = 10 * 60 * 1000;
+const MAX_PENDING_AGE_MS = 24 * 60 * 60 * 1000; // Give up on messages whose platform never came online
+
+// Ack order: a late 'delivered' must never overwrite 'read'
+const STATUS_RANK: Record<string, number> = { pending: 0, sending: 0, failed: 0, sent: 1, delivered: 2, read: 3 };
+
+export class OutboxService {
+    private timer: NodeJS.Timeout | null = null;
+    private isDispatching = false;
+    private dispatchAgain = false;
+    private sentHandlers: Map<OutboxSource, SentHandler> = new Map();
+    // Acks that arrived before the send was recorded (fast recipients), applied right after
+    private earlyAcks: Map<string, DeliveryStatus> = new Map();
+
+    /**
+     * Start the dispatch worker. Rows left in 'sending' by a crash are re-queued.
+     */
+    async start(): Promise<void> {
+        if (this.timer) return;
+
+        await withRetry(async () => {
+            await db.update(outboundMessages)
+                .set({ status: 'pending', updatedAt: new Date() })
+                .where(eq(outboundMessages.status, 'sending'));
+        });
+
+        this.timer = setInterval(() => this.dispatch(), DISPATCH_INTERVAL_MS);
+        console.log('📮 Outbox worker started');
+        this.dispatch();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Runs after a message from the given source is sent (e.g. to track broadcast ads)
+     */
+    onSent(source: OutboxSource, handler: SentHandler): void {
+        this.sentHandlers.set(source, handler);
+    }
+
+    /**
+     * Writes a message to the outbox and wakes the worker. Returns the outbox row ID.
+     */
+    async enqueue(message: OutboxMessage): Promise<number> {
+        const kind = message.kind || 'text';
+        let mediaPath = message.mediaPath || null;
+        if (message.media) {
+            mediaPath = mediaIngestionService.store(message.media, message.mimeType || 'application/octet-stream');
+        }
+
+        const [row] = await withRetry(async () => {
+            return await db.insert(outboundMessages).values({
+                platform: message.platform || this.platformFor(message.jid),
+                jid: message.jid,
+                kind,
+                content: message.text ?? null,
+                mediaPath,
+                mediaMimeType: message.mimeType || null,
+                fileName: message.fileName || null,
+                source: message.source,
+                messageLogId: message.messageLogId ?? null,
+                metadata: message.metadata ?? null,
+            }).returning({ id: outboundMessages.id });
+        });
+
+        this.dispatch();
+        return row.id;
+    }
+
+    /**
+     * Applies a platform ack to the matching outbox row (status only moves forward)
+     */
+    async updateAck(externalId: string, status: DeliveryStatus): Promise<void> {
+        const now = new Date();
+        const lowerStatuses = Object.keys(STATUS_RANK).filter(s => STATUS_RANK[s] < STATUS_RANK[status] && STATUS_RANK[s] > 0);
+        if (lowerStatuses.length === 0) return;
+
+        const updated = await withRetry(async () => {
+            return await db.update(outboundMessages)
+                .set({
+                    status,
+                    ...(status === 'delivered' ? { deliveredAt: now } : {}),
+                    ...(status === 'read' ? { readAt: now } : {}),
+                    updatedAt: now,
+                })
+                .where(and(
+                    eq(outboundMessages.externalId, externalId),
+                    inArray(outboundMessages.status, lowerStatuses)
+                ))
+                .returning({ id: outboundMessages.id });
+        });
+
+        if (updated.length === 0 && this.isDispatching) {
+            const previous = this.earlyAcks.get(externalId);
+            if (!previous || STATUS_RANK[previous] < STATUS_RANK[status]) {
+                this.earlyAcks.set(externalId, status);
+            }
+        }
+    }
+
+    /**
+     * Sends every due message. Safe to call often; concurrent calls collapse into one extra pass.
+     */
+    async dispatch(): Promise<void> {
+        if (this.isDispatching) {
+            this.dispatchAgain = true;
+            return;
+        }
+        this.isDispatching = true;
+
+        try {
+            do {
+                this.dispatchAgain = false;
+                // Messages for an offline platform wait in the table without holding up the others
+                const ready = await this.readyPlatforms();
+                await this.expireOffline(ready);
+                if (ready.length === 0) break;
+
+                const rows = await this.fetchDue(ready);
+                let progressed = false;
+                for (const row of rows) {
+                    if (await this.deliver(row)) progressed = true;
+                }
+                // A full batch may have more behind it; fetch again only if this one moved
+                if (rows.length === BATCH_SIZE && progressed) this.dispatchAgain = true;
+            } while (this.dispatchAgain);
+        } catch (error) {
+            console.error('❌ Outbox dispatch failed:', error);
+        } finally {
+            this.isDispatching = false;
+            this.earlyAcks.clear();
+        }
+    }
+
+    private async readyPlatforms(): Promise<Platform[]> {
+        const { messageProcessor } = await import('../core/messageProcessor');
+        return PLATFORMS.filter(platform => {
+            const adapter = messageProcessor.getPlatformAdapter(platform);
+            return !!adapter && (!adapter.isReady || adapter.isReady());
+        });
+    }
+
+    /**
+     * Gives up on messages whose platform has been offline since long before they were queued
+     */
+    private async expireOffline(ready: Platform[]): Promise<void> {
+        for (const platform of PLATFORMS.filter(p => !ready.includes(p))) {
+            const error = `${platform} was unavailable for 24h`;
+            const expired = await withRetry(async () => {
+                return await db.update(outboundMessages)
+                    .set({ status: 'failed', lastError: error, updatedAt: new Date() })
+                    .where(and(
+                        eq(outboundMessages.status, 'pending'),
+                        eq(outboundMessages.platform, platform),
+                        lt(outboundMessages.createdAt, new Date(Date.now() - MAX_PENDING_AGE_MS))
+                    ))
+                    .returning({ id: outboundMessages.id, jid: outboundMessages.jid });
+            });
+            for (const row of expired) {
+                console.error(`❌ Outbox #${row.id} to ${row.jid} failed permanently: ${error}`);
+            }
+        }
+    }
+
+    private async fetchDue(platforms: Platform[]): Promise<OutboundRow[]> {
+        return await withRetry(async () => {
+            return await db.select()
+                .from(outboundMessages)
+                .where(and(
+                    eq(outboundMessages.status, 'pending'),
+                    inArray(outboundMessages.platform, platforms),
+                    lte(outboundMessages.nextAttemptAt, new Date()),
+                    // Keep per-recipient order: skip rows queued behind an unsent earlier message
+                    sql`NOT EXISTS (
+                        SELECT 1 FROM ${outboundMessages} AS earlier
+                        WHERE earlier.jid = ${outboundMessages.jid}
+                          AND earlier.id < ${outboundMessages.id}
+                          AND earlier.status IN ('pending', 'sending')
+                    )`
+                ))
+                .orderBy(asc(outboundMessages.id))
+                .limit(BATCH_SIZE);
+        });
+    }
+
+    /**
+     * Sends one row. Returns false, leaving it untouched, if its platform went offline meanwhile.
+     */
+    private async deliver(row: OutboundRow): Promise<boolean> {
+        const { messageProcessor } = await import('../core/messageProcessor');
+        const adapter = messageProcessor.getPlatformAdapter(row.platform as Platform);
+
+        // Platform dropped mid-batch: wait without burning attempts (the next pass skips it)
+        if (!adapter || (adapter.isReady && !adapter.isReady())) return false;
+
+        await this.update(row.id, { status: 'sending' });
+
+        try {
+            const sent = await outboundMessageLimiter.execute(() => this.send(adapter, row), `outbox #${row.id}`);
+            const now = new Date();
+            await this.update(row.id, {
+                status: 'sent',
+                externalId: sent?.id || null,
+                sentAt: now,
+                attempts: (row.attempts || 0) + 1,
+                lastError: null,
+            });
+
+            const earlyAck = sent?.id ? this.earlyAcks.get(sent.id) : undefined;
+            if (earlyAck) {
+                this.earlyAcks.delete(sent!.id);
+                await this.updateAck(sent!.id, earlyAck);
+            }
+
+            const handler = this.sentHandlers.get(row.source as OutboxSource);
+            if (handler) {
+                await handler(row, sent).catch(e => console.error(`Outbox '${row.source}' handler failed for #${row.id}:`, e));
+            }
+        } catch (error: any) {
+            const attempts = (row.attempts || 0) + 1;
+            const message = error?.message || String(error);
+
+            if (attempts >= MAX_ATTEMPTS) {
+                await this.markFailed(row, message, attempts);
+                return true;
+            }
+
+            const backoffMs = Math.min(RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+            console.warn(`🔁 Outbox #${row.id} to ${row.jid} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${message}. Retrying in ${Math.round(backoffMs / 1000)}s`);
+            await this.update(row.id, {
+                status: 'pending',
+                attempts,
+                lastError: message,
+                nextAttemptAt: new Date(Date.now() + backoffMs),
+            });
+        }
+        return true;
+    }
+
+    private async send(adapter: PlatformAdapter, row: OutboundRow): Promise<SentMessage | undefined> {
+        if (row.kind === 'text') {
+            // Group replies quote the message that addressed the agent
+            const quoted = (row.metadata as any)?.quoted;
+            return await adapter.sendReply(row.jid, row.content || '', quoted ? { quoted } : undefined);
+        }
+
+        const media = row.mediaPath ? mediaIngestionService.read(row.mediaPath) : null;
+        if (!media) {
+            throw new Error(`Media file missing: ${row.mediaPath}`);
+        }
+
+        switch (row.kind) {
+            case 'image':
+                return await adapter.sendReplyImage(row.jid, media, row.content || undefined);
+            case 'voice':
+                if (!adapter.sendReplyVoice) throw new Error(`${adapter.platform} cannot send voice notes`);
+                return await adapter.sendReplyVoice(row.jid, media, row.mediaMimeType || 'audio/ogg; codecs=opus');
+            case 'document':
+                if (!adapter.sendReplyDocument) throw new Error(`${adapter.platform} cannot send documents`);
+                return await adapter.sendReplyDocument(row.jid, media, row.fileName || row.mediaPath!, row.mediaMimeType || 'application/octet-stream', row.content || undefined);
+            default:
+                throw new Error(`Unknown outbox message kind: ${row.kind}`);
+        }
+    }
+
+    private async markFailed(row: OutboundRow, error: string, attempts: number = row.attempts || 0) {
+        console.error(`❌ Outbox #${row.id} to ${row.jid} failed permanently: ${error}`);
+        await this.update(row.id, { status: 'failed', attempts, lastError: error });
+    }
+
+    private async update(id: number, values: Partial<typeof outboundMessages.$inferInsert>) {
+        await withRetry(async () => {
+            await db.update(outboundMessages)
+                .set({ ...values, updatedAt: new Date() })
+                .where(eq(outboundMessages.id, id));
+        });
+    }
+
+    private platformFor(jid: string): Platform {
+        // WhatsApp JIDs always contain '@'; Telegram chat IDs are numeric
+        return jid.includes('@') ? 'whatsapp' : 'telegram';
+    }
+}
+
+export const outboxService = new OutboxService();
@@ -19,6 +19,9 @@ export class OwnerService {
      * Check if a JID belongs to the owner
      */
     isOwner(jid: string): boolean {
+        // Telegram conversations are keyed by chat ID; the owner's is configured separately
+        if (config.telegramChatId && jid === config.telegramChatId) return true;
+
         if (!this.ownerPhone) return false;
 
         // Extract phone number from JID (format: 1234567890@s.whatsapp.net or @lid)
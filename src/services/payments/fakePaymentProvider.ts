@@ -0,0 +1,58 @@
+/**
+ * Fake Payment Provider
+ * Stands in for M-Pesa during development: accepts every request and, a few seconds later,
+ * feeds a Daraja-shaped callback into the same handler the real callback route uses.
+ * FAKE_PAYMENT_OUTCOME picks whether the simulated customer pays, fails or cancels.
+ */
+
+import crypto from 'crypto';
+import { config } from '../../config/env';
+import { PaymentProvider, PaymentRequest, PaymentRequestResult } from './paymentProvider';
+
+const CALLBACK_DELAY_MS = 5000;
+
+// Daraja result codes for the simulated outcomes
+const OUTCOMES: Record<string, { code: number; desc: string }> = {
+    success: { code: 0, desc: 'The service request is processed successfully.' },
+    failed: { code: 1, desc: 'The balance is insufficient for the transaction.' },
+    cancelled: { code: 1032, desc: 'Request cancelled by user.' },
+};
+
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake' as const;
+
+    constructor(private deliverCallback: (body: any) => Promise<void>) { }
+
+    async requestPayment(request: PaymentRequest): Promise<PaymentRequestResult> {
+        const checkoutRequestId = `ws_CO_FAKE_${crypto.randomBytes(8).toString('hex')}`;
+        const merchantRequestId = `FAKE-${Date.now()}`;
+        const outcome = OUTCOMES[config.fakePaymentOutcome] || OUTCOMES.success;
+
+        console.log(`🧪 Fake M-Pesa prompt: ${request.amount} from ${request.phone} (${request.reference}) → ${config.fakePaymentOutcome}`);
+
+        setTimeout(() => {
+            const body = {
+                Body: {
+                    stkCallback: {
+                        MerchantRequestID: merchantRequestId,
+                        CheckoutRequestID: checkoutRequestId,
+                        ResultCode: outcome.code,
+                        ResultDesc: outcome.desc,
+                        ...(outcome.code === 0 && {
+                            CallbackMetadata: {
+                                Item: [
+                                    { Name: 'Amount', Value: request.amount },
+                                    { Name: 'MpesaReceiptNumber', Value: `FAKE${crypto.randomBytes(3).toString('hex').toUpperCase()}` },
+                                    { Name: 'PhoneNumber', Value: Number(request.phone) },
+                                ]
+                            }
+                        }),
+                    }
+                }
+            };
+            this.deliverCallback(body).catch(err => console.error('Fake payment callback failed:', err));
+        }, CALLBACK_DELAY_MS);
+
+        return { checkoutRequestId, merchantRequestId, customerMessage: 'Success. Request accepted for processing' };
+    }
+}
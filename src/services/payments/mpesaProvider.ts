@@ -0,0 +1,105 @@
+/**
+ * M-Pesa Provider
+ * Lipa na M-Pesa Online (STK push) through Safaricom's Daraja API. The customer gets a PIN
+ * prompt on their phone; Safaricom posts the outcome to MPESA_CALLBACK_URL.
+ */
+
+import axios from 'axios';
+import { config } from '../../config/env';
+import { PaymentProvider, PaymentRequest, PaymentRequestResult } from './paymentProvider';
+
+const BASE_URLS = {
+    sandbox: 'https://sandbox.safaricom.co.ke',
+    production: 'https://api.safaricom.co.ke',
+};
+
+// Daraja truncates longer values
+const MAX_REFERENCE_LENGTH = 12;
+const MAX_DESCRIPTION_LENGTH = 13;
+const REQUEST_TIMEOUT_MS = 30000;
+
+export class MpesaProvider implements PaymentProvider {
+    readonly name = 'mpesa' as const;
+    private accessToken: string | null = null;
+    private tokenExpiresAt = 0;
+
+    /**
+     * Needs the callback token too: the callback route is public, and the token is all that
+     * tells Safaricom's calls from forged ones
+     */
+    static isConfigured(): boolean {
+        const { consumerKey, consumerSecret, shortcode, passkey, callbackUrl, callbackToken } = config.mpesa;
+        return !!(consumerKey && consumerSecret && shortcode && passkey && callbackUrl && callbackToken);
+    }
+
+    async requestPayment(request: PaymentRequest): Promise<PaymentRequestResult> {
+        const { shortcode, passkey, tillNumber, callbackUrl, callbackToken } = config.mpesa;
+        const timestamp = this.timestamp();
+        const callback = new URL(callbackUrl!);
+        if (callbackToken) callback.searchParams.set('token', callbackToken);
+
+        const response = await axios.post(`${this.baseUrl()}/mpesa/stkpush/v1/processrequest`, {
+            BusinessShortCode: shortcode,
+            Password: Buffer.from(`${shortcode}${passkey}${timestamp}`).toString('base64'),
+            Timestamp: timestamp,
+            TransactionType: tillNumber ? 'CustomerBuyGoodsOnline' : 'CustomerPayBillOnline',
+            Amount: request.amount,
+            PartyA: request.phone,
+            PartyB: tillNumber || shortcode,
+            PhoneNumber: request.phone,
+            CallBackURL: callback.toString(),
+            AccountReference: request.reference.substring(0, MAX_REFERENCE_LENGTH),
+            TransactionDesc: request.description.substring(0, MAX_DESCRIPTION_LENGTH),
+        }, {
+            headers: { Authorization: `Bearer ${await this.getAccessToken()}` },
+            timeout: REQUEST_TIMEOUT_MS,
+            validateStatus: () => true,
+        });
+
+        const data = response.data || {};
+        if (response.status !== 200 || String(data.ResponseCode) !== '0') {
+            throw new Error(data.errorMessage || data.ResponseDescription || `M-Pesa request failed (HTTP ${response.status})`);
+        }
+
+        return {
+            checkoutRequestId: data.CheckoutRequestID,
+            merchantRequestId: data.MerchantRequestID,
+            customerMessage: data.CustomerMessage,
+        };
+    }
+
+    private baseUrl(): string {
+        return BASE_URLS[config.mpesa.environment as keyof typeof BASE_URLS];
+    }
+
+    /**
+     * OAuth token, reused until shortly before it expires (Daraja issues them for an hour)
+     */
+    private async getAccessToken(): Promise<string> {
+        if (this.accessToken && Date.now() < this.tokenExpiresAt) return this.accessToken;
+
+        const credentials = Buffer.from(`${config.mpesa.consumerKey}:${config.mpesa.consumerSecret}`).toString('base64');
+        const response = await axios.get(`${this.baseUrl()}/oauth/v1/generate?grant_type=client_credentials`, {
+            headers: { Authorization: `Basic ${credentials}` },
+            timeout: REQUEST_TIMEOUT_MS,
+        });
+
+        this.accessToken = response.data.access_token as string;
+        this.tokenExpiresAt = Date.now() + (Number(response.data.expires_in || 3599) - 60) * 1000;
+        return this.accessToken;
+    }
+
+    /**
+     * YYYYMMDDHHmmss in Kenyan time, as Daraja expects
+     */
+    private timestamp(): string {
+        const parts = new Intl.DateTimeFormat('en-GB', {
+            timeZone: 'Africa/Nairobi',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit',
+            hourCycle: 'h23',
+        }).formatToParts(new Date());
+        const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+        return `${get('year')}${get('month')}${get('day')}${get('hour')}${get('minute')}${get('second')}`;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Payment Provider
+ * What the payment service needs from a mobile-money backend: start a payment prompt on the
+ * customer's phone and read the result it later posts to our callback. Both providers speak
+ * the Daraja STK callback format, so one callback route serves either.
+ */
+
+export interface PaymentRequest {
+    phone: string;       // MSISDN, 2547XXXXXXXX
+    amount: number;      // Whole shillings
+    reference: string;   // Shown on the customer's prompt (e.g. 'Order 42')
+    description: string;
+}
+
+export interface PaymentRequestResult {
+    checkoutRequestId: string;
+    merchantRequestId?: string;
+    customerMessage?: string;
+}
+
+export interface PaymentResult {
+    checkoutRequestId: string;
+    success: boolean;
+    resultCode: number;
+    resultDesc: string;
+    receiptNumber?: string;
+    amount?: number;
+    phone?: string;
+}
+
+export interface PaymentProvider {
+    readonly name: 'mpesa' | 'fake';
+    /** Sends the payment prompt; throws when the provider rejects the request */
+    requestPayment(request: PaymentRequest): Promise<PaymentRequestResult>;
+}
+
+/**
+ * Reads a Daraja STK push callback body, or null if it isn't one
+ */
+export function parseStkCallback(body: any): PaymentResult | null {
+    const callback = body?.Body?.stkCallback;
+    if (!callback || typeof callback.CheckoutRequestID !== 'string') return null;
+
+    const items: { Name: string; Value?: unknown }[] = callback.CallbackMetadata?.Item || [];
+    const item = (name: string) => items.find(i => i.Name === name)?.Value;
+    const resultCode = Number(callback.ResultCode);
+    // Whole shillings, rounded down so a malformed amount never credits more than was sent
+    const amount = Math.floor(Number(item('Amount')));
+
+    return {
+        checkoutRequestId: callback.CheckoutRequestID,
+        success: resultCode === 0,
+        resultCode,
+        resultDesc: String(callback.ResultDesc || ''),
+        receiptNumber: item('MpesaReceiptNumber') !== undefined ? String(item('MpesaReceiptNumber')) : undefined,
+        amount: Number.isFinite(amount) ? amount : undefined,
+        phone: item('PhoneNumber') !== undefined ? String(item('PhoneNumber')) : undefined,
+    };
+}
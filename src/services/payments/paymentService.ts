@@ -0,0 +1,237 @@
+/**
+ * Payment Service
+ * The agent asks a customer to pay for their order with an M-Pesa STK push (a PIN prompt on
+ * their phone). Safaricom reports the outcome to our callback route; a confirmed payment for
+ * the full amount marks the order paid (which messages the customer) and alerts the owner.
+ * A failed or cancelled prompt is reported back in the chat so the agent can offer a retry.
+ *
+ * The provider is Daraja when its credentials are configured, and the offline fake otherwise
+ * (never in production).
+ */
+
+import crypto from 'crypto';
+import { db, withRetry } from '../../database';
+import { contacts, payments, userProfile } from '../../database/schema';
+import { and, desc, eq, gte } from 'drizzle-orm';
+import { config } from '../../config/env';
+import { orderService, OrderCustomer } from '../orderService';
+import { notificationService } from '../notificationService';
+import { outboxService } from '../outboxService';
+import { PaymentProvider, parseStkCallback } from './paymentProvider';
+import { MpesaProvider } from './mpesaProvider';
+import { FakePaymentProvider } from './fakePaymentProvider';
+
+export type Payment = typeof payments.$inferSelect;
+
+// A second prompt for the same order within this window is refused (the first may still be on the phone)
+const PROMPT_COOLDOWN_MS = 2 * 60 * 1000;
+const LIST_LIMIT = 200;
+
+export class PaymentService {
+    private provider: PaymentProvider | null | undefined;
+
+    getProvider(): PaymentProvider | null {
+        if (this.provider !== undefined) return this.provider;
+
+        if (config.mpesa.consumerKey && !config.mpesa.callbackToken) {
+            console.warn('⚠️ PaymentService: MPESA_CALLBACK_TOKEN is not set. M-Pesa stays off until it is.');
+        }
+        const choice = config.paymentProvider || (MpesaProvider.isConfigured() ? 'mpesa' : 'fake');
+        if (choice === 'mpesa' && MpesaProvider.isConfigured()) {
+            this.provider = new MpesaProvider();
+        } else if (choice === 'fake' && config.nodeEnv !== 'production') {
+            this.provider = new FakePaymentProvider(body => this.handleCallback(body).then(() => undefined));
+        } else {
+            console.warn(`⚠️ PaymentService: payment provider '${choice}' is not usable here. Payments are disabled.`);
+            this.provider = null;
+        }
+        if (this.provider) console.log(`💳 Payment provider: ${this.provider.name}`);
+        return this.provider;
+    }
+
+    /**
+     * Kenyan mobile number as an M-Pesa MSISDN (2547XXXXXXXX / 2541XXXXXXXX), or null
+     */
+    normalizePhone(input: string): string | null {
+        let digits = input.replace(/\D/g, '');
+        if (/^0[17]\d{8}$/.test(digits)) digits = `254${digits.substring(1)}`;
+        else if (/^[17]\d{8}$/.test(digits)) digits = `254${digits}`;
+        return /^254[17]\d{8}$/.test(digits) ? digits : null;
+    }
+
+    /**
+     * Sends an M-Pesa prompt for the customer's order (the given one, or their latest unpaid one).
+     * Without a phone number, the customer's WhatsApp number is used.
+     */
+    async requestOrderPayment(customer: OrderCustomer, options: { orderId?: number; phone?: string } = {}): Promise<Payment> {
+        const provider = this.getProvider();
+        if (!provider) throw new Error('Payments are not set up. The owner will share payment details.');
+
+        const order = options.orderId ? await orderService.get(options.orderId) : await orderService.getLatestUnpaid(customer.phone);
+        if (!order || order.jid !== customer.phone) throw new Error('No placed order to pay for. Confirm the order first.');
+        if (order.status !== 'pending') throw new Error(`Order #${order.id} is already ${order.status}`);
+        if (order.total < 1) throw new Error(`Order #${order.id} has nothing to pay`);
+
+        // WhatsApp JIDs carry the number; Telegram chats and @lid JIDs don't
+        const source = options.phone || (customer.phone.endsWith('@s.whatsapp.net') ? customer.phone.split('@')[0] : '');
+        const phone = source ? this.normalizePhone(source) : null;
+        if (!phone) throw new Error('Ask the customer for the Safaricom number they want to pay with.');
+
+        const recent = await withRetry(async () => {
+            return await db.select({ id: payments.id }).from(payments)
+                .where(and(
+                    eq(payments.orderId, order.id),
+                    eq(payments.status, 'pending'),
+                    gte(payments.createdAt, new Date(Date.now() - PROMPT_COOLDOWN_MS))
+                ))
+                .then(rows => rows[0]);
+        });
+        if (recent) throw new Error('A payment prompt was just sent for this order. Ask the customer to check their phone.');
+
+        const request = await provider.requestPayment({
+            phone,
+            amount: order.total,
+            reference: `Order ${order.id}`,
+            description: `Order ${order.id}`,
+        });
+
+        const [payment] = await withRetry(async () => {
+            return await db.insert(payments).values({
+                orderId: order.id,
+                contactId: customer.id,
+                provider: provider.name,
+                phone,
+                amount: order.total,
+                checkoutRequestId: request.checkoutRequestId,
+                merchantRequestId: request.merchantRequestId || null,
+            }).returning();
+        });
+        console.log(`💳 Payment prompt sent for order #${order.id}: ${order.total} from ${phone} (${request.checkoutRequestId})`);
+        return payment;
+    }
+
+    /**
+     * Whether a callback carries the configured secret. Without one every callback is refused.
+     */
+    isValidCallbackToken(token: unknown): boolean {
+        const expected = config.mpesa.callbackToken;
+        if (!expected || typeof token !== 'string') return false;
+        const a = Buffer.from(token);
+        const b = Buffer.from(expected);
+        return a.length === b.length && crypto.timingSafeEqual(a, b);
+    }
+
+    /**
+     * Applies an STK callback. Returns false if the body isn't an STK callback.
+     * Repeated callbacks for the same request are ignored.
+     */
+    async handleCallback(body: any): Promise<boolean> {
+        const result = parseStkCallback(body);
+        if (!result) return false;
+
+        const [payment] = await withRetry(async () => {
+            return await db.update(payments)
+                .set({
+                    status: result.success ? 'success' : 'failed',
+                    receiptNumber: result.receiptNumber || null,
+                    amountPaid: result.amount ?? null,
+                    resultCode: result.resultCode,
+                    resultDesc: result.resultDesc,
+                    callback: body,
+                    completedAt: new Date(),
+                })
+                .where(and(eq(payments.checkoutRequestId, result.checkoutRequestId), eq(payments.status, 'pending')))
+                .returning();
+        });
+        if (!payment) {
+            console.warn(`⚠️ Payment callback for unknown or settled request ${result.checkoutRequestId}`);
+            return true;
+        }
+
+        if (result.success) {
+            await this.onPaid(payment);
+        } else {
+            await this.onFailed(payment);
+        }
+        return true;
+    }
+
+    async list(orderId?: number): Promise<Payment[]> {
+        return await withRetry(async () => {
+            return await db.select().from(payments)
+                .where(orderId ? eq(payments.orderId, orderId) : undefined)
+                .orderBy(desc(payments.createdAt))
+                .limit(LIST_LIMIT);
+        });
+    }
+
+    private async onPaid(payment: Payment) {
+        const order = payment.orderId ? await orderService.get(payment.orderId) : null;
+        const paid = payment.amountPaid;
+        const when = await this.formatOwnerTime(payment.completedAt || new Date());
+        console.log(`💰 Payment ${payment.receiptNumber} confirmed: ${paid ?? 'no amount'} for order #${payment.orderId}`);
+
+        // Only credit what the callback says was paid
+        if (paid === null) {
+            await notificationService.notifyOwner(`⚠️ *M-Pesa confirmation without an amount*${order ? ` for order #${order.id}` : ''}\nReceipt ${payment.receiptNumber || '—'} from ${payment.phone} (${when}). Check it in M-Pesa; the order was not marked paid.`);
+            return;
+        }
+
+        if (order && paid < order.total) {
+            await notificationService.notifyOwner(`⚠️ *Short M-Pesa payment* for order #${order.id}\nPaid ${paid} of ${order.total} (receipt ${payment.receiptNumber}, ${when}). The order was not marked paid.`);
+            return;
+        }
+
+        // The owner may have cancelled (and restocked) the order while the payment was in flight
+        const markedPaid = order?.status === 'pending' ? await orderService.updateStatus(order, 'paid') : null;
+        const current = order && !markedPaid ? await orderService.get(order.id) : null;
+        if (current?.status === 'cancelled') {
+            await notificationService.notifyOwner(`⚠️ *Payment for cancelled order #${current.id}*\n${paid} from ${payment.phone} (receipt ${payment.receiptNumber || '—'}, ${when}). Refund it or restore the order.`);
+            return;
+        }
+        await notificationService.notifyOwner(`💰 *Payment received*\n${paid} from ${payment.phone}${order ? ` for order #${order.id}` : ''}\nReceipt: ${payment.receiptNumber || '—'}\n🕒 ${when}`);
+    }
+
+    private async onFailed(payment: Payment) {
+        console.log(`❌ Payment for order #${payment.orderId} failed: ${payment.resultDesc}`);
+
+        const jid = await this.chatFor(payment);
+        if (!jid) return;
+        try {
+            await outboxService.enqueue({
+                jid,
+                text: `⚠️ The M-Pesa payment${payment.orderId ? ` for order #${payment.orderId}` : ''} didn't go through (${payment.resultDesc}). Reply here if you'd like me to send the prompt again.`,
+                source: 'notification',
+                metadata: { paymentId: payment.id },
+            });
+        } catch (error) {
+            console.error(`Failed to queue payment failure message for payment ${payment.id}:`, error);
+        }
+    }
+
+    private async chatFor(payment: Payment): Promise<string | null> {
+        if (payment.orderId) {
+            const order = await orderService.get(payment.orderId);
+            if (order) return order.jid;
+        }
+        if (!payment.contactId) return null;
+        const contact = await withRetry(async () => {
+            return await db.select({ phone: contacts.phone }).from(contacts).where(eq(contacts.id, payment.contactId!)).then(rows => rows[0]);
+        });
+        return contact?.phone || null;
+    }
+
+    /**
+     * Time in the owner's timezone from their profile (Nairobi when unset)
+     */
+    private async formatOwnerTime(date: Date): Promise<string> {
+        const profile = await db.select({ timezone: userProfile.timezone }).from(userProfile).then(rows => rows[0]).catch(() => undefined);
+        try {
+            return date.toLocaleString('en-KE', { timeZone: profile?.timezone || 'Africa/Nairobi' });
+        } catch {
+            return date.toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' });
+        }
+    }
+}
+
+export const paymentService = new PaymentService();
@@ -11,6 +11,7 @@
 import { db, withRetry } from '../../database';
 import { messageQueue, queueMetrics } from '../../database/schema';
 import { eq, and, asc, desc, sql, lt, gt } from 'drizzle-orm';
+import { InboundMessage, toInboundMessages } from '../inboundMessage';
 
 export enum Priority {
     CRITICAL = 0,  // Owner messages
@@ -22,7 +23,7 @@ export enum Priority {
 export interface QueuedMessage {
     id?: number;
     jid: string;
-    messages: string[];
+    messages: InboundMessage[];
     priority: Priority;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     retryCount: number;
@@ -59,7 +60,7 @@ export class MessageQueue {
     /**
      * Add a message to the queue
      */
-    async enqueue(jid: string, messages: string[], priority: Priority = Priority.NORMAL): Promise<number> {
+    async enqueue(jid: string, messages: InboundMessage[], priority: Priority = Priority.NORMAL): Promise<number> {
         // Check queue depth limit
         const currentDepth = await this.getQueueDepth();
         if (currentDepth >= this.maxQueueDepth) {
@@ -139,7 +140,7 @@ export class MessageQueue {
                     return {
                         id: message.id,
                         jid: message.jid,
-                        messages: message.messageData as string[],
+                        messages: toInboundMessages(message.messageData),
                         priority: message.priority as Priority,
                         status: 'processing',
                         retryCount: message.retryCount,
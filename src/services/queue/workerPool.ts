@@ -10,6 +10,7 @@
 
 import { MessageQueue, QueuedMessage, Priority } from './messageQueue';
 import { randomUUID } from 'crypto';
+import { InboundMessage } from '../inboundMessage';
 
 export interface WorkerStats {
     id: string;
@@ -26,7 +27,7 @@ export interface WorkerPoolConfig {
     healthCheckIntervalMs: number;
 }
 
-type ProcessFunction = (jid: string, messages: string[]) => Promise<void>;
+type ProcessFunction = (jid: string, messages: InboundMessage[]) => Promise<void>;
 
 export class WorkerPool {
     private workers: Map<string, WorkerStats> = new Map();
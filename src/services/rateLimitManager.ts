@@ -3,9 +3,11 @@
  * Handles Gemini API rate limits gracefully by queueing requests
  */
 
+import { InboundMessage } from './inboundMessage';
+
 interface QueuedRequest {
     jid: string;
-    messages: string[];
+    messages: InboundMessage[];
     timestamp: number;
 }
 
@@ -41,7 +43,7 @@ export class RateLimitManager {
     /**
      * Add request to queue
      */
-    enqueue(jid: string, messages: string[]) {
+    enqueue(jid: string, messages: InboundMessage[]) {
         this.queue.push({ jid, messages, timestamp: Date.now() });
         console.log(`📥 Queued message from ${jid}. Queue size: ${this.queue.length}`);
     }
@@ -63,7 +65,7 @@ export class RateLimitManager {
     /**
      * Process queue when rate limit clears
      */
-    async processQueue(processFn: (jid: string, messages: string[]) => Promise<void>) {
+    async processQueue(processFn: (jid: string, messages: InboundMessage[]) => Promise<void>) {
         if (this.processing) return;
 
         this.processing = true;
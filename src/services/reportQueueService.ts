@@ -8,7 +8,7 @@ import { db } from '../database';
 import { reportQueue, conversations, contacts, messageLogs } from '../database/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { geminiService } from './ai/gemini';
-import { keyManager } from './keyManager';
+import { llmRouter } from './ai/providers/llmRouter';
 import { notificationService } from './notificationService';
 
 type ReportStatus = 'pending' | 'processing' | 'completed' | 'failed';
@@ -42,8 +42,8 @@ export class ReportQueueService {
             return;
         }
 
-        // Check if any keys are available
-        if (!keyManager.hasAvailableKey()) {
+        // Check if any report provider can take a request
+        if (!(await llmRouter.hasAvailableProvider('reports'))) {
             return;
         }
 
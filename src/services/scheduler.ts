@@ -29,10 +29,20 @@ export class SchedulerService {
         // Checks every minute whether any campaign has a slot matching now
         const task = cron.schedule('* * * * *', async () => {
             await this.checkAndExecuteSlots();
+            await this.dispatchScheduledPosts();
+            await this.sendBookingReminders();
         });
         this.tasks.push(task);
         console.log('✅ Scheduler initialized: Monitoring active campaigns every minute.');
 
+        // --- Content calendar: draft upcoming slots ahead of time for review ---
+        const calendarTask = cron.schedule('5 * * * *', async () => {
+            await this.pregenerateScheduledPosts()
+                .catch(error => console.error('❌ Content calendar pre-generation failed:', error));
+        });
+        this.tasks.push(calendarTask);
+        console.log('✅ Content calendar initialized: Drafting upcoming posts hourly.');
+
         // --- Random content every 2 hours ---
         const randomContentTask = cron.schedule('0 */2 * * *', async () => {
             await this.broadcastRandomContent();
@@ -66,6 +76,36 @@ export class SchedulerService {
         }
     }
 
+    /**
+     * Drafts upcoming campaign slots into the content calendar. Returns how many posts were created.
+     */
+    async pregenerateScheduledPosts(): Promise<number> {
+        const { contentCalendarService } = await import('./marketing/contentCalendarService');
+        const created = await contentCalendarService.pregenerate(await this.getTimezone());
+        if (created > 0) {
+            console.log(`🗓️ Content calendar: drafted ${created} upcoming post(s)`);
+        }
+        return created;
+    }
+
+    private async dispatchScheduledPosts() {
+        try {
+            const { contentCalendarService } = await import('./marketing/contentCalendarService');
+            await contentCalendarService.dispatchDue(this.client);
+        } catch (error) {
+            console.error('❌ Content calendar dispatch failed:', error);
+        }
+    }
+
+    private async sendBookingReminders() {
+        try {
+            const { bookingService } = await import('./bookingService');
+            await bookingService.sendDueReminders();
+        } catch (error) {
+            console.error('❌ Booking reminders failed:', error);
+        }
+    }
+
     private async broadcastRandomContent() {
         try {
             console.log('🎲 Generating random content for broadcast...');
@@ -186,13 +226,13 @@ export class SchedulerService {
 
                 if (morning && morning === currentTime) {
                     console.log(`  ✅ MATCH: morning slot for "${campaign.name}"`);
-                    triggers.push(this.triggerSlot(campaign, 'ad_morning'));
+                    triggers.push(this.triggerSlot(campaign, 'ad_morning', timezone));
                 } else if (afternoon && afternoon === currentTime) {
                     console.log(`  ✅ MATCH: afternoon slot for "${campaign.name}"`);
-                    triggers.push(this.triggerSlot(campaign, 'ad_afternoon'));
+                    triggers.push(this.triggerSlot(campaign, 'ad_afternoon', timezone));
                 } else if (evening && evening === currentTime) {
                     console.log(`  ✅ MATCH: evening slot for "${campaign.name}"`);
-                    triggers.push(this.triggerSlot(campaign, 'ad_evening'));
+                    triggers.push(this.triggerSlot(campaign, 'ad_evening', timezone));
                 }
             }
 
@@ -211,9 +251,16 @@ export class SchedulerService {
         }
     }
 
-    private async triggerSlot(campaign: any, slotType: string): Promise<void> {
+    private async triggerSlot(campaign: any, slotType: string, timezone: string): Promise<void> {
         console.log(`⏰ Triggering ${slotType} for campaign "${campaign.name}" (id=${campaign.id})`);
         try {
+            // Slots drafted into the content calendar are sent by its dispatcher once approved
+            const { contentCalendarService } = await import('./marketing/contentCalendarService');
+            if (await contentCalendarService.hasPostForSlot(campaign.id, contentCalendarService.slotKey(new Date(), timezone, slotType))) {
+                console.log(`🗓️ ${slotType} for "${campaign.name}" is on the content calendar - skipping live generation`);
+                return;
+            }
+
             if (!this.client) {
                 console.error(`❌ Cannot trigger ${slotType} for "${campaign.name}": WhatsApp client is not ready.`);
                 return;
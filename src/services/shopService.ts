@@ -1,6 +1,31 @@
+import fs from 'fs';
+import path from 'path';
 import { db } from '../database';
 import { shops, products } from '../database/schema';
-import { eq, desc } from 'drizzle-orm';
+import { and, asc, desc, eq, gt, ilike, ne, or, SQL } from 'drizzle-orm';
+
+// Most items the agent gets back from one catalog search
+const MAX_CATALOG_RESULTS = 10;
+
+/**
+ * A product as the customer-facing agent sees it. Career items are portfolio work, so
+ * they carry no price or stock.
+ */
+export interface CatalogItem {
+    id: number;
+    name: string;
+    description: string | null;
+    shopName: string;
+    shopType: 'shop' | 'career';
+    price: number | null;
+    stock: number | null;
+    photoCount: number;
+}
+
+export interface ProductPhoto {
+    data: Buffer;
+    mimeType: string;
+}
 
 export class ShopService {
     // === SHOP METHODS ===
@@ -68,6 +93,87 @@ export class ShopService {
     async deleteProduct(id: number) {
         return await db.delete(products).where(eq(products.id, id));
     }
+
+    // === CATALOG (customer-facing agent) ===
+
+    /**
+     * Products customers may be shown: shop items with stock left, plus all career portfolio items.
+     * Every word of the query has to appear in the product name, description or shop name.
+     */
+    async searchCatalog(query: string, options: { type?: 'shop' | 'career'; limit?: number } = {}): Promise<CatalogItem[]> {
+        const limit = Math.min(Math.max(options.limit || 5, 1), MAX_CATALOG_RESULTS);
+        const terms = query.trim().split(/\s+/).filter(Boolean).slice(0, 8);
+
+        const conditions: (SQL | undefined)[] = [this.visibleToCustomers()];
+        if (options.type) conditions.push(options.type === 'career' ? eq(shops.type, 'career') : ne(shops.type, 'career'));
+        for (const term of terms) {
+            const pattern = `%${term.replace(/[%_\\]/g, '\\$&')}%`;
+            conditions.push(or(ilike(products.name, pattern), ilike(products.description, pattern), ilike(shops.name, pattern)));
+        }
+
+        const rows = await db.select({ product: products, shop: shops })
+            .from(products)
+            .innerJoin(shops, eq(products.shopId, shops.id))
+            .where(and(...conditions))
+            .orderBy(asc(products.name))
+            .limit(limit);
+
+        return rows.map(row => this.toCatalogItem(row.product, row.shop));
+    }
+
+    /**
+     * A single product if customers may see it (in stock, or a career item)
+     */
+    async getCatalogProduct(id: number) {
+        const row = await db.select({ product: products, shop: shops })
+            .from(products)
+            .innerJoin(shops, eq(products.shopId, shops.id))
+            .where(and(eq(products.id, id), this.visibleToCustomers()))
+            .then(rows => rows[0]);
+        if (!row) return null;
+
+        return { ...row, item: this.toCatalogItem(row.product, row.shop) };
+    }
+
+    /**
+     * Loads one of a product's photos (data URL or file on disk) for sending in a chat
+     */
+    getProductPhoto(product: typeof products.$inferSelect, index: number = 0): ProductPhoto | undefined {
+        const url = this.getPhotoUrls(product)[index];
+        if (!url) return undefined;
+
+        const match = url.match(/^data:(image\/[a-z+]+);base64,(.+)$/);
+        if (match) return { data: Buffer.from(match[2], 'base64'), mimeType: match[1] };
+
+        if (fs.existsSync(url)) {
+            const ext = path.extname(url).slice(1).toLowerCase();
+            return { data: fs.readFileSync(url), mimeType: ext === 'png' ? 'image/png' : ext === 'webp' ? 'image/webp' : 'image/jpeg' };
+        }
+        return undefined;
+    }
+
+    private visibleToCustomers() {
+        return or(eq(shops.type, 'career'), gt(products.stock, 0));
+    }
+
+    private getPhotoUrls(product: typeof products.$inferSelect): string[] {
+        if (Array.isArray(product.imageUrls) && product.imageUrls.length > 0) return product.imageUrls as string[];
+        return product.imageUrl ? [product.imageUrl] : [];
+    }
+
+    private toCatalogItem(product: typeof products.$inferSelect, shop: typeof shops.$inferSelect): CatalogItem {
+        const isCareer = shop.type === 'career';
+        return {
+            id: product.id,
+            name: product.name,
+            description: product.description,
+            shopName: shop.name,
+            shopType: isCareer ? 'career' : 'shop',
+            price: isCareer ? null : product.price,
+            stock: isCareer ? null : product.stock,
+            photoCount: this.getPhotoUrls(product).length,
+        };
+    }
 }
 
 export const shopService = new ShopService();
@@ -146,6 +146,14 @@ export class SystemSettingsService {
         );
         console.log('🔇 Chat Agent DISABLED - Bot will only broadcast ads, not reply to messages');
     }
+
+    /**
+     * Get voice reply status (answer voice notes with synthesized voice notes)
+     */
+    async isVoiceRepliesEnabled(): Promise<boolean> {
+        const val = await this.get('voice_replies_enabled', 'false');
+        return (val ?? 'false').toLowerCase() === 'true';
+    }
 }
 
 export const systemSettingsService = new SystemSettingsService();
@@ -0,0 +1,192 @@
+/**
+ * Takeover Service
+ * Per-contact human takeover: while a contact is paused the AI logs their messages but
+ * never replies, so the owner can handle the conversation by hand. The owner pauses and
+ * hands back via owner tools or the dashboard; replying by hand (from their own phone or
+ * the dashboard composer) pauses the contact automatically.
+ */
+
+import { db, withRetry } from '../database';
+import { contacts } from '../database/schema';
+import { desc, eq, ilike, or, sql } from 'drizzle-orm';
+import { systemSettingsService } from './systemSettings';
+
+export type TakeoverSource = 'owner' | 'dashboard' | 'auto';
+
+export type Contact = typeof contacts.$inferSelect;
+
+export interface ContactLookup {
+    contact: Contact | null;   // Only for an exact or unambiguous match
+    candidates: Contact[];     // Several contacts matched: the owner has to pick one
+}
+
+const MIN_QUERY_LENGTH = 3;
+const MAX_CANDIDATES = 5;
+
+export interface TakeoverState {
+    paused: boolean;
+    pausedAt: Date | null;
+    pausedBy: string | null;
+    pausedUntil: Date | null;
+}
+
+export class TakeoverService {
+    /**
+     * Pause the AI for a contact. Minutes > 0 hands back automatically after that long.
+     * Returns false if the contact doesn't exist.
+     */
+    async pause(jid: string, by: TakeoverSource, minutes?: number): Promise<boolean> {
+        const now = new Date();
+        const updated = await withRetry(async () => {
+            return await db.update(contacts)
+                .set({
+                    aiPaused: true,
+                    aiPausedAt: now,
+                    aiPausedBy: by,
+                    aiPausedUntil: minutes && minutes > 0 ? new Date(now.getTime() + minutes * 60 * 1000) : null,
+                })
+                .where(eq(contacts.phone, jid))
+                .returning({ phone: contacts.phone });
+        });
+
+        if (updated.length === 0) return false;
+        console.log(`🙋 Human takeover for ${jid} (by ${by}${minutes ? `, ${minutes} mins` : ''}) - AI paused`);
+        return true;
+    }
+
+    /**
+     * Hand a contact back to the AI. Returns false if the contact doesn't exist.
+     */
+    async resume(jid: string): Promise<boolean> {
+        const updated = await withRetry(async () => {
+            return await db.update(contacts)
+                .set({ aiPaused: false, aiPausedAt: null, aiPausedBy: null, aiPausedUntil: null })
+                .where(eq(contacts.phone, jid))
+                .returning({ phone: contacts.phone });
+        });
+
+        if (updated.length === 0) return false;
+        console.log(`🤖 ${jid} handed back to the AI`);
+        return true;
+    }
+
+    /**
+     * Whether the AI should stay silent for this contact. Expired takeovers are handed back here.
+     */
+    async isPaused(jid: string): Promise<boolean> {
+        const state = await this.getState(jid);
+        if (!state.paused) return false;
+
+        if (state.pausedUntil && state.pausedUntil.getTime() <= Date.now()) {
+            await this.resume(jid);
+            return false;
+        }
+        return true;
+    }
+
+    async getState(jid: string): Promise<TakeoverState> {
+        const contact = await withRetry(async () => {
+            return await db.select({
+                aiPaused: contacts.aiPaused,
+                aiPausedAt: contacts.aiPausedAt,
+                aiPausedBy: contacts.aiPausedBy,
+                aiPausedUntil: contacts.aiPausedUntil,
+            })
+                .from(contacts)
+                .where(eq(contacts.phone, jid))
+                .then(rows => rows[0]);
+        });
+
+        return {
+            paused: !!contact?.aiPaused,
+            pausedAt: contact?.aiPausedAt ?? null,
+            pausedBy: contact?.aiPausedBy ?? null,
+            pausedUntil: contact?.aiPausedUntil ?? null,
+        };
+    }
+
+    /**
+     * Called when the owner replies to a contact by hand (from their phone or the dashboard)
+     */
+    async handleOwnerReply(jid: string): Promise<void> {
+        const enabled = (await systemSettingsService.get('auto_takeover_enabled', 'true')) !== 'false';
+        if (!enabled) return;
+
+        // Already under a manual takeover: keep it as the owner set it
+        const state = await this.getState(jid);
+        if (state.paused && state.pausedBy !== 'auto') return;
+
+        // 0 = stay paused until handed back
+        const minutes = await systemSettingsService.getNumber('auto_takeover_minutes', 0);
+        await this.pause(jid, 'auto', minutes);
+    }
+
+    async listPaused() {
+        return await withRetry(async () => {
+            return await db.select({
+                phone: contacts.phone,
+                name: contacts.name,
+                platform: contacts.platform,
+                aiPausedAt: contacts.aiPausedAt,
+                aiPausedBy: contacts.aiPausedBy,
+                aiPausedUntil: contacts.aiPausedUntil,
+            })
+                .from(contacts)
+                .where(eq(contacts.aiPaused, true))
+                .orderBy(desc(contacts.aiPausedAt));
+        });
+    }
+
+    /**
+     * Returns why a contact query is too vague to act on, or null if it's fine
+     */
+    validateContactQuery(query: unknown): string | null {
+        if (typeof query !== 'string' || query.trim().length < MIN_QUERY_LENGTH) {
+            return `Give the contact's phone number or name (at least ${MIN_QUERY_LENGTH} characters).`;
+        }
+        return null;
+    }
+
+    /**
+     * Finds a contact from what the owner typed: a phone number, a JID or a name.
+     * An exact phone or name match wins; otherwise a partial match counts only when it's the
+     * only one, so a vague query never picks a chat on its own.
+     */
+    async findContact(query: string): Promise<ContactLookup> {
+        const trimmed = query.trim();
+        const digits = trimmed.replace(/[^\d]/g, '');
+        if (this.validateContactQuery(trimmed)) return { contact: null, candidates: [] };
+
+        return await withRetry(async () => {
+            const exact = await db.select().from(contacts).where(eq(contacts.phone, trimmed)).then(rows => rows[0]);
+            if (exact) return { contact: exact, candidates: [] };
+
+            const named = await db.select()
+                .from(contacts)
+                .where(or(
+                    sql`lower(${contacts.name}) = lower(${trimmed})`,
+                    sql`lower(${contacts.confirmedName}) = lower(${trimmed})`
+                ))
+                .orderBy(desc(contacts.lastSeenAt))
+                .limit(MAX_CANDIDATES);
+            if (named.length > 0) return this.toLookup(named);
+
+            const pattern = `%${trimmed.replace(/[%_\\]/g, '\\$&')}%`;
+            const conditions = [ilike(contacts.name, pattern), ilike(contacts.confirmedName, pattern)];
+            if (digits.length >= 6) conditions.push(ilike(contacts.phone, `%${digits}%`));
+
+            const partial = await db.select()
+                .from(contacts)
+                .where(or(...conditions))
+                .orderBy(desc(contacts.lastSeenAt))
+                .limit(MAX_CANDIDATES);
+            return this.toLookup(partial);
+        });
+    }
+
+    private toLookup(matches: Contact[]): ContactLookup {
+        return matches.length === 1 ? { contact: matches[0], candidates: [] } : { contact: null, candidates: matches };
+    }
+}
+
+export const takeoverService = new TakeoverService();
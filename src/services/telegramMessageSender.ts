@@ -7,32 +7,55 @@ export class TelegramMessageSender {
         this.bot = bot;
     }
 
-    async sendText(chatId: number | string, text: string): Promise<void> {
+    async sendText(chatId: number | string, text: string): Promise<TelegramBot.Message | undefined> {
         try {
             await this.bot.sendChatAction(chatId, 'typing');
             // Simulate typing delay based on length (optional, kept short for responsiveness)
             await new Promise(resolve => setTimeout(resolve, Math.min(1000, text.length * 20)));
-            await this.bot.sendMessage(chatId, text);
+            return await this.bot.sendMessage(chatId, text);
         } catch (error) {
             console.error(`Error sending Telegram message to ${chatId}:`, error);
+            return undefined;
         }
     }
 
-    async sendImage(chatId: number | string, imageUrl: string, caption?: string): Promise<void> {
+    async sendImage(chatId: number | string, image: string | Buffer, caption?: string): Promise<TelegramBot.Message | undefined> {
         try {
             await this.bot.sendChatAction(chatId, 'upload_photo');
-            await this.bot.sendPhoto(chatId, imageUrl, { caption });
+            return await this.bot.sendPhoto(chatId, image, { caption });
         } catch (error) {
             console.error(`Error sending Telegram image to ${chatId}:`, error);
+            return undefined;
         }
     }
 
-    async sendVoice(chatId: number | string, audioUrl: string): Promise<void> {
+    async sendVoice(chatId: number | string, audio: string | Buffer): Promise<TelegramBot.Message | undefined> {
         try {
             await this.bot.sendChatAction(chatId, 'record_voice');
-            await this.bot.sendVoice(chatId, audioUrl);
+            return await this.bot.sendVoice(chatId, audio);
         } catch (error) {
             console.error(`Error sending Telegram voice to ${chatId}:`, error);
+            return undefined;
+        }
+    }
+
+    async sendAudio(chatId: number | string, audio: Buffer, mimeType: string): Promise<TelegramBot.Message | undefined> {
+        try {
+            await this.bot.sendChatAction(chatId, 'upload_voice');
+            return await this.bot.sendAudio(chatId, audio, {}, { contentType: mimeType });
+        } catch (error) {
+            console.error(`Error sending Telegram audio to ${chatId}:`, error);
+            return undefined;
+        }
+    }
+
+    async sendDocument(chatId: number | string, document: Buffer, fileName: string, mimeType: string, caption?: string): Promise<TelegramBot.Message | undefined> {
+        try {
+            await this.bot.sendChatAction(chatId, 'upload_document');
+            return await this.bot.sendDocument(chatId, document, { caption }, { filename: fileName, contentType: mimeType });
+        } catch (error) {
+            console.error(`Error sending Telegram document to ${chatId}:`, error);
+            return undefined;
         }
     }
 }
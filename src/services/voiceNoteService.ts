@@ -0,0 +1,103 @@
+import { spawn } from 'child_process';
+import { geminiService } from './ai/gemini';
+import { systemSettingsService } from './systemSettings';
+import { config } from '../config/env';
+import type { InboundMessage } from './inboundMessage';
+
+/**
+ * Voice Note Service
+ * Turns inbound WhatsApp voice notes into text the normal batch/AI flow understands,
+ * and optionally turns the agent's reply back into a voice note.
+ *
+ * Transcripts start with VOICE_NOTE_PREFIX so the AI and the logs can tell they were spoken.
+ * Whether a message really was a voice note is the InboundMessage's voiceNote flag: a contact
+ * can type the prefix.
+ */
+export const VOICE_NOTE_PREFIX = '🎤 [Voice note]: ';
+
+// WhatsApp and Telegram only play OGG/Opus as voice notes
+const VOICE_NOTE_MIMETYPE = 'audio/ogg; codecs=opus';
+
+const TRANSCODE_TIMEOUT_MS = 30000;
+
+export class VoiceNoteService {
+    private ffmpegMissing = false;
+
+    /**
+     * Transcribe a downloaded voice note. Returns null when nothing usable was heard.
+     */
+    async transcribe(audio: Buffer, mimeType: string = 'audio/ogg'): Promise<InboundMessage | null> {
+        // Gemini rejects codec parameters (e.g. "audio/ogg; codecs=opus")
+        const cleanMimeType = mimeType.split(';')[0].trim();
+        const transcript = await geminiService.transcribeAudio(audio, cleanMimeType);
+
+        if (!transcript || transcript === '[inaudible]') {
+            return null;
+        }
+
+        return { text: `${VOICE_NOTE_PREFIX}${transcript}`, voiceNote: true };
+    }
+
+    /**
+     * A batch counts as a voice message only if every part of it was spoken
+     */
+    isVoiceBatch(messages: InboundMessage[]): boolean {
+        return messages.length > 0 && messages.every(m => m.voiceNote === true);
+    }
+
+    /**
+     * Whether replies to voice notes should be sent back as voice notes
+     */
+    async shouldReplyWithVoice(): Promise<boolean> {
+        return systemSettingsService.isVoiceRepliesEnabled();
+    }
+
+    /**
+     * Synthesize a reply. Returns null if TTS failed so callers can fall back to text.
+     * Without ffmpeg the WAV is returned as is, and goes out as a plain audio message.
+     */
+    async synthesize(text: string): Promise<{ audio: Buffer; mimetype: string } | null> {
+        const audio = await geminiService.synthesizeSpeech(text);
+        if (!audio) return null;
+
+        const voiceNote = await this.toOggOpus(audio);
+        return voiceNote ? { audio: voiceNote, mimetype: VOICE_NOTE_MIMETYPE } : { audio, mimetype: 'audio/wav' };
+    }
+
+    /**
+     * Transcodes audio to OGG/Opus with ffmpeg. Returns null if ffmpeg is missing or fails.
+     */
+    private toOggOpus(audio: Buffer): Promise<Buffer | null> {
+        // Checked once: until a restart, replies go out as audio files without retrying the spawn
+        if (this.ffmpegMissing) return Promise.resolve(null);
+
+        return new Promise(resolve => {
+            const ffmpeg = spawn(config.ffmpegPath, [
+                '-hide_banner', '-loglevel', 'error',
+                '-i', 'pipe:0',
+                '-c:a', 'libopus', '-b:a', '32k', '-ac', '1',
+                '-f', 'ogg', 'pipe:1',
+            ]);
+            const chunks: Buffer[] = [];
+            const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), TRANSCODE_TIMEOUT_MS);
+
+            ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+            ffmpeg.on('error', (error) => {
+                clearTimeout(timer);
+                this.ffmpegMissing = true;
+                console.warn(`⚠️ ffmpeg unavailable at '${config.ffmpegPath}' (${error.message}). Spoken replies will be sent as audio files, not voice notes, until it is installed and the agent restarted (see FFMPEG_PATH).`);
+                resolve(null);
+            });
+            ffmpeg.on('close', (code) => {
+                clearTimeout(timer);
+                if (code !== 0) console.warn(`🎤 ffmpeg exited with code ${code}. Sending the reply as an audio file.`);
+                resolve(code === 0 && chunks.length > 0 ? Buffer.concat(chunks) : null);
+            });
+            // ffmpeg closing its input early (e.g. bad audio) is reported through 'close'
+            ffmpeg.stdin.on('error', () => { });
+            ffmpeg.stdin.end(audio);
+        });
+    }
+}
+
+export const voiceNoteService = new VoiceNoteService();
@@ -1,4 +1,4 @@
-import { WASocket } from '@whiskeysockets/baileys';
+import { WASocket, WAMessage } from '@whiskeysockets/baileys';
 import { calculateHumanDelay, sleep } from './delay';
 
 export class MessageSender {
@@ -7,7 +7,7 @@ export class MessageSender {
     /**
      * Send a text message with human-like typing simulation
      */
-    async sendText(jid: string, text: string): Promise<void> {
+    async sendText(jid: string, text: string, quoted?: WAMessage): Promise<WAMessage | undefined> {
         const delayMs = calculateHumanDelay(text.length);
 
         // Show "typing..." indicator
@@ -15,24 +15,25 @@ export class MessageSender {
         await sleep(delayMs);
         await this.sock.sendPresenceUpdate('paused', jid);
 
-        // Send the message
-        await this.sock.sendMessage(jid, { text });
+        // Send the message (as a reply when quoting one)
+        return await this.sock.sendMessage(jid, { text }, quoted ? { quoted } : undefined);
     }
 
     /**
      * Send an image with optional caption
      */
-    async sendImage(jid: string, imageBuffer: Buffer, caption?: string): Promise<void> {
+    async sendImage(jid: string, imageBuffer: Buffer, caption?: string): Promise<WAMessage | undefined> {
         // Show "recording" presence for more realism
         await this.sock.sendPresenceUpdate('composing', jid);
         await sleep(1500); // Simulate upload time
 
-        await this.sock.sendMessage(jid, {
+        const sent = await this.sock.sendMessage(jid, {
             image: imageBuffer,
             caption: caption || ''
         });
 
         await this.sock.sendPresenceUpdate('paused', jid);
+        return sent;
     }
 
     /**
@@ -51,36 +52,42 @@ export class MessageSender {
     }
 
     /**
-     * Send a voice note (audio message)
+     * Send a voice note (audio message). Only OGG/Opus plays as a voice note; any other
+     * format goes out as a plain audio message.
      */
-    async sendVoiceNote(jid: string, audioBuffer: Buffer): Promise<void> {
+    async sendVoiceNote(jid: string, audioBuffer: Buffer, mimetype: string = 'audio/ogg; codecs=opus'): Promise<WAMessage | undefined> {
+        const ptt = mimetype.startsWith('audio/ogg');
+
         // Show "recording" presence
-        await this.sock.sendPresenceUpdate('recording', jid);
+        await this.sock.sendPresenceUpdate(ptt ? 'recording' : 'composing', jid);
         await sleep(2000); // Simulate recording time
 
-        await this.sock.sendMessage(jid, {
+        const sent = await this.sock.sendMessage(jid, {
             audio: audioBuffer,
-            mimetype: 'audio/ogg; codecs=opus',
-            ptt: true // Push-to-talk (voice note)
+            mimetype,
+            ptt // Push-to-talk (voice note)
         });
 
         await this.sock.sendPresenceUpdate('paused', jid);
+        return sent;
     }
 
     /**
      * Send a document/file
      */
-    async sendDocument(jid: string, documentBuffer: Buffer, filename: string, mimetype: string): Promise<void> {
+    async sendDocument(jid: string, documentBuffer: Buffer, filename: string, mimetype: string, caption?: string): Promise<WAMessage | undefined> {
         await this.sock.sendPresenceUpdate('composing', jid);
         await sleep(1500);
 
-        await this.sock.sendMessage(jid, {
+        const sent = await this.sock.sendMessage(jid, {
             document: documentBuffer,
             fileName: filename,
-            mimetype: mimetype
+            mimetype: mimetype,
+            caption
         });
 
         await this.sock.sendPresenceUpdate('paused', jid);
+        return sent;
     }
 
     /**
@@ -180,3 +180,14 @@ export const apiCallLimiter = new RateLimiter({
   jitterFactor: 0.1,
   throttleDelayMs: 200
 });
+
+// Singleton instance for outgoing chat messages (outbox sends, incl. dashboard messages).
+// Spaces sends out and backs off on WhatsApp 'rate-overlimit' before the outbox retries.
+export const outboundMessageLimiter = new RateLimiter({
+  maxRetries: 2,
+  initialDelayMs: 2000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  jitterFactor: 0.2,
+  throttleDelayMs: 1000 // 1s between outgoing messages
+});
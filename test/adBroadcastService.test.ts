@@ -0,0 +1,110 @@
+import { asc } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { adBroadcasts, adEngagements, groups, marketingCampaigns } from '../src/database/schema';
+import { analyticsService } from '../src/services/analyticsService';
+import { adBroadcastService } from '../src/services/marketing/adBroadcastService';
+
+const GROUP = '120363000000000001@g.us';
+const CHANNEL = '-1001234567890';
+const MEMBER = '254711000001@s.whatsapp.net';
+const OTHER_MEMBER = '254711000002@s.whatsapp.net';
+
+let campaign: typeof marketingCampaigns.$inferSelect;
+
+async function broadcasts() {
+    return await db.select().from(adBroadcasts).orderBy(asc(adBroadcasts.id));
+}
+
+async function engagements() {
+    const rows = await db.select().from(adEngagements).orderBy(asc(adEngagements.id));
+    return rows.map(e => ({ type: e.type, userPhone: e.userPhone, campaignId: e.campaignId, broadcastId: e.broadcastId }));
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    [campaign] = await db.insert(marketingCampaigns).values({ name: 'Launch' }).returning();
+    await db.insert(groups).values({ jid: GROUP, subject: 'Mtaa Traders', totalMembers: 40 });
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    await db.delete(adEngagements);
+    await db.delete(adBroadcasts);
+});
+
+describe('record', () => {
+    it('keeps the group size at posting time as the audience, unknown for Telegram', async () => {
+        await adBroadcastService.record({ campaignId: campaign.id, source: 'slot', platform: 'whatsapp', groupJid: GROUP, messageId: 'WA1', framework: 'AIDA', slot: 'ad_morning' });
+        await adBroadcastService.record({ campaignId: campaign.id, source: 'slot', platform: 'telegram', groupJid: CHANNEL, messageId: '42' });
+        // A second ack for the same message is ignored
+        await adBroadcastService.record({ campaignId: campaign.id, source: 'slot', platform: 'whatsapp', groupJid: GROUP, messageId: 'WA1' });
+
+        expect((await broadcasts()).map(b => [b.groupJid, b.messageId, b.audienceSize, b.framework])).toEqual([
+            [GROUP, 'WA1', 40, 'AIDA'],
+            [CHANNEL, '42', null, null],
+        ]);
+    });
+});
+
+describe('trackEngagement', () => {
+    it('attributes reads and replies to the broadcast and campaign that posted the message', async () => {
+        await adBroadcastService.record({ campaignId: campaign.id, source: 'slot', platform: 'whatsapp', groupJid: GROUP, messageId: 'WA1' });
+        const [broadcast] = await broadcasts();
+
+        await analyticsService.trackEngagement('read', 'WA1', MEMBER, GROUP);
+        await analyticsService.trackEngagement('read', 'WA1', MEMBER, GROUP);
+        await analyticsService.trackEngagement('read', 'WA1', OTHER_MEMBER, GROUP);
+        await analyticsService.trackEngagement('reply', 'WA1', MEMBER, GROUP, { text: 'How much?' });
+
+        expect(await engagements()).toEqual([
+            { type: 'read', userPhone: MEMBER, campaignId: campaign.id, broadcastId: broadcast.id },
+            { type: 'read', userPhone: OTHER_MEMBER, campaignId: campaign.id, broadcastId: broadcast.id },
+            { type: 'reply', userPhone: MEMBER, campaignId: campaign.id, broadcastId: broadcast.id },
+        ]);
+    });
+
+    it('ignores messages that were not ads', async () => {
+        await analyticsService.trackEngagement('read', 'NOT-AN-AD', MEMBER, GROUP);
+        // The same id in another chat is a different message
+        await adBroadcastService.record({ campaignId: campaign.id, source: 'slot', platform: 'telegram', groupJid: CHANNEL, messageId: 'WA1' });
+        await analyticsService.trackEngagement('read', 'WA1', MEMBER, GROUP);
+
+        expect(await engagements()).toEqual([]);
+    });
+});
+
+describe('markDeleted', () => {
+    it('keeps our own reason when WhatsApp reports the delete as a revoke', async () => {
+        await adBroadcastService.record({ source: 'slot', platform: 'whatsapp', groupJid: GROUP, messageId: 'WA1' });
+        await adBroadcastService.record({ source: 'slot', platform: 'whatsapp', groupJid: GROUP, messageId: 'WA2' });
+
+        await adBroadcastService.markDeleted(GROUP, 'WA1', 'expired');
+        await adBroadcastService.markDeleted(GROUP, 'WA1', 'revoked');
+        await adBroadcastService.markDeleted(GROUP, 'WA2', 'revoked');
+        await adBroadcastService.markDeleted(GROUP, 'WA2', 'manual');
+
+        expect((await broadcasts()).map(b => [b.messageId, b.deletedReason])).toEqual([['WA1', 'expired'], ['WA2', 'manual']]);
+    });
+});
+
+describe('getBroadcastPerformance', () => {
+    it('reports reach and reply rates against the audience', async () => {
+        await adBroadcastService.record({ campaignId: campaign.id, source: 'slot', platform: 'whatsapp', groupJid: GROUP, messageId: 'WA1', framework: 'AIDA' });
+        await analyticsService.trackEngagement('read', 'WA1', MEMBER, GROUP);
+        await analyticsService.trackEngagement('read', 'WA1', OTHER_MEMBER, GROUP);
+        await analyticsService.trackEngagement('reply', 'WA1', MEMBER, GROUP);
+
+        const performance = await analyticsService.getBroadcastPerformance();
+
+        expect(performance.byCampaign).toEqual([expect.objectContaining({ name: 'Launch', broadcasts: 1, audience: 40, reads: 2, replies: 1, reachRate: 5, replyRate: 3 })]);
+        expect(performance.byGroup).toEqual([expect.objectContaining({ jid: GROUP, name: 'Mtaa Traders' })]);
+        expect(performance.byFramework).toEqual([expect.objectContaining({ framework: 'AIDA', reads: 2 })]);
+    });
+});
@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 1) },
+}));
+vi.mock('../src/services/notificationService', () => ({
+    notificationService: { notifyOwner: vi.fn() },
+}));
+vi.mock('../src/services/googleCalendar', () => ({
+    googleCalendar: { rescheduleMeeting: vi.fn(), cancelMeeting: vi.fn(async () => ({ success: true })) },
+}));
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { bookings, contacts } from '../src/database/schema';
+import { bookingService } from '../src/services/bookingService';
+import { googleCalendar } from '../src/services/googleCalendar';
+import { outboxService } from '../src/services/outboxService';
+import { systemSettingsService } from '../src/services/systemSettings';
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+const NOW = new Date('2026-03-01T08:00:00Z');
+const phone = '254711000001@s.whatsapp.net';
+
+let customer: typeof contacts.$inferSelect;
+let events = 0;
+
+async function book(startsIn: number) {
+    return await bookingService.record(customer, {
+        eventId: `event-${++events}`,
+        startTime: new Date(Date.now() + startsIn),
+        purpose: 'the new shop',
+    }, 'Africa/Nairobi');
+}
+
+function at(booking: { startTime: Date }, before: number) {
+    vi.setSystemTime(booking.startTime.getTime() - before);
+}
+
+function reminders(): string[] {
+    return vi.mocked(outboxService.enqueue).mock.calls.map(([message]) => message.text!);
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    [customer] = await db.insert(contacts).values({ phone, name: 'Wanjiru' }).returning();
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'], now: NOW });
+    await db.delete(bookings);
+    await systemSettingsService.set('booking_reminder_hours', '24,1');
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('sendDueReminders', () => {
+    it('sends each reminder once, when its offset comes up', async () => {
+        const booking = await book(48 * HOUR);
+
+        at(booking, 25 * HOUR);
+        await bookingService.sendDueReminders();
+        expect(reminders()).toEqual([]);
+
+        at(booking, 24 * HOUR - MINUTE);
+        await bookingService.sendDueReminders();
+        await bookingService.sendDueReminders();
+        expect(reminders()).toHaveLength(1);
+        expect(reminders()[0]).toMatch(/^⏰ Reminder: your meeting about the new shop is in 24 hours, on Tuesday, March 3 at 11:00 AM\./);
+
+        at(booking, HOUR - MINUTE);
+        await bookingService.sendDueReminders();
+        expect(reminders()).toHaveLength(2);
+        expect(reminders()[1]).toContain('is in 1 hour,');
+        expect(outboxService.enqueue).toHaveBeenLastCalledWith(expect.objectContaining({ jid: phone, platform: 'whatsapp', metadata: { bookingId: booking.id } }));
+        expect((await bookingService.get(booking.id))!.remindersSent).toEqual([1440, 60]);
+    });
+
+    it('skips offsets that had already passed when the meeting was booked', async () => {
+        const booking = await book(3 * HOUR);
+        expect(booking.remindersSent).toEqual([1440]);
+
+        at(booking, 2 * HOUR);
+        await bookingService.sendDueReminders();
+        expect(reminders()).toEqual([]);
+
+        at(booking, 30 * MINUTE);
+        await bookingService.sendDueReminders();
+        expect(reminders()).toHaveLength(1);
+        expect(reminders()[0]).toContain('is in 1 hour,');
+    });
+
+    it('sends only the closest reminder when several fell due while the bot was down', async () => {
+        const booking = await book(48 * HOUR);
+
+        at(booking, 30 * MINUTE);
+        await bookingService.sendDueReminders();
+        await bookingService.sendDueReminders();
+
+        expect(reminders()).toHaveLength(1);
+        expect(reminders()[0]).toContain('is in 1 hour,');
+        expect((await bookingService.get(booking.id))!.remindersSent).toEqual([1440, 60]);
+    });
+
+    it('starts the reminders over when the meeting is moved', async () => {
+        const booking = await book(2 * HOUR);
+        const moved = new Date(booking.startTime.getTime() + 48 * HOUR);
+        vi.mocked(googleCalendar.rescheduleMeeting).mockResolvedValueOnce({ success: true, startTime: moved });
+
+        const updated = await bookingService.reschedule(booking, { date: '2026-03-03', time: '12:00' }, 'Africa/Nairobi');
+        expect(updated.remindersSent).toEqual([]);
+
+        at(updated, 24 * HOUR - MINUTE);
+        await bookingService.sendDueReminders();
+        expect(reminders()).toHaveLength(1);
+        expect(reminders()[0]).toContain('is in 24 hours,');
+    });
+
+    it('uses the configured offsets and leaves cancelled meetings alone', async () => {
+        await systemSettingsService.set('booking_reminder_hours', '0.5, 2');
+        const kept = await book(48 * HOUR);
+        const cancelled = await bookingService.cancel(await book(48 * HOUR), 'contact');
+
+        at(kept, 2 * HOUR - MINUTE);
+        await bookingService.sendDueReminders();
+        at(kept, 20 * MINUTE);
+        await bookingService.sendDueReminders();
+
+        expect(reminders()).toHaveLength(2);
+        expect(reminders()[0]).toContain('is in 2 hours,');
+        expect(reminders()[1]).toContain('is in 30 minutes,');
+        expect((await bookingService.get(cancelled.id))!.remindersSent).toEqual([]);
+    });
+});
@@ -0,0 +1,182 @@
+import { asc, eq } from 'drizzle-orm';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/marketing/marketingService', () => ({
+    marketingService: {
+        prepareAd: vi.fn(async (_campaign: any, slot: string) => ({ text: `Ad for ${slot}`, imageFile: null, framework: 'AIDA', visualStyle: null })),
+        broadcastAd: vi.fn(async () => 2),
+        executeSingleCampaignSlot: vi.fn(),
+    },
+}));
+vi.mock('../src/services/notificationService', () => ({
+    notificationService: { notifyOwner: vi.fn() },
+}));
+vi.mock('../src/services/mediaIngestionService', () => ({
+    mediaIngestionService: { store: vi.fn(), read: vi.fn(() => null) },
+}));
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { marketingCampaigns, scheduledPosts } from '../src/database/schema';
+import { contentCalendarService } from '../src/services/marketing/contentCalendarService';
+import { marketingService } from '../src/services/marketing/marketingService';
+import { notificationService } from '../src/services/notificationService';
+import { schedulerService } from '../src/services/scheduler';
+import { systemSettingsService } from '../src/services/systemSettings';
+
+const connected = { getStatus: () => ({ status: 'CONNECTED' }) };
+const disconnected = { getStatus: () => ({ status: 'DISCONNECTED' }) };
+const MINUTE = 60 * 1000;
+
+let campaign: typeof marketingCampaigns.$inferSelect;
+
+async function posts() {
+    return await db.select().from(scheduledPosts).orderBy(asc(scheduledPosts.scheduledTime), asc(scheduledPosts.id));
+}
+
+async function addPost(values: Partial<typeof scheduledPosts.$inferInsert>) {
+    const [post] = await db.insert(scheduledPosts).values({
+        campaignId: campaign.id,
+        type: 'ad',
+        content: 'Big sale this weekend!',
+        scheduledTime: new Date(),
+        status: 'approved',
+        platform: 'all',
+        ...values,
+    }).returning();
+    return post;
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    await db.delete(scheduledPosts);
+    await db.delete(marketingCampaigns);
+    await systemSettingsService.set('content_calendar_auto_approve', 'false');
+    [campaign] = await db.insert(marketingCampaigns).values({ name: 'Launch', platforms: ['whatsapp'] }).returning();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('pregenerate', () => {
+    it('drafts every slot of the next two days for approval and tells the owner', async () => {
+        vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T05:00:00Z') });
+
+        expect(await contentCalendarService.pregenerate('UTC')).toBe(6);
+
+        const drafted = await posts();
+        expect(drafted.map(p => p.slot)).toEqual([
+            '2026-03-01 ad_morning', '2026-03-01 ad_afternoon', '2026-03-01 ad_evening',
+            '2026-03-02 ad_morning', '2026-03-02 ad_afternoon', '2026-03-02 ad_evening',
+        ]);
+        expect(drafted[0]).toMatchObject({ status: 'pending', content: 'Ad for ad_morning', scheduledTime: new Date('2026-03-01T07:00:00Z') });
+        expect(notificationService.notifyOwner).toHaveBeenCalledTimes(1);
+    });
+
+    it('converts the campaign times from the owner\'s timezone', async () => {
+        vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T02:00:00Z') });
+
+        await contentCalendarService.pregenerate('Africa/Nairobi');
+
+        expect((await posts())[0]).toMatchObject({ slot: '2026-03-01 ad_morning', scheduledTime: new Date('2026-03-01T04:00:00Z') });
+    });
+
+    it('leaves slots that are about to start to the live trigger and does not draft a slot twice', async () => {
+        vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T06:50:00Z') });
+
+        expect(await contentCalendarService.pregenerate('UTC')).toBe(5);
+        expect(await contentCalendarService.pregenerate('UTC')).toBe(0);
+
+        expect((await posts()).map(p => p.slot)).not.toContain('2026-03-01 ad_morning');
+        expect(marketingService.prepareAd).toHaveBeenCalledTimes(5);
+    });
+
+    it('approves the drafts itself when auto-approve is on', async () => {
+        vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T05:00:00Z') });
+        await systemSettingsService.set('content_calendar_auto_approve', 'true');
+
+        await contentCalendarService.pregenerate('UTC');
+
+        expect((await posts()).every(p => p.status === 'approved' && p.approvedBy === 'auto')).toBe(true);
+        expect(notificationService.notifyOwner).not.toHaveBeenCalled();
+    });
+});
+
+describe('live slot trigger', () => {
+    it('skips slots that are on the calendar, approved or not', async () => {
+        const scheduler = schedulerService as any;
+        scheduler.client = connected;
+        const [other] = await db.insert(marketingCampaigns).values({ name: 'Other' }).returning();
+        await addPost({ status: 'pending', slot: contentCalendarService.slotKey(new Date(), 'UTC', 'ad_morning') });
+
+        await scheduler.triggerSlot(campaign, 'ad_morning', 'UTC');
+        await scheduler.triggerSlot(other, 'ad_morning', 'UTC');
+
+        expect(marketingService.executeSingleCampaignSlot).toHaveBeenCalledTimes(1);
+        expect(marketingService.executeSingleCampaignSlot).toHaveBeenCalledWith(connected, other, 'ad_morning');
+        scheduler.client = undefined;
+    });
+});
+
+describe('dispatchDue', () => {
+    it('sends approved posts that are due and marks them sent', async () => {
+        const due = await addPost({ scheduledTime: new Date(Date.now() - MINUTE), metadata: { slotType: 'ad_morning', framework: 'PAS' } });
+        await addPost({ status: 'pending', scheduledTime: new Date(Date.now() - MINUTE) });
+        await addPost({ scheduledTime: new Date(Date.now() + 10 * MINUTE) });
+
+        await contentCalendarService.dispatchDue(connected);
+
+        expect(marketingService.broadcastAd).toHaveBeenCalledTimes(1);
+        expect(marketingService.broadcastAd).toHaveBeenCalledWith(
+            connected,
+            expect.objectContaining({ id: campaign.id }),
+            expect.objectContaining({ text: due.content, framework: 'PAS' }),
+            expect.objectContaining({ source: 'calendar', slot: 'ad_morning', scheduledPostId: due.id }),
+        );
+        expect(await contentCalendarService.get(due.id)).toMatchObject({ status: 'sent', lastError: null });
+    });
+
+    it('fails posts that missed their window instead of sending them late', async () => {
+        const stale = await addPost({ scheduledTime: new Date(Date.now() - 3 * 60 * MINUTE) });
+        const late = await addPost({ scheduledTime: new Date(Date.now() - 90 * MINUTE) });
+
+        await contentCalendarService.dispatchDue(connected);
+
+        expect(await contentCalendarService.get(stale.id)).toMatchObject({ status: 'failed', lastError: 'Missed its send window (the bot was offline)' });
+        expect(await contentCalendarService.get(late.id)).toMatchObject({ status: 'sent' });
+        expect(marketingService.broadcastAd).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for WhatsApp to connect before sending a WhatsApp post', async () => {
+        const post = await addPost({ scheduledTime: new Date(Date.now() - MINUTE) });
+
+        await contentCalendarService.dispatchDue(disconnected);
+
+        expect(marketingService.broadcastAd).not.toHaveBeenCalled();
+        expect(await contentCalendarService.get(post.id)).toMatchObject({ status: 'approved' });
+    });
+
+    it('fails posts whose campaign is paused or has no groups to post to', async () => {
+        const noGroups = await addPost({ scheduledTime: new Date(Date.now() - MINUTE) });
+        vi.mocked(marketingService.broadcastAd).mockResolvedValueOnce(0);
+        await contentCalendarService.dispatchDue(connected);
+        expect(await contentCalendarService.get(noGroups.id)).toMatchObject({ status: 'failed', lastError: 'No groups to post to' });
+
+        await db.update(marketingCampaigns).set({ status: 'paused' }).where(eq(marketingCampaigns.id, campaign.id));
+        const paused = await addPost({ scheduledTime: new Date(Date.now() - MINUTE) });
+        await contentCalendarService.dispatchDue(connected);
+        expect(await contentCalendarService.get(paused.id)).toMatchObject({ status: 'failed', lastError: 'Campaign is paused' });
+    });
+});
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { contentTemplates } from '../src/database/schema';
+import { contentTemplateService } from '../src/services/marketing/contentTemplateService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function startedDaysAgo(days: number) {
+    return new Date(Date.now() - days * DAY - 60 * 1000);
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    await db.delete(contentTemplates);
+});
+
+describe('ensureDefaults', () => {
+    it('seeds the built-in templates once per kind, keeping the owner\'s own', async () => {
+        await contentTemplateService.create({ kind: 'visual_style', name: 'Street market', structure: 'Busy market stalls, natural light.' });
+
+        const frameworks = await contentTemplateService.list('framework');
+        await contentTemplateService.ensureDefaults();
+
+        expect(frameworks).toHaveLength(10);
+        expect(await contentTemplateService.list('framework')).toHaveLength(10);
+        expect((await contentTemplateService.list('visual_style')).map(t => t.name)).toEqual(['Street market']);
+    });
+});
+
+describe('getPool', () => {
+    it('limits a campaign to its active allowed templates, or every active one when it has none', async () => {
+        const [first, second, third] = await contentTemplateService.list('framework');
+        await contentTemplateService.update(third.id, { isActive: false });
+
+        expect((await contentTemplateService.getPool({ templateIds: [first.id, third.id] }, 'framework')).map(t => t.id)).toEqual([first.id]);
+        expect(await contentTemplateService.getPool({ templateIds: [third.id] }, 'framework')).toHaveLength(9);
+        expect(await contentTemplateService.getPool({ templateIds: null }, 'framework')).toHaveLength(9);
+        expect((await contentTemplateService.getPool({}, 'framework')).map(t => t.id)).toContain(second.id);
+    });
+});
+
+describe('pickForCampaign', () => {
+    it('rotates frameworks daily and visual styles every three days', async () => {
+        const [a, b] = await contentTemplateService.list('framework');
+        const [x, y] = await contentTemplateService.list('visual_style');
+        const campaign = (days: number) => ({ startDate: startedDaysAgo(days), templateIds: [a.id, b.id, x.id, y.id] });
+
+        expect((await contentTemplateService.pickForCampaign(campaign(0), 'framework')).id).toBe(a.id);
+        expect((await contentTemplateService.pickForCampaign(campaign(1), 'framework')).id).toBe(b.id);
+        expect((await contentTemplateService.pickForCampaign(campaign(2), 'framework')).id).toBe(a.id);
+        expect((await contentTemplateService.pickForCampaign(campaign(2), 'visual_style')).id).toBe(x.id);
+        expect((await contentTemplateService.pickForCampaign(campaign(3), 'visual_style')).id).toBe(y.id);
+    });
+
+    it('falls back to the first built-in when every template of the kind is switched off', async () => {
+        for (const template of await contentTemplateService.list('framework')) {
+            await contentTemplateService.update(template.id, { isActive: false });
+        }
+
+        expect(await contentTemplateService.pickForCampaign({ startDate: null }, 'framework')).toMatchObject({ id: 0, name: 'Problem-Agitate-Solution' });
+    });
+});
+
+describe('validate', () => {
+    it('checks a full template and only the given fields of an edit', () => {
+        expect(contentTemplateService.validate({ kind: 'headline', name: 'X', structure: 'Y' }, false)).toBe('kind must be one of: framework, visual_style');
+        expect(contentTemplateService.validate({ kind: 'framework', name: ' ', structure: 'Y' }, false)).toBe('name is required');
+        expect(contentTemplateService.validate({ kind: 'framework', name: 'x'.repeat(101), structure: 'Y' }, false)).toBe('name must be at most 100 characters');
+        expect(contentTemplateService.validate({ kind: 'framework', name: 'X' }, false)).toBe('structure is required');
+        expect(contentTemplateService.validate({ kind: 'framework', name: 'X', structure: 'Y', examples: 3 }, false)).toBe('examples must be text');
+        expect(contentTemplateService.validate({ kind: 'framework', name: 'X', structure: 'Y' }, false)).toBeNull();
+
+        expect(contentTemplateService.validate({ isActive: 'no' }, true)).toBe('isActive must be true or false');
+        expect(contentTemplateService.validate({ isActive: false }, true)).toBeNull();
+    });
+});
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// The module-level cipher reads its keys from the environment when it loads
+const keys = vi.hoisted(() => {
+    const primary = Buffer.alloc(32, 1).toString('base64');
+    const old = Buffer.alloc(32, 2).toString('hex');
+    process.env.AUTH_ENCRYPTION_KEY = primary;
+    process.env.AUTH_ENCRYPTION_OLD_KEYS = old;
+    return { primary, old };
+});
+
+import { CredentialCipher, CredentialKeyError, credentialCipher, encryptStoredCredentials } from '../src/database/auth/credentialCipher';
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { authCredentials } from '../src/database/schema';
+
+const value = JSON.stringify({ noiseKey: { private: 'abc', public: 'def' } });
+
+describe('CredentialCipher', () => {
+    it('round-trips a value through encrypt and decrypt', () => {
+        const cipher = new CredentialCipher(keys.primary);
+        const stored = cipher.encrypt(value);
+        expect(stored.startsWith(`enc:v1:${cipher.keyId}:`)).toBe(true);
+        expect(stored).not.toContain('abc');
+        expect(cipher.decrypt(stored)).toBe(value);
+    });
+
+    it('uses a fresh data key for every value', () => {
+        const cipher = new CredentialCipher(keys.primary);
+        expect(cipher.encrypt(value)).not.toBe(cipher.encrypt(value));
+    });
+
+    it('leaves values plain without a key and passes plain values through', () => {
+        expect(new CredentialCipher(undefined).encrypt(value)).toBe(value);
+        expect(new CredentialCipher(keys.primary).decrypt(value)).toBe(value);
+    });
+
+    it('accepts the same key as hex or base64', () => {
+        const raw = crypto.randomBytes(32);
+        const hex = new CredentialCipher(raw.toString('hex'));
+        const base64 = new CredentialCipher(raw.toString('base64'));
+        expect(hex.keyId).toBe(base64.keyId);
+        expect(base64.decrypt(hex.encrypt(value))).toBe(value);
+    });
+
+    it('rewraps a value from an old key onto the new one', () => {
+        const before = new CredentialCipher(keys.old);
+        const after = new CredentialCipher(keys.primary, [keys.old]);
+        const stored = before.encrypt(value);
+
+        const upgraded = after.upgrade(stored)!;
+        expect(upgraded.startsWith(`enc:v1:${after.keyId}:`)).toBe(true);
+        expect(new CredentialCipher(keys.primary).decrypt(upgraded)).toBe(value);
+        expect(after.upgrade(upgraded)).toBeNull();
+    });
+
+    it('encrypts plain values on upgrade only when a key is set', () => {
+        expect(new CredentialCipher(undefined).upgrade(value)).toBeNull();
+        const cipher = new CredentialCipher(keys.primary);
+        expect(cipher.decrypt(cipher.upgrade(value)!)).toBe(value);
+    });
+
+    it('refuses values under a key it does not have', () => {
+        const stored = new CredentialCipher(keys.old).encrypt(value);
+        expect(() => new CredentialCipher(keys.primary).decrypt(stored)).toThrow(CredentialKeyError);
+        expect(() => new CredentialCipher(undefined).decrypt(stored)).toThrow(/AUTH_ENCRYPTION_KEY is not set/);
+    });
+
+    it('refuses tampered values', () => {
+        const cipher = new CredentialCipher(keys.primary);
+        const parts = cipher.encrypt(value).split(':');
+        const payload = Buffer.from(parts[4], 'base64');
+        payload[payload.length - 1] ^= 1;
+        parts[4] = payload.toString('base64');
+        expect(() => cipher.decrypt(parts.join(':'))).toThrow(CredentialKeyError);
+    });
+
+    it('reports a malformed key when used, not when constructed', () => {
+        const cipher = new CredentialCipher('not-a-key');
+        expect(() => cipher.assertUsable()).toThrow(/AUTH_ENCRYPTION_KEY must be a 32-byte key/);
+        expect(() => cipher.encrypt(value)).toThrow(CredentialKeyError);
+        expect(() => new CredentialCipher(keys.primary, ['short']).assertUsable()).toThrow(/AUTH_ENCRYPTION_OLD_KEYS/);
+    });
+});
+
+describe('encryptStoredCredentials', () => {
+    beforeAll(async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        expect(await initializeDatabase()).toBe(true);
+    });
+
+    afterAll(async () => {
+        await closeDatabase();
+    });
+
+    it('encrypts plain rows and rewraps old-key rows, leaving other sessions alone', async () => {
+        const current = credentialCipher.encrypt(value);
+        await db.insert(authCredentials).values([
+            { key: 'session:creds', value },
+            { key: 'session:app-state-1', value: new CredentialCipher(keys.old).encrypt(value) },
+            { key: 'session:app-state-2', value: current },
+            { key: 'other:creds', value },
+        ]);
+
+        expect(await encryptStoredCredentials('session')).toEqual({ encrypted: 1, rewrapped: 1 });
+
+        const rows = await db.select().from(authCredentials);
+        for (const row of rows.filter(r => r.key.startsWith('session:'))) {
+            expect(row.value.startsWith(`enc:v1:${credentialCipher.keyId}:`)).toBe(true);
+            expect(credentialCipher.decrypt(row.value)).toBe(value);
+        }
+        expect(rows.find(r => r.key === 'session:app-state-2')!.value).toBe(current);
+        expect(rows.find(r => r.key === 'other:creds')!.value).toBe(value);
+
+        expect(await encryptStoredCredentials('session')).toEqual({ encrypted: 0, rewrapped: 0 });
+    });
+});
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { ephemeralAds } from '../src/database/schema';
+import { adBroadcastService } from '../src/services/marketing/adBroadcastService';
+import { ephemeralAdsService } from '../src/services/marketing/ephemeralAdsService';
+
+const MINUTE = 60 * 1000;
+const GROUP = '120363000000000001@g.us';
+const CHANNEL = '-1001234567890';
+
+const whatsapp = { deleteMessage: vi.fn(async () => true) };
+const telegram = { deleteMessage: vi.fn(async () => true) };
+
+async function ads() {
+    return await db.select().from(ephemeralAds);
+}
+
+function later(ms: number) {
+    vi.setSystemTime(Date.now() + ms);
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    // setClient imports the legacy JSON file; keep it away from the one in the working tree
+    (ephemeralAdsService as any).legacyStoragePath = path.join(os.tmpdir(), 'ephemeral_ads.test.json');
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(adBroadcastService, 'markDeleted').mockResolvedValue(undefined as any);
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T08:00:00Z') });
+    await db.delete(ephemeralAds);
+    ephemeralAdsService.setClient(whatsapp);
+    ephemeralAdsService.setTelegramClient(telegram);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('runCleanup', () => {
+    it('deletes ads once their campaign TTL has passed, on the platform they were posted to', async () => {
+        const key = { remoteJid: GROUP, id: 'WA1', fromMe: true };
+        await ephemeralAdsService.trackAd({ platform: 'whatsapp', chatId: GROUP, messageId: 'WA1', messageKey: key, ttlMinutes: 30 });
+        await ephemeralAdsService.trackAd({ platform: 'telegram', chatId: CHANNEL, messageId: '42', ttlMinutes: 60 });
+
+        later(29 * MINUTE);
+        await ephemeralAdsService.runCleanup();
+        expect(whatsapp.deleteMessage).not.toHaveBeenCalled();
+
+        later(2 * MINUTE);
+        await ephemeralAdsService.runCleanup();
+        expect(whatsapp.deleteMessage).toHaveBeenCalledWith(GROUP, key);
+        expect(telegram.deleteMessage).not.toHaveBeenCalled();
+        expect(adBroadcastService.markDeleted).toHaveBeenCalledWith(GROUP, 'WA1', 'expired');
+
+        later(30 * MINUTE);
+        await ephemeralAdsService.runCleanup();
+        expect(telegram.deleteMessage).toHaveBeenCalledWith(CHANNEL, '42');
+        expect(whatsapp.deleteMessage).toHaveBeenCalledTimes(1);
+        expect((await ads()).map(ad => ad.status)).toEqual(['deleted', 'deleted']);
+    });
+
+    it('never deletes ads from campaigns with a TTL of 0', async () => {
+        await ephemeralAdsService.trackAd({ platform: 'telegram', chatId: CHANNEL, messageId: '43', ttlMinutes: 0 });
+
+        later(7 * 24 * 60 * MINUTE);
+        await ephemeralAdsService.runCleanup();
+
+        expect(telegram.deleteMessage).not.toHaveBeenCalled();
+        expect(await ephemeralAdsService.listLiveAds()).toEqual([expect.objectContaining({ messageId: '43', expiresAt: null })]);
+    });
+
+    it('retries rejected deletes with a growing backoff, then gives up', async () => {
+        telegram.deleteMessage.mockResolvedValue(false);
+        await ephemeralAdsService.trackAd({ platform: 'telegram', chatId: CHANNEL, messageId: '44', ttlMinutes: 1 });
+        later(MINUTE);
+
+        const backoffs: number[] = [];
+        for (let attempt = 1; attempt <= 5; attempt++) {
+            await ephemeralAdsService.runCleanup();
+            const [ad] = await ads();
+            expect(ad.deleteAttempts).toBe(attempt);
+            if (!ad.nextAttemptAt) break;
+            backoffs.push((ad.nextAttemptAt.getTime() - Date.now()) / MINUTE);
+
+            await ephemeralAdsService.runCleanup(); // Still backing off
+            expect((await ads())[0].deleteAttempts).toBe(attempt);
+            vi.setSystemTime(ad.nextAttemptAt);
+        }
+
+        expect(backoffs).toEqual([5, 10, 20, 40]);
+        expect(await ads()).toEqual([expect.objectContaining({ status: 'failed', deleteAttempts: 5, lastError: 'Delete request was rejected' })]);
+        telegram.deleteMessage.mockResolvedValue(true);
+    });
+
+    it('waits for a missing client without using up attempts', async () => {
+        ephemeralAdsService.setTelegramClient(null);
+        await ephemeralAdsService.trackAd({ platform: 'telegram', chatId: CHANNEL, messageId: '45', ttlMinutes: 1 });
+        later(MINUTE);
+
+        await ephemeralAdsService.runCleanup();
+        expect(await ads()).toEqual([expect.objectContaining({ status: 'live', deleteAttempts: 0 })]);
+
+        ephemeralAdsService.setTelegramClient(telegram);
+        await ephemeralAdsService.runCleanup();
+        expect((await ads())[0].status).toBe('deleted');
+    });
+});
+
+describe('legacy file', () => {
+    it('moves ads tracked in ephemeral_ads.json into the database once', async () => {
+        const file = (ephemeralAdsService as any).legacyStoragePath;
+        const sentAt = Date.now() - 10 * MINUTE;
+        fs.writeFileSync(file, JSON.stringify([
+            { jid: GROUP, messageKey: { remoteJid: GROUP, id: 'OLD1', fromMe: true }, sentAt, ttlMinutes: 30 },
+            { jid: GROUP, messageKey: {}, sentAt, ttlMinutes: 30 },
+        ]));
+
+        try {
+            await (ephemeralAdsService as any).importLegacyFile();
+            await (ephemeralAdsService as any).importLegacyFile();
+
+            expect(await ads()).toEqual([expect.objectContaining({
+                platform: 'whatsapp', chatId: GROUP, messageId: 'OLD1', status: 'live', expiresAt: new Date(sentAt + 30 * MINUTE),
+            })]);
+            expect(fs.existsSync(file)).toBe(false);
+        } finally {
+            fs.rmSync(file, { force: true });
+            fs.rmSync(`${file}.imported`, { force: true });
+        }
+    });
+});
+
+describe('deleteNow', () => {
+    it('deletes a live ad before its TTL and refuses ads that are gone', async () => {
+        await ephemeralAdsService.trackAd({ platform: 'telegram', chatId: CHANNEL, messageId: '46', ttlMinutes: 120 });
+        const [ad] = await ads();
+
+        expect(await ephemeralAdsService.deleteNow(ad.id)).toBe(true);
+        expect(adBroadcastService.markDeleted).toHaveBeenCalledWith(CHANNEL, '46', 'manual');
+        expect(await ephemeralAdsService.deleteNow(ad.id)).toBe(false);
+    });
+
+    it('reports a delete the platform rejected', async () => {
+        telegram.deleteMessage.mockResolvedValueOnce(false);
+        await ephemeralAdsService.trackAd({ platform: 'telegram', chatId: CHANNEL, messageId: '47', ttlMinutes: 120 });
+        const [ad] = await ads();
+
+        await expect(ephemeralAdsService.deleteNow(ad.id)).rejects.toThrow(`Could not delete ad ${ad.id} from ${CHANNEL}`);
+    });
+});
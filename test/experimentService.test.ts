@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { adBroadcasts, adEngagements, contentTemplates, marketingCampaigns } from '../src/database/schema';
+import { experimentService, VariantAssignment } from '../src/services/marketing/experimentService';
+import { contentTemplateService } from '../src/services/marketing/contentTemplateService';
+
+const HOUR = 60 * 60 * 1000;
+const groups = Array.from({ length: 20 }, (_, i) => ({ id: `1203630000000000${String(i).padStart(2, '0')}@g.us` }));
+
+let campaign: typeof marketingCampaigns.$inferSelect;
+let winner: typeof contentTemplates.$inferSelect;
+let loser: typeof contentTemplates.$inferSelect;
+let messageIds = 0;
+
+function variant(index: number, key = '2026-03-01 ad_morning'): VariantAssignment {
+    return { label: ['A', 'B'][index], index, count: 2, key };
+}
+
+/**
+ * Records a sent ad and `reads` read receipts for it
+ */
+async function broadcast(framework: string, values: { reads: number; audienceSize: number; sentAt?: Date; variant?: string; experimentKey?: string }) {
+    const [row] = await db.insert(adBroadcasts).values({
+        campaignId: campaign.id,
+        source: 'slot',
+        groupJid: groups[0].id,
+        messageId: `msg-${++messageIds}`,
+        framework,
+        audienceSize: values.audienceSize,
+        sentAt: values.sentAt || new Date(Date.now() - 24 * HOUR),
+        variant: values.variant,
+        experimentKey: values.experimentKey,
+    }).returning();
+    for (let i = 0; i < values.reads; i++) {
+        await db.insert(adEngagements).values({ campaignId: campaign.id, broadcastId: row.id, userPhone: `2547110000${i}`, type: 'read' });
+    }
+    return row;
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    [winner, loser] = (await contentTemplateService.list('framework')).slice(0, 2);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    await db.delete(adEngagements);
+    await db.delete(adBroadcasts);
+    [campaign] = await db.insert(marketingCampaigns).values({ name: 'Launch', experimentMode: true, templateIds: [winner.id, loser.id] }).returning();
+});
+
+describe('splitTargets', () => {
+    it('splits the groups evenly and the same way for every variant of a test', () => {
+        const a = experimentService.splitTargets(groups, variant(0));
+        const b = experimentService.splitTargets(groups, variant(1));
+
+        expect(a).toHaveLength(10);
+        expect(b).toHaveLength(10);
+        expect([...a, ...b].map(g => g.id).sort()).toEqual(groups.map(g => g.id));
+        expect(experimentService.splitTargets([...groups].reverse(), variant(0))).toEqual(a);
+    });
+
+    it('gives groups a different variant from one test to the next', () => {
+        const today = experimentService.splitTargets(groups, variant(0, '2026-03-01 ad_morning'));
+        const tomorrow = experimentService.splitTargets(groups, variant(0, '2026-03-02 ad_morning'));
+
+        expect(tomorrow).not.toEqual(today);
+    });
+});
+
+describe('selectFrameworks', () => {
+    it('picks two different frameworks from the campaign\'s allowed ones', async () => {
+        const picked = await experimentService.selectFrameworks(campaign);
+
+        expect(picked.map(t => t.id).sort()).toEqual([winner.id, loser.id].sort());
+    });
+
+    it('favours the framework that engaged best', async () => {
+        for (let i = 0; i < 20; i++) {
+            await broadcast(winner.name, { reads: 1, audienceSize: 1 });
+            await broadcast(loser.name, { reads: 0, audienceSize: 1 });
+        }
+
+        for (let i = 0; i < 10; i++) {
+            const [best] = await experimentService.selectFrameworks(campaign, 1);
+            expect(best.id).toBe(winner.id);
+        }
+    });
+
+    it('does not count posts that are too recent to have their reads yet', async () => {
+        // Counting the fresh posts would put the loser well ahead
+        for (let i = 0; i < 20; i++) {
+            await broadcast(winner.name, { reads: i % 2, audienceSize: 1 });
+            await broadcast(loser.name, { reads: 0, audienceSize: 1 });
+            await broadcast(loser.name, { reads: 1, audienceSize: 1, sentAt: new Date() });
+            await broadcast(loser.name, { reads: 1, audienceSize: 1, sentAt: new Date() });
+        }
+
+        for (let i = 0; i < 10; i++) {
+            const [best] = await experimentService.selectFrameworks(campaign, 1);
+            expect(best.id).toBe(winner.id);
+        }
+    });
+});
+
+describe('getResults', () => {
+    it('names the variant with the better engagement as the winner of its test', async () => {
+        const key = '2026-03-01 ad_morning';
+        await broadcast(winner.name, { reads: 3, audienceSize: 10, variant: 'A', experimentKey: key });
+        await broadcast(loser.name, { reads: 1, audienceSize: 10, variant: 'B', experimentKey: key });
+
+        const results = await experimentService.getResults(campaign.id);
+
+        expect(results.recentTests).toHaveLength(1);
+        expect(results.recentTests[0]).toMatchObject({ key, winner: 'A' });
+        expect(results.byFramework.map(f => [f.framework, f.tests, f.wins, f.reachRate])).toEqual([
+            [winner.name, 1, 1, 30],
+            [loser.name, 1, 0, 10],
+        ]);
+    });
+
+    it('has no winner while neither variant has been read', async () => {
+        const key = '2026-03-01 ad_evening';
+        await broadcast(winner.name, { reads: 0, audienceSize: 10, variant: 'A', experimentKey: key });
+        await broadcast(loser.name, { reads: 0, audienceSize: 10, variant: 'B', experimentKey: key });
+
+        expect((await experimentService.getResults(campaign.id)).recentTests[0].winner).toBeNull();
+    });
+});
@@ -0,0 +1,120 @@
+import { and, eq } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 1) },
+}));
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { flowSessions } from '../src/database/schema';
+import { FlowStateStore } from '../src/services/flowStateStore';
+import { outboxService } from '../src/services/outboxService';
+
+interface WizardState {
+    step: number;
+    photo: Buffer | null;
+}
+
+const wizard = new FlowStateStore<WizardState>('test_wizard', 60 * 1000, state => state.step < 3 ? `Still on step ${state.step}` : null);
+const silent = new FlowStateStore<{ note: string }>('test_silent', 60 * 1000);
+
+const ALICE = '254711000001@s.whatsapp.net';
+const BOB = '254711000002@s.whatsapp.net';
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    await db.delete(flowSessions);
+});
+
+async function expire(flow: string, key: string) {
+    await db.update(flowSessions)
+        .set({ expiresAt: new Date(Date.now() - 1000) })
+        .where(and(eq(flowSessions.flow, flow), eq(flowSessions.sessionKey, key)));
+}
+
+describe('FlowStateStore', () => {
+    it('saves and restores a session, buffers included', async () => {
+        const photo = Buffer.from([0xff, 0xd8, 0x00, 0x01]);
+        await wizard.set(ALICE, { step: 2, photo });
+
+        const restored = await wizard.get(ALICE);
+        expect(restored?.step).toBe(2);
+        expect(Buffer.isBuffer(restored?.photo)).toBe(true);
+        expect(restored?.photo?.equals(photo)).toBe(true);
+        expect(await wizard.has(ALICE)).toBe(true);
+    });
+
+    it('keeps each flow and chat separate', async () => {
+        await wizard.set(ALICE, { step: 1, photo: null });
+        await silent.set(ALICE, { note: 'hi' });
+
+        expect(await wizard.get(BOB)).toBeUndefined();
+        expect(await silent.get(ALICE)).toEqual({ note: 'hi' });
+
+        await wizard.delete(ALICE);
+        expect(await wizard.has(ALICE)).toBe(false);
+        expect(await silent.has(ALICE)).toBe(true);
+    });
+
+    it('replaces a session and refreshes its TTL on write', async () => {
+        await wizard.set(ALICE, { step: 1, photo: null });
+        await expire('test_wizard', ALICE);
+        expect(await wizard.get(ALICE)).toBeUndefined();
+
+        await wizard.set(ALICE, { step: 2, photo: null });
+        expect((await wizard.get(ALICE))?.step).toBe(2);
+        expect(await db.select().from(flowSessions)).toHaveLength(1);
+    });
+
+    it('purges expired sessions on restore and returns the live ones', async () => {
+        await wizard.set(ALICE, { step: 1, photo: null });
+        await wizard.set(BOB, { step: 2, photo: null });
+        await expire('test_wizard', BOB);
+
+        expect(await wizard.restore()).toEqual([ALICE]);
+        expect(await db.select().from(flowSessions).where(eq(flowSessions.sessionKey, BOB))).toEqual([]);
+    });
+});
+
+describe('restoreAll', () => {
+    it("prompts each open session's chat to carry on", async () => {
+        await wizard.set(ALICE, { step: 1, photo: null });
+        await wizard.set(BOB, { step: 2, photo: null });
+
+        await FlowStateStore.restoreAll();
+        expect(outboxService.enqueue).toHaveBeenCalledTimes(2);
+        expect(outboxService.enqueue).toHaveBeenCalledWith({ jid: ALICE, text: 'Still on step 1', source: 'notification', metadata: { flow: 'test_wizard' } });
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ jid: BOB, text: 'Still on step 2' }));
+    });
+
+    it('skips expired sessions, flows without a prompt and states the prompt declines', async () => {
+        await wizard.set(ALICE, { step: 1, photo: null });
+        await expire('test_wizard', ALICE);
+        await wizard.set(BOB, { step: 3, photo: null });
+        await silent.set(ALICE, { note: 'hi' });
+
+        await FlowStateStore.restoreAll();
+        expect(outboxService.enqueue).not.toHaveBeenCalled();
+        expect(await wizard.has(BOB)).toBe(true);
+    });
+
+    it('keeps going when one prompt fails', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.mocked(outboxService.enqueue).mockRejectedValueOnce(new Error('db down'));
+        await wizard.set(ALICE, { step: 1, photo: null });
+        await wizard.set(BOB, { step: 1, photo: null });
+
+        await FlowStateStore.restoreAll();
+        expect(outboxService.enqueue).toHaveBeenCalledTimes(2);
+    });
+});
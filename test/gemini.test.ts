@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { geminiService } from '../src/services/ai/gemini';
+
+describe('buildConversation', () => {
+    it('merges consecutive messages from one side into a single turn', () => {
+        expect(geminiService.buildConversation([
+            { role: 'user', content: 'Hi' },
+            { role: 'user', content: 'Are you open?' },
+            { role: 'agent', content: 'Yes, until 6.' },
+            { role: 'user', content: 'Thanks' },
+        ])).toEqual([
+            { role: 'user', parts: [{ text: 'Hi' }, { text: 'Are you open?' }] },
+            { role: 'model', parts: [{ text: 'Yes, until 6.' }] },
+            { role: 'user', parts: [{ text: 'Thanks' }] },
+        ]);
+    });
+
+    it('attaches media to the last user turn', () => {
+        const media = [{ mimeType: 'image/jpeg', data: 'AAAA' }];
+
+        expect(geminiService.buildConversation([{ role: 'user', content: 'Is this in stock?' }], media)).toEqual([
+            { role: 'user', parts: [{ text: 'Is this in stock?' }, { inlineData: { mimeType: 'image/jpeg', data: 'AAAA' } }] },
+        ]);
+        expect(geminiService.buildConversation([{ role: 'agent', content: 'Send a photo' }], media)[1]).toEqual(
+            { role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data: 'AAAA' } }] },
+        );
+    });
+});
+
+describe('buildFunctionResponseTurn', () => {
+    it('answers every call in order and wraps results that are not objects', () => {
+        expect(geminiService.buildFunctionResponseTurn([
+            { name: 'search_products', response: { products: [] } },
+            { name: 'get_current_time', response: '10:00 AM' },
+            { name: 'list_groups', response: ['a', 'b'] },
+            { name: 'delete_last_message', response: undefined },
+        ])).toEqual({
+            role: 'function',
+            parts: [
+                { functionResponse: { name: 'search_products', response: { products: [] } } },
+                { functionResponse: { name: 'get_current_time', response: { result: '10:00 AM' } } },
+                { functionResponse: { name: 'list_groups', response: { result: ['a', 'b'] } } },
+                { functionResponse: { name: 'delete_last_message', response: { result: null } } },
+            ],
+        });
+    });
+});
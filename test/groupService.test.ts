@@ -0,0 +1,118 @@
+import { asc, eq } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { groupMemberEvents, groupMembers, groups } from '../src/database/schema';
+import { groupService } from '../src/services/groupService';
+
+const GROUP = '120363000000000001@g.us';
+const A = '254711000001@s.whatsapp.net';
+const B = '254711000002@s.whatsapp.net';
+const C = '254711000003@s.whatsapp.net';
+
+function metadata(participants: { id: string; admin?: string | null }[]) {
+    return { subject: 'Mtaa Traders', desc: null, creation: 1700000000, owner: A, participants };
+}
+
+async function members() {
+    const rows = await db.select().from(groupMembers).where(eq(groupMembers.groupJid, GROUP)).orderBy(asc(groupMembers.phone));
+    return rows.map(m => ({ phone: m.phone, role: m.role, isAdmin: m.isAdmin }));
+}
+
+async function events() {
+    const rows = await db.select().from(groupMemberEvents).where(eq(groupMemberEvents.groupJid, GROUP)).orderBy(asc(groupMemberEvents.id));
+    return rows.map(e => ({ phone: e.phone, action: e.action, source: e.source, actor: e.actor }));
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    await db.delete(groupMemberEvents);
+    await db.delete(groups);
+    await groupService.syncGroup(GROUP, metadata([{ id: A, admin: 'superadmin' }, { id: B }]));
+});
+
+describe('syncGroup', () => {
+    it('takes the first sync as the baseline without recording joins', async () => {
+        expect(await members()).toEqual([
+            { phone: A, role: 'superadmin', isAdmin: true },
+            { phone: B, role: 'participant', isAdmin: false },
+        ]);
+        expect(await events()).toEqual([]);
+    });
+
+    it('records joins, leaves and admin changes found by later syncs', async () => {
+        await groupService.syncGroup(GROUP, metadata([{ id: A, admin: 'admin' }, { id: C, admin: 'admin' }]));
+
+        expect(await members()).toEqual([
+            { phone: A, role: 'admin', isAdmin: true },
+            { phone: C, role: 'admin', isAdmin: true },
+        ]);
+        // superadmin -> admin is not a demotion
+        expect(await events()).toEqual([
+            { phone: C, action: 'join', source: 'sync', actor: null },
+            { phone: B, action: 'leave', source: 'sync', actor: null },
+        ]);
+    });
+
+    it('changes nothing when a write fails partway, so the next sync records the difference', async () => {
+        // The role column is 20 characters: the last write of the diff fails
+        await groupService.syncGroup(GROUP, metadata([{ id: A, admin: 'x'.repeat(30) }, { id: C }]));
+        expect(await members()).toEqual([
+            { phone: A, role: 'superadmin', isAdmin: true },
+            { phone: B, role: 'participant', isAdmin: false },
+        ]);
+        expect(await events()).toEqual([]);
+
+        await groupService.syncGroup(GROUP, metadata([{ id: A, admin: 'superadmin' }, { id: C }]));
+        expect(await events()).toEqual([
+            { phone: C, action: 'join', source: 'sync', actor: null },
+            { phone: B, action: 'leave', source: 'sync', actor: null },
+        ]);
+    });
+});
+
+describe('handleParticipantsUpdate', () => {
+    it('applies joins and leaves with the admin who made them, and updates the counts', async () => {
+        await groupService.handleParticipantsUpdate(GROUP, [{ id: C }], 'add', A);
+        await groupService.handleParticipantsUpdate(GROUP, [B], 'remove', A);
+
+        expect((await members()).map(m => m.phone)).toEqual([A, C]);
+        expect(await events()).toEqual([
+            { phone: C, action: 'join', source: 'event', actor: A },
+            { phone: B, action: 'leave', source: 'event', actor: A },
+        ]);
+        const [group] = await db.select().from(groups).where(eq(groups.jid, GROUP));
+        expect(group).toMatchObject({ totalMembers: 2, adminsCount: 1 });
+    });
+
+    it('records promotions once, however often they are reported', async () => {
+        await groupService.handleParticipantsUpdate(GROUP, [B], 'promote');
+        await groupService.handleParticipantsUpdate(GROUP, [B], 'promote');
+
+        expect((await members()).find(m => m.phone === B)).toMatchObject({ role: 'admin', isAdmin: true });
+        expect(await events()).toEqual([{ phone: B, action: 'promote', source: 'event', actor: null }]);
+    });
+
+    it('rolls the member change back with its event when a later write fails', async () => {
+        vi.spyOn(groupService as any, 'refreshMemberCounts').mockRejectedValueOnce(new Error('connection lost'));
+        await groupService.handleParticipantsUpdate(GROUP, [C], 'add');
+
+        expect((await members()).map(m => m.phone)).toEqual([A, B]);
+        expect(await events()).toEqual([]);
+    });
+
+    it('ignores groups that were never synced', async () => {
+        await groupService.handleParticipantsUpdate('120363000000000009@g.us', [C], 'add');
+        expect(await db.select().from(groupMemberEvents)).toEqual([]);
+    });
+});
@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 1), onSent: vi.fn() },
+}));
+vi.mock('../src/services/mediaIngestionService', () => ({
+    mediaIngestionService: { store: vi.fn(), read: vi.fn(() => null) },
+}));
+vi.mock('../src/services/auditService', () => ({
+    auditService: { record: vi.fn(async () => {}) },
+}));
+
+import { messageProcessor } from '../src/core/messageProcessor';
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { groupMessages } from '../src/database/schema';
+import { geminiService } from '../src/services/ai/gemini';
+import { GROUP_TOOLS } from '../src/services/ai/toolPolicy';
+import { auditService } from '../src/services/auditService';
+import { groupChatService } from '../src/services/groupChatService';
+import { outboxService } from '../src/services/outboxService';
+
+const GROUP = '120363000000000001@g.us';
+const MEMBER = '254711000001@s.whatsapp.net';
+const quoted = { key: { remoteJid: GROUP, id: 'MSG1', participant: MEMBER }, message: { conversation: '@bot what time is it?' } };
+
+const generateReply = vi.spyOn(geminiService, 'generateReply');
+
+async function mention(text = '@bot what time is it?') {
+    await groupChatService.logMessage({ groupJid: GROUP, role: 'user', content: text, senderJid: MEMBER, senderName: 'Wanjiru', messageId: 'MSG1' });
+    await messageProcessor.receiveGroupTrigger({ groupJid: GROUP, groupName: 'Mtaa Traders', senderJid: MEMBER, senderName: 'Wanjiru', text, msg: quoted });
+}
+
+function toolCall(name: string, args: any = {}) {
+    return { type: 'tool_call' as const, functionCalls: [{ name, args }], modelTurn: { role: 'model', parts: [{ functionCall: { name, args } }] } };
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    messageProcessor.registerPlatform({
+        platform: 'whatsapp',
+        ownsJid: (jid: string) => jid.includes('@'),
+        isReady: () => true,
+        sendReply: vi.fn(),
+    } as any);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    generateReply.mockReset();
+    await db.delete(groupMessages);
+    await groupChatService.updateSettings(GROUP, { enabled: true, persona: null, allowedTools: null });
+});
+
+describe('group trigger', () => {
+    it('replies to the message that addressed the agent, quoting it', async () => {
+        generateReply.mockResolvedValueOnce({ type: 'text', content: 'It is 10:00 AM.' });
+
+        await mention();
+
+        expect(outboxService.enqueue).toHaveBeenCalledWith({
+            jid: GROUP,
+            platform: 'whatsapp',
+            text: 'It is 10:00 AM.',
+            source: 'ai_reply',
+            metadata: { quoted },
+        });
+        expect((await groupChatService.getHistory(GROUP)).map(m => [m.role, m.content])).toEqual([
+            ['user', '@bot what time is it?'],
+            ['agent', 'It is 10:00 AM.'],
+        ]);
+    });
+
+    it('offers the group tools, narrowed to the ones the owner allowed for the group', async () => {
+        generateReply.mockResolvedValue({ type: 'text', content: 'Hi' });
+
+        await mention();
+        expect(generateReply.mock.calls[0][6]?.caller).toMatchObject({ jid: GROUP, isGroup: true, isOwner: false, allowedTools: GROUP_TOOLS });
+
+        await groupChatService.updateSettings(GROUP, { allowedTools: ['get_current_time'] });
+        await mention();
+        expect(generateReply.mock.calls[1][6]?.caller).toMatchObject({ isGroup: true, allowedTools: ['get_current_time'] });
+    });
+
+    it('refuses a tool call outside the group\'s allowed tools', async () => {
+        await groupChatService.updateSettings(GROUP, { allowedTools: ['get_current_time'] });
+        generateReply
+            .mockResolvedValueOnce(toolCall('search_products', { query: 'shoes' }))
+            .mockResolvedValueOnce({ type: 'text', content: 'Please message me directly about products.' });
+
+        await mention('@bot do you have shoes?');
+
+        const conversation = generateReply.mock.calls[1][0];
+        expect(conversation[conversation.length - 1]).toMatchObject({
+            role: 'function',
+            parts: [{ functionResponse: { name: 'search_products', response: { error: "This tool isn't available in this chat." } } }],
+        });
+        expect(auditService.record).toHaveBeenCalledTimes(1);
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ text: 'Please message me directly about products.', metadata: { quoted } }));
+    });
+
+    it('stays quiet in groups where group mode is off', async () => {
+        await groupChatService.updateSettings(GROUP, { enabled: false });
+
+        await mention();
+
+        expect(generateReply).not.toHaveBeenCalled();
+        expect(outboxService.enqueue).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatRequest } from '../src/services/ai/providers/llmProvider';
+
+// Gemini is played by a scripted provider, so the chain can be driven without a network
+vi.mock('../src/services/ai/providers/geminiProvider', async () => {
+    const { ScriptedProvider } = await import('../src/services/ai/providers/scriptedProvider');
+    return { geminiProvider: new ScriptedProvider([]) };
+});
+
+const settings = vi.hoisted(() => ({ chain: 'gemini' }));
+vi.mock('../src/services/systemSettings', () => ({
+    systemSettingsService: { get: vi.fn(async () => settings.chain), set: vi.fn(async () => {}) },
+}));
+
+import { config } from '../src/config/env';
+import { geminiProvider } from '../src/services/ai/providers/geminiProvider';
+import { LlmRouter } from '../src/services/ai/providers/llmRouter';
+import { ScriptedProvider } from '../src/services/ai/providers/scriptedProvider';
+
+const gemini = geminiProvider as unknown as ScriptedProvider;
+const request: ChatRequest = {
+    systemPrompt: 'Be brief',
+    conversation: [{ role: 'user', parts: [{ text: 'Habari' }] }],
+    tools: [],
+    allowTools: false,
+};
+
+let router: LlmRouter;
+let scripted: ScriptedProvider;
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    router = new LlmRouter();
+    scripted = router.getProvider('scripted') as ScriptedProvider;
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('LlmRouter', () => {
+    it('answers with the first provider in the chain', async () => {
+        settings.chain = 'gemini,scripted';
+        gemini.push({ text: 'from gemini' });
+        scripted.push({ text: 'from scripted' });
+
+        expect(await router.chat('replies', request)).toEqual({ type: 'text', content: 'from gemini' });
+        expect(await scripted.chat(request)).toEqual({ type: 'text', content: 'from scripted' });
+    });
+
+    it('falls back to the next provider when one fails', async () => {
+        settings.chain = 'gemini,scripted';
+        vi.spyOn(gemini, 'chat').mockRejectedValueOnce(new Error('503 Service Unavailable'));
+        scripted.push({ text: 'fallback reply' });
+
+        expect(await router.chat('replies', request)).toEqual({ type: 'text', content: 'fallback reply' });
+    });
+
+    it('follows the configured order', async () => {
+        settings.chain = 'scripted,gemini';
+        const geminiChat = vi.spyOn(gemini, 'chat');
+        scripted.push({ text: 'scripted first' });
+
+        expect(await router.chat('replies', request)).toEqual({ type: 'text', content: 'scripted first' });
+        expect(geminiChat).not.toHaveBeenCalled();
+    });
+
+    it('skips providers that are unavailable or not configured', async () => {
+        settings.chain = 'openai,gemini,scripted';
+        vi.spyOn(gemini, 'isAvailable').mockReturnValue(false);
+        const geminiChat = vi.spyOn(gemini, 'chat');
+        scripted.push({ text: 'only one left' });
+
+        expect(router.getProvider('openai')).toBeNull();
+        expect(await router.chat('replies', request)).toEqual({ type: 'text', content: 'only one left' });
+        expect(geminiChat).not.toHaveBeenCalled();
+    });
+
+    it('treats a JSON answer that does not parse as a failure', async () => {
+        settings.chain = 'gemini,scripted';
+        gemini.push({ text: 'Sure! Here is the JSON' });
+        scripted.push({ text: '```json\n{"interests":["football"]}\n```' });
+
+        expect(await router.generateJson('profiling', 'Profile')).toEqual({ interests: ['football'] });
+    });
+
+    it('throws ALL_KEYS_EXHAUSTED when no provider can take the request', async () => {
+        settings.chain = 'openai,gemini';
+        vi.spyOn(gemini, 'isAvailable').mockReturnValue(false);
+
+        await expect(router.chat('replies', request)).rejects.toThrow('ALL_KEYS_EXHAUSTED');
+        expect(await router.hasAvailableProvider('replies')).toBe(false);
+    });
+
+    it('throws ALL_KEYS_EXHAUSTED when the last provider ran out of keys', async () => {
+        settings.chain = 'scripted,gemini';
+        vi.spyOn(scripted, 'chat').mockRejectedValueOnce(new Error('model overloaded'));
+        vi.spyOn(gemini, 'chat').mockRejectedValueOnce(new Error('ALL_KEYS_EXHAUSTED'));
+
+        await expect(router.chat('replies', request)).rejects.toThrow('ALL_KEYS_EXHAUSTED');
+    });
+
+    it('passes on the last error when every provider failed', async () => {
+        settings.chain = 'gemini,scripted';
+        vi.spyOn(gemini, 'chat').mockRejectedValueOnce(new Error('ALL_KEYS_EXHAUSTED'));
+        vi.spyOn(scripted, 'chat').mockRejectedValueOnce(new Error('model overloaded'));
+
+        await expect(router.chat('replies', request)).rejects.toThrow('model overloaded');
+    });
+
+    it('reads the chain from settings, dropping unknown names', async () => {
+        settings.chain = ' Scripted , claude, scripted';
+        expect(await router.getChain('replies')).toEqual(['scripted']);
+
+        settings.chain = 'claude';
+        expect(await router.getChain('replies')).toEqual(['gemini']);
+    });
+
+    it('never uses the scripted provider in production', () => {
+        const nodeEnv = config.nodeEnv;
+        config.nodeEnv = 'production';
+        try {
+            expect(new LlmRouter().getProvider('scripted')).toBeNull();
+        } finally {
+            config.nodeEnv = nodeEnv;
+        }
+    });
+});
@@ -0,0 +1,102 @@
+import { eq } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 99) },
+}));
+vi.mock('../src/services/mediaIngestionService', () => ({
+    mediaIngestionService: { store: vi.fn((_data: Buffer, mimeType: string) => `media/upload.${mimeType.split('/')[1]}`) },
+}));
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { contacts, messageLogs, outboundMessages } from '../src/database/schema';
+import { manualMessageService } from '../src/services/manualMessageService';
+import { mediaIngestionService } from '../src/services/mediaIngestionService';
+import { outboxService } from '../src/services/outboxService';
+
+const CONTACT = '254711000001@s.whatsapp.net';
+const GROUP = '120363000000000001@g.us';
+const TELEGRAM_CHAT = '-1001234567890';
+
+async function log(id: number) {
+    return await db.select().from(messageLogs).where(eq(messageLogs.id, id)).then(rows => rows[0]);
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    await db.insert(contacts).values({ phone: CONTACT, name: 'Wanjiru' });
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('validate', () => {
+    it('needs text or an attachment with base64 data and a mimeType', () => {
+        expect(manualMessageService.validate({ text: '  ' })).toBe('Message text or an attachment is required');
+        expect(manualMessageService.validate({ attachment: { data: 'AAAA' } })).toBe('attachment needs base64 data and a mimeType');
+        expect(manualMessageService.validate({ text: 'Hello' })).toBeNull();
+        expect(manualMessageService.validate({ attachment: { data: 'AAAA', mimeType: 'image/png' } })).toBeNull();
+    });
+});
+
+describe('send', () => {
+    it('logs a text message as the agent and queues it for the chat\'s platform', async () => {
+        const result = await manualMessageService.send(CONTACT, { text: ' Your order is ready ' }, CONTACT);
+
+        expect(result).toEqual({ messageLogId: expect.any(Number), outboxId: 99, status: 'pending' });
+        expect(await log(result.messageLogId)).toMatchObject({
+            contactPhone: CONTACT, role: 'agent', content: 'Your order is ready', type: 'text', platform: 'whatsapp',
+            metadata: { manual: true, sentFrom: 'dashboard' },
+        });
+        expect(outboxService.enqueue).toHaveBeenCalledWith({
+            jid: CONTACT, platform: 'whatsapp', kind: 'text', text: 'Your order is ready',
+            mediaPath: undefined, mimeType: undefined, fileName: undefined, source: 'manual', messageLogId: result.messageLogId,
+        });
+    });
+
+    it('sends images as photos with the text as caption', async () => {
+        const result = await manualMessageService.send(GROUP, { text: 'New stock', attachment: { data: 'AAAA', mimeType: 'image/jpeg' } }, null);
+
+        expect(mediaIngestionService.store).toHaveBeenCalledWith(Buffer.from('AAAA', 'base64'), 'image/jpeg');
+        expect(await log(result.messageLogId)).toMatchObject({
+            contactPhone: null, content: 'New stock', type: 'image', mediaPath: 'media/upload.jpeg',
+            metadata: { manual: true, sentFrom: 'dashboard', groupJid: GROUP, fileName: 'image' },
+        });
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ kind: 'image', text: 'New stock', mediaPath: 'media/upload.jpeg', mimeType: 'image/jpeg' }));
+    });
+
+    it('sends other files as documents and picks Telegram for chat ids', async () => {
+        const result = await manualMessageService.send(TELEGRAM_CHAT, {
+            attachment: { data: 'JVBERi0=', mimeType: 'application/pdf; charset=binary', fileName: 'price-list.pdf' },
+        }, null);
+
+        expect(await log(result.messageLogId)).toMatchObject({ content: '[Document] price-list.pdf', type: 'document', platform: 'telegram', mediaMimeType: 'application/pdf' });
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+            jid: TELEGRAM_CHAT, platform: 'telegram', kind: 'document', text: undefined, fileName: 'price-list.pdf', mimeType: 'application/pdf',
+        }));
+    });
+});
+
+describe('isBacklogged', () => {
+    it('stops a chat at ten manual messages still waiting to go out', async () => {
+        const queue = (status: string, source = 'manual') => ({ jid: CONTACT, source, status, content: 'Hi' });
+        await db.insert(outboundMessages).values([
+            ...Array.from({ length: 9 }, () => queue('pending')),
+            queue('sent'),
+            queue('failed'),
+            queue('pending', 'ai_reply'),
+        ]);
+        expect(await manualMessageService.isBacklogged(CONTACT)).toBe(false);
+
+        await db.insert(outboundMessages).values(queue('sending'));
+        expect(await manualMessageService.isBacklogged(CONTACT)).toBe(true);
+        expect(await manualMessageService.isBacklogged(GROUP)).toBe(false);
+    });
+});
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 1), onSent: vi.fn() },
+}));
+vi.mock('../src/services/mediaIngestionService', () => ({
+    mediaIngestionService: { store: vi.fn(), read: vi.fn(() => null) },
+}));
+
+import { marketingService } from '../src/services/marketing/marketingService';
+import { outboxService } from '../src/services/outboxService';
+
+const campaign = { id: 7, name: 'Launch', platforms: ['telegram'], adTtlMinutes: 45 };
+const ad = { text: 'Big sale this weekend!', imageFile: null, framework: 'AIDA', visualStyle: null };
+let chats: { id: string }[] = [];
+
+marketingService.setTelegramClient({ getBroadcastChats: async () => chats });
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('broadcastAd', () => {
+    it('queues every chat at once and leaves the pacing to the outbox', async () => {
+        chats = [{ id: '-1001' }, { id: '-1002' }, { id: '-1003' }];
+
+        const started = Date.now();
+        expect(await marketingService.broadcastAd(null, campaign, ad, { source: 'slot', slot: 'morning' })).toBe(3);
+        expect(Date.now() - started).toBeLessThan(1000);
+
+        expect(outboxService.enqueue).toHaveBeenCalledTimes(3);
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+            jid: '-1001',
+            platform: 'telegram',
+            kind: 'text',
+            text: ad.text,
+            source: 'broadcast',
+            metadata: expect.objectContaining({ campaignId: 7, adTtlMinutes: 45, source: 'slot', slot: 'morning', framework: 'AIDA' }),
+        }));
+    });
+
+    it('skips chats that got an ad within the cooldown', async () => {
+        chats = [{ id: '-2001' }, { id: '-2002' }];
+        await marketingService.broadcastAd(null, campaign, ad, { source: 'slot' });
+        vi.mocked(outboxService.enqueue).mockClear();
+
+        chats = [{ id: '-2001' }, { id: '-2002' }, { id: '-2003' }];
+        expect(await marketingService.broadcastAd(null, campaign, ad, { source: 'manual' })).toBe(1);
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ jid: '-2003' }));
+    });
+});
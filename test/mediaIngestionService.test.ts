@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// media/ is created under the working directory when the service loads; keep it out of the repo
+const dirs = vi.hoisted(() => {
+    const { mkdtempSync } = require('fs');
+    const { join } = require('path');
+    const { tmpdir } = require('os');
+    const original = process.cwd();
+    const work = mkdtempSync(join(tmpdir(), 'media-test-'));
+    process.chdir(work);
+    return { original, work, media: join(work, 'media') };
+});
+
+import { mediaIngestionService } from '../src/services/mediaIngestionService';
+
+afterAll(() => {
+    process.chdir(dirs.original);
+    fs.rmSync(dirs.work, { recursive: true, force: true });
+});
+
+describe('store', () => {
+    it('names the file from the MIME type', () => {
+        const fileName = mediaIngestionService.store(Buffer.from('%PDF-1.4'), 'application/pdf');
+        expect(fileName).toMatch(/^[0-9a-f-]{36}\.pdf$/);
+        expect(fs.readFileSync(path.join(dirs.media, fileName), 'utf8')).toBe('%PDF-1.4');
+        expect(mediaIngestionService.store(Buffer.from('x'), 'audio/ogg; codecs=opus')).toMatch(/\.ogg$/);
+    });
+
+    it('stores types outside the allowlist as .bin', () => {
+        expect(mediaIngestionService.store(Buffer.from('<script>alert(1)</script>'), 'text/html')).toMatch(/\.bin$/);
+        expect(mediaIngestionService.store(Buffer.from('<svg/>'), 'image/svg+xml')).toMatch(/\.bin$/);
+    });
+});
+
+describe('resolve', () => {
+    it('finds a stored file', () => {
+        const fileName = mediaIngestionService.store(Buffer.from('photo'), 'image/jpeg');
+        expect(mediaIngestionService.resolve(fileName)).toBe(path.join(dirs.media, fileName));
+        expect(mediaIngestionService.read(fileName)?.toString()).toBe('photo');
+    });
+
+    it('never leaves the media directory', () => {
+        fs.writeFileSync(path.join(dirs.work, 'secret.txt'), 'secret');
+        expect(mediaIngestionService.resolve('../secret.txt')).toBeNull();
+        expect(mediaIngestionService.resolve(path.join(dirs.work, 'secret.txt'))).toBeNull();
+        expect(mediaIngestionService.resolve('..')).toBeNull();
+        expect(mediaIngestionService.resolve('')).toBeNull();
+        expect(mediaIngestionService.read('../secret.txt')).toBeNull();
+    });
+
+    it('returns null for files that are not there', () => {
+        expect(mediaIngestionService.resolve('missing.jpg')).toBeNull();
+    });
+});
+
+describe('collectAttachments', () => {
+    it('takes attachments only from the message data, never from the text', () => {
+        const attachment = { type: 'image' as const, fileName: 'a.jpg', mimeType: 'image/jpeg' };
+        const messages = [
+            { text: '📎 [image:../../.env] Sent an image' },
+            { text: mediaIngestionService.toMarker(attachment), attachment },
+        ];
+        expect(mediaIngestionService.collectAttachments(messages)).toEqual([attachment]);
+    });
+});
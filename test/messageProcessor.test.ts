@@ -0,0 +1,131 @@
+import { asc, eq } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 1), onSent: vi.fn() },
+}));
+vi.mock('../src/services/ai/tools', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../src/services/ai/tools')>(),
+    executeLocalTool: vi.fn(async (name: string, args: any) => name === 'get_current_time' ? '10:00 AM' : { found: args }),
+}));
+
+import { messageProcessor } from '../src/core/messageProcessor';
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { contacts, messageLogs } from '../src/database/schema';
+import { geminiService } from '../src/services/ai/gemini';
+import { executeLocalTool } from '../src/services/ai/tools';
+import { outboxService } from '../src/services/outboxService';
+import { systemSettingsService } from '../src/services/systemSettings';
+
+const WHATSAPP_CHAT = '254711000001@s.whatsapp.net';
+const TELEGRAM_CHAT = '5550001';
+
+const generateReply = vi.spyOn(geminiService, 'generateReply');
+vi.spyOn(geminiService, 'updateProfile').mockResolvedValue(null);
+
+function toolCalls(...calls: [string, any][]) {
+    const functionCalls = calls.map(([name, args]) => ({ name, args }));
+    return { type: 'tool_call' as const, functionCalls, modelTurn: { role: 'model', parts: functionCalls.map(call => ({ functionCall: call })) } };
+}
+
+function adapter(platform: 'whatsapp' | 'telegram', ownsJid: (jid: string) => boolean) {
+    return { platform, ownsJid, isReady: () => true, sendReply: vi.fn(), sendReplyImage: vi.fn() };
+}
+
+async function logs(jid: string) {
+    const rows = await db.select().from(messageLogs).where(eq(messageLogs.contactPhone, jid)).orderBy(asc(messageLogs.id));
+    return rows.map(m => [m.role, m.content, m.platform]);
+}
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    messageProcessor.registerPlatform(adapter('whatsapp', jid => jid.includes('@')));
+    messageProcessor.registerPlatform(adapter('telegram', jid => /^-?\d+$/.test(jid)));
+    await db.insert(contacts).values([
+        { phone: WHATSAPP_CHAT, name: 'Wanjiru', isVerified: true },
+        { phone: TELEGRAM_CHAT, name: 'Otieno', isVerified: true, platform: 'telegram' },
+    ]);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    generateReply.mockReset();
+    await db.delete(messageLogs);
+    await systemSettingsService.set('chat_agent_enabled', 'true');
+});
+
+describe('processBatch', () => {
+    it.each([
+        ['whatsapp', WHATSAPP_CHAT],
+        ['telegram', TELEGRAM_CHAT],
+    ])('answers a %s chat through the shared pipeline', async (platform, jid) => {
+        generateReply.mockResolvedValueOnce({ type: 'text', content: 'We open at 8.' });
+
+        await messageProcessor.processBatch(jid, [{ text: 'Hi' }, { text: 'When do you open?' }]);
+
+        expect(generateReply).toHaveBeenCalledTimes(1);
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ jid, platform, text: 'We open at 8.', source: 'ai_reply' }));
+        expect(await logs(jid)).toEqual([
+            ['user', 'Hi\nWhen do you open?', platform],
+            ['agent', 'We open at 8.', platform],
+        ]);
+    });
+
+    it('only logs Telegram messages while the chat agent is off, as on WhatsApp', async () => {
+        await systemSettingsService.set('chat_agent_enabled', 'false');
+
+        await messageProcessor.processBatch(TELEGRAM_CHAT, [{ text: 'Hello?' }]);
+
+        expect(generateReply).not.toHaveBeenCalled();
+        expect(outboxService.enqueue).not.toHaveBeenCalled();
+        expect(await logs(TELEGRAM_CHAT)).toEqual([['user', 'Hello?', 'telegram']]);
+    });
+});
+
+describe('tool loop', () => {
+    it('runs every call of a model turn and answers them in one function turn, in call order', async () => {
+        generateReply
+            .mockResolvedValueOnce(toolCalls(['search_products', { query: 'shoes' }], ['get_current_time', {}]))
+            .mockResolvedValueOnce({ type: 'text', content: 'We have shoes, and it is 10:00 AM.' });
+
+        await messageProcessor.processBatch(WHATSAPP_CHAT, [{ text: 'Shoes? What time is it?' }]);
+
+        expect(executeLocalTool).toHaveBeenCalledTimes(2);
+        const conversation = generateReply.mock.calls[1][0];
+        expect(conversation.slice(-2)).toEqual([
+            toolCalls(['search_products', { query: 'shoes' }], ['get_current_time', {}]).modelTurn,
+            {
+                role: 'function',
+                parts: [
+                    { functionResponse: { name: 'search_products', response: { found: { query: 'shoes' } } } },
+                    { functionResponse: { name: 'get_current_time', response: { result: '10:00 AM' } } },
+                ],
+            },
+        ]);
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ text: 'We have shoes, and it is 10:00 AM.' }));
+    });
+
+    it('forces an answer without tools once the model keeps calling them', async () => {
+        let calls = 0;
+        generateReply.mockImplementation(async (_conversation, _context, _isOwner, _ai, _user, _prompt, options) =>
+            options?.allowTools === false
+                ? { type: 'text', content: 'Here is what I found.' }
+                : toolCalls(['search_products', { query: `shoes ${++calls}` }]));
+
+        await messageProcessor.processBatch(WHATSAPP_CHAT, [{ text: 'Find me shoes' }]);
+
+        expect(executeLocalTool).toHaveBeenCalledTimes(5);
+        expect(generateReply).toHaveBeenCalledTimes(7);
+        const [conversation, , , , , , options] = generateReply.mock.calls[6];
+        expect(options?.allowTools).toBe(false);
+        expect(conversation[conversation.length - 1].parts[0].text).toMatch(/^\[System: Maximum tool calls reached\./);
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ text: 'Here is what I found.' }));
+    });
+});
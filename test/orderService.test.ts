@@ -0,0 +1,154 @@
+import { eq } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/notificationService', () => ({
+    notificationService: { notifyOwner: vi.fn(async () => {}) },
+}));
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 1) },
+}));
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { contacts, products, shops } from '../src/database/schema';
+import { Order, OrderCustomer, orderService } from '../src/services/orderService';
+import { notificationService } from '../src/services/notificationService';
+import { outboxService } from '../src/services/outboxService';
+
+let customer: OrderCustomer;
+let shopId: number;
+let chat = 0;
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    [{ id: shopId }] = await db.insert(shops).values({ name: 'Test shop' }).returning({ id: shops.id });
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    // A new chat per test, so every test starts without a draft
+    const phone = `2547000${String(++chat).padStart(5, '0')}@s.whatsapp.net`;
+    const [contact] = await db.insert(contacts).values({ phone, name: 'Wanjiru' }).returning();
+    customer = contact;
+});
+
+async function addProduct(stock: number, price = 100): Promise<number> {
+    const [product] = await db.insert(products).values({ shopId, name: `Item ${stock}/${price}`, price, stock }).returning({ id: products.id });
+    return product.id;
+}
+
+async function stockOf(productId: number): Promise<number | null> {
+    const [product] = await db.select().from(products).where(eq(products.id, productId));
+    return product.stock;
+}
+
+describe('validateStatusChange', () => {
+    const order = (status: string) => ({ status } as Order);
+
+    it('allows the owner transitions', () => {
+        expect(orderService.validateStatusChange(order('pending'), 'paid')).toBeNull();
+        expect(orderService.validateStatusChange(order('pending'), 'cancelled')).toBeNull();
+        expect(orderService.validateStatusChange(order('paid'), 'dispatched')).toBeNull();
+        expect(orderService.validateStatusChange(order('dispatched'), 'delivered')).toBeNull();
+    });
+
+    it('refuses moving backwards or skipping ahead', () => {
+        expect(orderService.validateStatusChange(order('paid'), 'pending')).toBe('A paid order can only become dispatched or cancelled');
+        expect(orderService.validateStatusChange(order('pending'), 'delivered')).toMatch(/can only become/);
+    });
+
+    it('refuses changing drafts and finished orders', () => {
+        expect(orderService.validateStatusChange(order('draft'), 'pending')).toBe("A draft order can't be changed");
+        expect(orderService.validateStatusChange(order('delivered'), 'cancelled')).toBe("A delivered order can't be changed");
+        expect(orderService.validateStatusChange(order('cancelled'), 'paid')).toBe("A cancelled order can't be changed");
+    });
+
+    it('refuses unknown statuses', () => {
+        expect(orderService.validateStatusChange(order('pending'), 'lost')).toMatch(/^status must be one of/);
+    });
+});
+
+describe('confirm', () => {
+    it('places the draft, takes the stock and alerts the owner', async () => {
+        const productId = await addProduct(5, 250);
+        await orderService.setItem(customer, productId, 2);
+
+        const order = await orderService.confirm(customer.phone, 'Deliver to Westlands');
+        expect(order).toMatchObject({ status: 'pending', total: 500, notes: 'Deliver to Westlands' });
+        expect(await stockOf(productId)).toBe(3);
+        expect(await orderService.getDraft(customer.phone)).toBeNull();
+        expect(notificationService.notifyOwner).toHaveBeenCalledWith(expect.stringContaining(`New order #${order.id}`));
+    });
+
+    it('takes nothing and keeps the draft when an item has run out', async () => {
+        const plenty = await addProduct(10);
+        const scarce = await addProduct(3);
+        await orderService.setItem(customer, plenty, 2);
+        await orderService.setItem(customer, scarce, 3);
+        await db.update(products).set({ stock: 1 }).where(eq(products.id, scarce));
+
+        await expect(orderService.confirm(customer.phone)).rejects.toThrow(/Not enough .* left in stock/);
+        expect(await stockOf(plenty)).toBe(10);
+        expect(await stockOf(scarce)).toBe(1);
+        expect(await orderService.getDraft(customer.phone)).toMatchObject({ status: 'draft', confirmedAt: null });
+        expect(notificationService.notifyOwner).not.toHaveBeenCalled();
+    });
+
+    it('refuses an empty order', async () => {
+        await expect(orderService.confirm(customer.phone)).rejects.toThrow('The order has no items yet');
+    });
+});
+
+describe('updateStatus', () => {
+    async function placeOrder(stock: number, quantity: number) {
+        const productId = await addProduct(stock);
+        await orderService.setItem(customer, productId, quantity);
+        return { productId, order: await orderService.confirm(customer.phone) };
+    }
+
+    it('moves the order on and messages the customer', async () => {
+        const { order } = await placeOrder(5, 1);
+
+        const paid = await orderService.updateStatus(order, 'paid');
+        expect(paid?.status).toBe('paid');
+        expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+            jid: customer.phone,
+            metadata: { orderId: order.id, status: 'paid' },
+        }));
+    });
+
+    it('puts the stock back when a pending or paid order is cancelled', async () => {
+        const { productId, order } = await placeOrder(5, 2);
+        const paid = (await orderService.updateStatus(order, 'paid'))!;
+
+        await orderService.updateStatus(paid, 'cancelled');
+        expect(await stockOf(productId)).toBe(5);
+    });
+
+    it('keeps the stock out when a dispatched order is cancelled', async () => {
+        const { productId, order } = await placeOrder(5, 2);
+        const dispatched = (await orderService.updateStatus(order, 'dispatched'))!;
+
+        await orderService.updateStatus(dispatched, 'cancelled');
+        expect(await stockOf(productId)).toBe(3);
+    });
+
+    it('changes nothing when the order moved on since it was read', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { productId, order } = await placeOrder(5, 2);
+        await orderService.updateStatus(order, 'cancelled');
+        vi.mocked(outboxService.enqueue).mockClear();
+
+        // Still holds the pending order read before the cancel
+        expect(await orderService.updateStatus(order, 'paid')).toBeNull();
+        expect(await orderService.updateStatus(order, 'cancelled')).toBeNull();
+        expect((await orderService.get(order.id))?.status).toBe('cancelled');
+        expect(await stockOf(productId)).toBe(5);
+        expect(outboxService.enqueue).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,211 @@
+import { eq } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const platforms = vi.hoisted(() => ({ adapters: new Map<string, any>() }));
+vi.mock('../src/core/messageProcessor', () => ({
+    messageProcessor: { getPlatformAdapter: (platform: string) => platforms.adapters.get(platform) },
+}));
+vi.mock('../src/utils/rateLimiter', () => ({
+    outboundMessageLimiter: { execute: async (fn: () => Promise<any>) => await fn() },
+}));
+vi.mock('../src/services/mediaIngestionService', () => ({
+    mediaIngestionService: { store: vi.fn(), read: vi.fn(() => null) },
+}));
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { outboundMessages } from '../src/database/schema';
+import { outboxService } from '../src/services/outboxService';
+
+const ALICE = '254711000001@s.whatsapp.net';
+const BOB = '254711000002@s.whatsapp.net';
+let sentIds = 0;
+
+function adapter(platform: string) {
+    return {
+        platform,
+        isReady: vi.fn(() => true),
+        sendReply: vi.fn(async (_jid: string, _text: string) => ({ id: `${platform}-${++sentIds}` })),
+        sendReplyImage: vi.fn(),
+    };
+}
+
+let whatsapp: ReturnType<typeof adapter>;
+let telegram: ReturnType<typeof adapter>;
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    await db.delete(outboundMessages);
+    whatsapp = adapter('whatsapp');
+    telegram = adapter('telegram');
+    platforms.adapters.set('whatsapp', whatsapp);
+    platforms.adapters.set('telegram', telegram);
+});
+
+// Rows are written directly so each test controls exactly when dispatch runs
+async function queue(jid: string, content: string, values: Partial<typeof outboundMessages.$inferInsert> = {}): Promise<number> {
+    const [row] = await db.insert(outboundMessages).values({
+        platform: jid.includes('@') ? 'whatsapp' : 'telegram',
+        jid,
+        content,
+        source: 'ai_reply',
+        ...values,
+    }).returning({ id: outboundMessages.id });
+    return row.id;
+}
+
+async function row(id: number) {
+    const [found] = await db.select().from(outboundMessages).where(eq(outboundMessages.id, id));
+    return found;
+}
+
+async function makeDue(id: number) {
+    await db.update(outboundMessages).set({ nextAttemptAt: new Date() }).where(eq(outboundMessages.id, id));
+}
+
+describe('dispatch', () => {
+    it('sends due messages and records the platform message id', async () => {
+        const handler = vi.fn(async () => {});
+        outboxService.onSent('broadcast', handler);
+        const id = await queue(ALICE, 'Hello', { source: 'broadcast' });
+
+        await outboxService.dispatch();
+        expect(whatsapp.sendReply).toHaveBeenCalledWith(ALICE, 'Hello', undefined);
+        expect(await row(id)).toMatchObject({ status: 'sent', attempts: 1, externalId: `whatsapp-${sentIds}`, lastError: null });
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id }), { id: `whatsapp-${sentIds}` });
+    });
+
+    it('quotes the message a group reply answers', async () => {
+        const quoted = { key: { id: 'ABC' } };
+        await queue('120363000000000000@g.us', 'Sure', { metadata: { quoted } });
+
+        await outboxService.dispatch();
+        expect(whatsapp.sendReply).toHaveBeenCalledWith('120363000000000000@g.us', 'Sure', { quoted });
+    });
+
+    it('retries a failed send with exponential backoff, then gives up', async () => {
+        whatsapp.sendReply.mockRejectedValue(new Error('Connection Closed'));
+        const id = await queue(ALICE, 'Hello');
+
+        let before = Date.now();
+        await outboxService.dispatch();
+        let failed = await row(id);
+        expect(failed).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Connection Closed' });
+        expect(failed.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(10_000);
+        expect(failed.nextAttemptAt!.getTime() - before).toBeLessThan(12_000);
+
+        // Not due yet: nothing is sent
+        await outboxService.dispatch();
+        expect(whatsapp.sendReply).toHaveBeenCalledTimes(1);
+
+        await makeDue(id);
+        before = Date.now();
+        await outboxService.dispatch();
+        failed = await row(id);
+        expect(failed.attempts).toBe(2);
+        expect(failed.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(20_000);
+
+        for (let attempt = 3; attempt <= 8; attempt++) {
+            await makeDue(id);
+            await outboxService.dispatch();
+        }
+        expect(await row(id)).toMatchObject({ status: 'failed', attempts: 8 });
+    });
+
+    it('holds later messages to a recipient until the earlier one is sent', async () => {
+        whatsapp.sendReply.mockImplementation(async (jid: string, text: string) => {
+            if (text === 'first') throw new Error('timeout');
+            return { id: `whatsapp-${++sentIds}` };
+        });
+        const first = await queue(ALICE, 'first');
+        const second = await queue(ALICE, 'second');
+        const other = await queue(BOB, 'other');
+
+        await outboxService.dispatch();
+        expect((await row(first)).status).toBe('pending');
+        expect(await row(second)).toMatchObject({ status: 'pending', attempts: 0 });
+        expect((await row(other)).status).toBe('sent');
+
+        whatsapp.sendReply.mockClear();
+        whatsapp.sendReply.mockImplementation(async () => ({ id: `whatsapp-${++sentIds}` }));
+        await makeDue(first);
+        await outboxService.dispatch();
+        await outboxService.dispatch();
+        expect(whatsapp.sendReply.mock.calls.map(call => call[1])).toEqual(['first', 'second']);
+    });
+
+    it('applies an ack that arrives before the send is recorded', async () => {
+        whatsapp.sendReply.mockImplementation(async () => {
+            const id = `whatsapp-${++sentIds}`;
+            await outboxService.updateAck(id, 'delivered');
+            return { id };
+        });
+        const id = await queue(ALICE, 'Hello');
+
+        await outboxService.dispatch();
+        expect(await row(id)).toMatchObject({ status: 'delivered' });
+        expect((await row(id)).deliveredAt).toBeInstanceOf(Date);
+    });
+
+    it('leaves messages for an offline platform waiting without holding up the others', async () => {
+        whatsapp.isReady.mockReturnValue(false);
+        const waiting: number[] = [];
+        for (let i = 0; i < 25; i++) waiting.push(await queue(`2547110${String(i).padStart(5, '0')}@s.whatsapp.net`, `hi ${i}`));
+        const telegramId = await queue('123456789', 'Hello from Telegram');
+
+        await outboxService.dispatch();
+        expect(whatsapp.sendReply).not.toHaveBeenCalled();
+        expect(telegram.sendReply).toHaveBeenCalledTimes(1);
+        expect((await row(telegramId)).status).toBe('sent');
+        for (const id of waiting) {
+            expect(await row(id)).toMatchObject({ status: 'pending', attempts: 0 });
+        }
+
+        whatsapp.isReady.mockReturnValue(true);
+        await outboxService.dispatch();
+        expect(whatsapp.sendReply).toHaveBeenCalledTimes(25);
+    });
+
+    it('gives up on messages whose platform stayed offline for a day', async () => {
+        platforms.adapters.delete('whatsapp');
+        const stale = await queue(ALICE, 'old', { createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) });
+        const fresh = await queue(BOB, 'new');
+
+        await outboxService.dispatch();
+        expect(await row(stale)).toMatchObject({ status: 'failed', lastError: 'whatsapp was unavailable for 24h' });
+        expect((await row(fresh)).status).toBe('pending');
+    });
+});
+
+describe('updateAck', () => {
+    it('only moves the status forward', async () => {
+        const id = await queue(ALICE, 'Hello');
+        await outboxService.dispatch();
+        const { externalId } = await row(id);
+
+        await outboxService.updateAck(externalId!, 'read');
+        await outboxService.updateAck(externalId!, 'delivered');
+        expect(await row(id)).toMatchObject({ status: 'read' });
+        expect((await row(id)).readAt).toBeInstanceOf(Date);
+    });
+});
+
+describe('enqueue', () => {
+    it('writes the row and wakes the worker', async () => {
+        const id = await outboxService.enqueue({ jid: '987654321', text: 'Queued', source: 'notification' });
+
+        expect((await row(id)).platform).toBe('telegram');
+        await vi.waitFor(async () => expect((await row(id)).status).toBe('sent'));
+        expect(telegram.sendReply).toHaveBeenCalledWith('987654321', 'Queued', undefined);
+    });
+});
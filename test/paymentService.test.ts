@@ -0,0 +1,166 @@
+import { eq } from 'drizzle-orm';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/notificationService', () => ({
+    notificationService: { notifyOwner: vi.fn(async () => {}) },
+}));
+vi.mock('../src/services/outboxService', () => ({
+    outboxService: { enqueue: vi.fn(async () => 1) },
+}));
+
+import { config } from '../src/config/env';
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { contacts, payments, products, shops } from '../src/database/schema';
+import { OrderWithItems, orderService } from '../src/services/orderService';
+import { paymentService } from '../src/services/payments/paymentService';
+import { notificationService } from '../src/services/notificationService';
+
+let shopId: number;
+let chat = 0;
+let checkout = 0;
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+    [{ id: shopId }] = await db.insert(shops).values({ name: 'Test shop' }).returning({ id: shops.id });
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+async function placeOrder(total: number): Promise<OrderWithItems> {
+    const phone = `2547100${String(++chat).padStart(5, '0')}@s.whatsapp.net`;
+    const [customer] = await db.insert(contacts).values({ phone }).returning();
+    const [product] = await db.insert(products).values({ shopId, name: `Item ${chat}`, price: total, stock: 5 }).returning({ id: products.id });
+    await orderService.setItem(customer, product.id, 1);
+    return await orderService.confirm(phone);
+}
+
+async function promptFor(order: OrderWithItems): Promise<string> {
+    const checkoutRequestId = `ws_CO_test_${++checkout}`;
+    await db.insert(payments).values({
+        orderId: order.id,
+        contactId: order.contactId,
+        provider: 'mpesa',
+        phone: '254710000000',
+        amount: order.total,
+        checkoutRequestId,
+    });
+    return checkoutRequestId;
+}
+
+function callback(checkoutRequestId: string, resultCode: number, metadata: Record<string, unknown> = {}) {
+    const items = Object.entries(metadata).map(([Name, Value]) => ({ Name, Value }));
+    return {
+        Body: {
+            stkCallback: {
+                MerchantRequestID: 'm-1',
+                CheckoutRequestID: checkoutRequestId,
+                ResultCode: resultCode,
+                ResultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'Request cancelled by user',
+                ...(items.length > 0 ? { CallbackMetadata: { Item: items } } : {}),
+            },
+        },
+    };
+}
+
+async function paymentFor(checkoutRequestId: string) {
+    const [payment] = await db.select().from(payments).where(eq(payments.checkoutRequestId, checkoutRequestId));
+    return payment;
+}
+
+describe('isValidCallbackToken', () => {
+    const configured = config.mpesa.callbackToken;
+    afterEach(() => {
+        config.mpesa.callbackToken = configured;
+    });
+
+    it('accepts only the configured token', () => {
+        config.mpesa.callbackToken = 's3cret-token';
+        expect(paymentService.isValidCallbackToken('s3cret-token')).toBe(true);
+        expect(paymentService.isValidCallbackToken('s3cret-tokem')).toBe(false);
+        expect(paymentService.isValidCallbackToken('s3cret')).toBe(false);
+        expect(paymentService.isValidCallbackToken(undefined)).toBe(false);
+        expect(paymentService.isValidCallbackToken(['s3cret-token'])).toBe(false);
+    });
+
+    it('refuses every callback when no token is configured', () => {
+        config.mpesa.callbackToken = undefined;
+        expect(paymentService.isValidCallbackToken('')).toBe(false);
+        expect(paymentService.isValidCallbackToken(undefined)).toBe(false);
+        expect(paymentService.isValidCallbackToken('anything')).toBe(false);
+    });
+});
+
+describe('handleCallback', () => {
+    it('ignores bodies that are not STK callbacks', async () => {
+        expect(await paymentService.handleCallback({ hello: 'world' })).toBe(false);
+    });
+
+    it('marks the order paid when the full amount arrives', async () => {
+        const order = await placeOrder(500);
+        const id = await promptFor(order);
+
+        expect(await paymentService.handleCallback(callback(id, 0, { Amount: 500, MpesaReceiptNumber: 'QKJ4ABC123', PhoneNumber: 254710000000 }))).toBe(true);
+        expect(await paymentFor(id)).toMatchObject({ status: 'success', amountPaid: 500, receiptNumber: 'QKJ4ABC123' });
+        expect((await orderService.get(order.id))?.status).toBe('paid');
+        expect(notificationService.notifyOwner).toHaveBeenCalledWith(expect.stringContaining('Payment received'));
+    });
+
+    it('ignores a repeated callback for the same request', async () => {
+        const order = await placeOrder(500);
+        const id = await promptFor(order);
+        await paymentService.handleCallback(callback(id, 0, { Amount: 500, MpesaReceiptNumber: 'QKJ4ABC124' }));
+        vi.mocked(notificationService.notifyOwner).mockClear();
+
+        expect(await paymentService.handleCallback(callback(id, 1032))).toBe(true);
+        expect((await paymentFor(id)).status).toBe('success');
+        expect(notificationService.notifyOwner).not.toHaveBeenCalled();
+    });
+
+    it('does not mark the order paid when the confirmation has no amount', async () => {
+        const order = await placeOrder(500);
+        const id = await promptFor(order);
+
+        await paymentService.handleCallback(callback(id, 0, { MpesaReceiptNumber: 'QKJ4ABC125' }));
+        expect(await paymentFor(id)).toMatchObject({ status: 'success', amountPaid: null });
+        expect((await orderService.get(order.id))?.status).toBe('pending');
+        expect(notificationService.notifyOwner).toHaveBeenCalledWith(expect.stringContaining('without an amount'));
+    });
+
+    it('does not mark the order paid for a short payment', async () => {
+        const order = await placeOrder(500);
+        const id = await promptFor(order);
+
+        await paymentService.handleCallback(callback(id, 0, { Amount: 499.99, MpesaReceiptNumber: 'QKJ4ABC126' }));
+        expect((await paymentFor(id)).amountPaid).toBe(499);
+        expect((await orderService.get(order.id))?.status).toBe('pending');
+        expect(notificationService.notifyOwner).toHaveBeenCalledWith(expect.stringContaining('Short M-Pesa payment'));
+    });
+
+    it('does not revive an order cancelled while the payment was in flight', async () => {
+        const order = await placeOrder(500);
+        const id = await promptFor(order);
+        await orderService.updateStatus(order, 'cancelled');
+
+        await paymentService.handleCallback(callback(id, 0, { Amount: 500, MpesaReceiptNumber: 'QKJ4ABC127' }));
+        expect((await orderService.get(order.id))?.status).toBe('cancelled');
+        expect(notificationService.notifyOwner).toHaveBeenCalledWith(expect.stringContaining(`Payment for cancelled order #${order.id}`));
+    });
+
+    it('records a failed prompt and leaves the order pending', async () => {
+        const order = await placeOrder(500);
+        const id = await promptFor(order);
+
+        await paymentService.handleCallback(callback(id, 1032));
+        expect(await paymentFor(id)).toMatchObject({ status: 'failed', resultCode: 1032 });
+        expect((await orderService.get(order.id))?.status).toBe('pending');
+    });
+});
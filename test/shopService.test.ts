@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { products, shops } from '../src/database/schema';
+import { executeLocalTool } from '../src/services/ai/tools';
+import { shopService } from '../src/services/shopService';
+
+const PIXEL = Buffer.from('89504e470d0a1a0a', 'hex');
+const customer = { contact: { phone: '254711000001@s.whatsapp.net', isVerified: false } };
+
+let ids: Record<string, number> = {};
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+
+    const [boutique] = await db.insert(shops).values({ name: 'Mama Boutique' }).returning();
+    const [studio] = await db.insert(shops).values({ name: 'Lens Studio', type: 'career' }).returning();
+    const rows = await db.insert(products).values([
+        { shopId: boutique.id, name: 'Red cotton dress', description: 'Knee length', price: 2500, stock: 3, imageUrl: `data:image/png;base64,${PIXEL.toString('base64')}` },
+        { shopId: boutique.id, name: 'Red silk scarf', description: '100% silk', price: 900, stock: 0 },
+        { shopId: boutique.id, name: 'Blue cotton dress', price: 2300, stock: 1 },
+        { shopId: studio.id, name: 'Wedding photography', description: 'Full day coverage', price: 0, stock: 0, imageUrls: ['data:image/jpeg;base64,AAAA', `data:image/png;base64,${PIXEL.toString('base64')}`] },
+    ]).returning();
+    ids = Object.fromEntries(rows.map(row => [row.name, row.id]));
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+describe('searchCatalog', () => {
+    it('needs every word of the query and hides shop items that are out of stock', async () => {
+        expect((await shopService.searchCatalog('red')).map(i => i.name)).toEqual(['Red cotton dress']);
+        expect((await shopService.searchCatalog('cotton dress')).map(i => i.name)).toEqual(['Blue cotton dress', 'Red cotton dress']);
+        expect((await shopService.searchCatalog('boutique blue')).map(i => i.name)).toEqual(['Blue cotton dress']);
+    });
+
+    it('lists portfolio items without a price or stock, and filters by shop type', async () => {
+        expect(await shopService.searchCatalog('wedding')).toEqual([{
+            id: ids['Wedding photography'], name: 'Wedding photography', description: 'Full day coverage', shopName: 'Lens Studio',
+            shopType: 'career', price: null, stock: null, photoCount: 2,
+        }]);
+        expect((await shopService.searchCatalog('', { type: 'career' })).map(i => i.name)).toEqual(['Wedding photography']);
+        expect((await shopService.searchCatalog('', { type: 'shop' })).map(i => i.name)).toEqual(['Blue cotton dress', 'Red cotton dress']);
+    });
+
+    it('treats LIKE wildcards in the query as plain text', async () => {
+        expect(await shopService.searchCatalog('%')).toEqual([]);
+        expect(await shopService.searchCatalog('_')).toEqual([]);
+    });
+});
+
+describe('catalog tools', () => {
+    it('returns product details with a price note, and nothing for hidden products', async () => {
+        const dress = await executeLocalTool('get_product_details', { product_id: ids['Red cotton dress'] }, customer);
+        expect(dress).toEqual({ result: expect.objectContaining({ name: 'Red cotton dress', price: 2500, stock: 3, note: 'Price 2500, 3 in stock.' }) });
+
+        expect(await executeLocalTool('get_product_details', { product_id: ids['Red silk scarf'] }, customer))
+            .toEqual({ error: "That product doesn't exist or is out of stock." });
+    });
+
+    it('sends the requested photo with the price as caption', async () => {
+        const sent = await executeLocalTool('send_product_photo', { product_id: ids['Red cotton dress'] }, customer);
+        expect(sent).toEqual({
+            result: '[PHOTO_SENT] Red cotton dress (photo 1 of 1)',
+            _data: { type: 'image_buffer', data: PIXEL, mimeType: 'image/png', caption: 'Red cotton dress - 2500' },
+        });
+
+        const portfolio = await executeLocalTool('send_product_photo', { product_id: ids['Wedding photography'], photo_number: 9 }, customer);
+        expect(portfolio).toMatchObject({ result: '[PHOTO_SENT] Wedding photography (photo 2 of 2)', _data: { mimeType: 'image/png', caption: 'Wedding photography' } });
+
+        expect(await executeLocalTool('send_product_photo', { product_id: ids['Blue cotton dress'] }, customer))
+            .toEqual({ error: 'Blue cotton dress has no photos.' });
+    });
+
+    it('tells the agent when a search finds nothing', async () => {
+        expect(await executeLocalTool('search_products', { query: 'laptop' }, customer)).toEqual({ result: 'No available items match "laptop".' });
+    });
+});
@@ -0,0 +1,133 @@
+import { eq } from 'drizzle-orm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { closeDatabase, db } from '../src/database';
+import { initializeDatabase } from '../src/database/initialize';
+import { contacts } from '../src/database/schema';
+import { takeoverService } from '../src/services/takeoverService';
+import { pauseAiForContact, resumeAiForContact } from '../src/services/ai/ownerTools';
+
+const WANJIRU = '254711000001@s.whatsapp.net';
+const WANJIKU = '254711000002@s.whatsapp.net';
+const OTIENO = '254722000003@s.whatsapp.net';
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await initializeDatabase()).toBe(true);
+});
+
+afterAll(async () => {
+    await closeDatabase();
+});
+
+beforeEach(async () => {
+    await db.delete(contacts);
+    await db.insert(contacts).values([
+        { phone: WANJIRU, name: 'Wanjiru Kamau', lastSeenAt: new Date(Date.now() - 60_000) },
+        { phone: WANJIKU, name: 'Wanjiku', confirmedName: 'Wanjiku Njeri', lastSeenAt: new Date() },
+        { phone: OTIENO, name: 'Otieno', lastSeenAt: new Date(Date.now() - 120_000) },
+    ]);
+});
+
+async function pausedState(jid: string) {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.phone, jid));
+    return contact.aiPaused;
+}
+
+describe('pause and resume', () => {
+    it('pauses a contact until handed back', async () => {
+        expect(await takeoverService.pause(WANJIRU, 'owner')).toBe(true);
+        expect(await takeoverService.isPaused(WANJIRU)).toBe(true);
+        expect(await takeoverService.getState(WANJIRU)).toMatchObject({ paused: true, pausedBy: 'owner', pausedUntil: null });
+
+        expect(await takeoverService.resume(WANJIRU)).toBe(true);
+        expect(await takeoverService.isPaused(WANJIRU)).toBe(false);
+    });
+
+    it('hands the chat back once a timed takeover runs out', async () => {
+        await takeoverService.pause(WANJIRU, 'dashboard', 30);
+        expect(await takeoverService.isPaused(WANJIRU)).toBe(true);
+
+        await db.update(contacts).set({ aiPausedUntil: new Date(Date.now() - 1000) }).where(eq(contacts.phone, WANJIRU));
+        expect(await takeoverService.isPaused(WANJIRU)).toBe(false);
+        expect(await pausedState(WANJIRU)).toBe(false);
+    });
+
+    it('reports unknown contacts', async () => {
+        expect(await takeoverService.pause('254799999999@s.whatsapp.net', 'owner')).toBe(false);
+        expect(await takeoverService.resume('254799999999@s.whatsapp.net')).toBe(false);
+    });
+
+    it('pauses automatically when the owner replies by hand, without overriding a manual takeover', async () => {
+        await takeoverService.handleOwnerReply(WANJIRU);
+        expect(await takeoverService.getState(WANJIRU)).toMatchObject({ paused: true, pausedBy: 'auto' });
+
+        await takeoverService.pause(OTIENO, 'owner', 10);
+        await takeoverService.handleOwnerReply(OTIENO);
+        expect(await takeoverService.getState(OTIENO)).toMatchObject({ paused: true, pausedBy: 'owner' });
+    });
+});
+
+describe('findContact', () => {
+    it('matches an exact JID', async () => {
+        expect((await takeoverService.findContact(OTIENO)).contact?.phone).toBe(OTIENO);
+    });
+
+    it('prefers an exact name over partial matches', async () => {
+        const { contact, candidates } = await takeoverService.findContact('wanjiku');
+        expect(contact?.phone).toBe(WANJIKU);
+        expect(candidates).toEqual([]);
+        expect((await takeoverService.findContact('Wanjiku Njeri')).contact?.phone).toBe(WANJIKU);
+    });
+
+    it('accepts a partial match only when it is the only one', async () => {
+        expect((await takeoverService.findContact('tien')).contact?.phone).toBe(OTIENO);
+        expect((await takeoverService.findContact('722000003')).contact?.phone).toBe(OTIENO);
+
+        const { contact, candidates } = await takeoverService.findContact('Wanji');
+        expect(contact).toBeNull();
+        expect(candidates.map(c => c.phone)).toEqual([WANJIKU, WANJIRU]);
+    });
+
+    it('treats LIKE wildcards as plain characters', async () => {
+        expect(await takeoverService.findContact('%%%')).toEqual({ contact: null, candidates: [] });
+        expect(await takeoverService.findContact('___')).toEqual({ contact: null, candidates: [] });
+    });
+
+    it('refuses empty and very short queries', async () => {
+        expect(takeoverService.validateContactQuery('')).not.toBeNull();
+        expect(takeoverService.validateContactQuery('  a ')).not.toBeNull();
+        expect(takeoverService.validateContactQuery(undefined)).not.toBeNull();
+        expect(takeoverService.validateContactQuery('Ann')).toBeNull();
+        expect(await takeoverService.findContact('')).toEqual({ contact: null, candidates: [] });
+    });
+});
+
+describe('owner takeover tools', () => {
+    it('pauses and resumes the one matching contact', async () => {
+        expect(await pauseAiForContact('Otieno', 15)).toMatch(/AI paused for Otieno for 15 minutes/);
+        expect(await pausedState(OTIENO)).toBe(true);
+
+        expect(await resumeAiForContact('Otieno')).toMatch(/Otieno handed back to the AI/);
+        expect(await pausedState(OTIENO)).toBe(false);
+    });
+
+    it('never pauses anyone for a blank query', async () => {
+        expect(await pauseAiForContact(undefined as any)).toMatch(/^❌ Give the contact's phone number or name/);
+        expect(await pauseAiForContact('  ')).toMatch(/^❌/);
+        expect(await db.select().from(contacts).where(eq(contacts.aiPaused, true))).toEqual([]);
+    });
+
+    it('asks the owner to choose when several contacts match', async () => {
+        const reply = await pauseAiForContact('Wanji');
+        expect(reply).toMatch(/Several contacts match "Wanji"/);
+        expect(reply).toContain(WANJIRU);
+        expect(reply).toContain(WANJIKU);
+        expect(await db.select().from(contacts).where(eq(contacts.aiPaused, true))).toEqual([]);
+    });
+
+    it('says when nobody matches', async () => {
+        expect(await resumeAiForContact('Kipchoge')).toBe('❌ No contact found matching "Kipchoge".');
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/auditService', () => ({
+    auditService: { record: vi.fn(async () => {}) },
+}));
+
+import { GROUP_TOOLS, ToolCaller, getToolCaller, isToolAllowed, recordDeniedCall } from '../src/services/ai/toolPolicy';
+import { auditService } from '../src/services/auditService';
+
+const OWNER = '254700000001@s.whatsapp.net';
+
+function caller(overrides: Partial<ToolCaller> = {}): ToolCaller {
+    return { jid: '254711111111@s.whatsapp.net', isOwner: false, isVerified: false, isGroup: false, ...overrides };
+}
+
+describe('getToolCaller', () => {
+    it('recognises the owner, who counts as verified', () => {
+        expect(getToolCaller({ phone: OWNER })).toMatchObject({ isOwner: true, isVerified: true, isGroup: false });
+    });
+
+    it('takes verification from the contact record', () => {
+        expect(getToolCaller({ phone: '254711111111@s.whatsapp.net', isVerified: true })).toMatchObject({ isOwner: false, isVerified: true });
+        expect(getToolCaller({ phone: '254711111111@s.whatsapp.net' })).toMatchObject({ isOwner: false, isVerified: false });
+    });
+
+    it('treats WhatsApp groups and negative Telegram chat ids as groups', () => {
+        expect(getToolCaller({ phone: '120363000000000000@g.us' }).isGroup).toBe(true);
+        expect(getToolCaller({ phone: '-1001234567890' }).isGroup).toBe(true);
+    });
+
+    it('gives a missing contact no rights', () => {
+        expect(getToolCaller(null)).toMatchObject({ jid: '', isOwner: false, isVerified: false, isGroup: false });
+    });
+});
+
+describe('isToolAllowed', () => {
+    const owner = caller({ jid: OWNER, isOwner: true, isVerified: true });
+    const verified = caller({ isVerified: true });
+    const stranger = caller();
+    const group = caller({ jid: '120363000000000000@g.us', isGroup: true });
+
+    it('keeps owner tools to the owner', () => {
+        expect(isToolAllowed('search_messages', owner)).toBe(true);
+        expect(isToolAllowed('search_messages', verified)).toBe(false);
+        expect(isToolAllowed('search_messages', stranger)).toBe(false);
+        expect(isToolAllowed('search_messages', group)).toBe(false);
+    });
+
+    it('lets the owner and verified contacts use verified tools in direct chats', () => {
+        expect(isToolAllowed('confirm_order', owner)).toBe(true);
+        expect(isToolAllowed('confirm_order', verified)).toBe(true);
+        expect(isToolAllowed('confirm_order', stranger)).toBe(false);
+        expect(isToolAllowed('confirm_order', group)).toBe(false);
+    });
+
+    it('lets every chat use anyone tools', () => {
+        for (const who of [owner, verified, stranger, group]) {
+            expect(isToolAllowed('search_products', who)).toBe(true);
+        }
+    });
+
+    it('keeps group tools to groups', () => {
+        expect(isToolAllowed('message_admins', group)).toBe(true);
+        expect(isToolAllowed('message_admins', owner)).toBe(false);
+    });
+
+    it('treats tools missing from the policy as owner-only', () => {
+        expect(isToolAllowed('some_new_tool', owner)).toBe(true);
+        expect(isToolAllowed('some_new_tool', verified)).toBe(false);
+    });
+
+    it('lets allowedTools narrow the policy but never widen it', () => {
+        expect(isToolAllowed('search_products', caller({ allowedTools: ['get_current_time'] }))).toBe(false);
+        expect(isToolAllowed('get_current_time', caller({ allowedTools: ['get_current_time'] }))).toBe(true);
+        expect(isToolAllowed('search_messages', caller({ allowedTools: ['search_messages'] }))).toBe(false);
+    });
+});
+
+describe('GROUP_TOOLS', () => {
+    it('only offers tools a group chat may use', () => {
+        const group = caller({ isGroup: true });
+        expect(GROUP_TOOLS).toContain('message_admins');
+        expect(GROUP_TOOLS).not.toContain('update_contact_info');
+        expect(GROUP_TOOLS.every(name => isToolAllowed(name, group))).toBe(true);
+    });
+});
+
+describe('recordDeniedCall', () => {
+    it('audits the refused call with the audience it needed', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        await recordDeniedCall('search_messages', { query: 'x' }, caller());
+        expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+            actor: 'agent',
+            action: 'tool_denied',
+            target: 'search_messages',
+            details: expect.objectContaining({ requires: 'owner', args: { query: 'x' } }),
+        }));
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/services/ai/gemini', () => ({
+    geminiService: {
+        transcribeAudio: vi.fn(async () => 'Niko njiani'),
+        synthesizeSpeech: vi.fn(async () => Buffer.from('RIFF....WAVE')),
+    },
+}));
+vi.mock('../src/services/systemSettings', () => ({
+    systemSettingsService: { isVoiceRepliesEnabled: vi.fn(async () => true) },
+}));
+
+import { config } from '../src/config/env';
+import { VOICE_NOTE_PREFIX, VoiceNoteService } from '../src/services/voiceNoteService';
+
+describe('transcribe', () => {
+    it('flags the transcript as a voice note', async () => {
+        const message = await new VoiceNoteService().transcribe(Buffer.from('ogg'), 'audio/ogg; codecs=opus');
+        expect(message).toEqual({ text: `${VOICE_NOTE_PREFIX}Niko njiani`, voiceNote: true });
+    });
+});
+
+describe('isVoiceBatch', () => {
+    it('counts only batches where every message was spoken', () => {
+        const service = new VoiceNoteService();
+        expect(service.isVoiceBatch([{ text: 'a', voiceNote: true }])).toBe(true);
+        expect(service.isVoiceBatch([{ text: 'a', voiceNote: true }, { text: 'b' }])).toBe(false);
+        expect(service.isVoiceBatch([{ text: `${VOICE_NOTE_PREFIX}typed by hand` }])).toBe(false);
+        expect(service.isVoiceBatch([])).toBe(false);
+    });
+});
+
+describe('synthesize', () => {
+    it('falls back to WAV without ffmpeg, warning once', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const ffmpegPath = config.ffmpegPath;
+        config.ffmpegPath = '/nonexistent/ffmpeg';
+        try {
+            const service = new VoiceNoteService();
+            expect(await service.synthesize('Habari')).toEqual({ audio: Buffer.from('RIFF....WAVE'), mimetype: 'audio/wav' });
+            expect(await service.synthesize('Habari tena')).toMatchObject({ mimetype: 'audio/wav' });
+            expect(warn).toHaveBeenCalledTimes(1);
+            expect(warn.mock.calls[0][0]).toMatch(/ffmpeg unavailable at '\/nonexistent\/ffmpeg'/);
+        } finally {
+            config.ffmpegPath = ffmpegPath;
+        }
+    });
+});
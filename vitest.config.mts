@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['test/**/*.test.ts'],
+        // Each file gets its own in-memory database; run them one at a time to keep memory down
+        fileParallelism: false,
+        env: {
+            NODE_ENV: 'test',
+            DATABASE_URL: 'pglite://memory',
+            OWNER_PHONE_NUMBER: '254700000001',
+        },
+    },
+});